@@ -0,0 +1,190 @@
+"use client";
+
+import { useState, FormEvent } from "react";
+import type { ArchiveCollection, RestoreMode, RestoreReport } from "@/lib/site-archive";
+
+const MODE_LABELS: Record<RestoreMode, string> = {
+  merge: "Merge - add what's missing and keep existing content",
+  replace: "Replace - delete all content here and restore the backup",
+};
+
+const COLLECTION_LABELS: Record<ArchiveCollection, string> = {
+  posts: "Posts",
+  revisions: "Revisions",
+  comments: "Comments",
+  categories: "Categories",
+  tags: "Tags",
+  series: "Series",
+  projects: "Projects",
+  projectCategories: "Project categories",
+  media: "Media",
+};
+
+export default function AdminBackupPage() {
+  const [includeMedia, setIncludeMedia] = useState(true);
+  const [file, setFile] = useState<File | null>(null);
+  const [mode, setMode] = useState<RestoreMode>("merge");
+  const [report, setReport] = useState<RestoreReport | null>(null);
+  const [restoring, setRestoring] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleRestore = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!file) return;
+
+    const message = mode === "replace"
+      ? "Replace all posts, projects, comments and settings with this backup? Everything not in it is deleted."
+      : "Restore this backup into the site? Existing content is kept.";
+    if (!confirm(message)) return;
+
+    try {
+      setRestoring(true);
+      setReport(null);
+      setError(null);
+
+      const formData = new FormData();
+      formData.append("file", file);
+      formData.append("mode", mode);
+
+      const response = await fetch("/api/admin/restore", {
+        method: "POST",
+        body: formData,
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to restore site");
+      }
+      setReport(data.report);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to restore site");
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  return (
+    <div>
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold">Backup</h1>
+        <p className="text-gray-600 dark:text-gray-400 mt-2">
+          Download everything - posts with their revisions and comments, categories, tags, series, projects,
+          settings and media - as one archive, and restore it here or on another install. The format is described
+          in docs/export-format.md.
+        </p>
+      </div>
+
+      {error && (
+        <div className="mb-4 p-4 bg-red-100 dark:bg-red-900/20 text-red-800 dark:text-red-400 rounded-lg">
+          {error}
+        </div>
+      )}
+
+      <div className="space-y-6">
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6 space-y-4">
+          <h2 className="text-lg font-semibold">Export</h2>
+          <label className="flex items-center gap-2 text-sm">
+            <input
+              type="checkbox"
+              checked={includeMedia}
+              onChange={(e) => setIncludeMedia(e.target.checked)}
+            />
+            Include media files (ZIP) - without them you get the JSON only
+          </label>
+          <a
+            href={`/api/admin/export?media=${includeMedia}`}
+            className="inline-block px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+          >
+            Download Backup
+          </a>
+        </div>
+
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6 space-y-4">
+          <h2 className="text-lg font-semibold">Markdown Export</h2>
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            Every published post as a Markdown file with YAML front matter (title, slug, dates, author, excerpt,
+            category, tags and cover image) - for static site generators, or to import elsewhere. Drafts and
+            scheduled posts are left out, and this can't be restored from.
+          </p>
+          <a
+            href="/api/admin/export/markdown"
+            className="inline-block px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+          >
+            Download Markdown
+          </a>
+        </div>
+
+        <form onSubmit={handleRestore} className="bg-white dark:bg-gray-800 rounded-lg shadow p-6 space-y-4">
+          <h2 className="text-lg font-semibold">Restore</h2>
+          <div>
+            <label className="block text-sm font-medium mb-1">Backup file</label>
+            <input
+              type="file"
+              accept=".zip,.json,application/zip,application/json"
+              onChange={(e) => {
+                setFile(e.target.files?.[0] || null);
+                setReport(null);
+                setError(null);
+              }}
+              className="block w-full text-sm"
+              required
+            />
+            <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+              Authors, reviewers and commenters are matched to accounts here by email. Posts by someone without an
+              account become yours.
+            </p>
+          </div>
+
+          <fieldset>
+            <legend className="block text-sm font-medium mb-1">Mode</legend>
+            <div className="space-y-1">
+              {(Object.keys(MODE_LABELS) as RestoreMode[]).map((option) => (
+                <label key={option} className="flex items-center gap-2 text-sm">
+                  <input
+                    type="radio"
+                    name="mode"
+                    value={option}
+                    checked={mode === option}
+                    onChange={() => setMode(option)}
+                  />
+                  {MODE_LABELS[option]}
+                </label>
+              ))}
+            </div>
+          </fieldset>
+
+          <button
+            type="submit"
+            disabled={!file || restoring}
+            className={`px-4 py-2 text-white rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+              mode === "replace" ? "bg-red-600 hover:bg-red-700" : "bg-blue-600 hover:bg-blue-700"
+            }`}
+          >
+            {restoring ? "Restoring..." : "Restore Backup"}
+          </button>
+        </form>
+
+        {report && (
+          <div className="bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 rounded-lg p-6 space-y-3">
+            <h2 className="text-lg font-semibold text-green-800 dark:text-green-200">Restore complete</h2>
+            <ul className="text-sm space-y-1">
+              {(Object.keys(COLLECTION_LABELS) as ArchiveCollection[]).map((collection) => (
+                <li key={collection}>
+                  {COLLECTION_LABELS[collection]}: <strong>{report.created[collection]}</strong> restored
+                  {report.skipped[collection] > 0 && `, ${report.skipped[collection]} already here or skipped`}
+                </li>
+              ))}
+              <li>Settings: {report.settingsRestored ? "restored" : "kept as they were"}</li>
+            </ul>
+            {report.warnings.length > 0 && (
+              <ul className="list-disc pl-5 text-sm text-gray-600 dark:text-gray-400 space-y-1">
+                {report.warnings.map((warning, index) => (
+                  <li key={index}>{warning}</li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { Suspense, useState, useEffect } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
 import Link from "next/link";
 
 interface User {
@@ -22,17 +23,27 @@ interface Post {
 interface ParentComment {
   id: string;
   content: string;
+  nickname: string | null;
   user: {
     name: string | null;
-  };
+  } | null;
 }
 
+type CommentStatus = "PENDING" | "APPROVED" | "SPAM" | "REJECTED";
+
 interface Comment {
   id: string;
   content: string;
+  status: CommentStatus;
   createdAt: string;
   updatedAt: string;
-  user: User;
+  user: User | null;
+  nickname: string | null;
+  email: string | null;
+  displayName: string;
+  ipAddress: string | null;
+  spamScore: number | null;
+  spamReasons: string[];
   post: Post;
   parent: ParentComment | null;
   _count: {
@@ -47,14 +58,39 @@ interface Pagination {
   totalPages: number;
 }
 
-export default function AdminCommentsPage() {
+type FilterType = "all" | "pending" | "approved" | "spam" | "rejected";
+
+const FILTER_TABS: { value: FilterType; label: string; status?: CommentStatus }[] = [
+  { value: "pending", label: "Queue", status: "PENDING" },
+  { value: "approved", label: "Approved", status: "APPROVED" },
+  { value: "spam", label: "Spam", status: "SPAM" },
+  { value: "rejected", label: "Rejected", status: "REJECTED" },
+  { value: "all", label: "All" },
+];
+
+const STATUS_BADGES: Record<CommentStatus, { label: string; className: string }> = {
+  PENDING: { label: "Pending", className: "bg-yellow-100 dark:bg-yellow-900/20 text-yellow-800 dark:text-yellow-300" },
+  APPROVED: { label: "Approved", className: "bg-green-100 dark:bg-green-900/20 text-green-800 dark:text-green-300" },
+  SPAM: { label: "Spam", className: "bg-red-100 dark:bg-red-900/20 text-red-800 dark:text-red-300" },
+  REJECTED: { label: "Rejected", className: "bg-gray-100 dark:bg-gray-700 text-gray-800 dark:text-gray-300" },
+};
+
+function parseFilter(value: string | null): FilterType {
+  return FILTER_TABS.some((tab) => tab.value === value) ? (value as FilterType) : "all";
+}
+
+function AdminCommentsContent() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
   const [comments, setComments] = useState<Comment[]>([]);
   const [posts, setPosts] = useState<Post[]>([]);
   const [pagination, setPagination] = useState<Pagination | null>(null);
+  const [statusCounts, setStatusCounts] = useState<Record<CommentStatus, number> | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
   // Filters
+  const [filter, setFilter] = useState<FilterType>(parseFilter(searchParams.get("status")));
   const [selectedPost, setSelectedPost] = useState<string>("");
   const [searchQuery, setSearchQuery] = useState<string>("");
   const [currentPage, setCurrentPage] = useState(1);
@@ -67,14 +103,26 @@ export default function AdminCommentsPage() {
   const [replyingTo, setReplyingTo] = useState<Comment | null>(null);
   const [replyContent, setReplyContent] = useState("");
 
+  // Bulk selection
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [moderating, setModerating] = useState(false);
+
+  useEffect(() => {
+    // Update filter when URL changes
+    setFilter(parseFilter(searchParams.get("status")));
+    setCurrentPage(1);
+  }, [searchParams]);
+
   useEffect(() => {
     fetchComments();
-  }, [selectedPost, currentPage]);
+  }, [filter, selectedPost, currentPage]);
 
   const fetchComments = async () => {
     try {
       setLoading(true);
       const params = new URLSearchParams();
+      const status = FILTER_TABS.find((tab) => tab.value === filter)?.status;
+      if (status) params.set("status", status);
       if (selectedPost) params.set("postId", selectedPost);
       if (searchQuery) params.set("search", searchQuery);
       params.set("page", currentPage.toString());
@@ -86,6 +134,8 @@ export default function AdminCommentsPage() {
       setComments(data.comments);
       setPosts(data.posts);
       setPagination(data.pagination);
+      setStatusCounts(data.statusCounts);
+      setSelectedIds([]);
     } catch (err) {
       setError(err instanceof Error ? err.message : "Failed to load comments");
     } finally {
@@ -93,6 +143,50 @@ export default function AdminCommentsPage() {
     }
   };
 
+  const handleFilterChange = (newFilter: FilterType) => {
+    // Update URL without full page reload
+    const params = new URLSearchParams(searchParams.toString());
+    if (newFilter === "all") {
+      params.delete("status");
+    } else {
+      params.set("status", newFilter);
+    }
+    router.push(`/admin/comments${params.toString() ? `?${params.toString()}` : ""}`);
+  };
+
+  const handleModerate = async (ids: string[], status: CommentStatus) => {
+    if (ids.length === 0) return;
+
+    try {
+      setModerating(true);
+      const response = await fetch("/api/admin/comments", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ids, status }),
+      });
+
+      if (response.ok) {
+        fetchComments();
+      } else {
+        alert("Failed to update comments");
+      }
+    } catch (error) {
+      alert("Failed to update comments");
+    } finally {
+      setModerating(false);
+    }
+  };
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds((prev) =>
+      prev.includes(id) ? prev.filter((selectedId) => selectedId !== id) : [...prev, id]
+    );
+  };
+
+  const toggleSelectAll = () => {
+    setSelectedIds(selectedIds.length === comments.length ? [] : comments.map((comment) => comment.id));
+  };
+
   const handleSearch = (e: React.FormEvent) => {
     e.preventDefault();
     setCurrentPage(1);
@@ -212,6 +306,30 @@ export default function AdminCommentsPage() {
         </p>
       </div>
 
+      {/* Status Tabs */}
+      <div className="flex flex-wrap gap-2 mb-6">
+        {FILTER_TABS.map((tab) => {
+          const count = tab.status
+            ? statusCounts?.[tab.status]
+            : statusCounts && Object.values(statusCounts).reduce((sum, value) => sum + value, 0);
+
+          return (
+            <button
+              key={tab.value}
+              onClick={() => handleFilterChange(tab.value)}
+              className={`px-4 py-2 rounded-lg font-medium transition-colors ${
+                filter === tab.value
+                  ? "bg-blue-600 text-white"
+                  : "bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600"
+              }`}
+            >
+              {tab.label}
+              {count !== undefined && count !== null && ` (${count})`}
+            </button>
+          );
+        })}
+      </div>
+
       {/* Filters */}
       <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-4 mb-6">
         <div className="flex flex-col md:flex-row gap-4">
@@ -263,13 +381,51 @@ export default function AdminCommentsPage() {
         </div>
       )}
 
-      {/* Stats */}
-      <div className="mb-6 text-sm text-gray-600 dark:text-gray-400">
-        {pagination && (
-          <span>
-            Showing {comments.length} of {pagination.totalCount} comments
-            {selectedPost && " (filtered)"}
-          </span>
+      {/* Stats and Bulk Actions */}
+      <div className="mb-6 flex flex-wrap items-center justify-between gap-4 text-sm text-gray-600 dark:text-gray-400">
+        <div className="flex items-center gap-3">
+          {comments.length > 0 && (
+            <input
+              type="checkbox"
+              checked={selectedIds.length === comments.length}
+              onChange={toggleSelectAll}
+              className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+              aria-label="Select all comments on this page"
+            />
+          )}
+          {pagination && (
+            <span>
+              Showing {comments.length} of {pagination.totalCount} comments
+              {selectedPost && " (filtered)"}
+            </span>
+          )}
+        </div>
+
+        {selectedIds.length > 0 && (
+          <div className="flex items-center gap-2">
+            <span>{selectedIds.length} selected</span>
+            <button
+              onClick={() => handleModerate(selectedIds, "APPROVED")}
+              disabled={moderating}
+              className="px-3 py-1.5 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50"
+            >
+              Approve
+            </button>
+            <button
+              onClick={() => handleModerate(selectedIds, "REJECTED")}
+              disabled={moderating}
+              className="px-3 py-1.5 bg-gray-600 text-white rounded-lg hover:bg-gray-700 disabled:opacity-50"
+            >
+              Reject
+            </button>
+            <button
+              onClick={() => handleModerate(selectedIds, "SPAM")}
+              disabled={moderating}
+              className="px-3 py-1.5 bg-red-600 text-white rounded-lg hover:bg-red-700 disabled:opacity-50"
+            >
+              Spam
+            </button>
+          </div>
         )}
       </div>
 
@@ -277,7 +433,11 @@ export default function AdminCommentsPage() {
       {comments.length === 0 ? (
         <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-12 text-center">
           <p className="text-gray-600 dark:text-gray-400">
-            {selectedPost || searchQuery ? "No comments match your filters" : "No comments yet"}
+            {filter === "pending"
+              ? "The moderation queue is empty"
+              : selectedPost || searchQuery || filter !== "all"
+                ? "No comments match your filters"
+                : "No comments yet"}
           </p>
         </div>
       ) : (
@@ -290,21 +450,34 @@ export default function AdminCommentsPage() {
               {/* Comment Header */}
               <div className="flex items-start justify-between mb-3">
                 <div className="flex items-center gap-3">
-                  {comment.user.image ? (
+                  <input
+                    type="checkbox"
+                    checked={selectedIds.includes(comment.id)}
+                    onChange={() => toggleSelected(comment.id)}
+                    className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                    aria-label="Select comment"
+                  />
+                  {comment.user?.image ? (
                     <img
                       src={comment.user.image}
-                      alt={comment.user.name || "User"}
+                      alt={comment.displayName}
                       className="w-10 h-10 rounded-full"
                     />
                   ) : (
                     <div className="w-10 h-10 rounded-full bg-gray-600 flex items-center justify-center text-white font-semibold">
-                      {(comment.user.name || comment.user.email || "A")[0].toUpperCase()}
+                      {(comment.displayName || "A")[0].toUpperCase()}
                     </div>
                   )}
                   <div>
-                    <p className="font-medium">{comment.user.name || "Anonymous"}</p>
+                    <p className="font-medium flex items-center gap-2">
+                      {comment.displayName}
+                      <span className={`inline-flex px-2 py-0.5 text-xs font-semibold rounded-full ${STATUS_BADGES[comment.status].className}`}>
+                        {STATUS_BADGES[comment.status].label}
+                      </span>
+                    </p>
                     <p className="text-sm text-gray-500 dark:text-gray-400">
-                      {comment.user.email}
+                      {comment.user?.email || comment.email || (comment.user ? "" : "Anonymous visitor")}
+                      {comment.ipAddress && ` · ${comment.ipAddress}`}
                     </p>
                   </div>
                 </div>
@@ -329,7 +502,7 @@ export default function AdminCommentsPage() {
               {comment.parent && (
                 <div className="mb-3 p-2 bg-gray-50 dark:bg-gray-700 rounded text-sm">
                   <span className="text-gray-500 dark:text-gray-400">Reply to </span>
-                  <span className="font-medium">{comment.parent.user.name || "Anonymous"}</span>
+                  <span className="font-medium">{comment.parent.user?.name || comment.parent.nickname || "Anonymous"}</span>
                   <span className="text-gray-500 dark:text-gray-400">: </span>
                   <span className="text-gray-600 dark:text-gray-300">
                     {comment.parent.content.substring(0, 100)}
@@ -368,6 +541,20 @@ export default function AdminCommentsPage() {
                 </p>
               )}
 
+              {/* Spam Score */}
+              {comment.spamReasons.length > 0 && (
+                <div className="mb-3 p-3 bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded-lg text-sm">
+                  <p className="font-medium text-yellow-800 dark:text-yellow-300">
+                    Spam score: {comment.spamScore}
+                  </p>
+                  <ul className="list-disc list-inside text-yellow-700 dark:text-yellow-400 mt-1">
+                    {comment.spamReasons.map((reason) => (
+                      <li key={reason}>{reason}</li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
               {/* Reply Form */}
               {replyingTo?.id === comment.id && (
                 <div className="mb-3 p-3 bg-blue-50 dark:bg-blue-900/20 rounded-lg">
@@ -399,6 +586,33 @@ export default function AdminCommentsPage() {
               {/* Actions */}
               <div className="flex items-center justify-between pt-3 border-t border-gray-200 dark:border-gray-700">
                 <div className="flex gap-4">
+                  {comment.status !== "APPROVED" && (
+                    <button
+                      onClick={() => handleModerate([comment.id], "APPROVED")}
+                      disabled={moderating}
+                      className="text-sm text-green-600 dark:text-green-400 hover:underline disabled:opacity-50"
+                    >
+                      Approve
+                    </button>
+                  )}
+                  {comment.status !== "REJECTED" && (
+                    <button
+                      onClick={() => handleModerate([comment.id], "REJECTED")}
+                      disabled={moderating}
+                      className="text-sm text-gray-600 dark:text-gray-400 hover:underline disabled:opacity-50"
+                    >
+                      Reject
+                    </button>
+                  )}
+                  {comment.status !== "SPAM" && (
+                    <button
+                      onClick={() => handleModerate([comment.id], "SPAM")}
+                      disabled={moderating}
+                      className="text-sm text-red-600 dark:text-red-400 hover:underline disabled:opacity-50"
+                    >
+                      Spam
+                    </button>
+                  )}
                   <button
                     onClick={() => startReply(comment)}
                     className="text-sm text-blue-600 dark:text-blue-400 hover:underline"
@@ -454,3 +668,19 @@ export default function AdminCommentsPage() {
     </div>
   );
 }
+
+function LoadingFallback() {
+  return (
+    <div className="flex items-center justify-center min-h-[400px]">
+      <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+    </div>
+  );
+}
+
+export default function AdminCommentsPage() {
+  return (
+    <Suspense fallback={<LoadingFallback />}>
+      <AdminCommentsContent />
+    </Suspense>
+  );
+}
@@ -0,0 +1,261 @@
+"use client";
+
+import { useState, FormEvent } from "react";
+import Link from "next/link";
+import type { ConflictStrategy, ImportReport } from "@/lib/blog-import";
+import type { ImportSource } from "@/lib/import-formats";
+
+const SOURCE_LABELS: Record<ImportSource, string> = {
+  wordpress: "WordPress",
+  ghost: "Ghost",
+};
+
+const CONFLICT_LABELS: Record<ConflictStrategy, string> = {
+  skip: "Skip posts whose slug is taken",
+  rename: "Import them with a numbered slug (my-post-2)",
+};
+
+export default function AdminImportPage() {
+  const [file, setFile] = useState<File | null>(null);
+  const [onConflict, setOnConflict] = useState<ConflictStrategy>("skip");
+  const [report, setReport] = useState<ImportReport | null>(null);
+  const [imported, setImported] = useState<ImportReport | null>(null);
+  const [working, setWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // The report only holds for the file and conflict choice it was made with
+  const resetReport = () => {
+    setReport(null);
+    setImported(null);
+    setError(null);
+  };
+
+  const submit = async (dryRun: boolean) => {
+    if (!file) return null;
+
+    const formData = new FormData();
+    formData.append("file", file);
+    formData.append("onConflict", onConflict);
+    formData.append("dryRun", String(dryRun));
+
+    const response = await fetch("/api/admin/import", {
+      method: "POST",
+      body: formData,
+    });
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error || "Failed to import posts");
+    }
+    return data.report as ImportReport;
+  };
+
+  const handleAnalyze = async (e: FormEvent) => {
+    e.preventDefault();
+    try {
+      setWorking(true);
+      resetReport();
+      setReport(await submit(true));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to analyze file");
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!report || !confirm(`Import ${report.posts.create} posts? This can't be undone in one step.`)) return;
+    try {
+      setWorking(true);
+      setError(null);
+      setImported(await submit(false));
+      setReport(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to import posts");
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  return (
+    <div>
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold">Import</h1>
+        <p className="text-gray-600 dark:text-gray-400 mt-2">
+          Move posts, categories, tags and approved comments over from WordPress or Ghost. Original slugs and
+          publish dates are kept, and content is sanitized like everything written here.
+        </p>
+      </div>
+
+      {error && (
+        <div className="mb-4 p-4 bg-red-100 dark:bg-red-900/20 text-red-800 dark:text-red-400 rounded-lg">
+          {error}
+        </div>
+      )}
+
+      <div className="space-y-6">
+        <form onSubmit={handleAnalyze} className="bg-white dark:bg-gray-800 rounded-lg shadow p-6 space-y-4">
+          <div>
+            <label className="block text-sm font-medium mb-1">Export file</label>
+            <input
+              type="file"
+              accept=".xml,.json,application/xml,text/xml,application/json"
+              onChange={(e) => {
+                setFile(e.target.files?.[0] || null);
+                resetReport();
+              }}
+              className="block w-full text-sm"
+              required
+            />
+            <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+              WordPress: Tools → Export → All content (.xml). Ghost: Settings → Advanced → Import/Export → Export
+              your content (.json).
+            </p>
+          </div>
+
+          <fieldset>
+            <legend className="block text-sm font-medium mb-1">When a slug is already taken</legend>
+            <div className="space-y-1">
+              {(Object.keys(CONFLICT_LABELS) as ConflictStrategy[]).map((strategy) => (
+                <label key={strategy} className="flex items-center gap-2 text-sm">
+                  <input
+                    type="radio"
+                    name="onConflict"
+                    value={strategy}
+                    checked={onConflict === strategy}
+                    onChange={() => {
+                      setOnConflict(strategy);
+                      resetReport();
+                    }}
+                  />
+                  {CONFLICT_LABELS[strategy]}
+                </label>
+              ))}
+            </div>
+          </fieldset>
+
+          <button
+            type="submit"
+            disabled={!file || working}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {working && !report ? "Analyzing..." : "Analyze (Dry Run)"}
+          </button>
+        </form>
+
+        {report && (
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6 space-y-4">
+            <h2 className="text-lg font-semibold">
+              Dry run: {SOURCE_LABELS[report.source]} export
+            </h2>
+            <ReportSummary report={report} future />
+
+            {report.conflicts.length > 0 && (
+              <div>
+                <h3 className="font-medium mb-2">Conflicts ({report.conflicts.length})</h3>
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead className="text-left text-gray-500 dark:text-gray-400">
+                      <tr>
+                        <th className="py-2 pr-4">Post</th>
+                        <th className="py-2 pr-4">Slug</th>
+                        <th className="py-2 pr-4">Problem</th>
+                        <th className="py-2">Result</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                      {report.conflicts.map((conflict, index) => (
+                        <tr key={index}>
+                          <td className="py-2 pr-4">{conflict.title}</td>
+                          <td className="py-2 pr-4 font-mono">{conflict.slug}</td>
+                          <td className="py-2 pr-4">{conflict.reason}</td>
+                          <td className="py-2">
+                            {conflict.renamedTo ? (
+                              <span>
+                                Imported as <span className="font-mono">{conflict.renamedTo}</span>
+                              </span>
+                            ) : (
+                              <span className="text-yellow-700 dark:text-yellow-400">Skipped</span>
+                            )}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            )}
+
+            {report.warnings.length > 0 && (
+              <div>
+                <h3 className="font-medium mb-2">Notes</h3>
+                <ul className="list-disc pl-5 text-sm text-gray-600 dark:text-gray-400 space-y-1">
+                  {report.warnings.map((warning, index) => (
+                    <li key={index}>{warning}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            <button
+              type="button"
+              onClick={handleImport}
+              disabled={working || report.posts.create === 0}
+              className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {working ? "Importing..." : `Import ${report.posts.create} Posts`}
+            </button>
+          </div>
+        )}
+
+        {imported && imported.failed && (
+          <div className="bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded-lg p-6 space-y-3">
+            <h2 className="text-lg font-semibold text-yellow-800 dark:text-yellow-200">Import stopped</h2>
+            <p className="text-sm text-yellow-800 dark:text-yellow-200">
+              &quot;{imported.failed.title}&quot; ({imported.failed.slug}) could not be imported: {imported.failed.error}. The
+              posts before it were imported and stay. Fix the problem and import the same file again with
+              &quot;{CONFLICT_LABELS.skip}&quot; to continue - the posts already imported will show up as conflicts.
+            </p>
+            <ReportSummary report={imported} />
+          </div>
+        )}
+
+        {imported && !imported.failed && (
+          <div className="bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 rounded-lg p-6 space-y-3">
+            <h2 className="text-lg font-semibold text-green-800 dark:text-green-200">Import complete</h2>
+            <ReportSummary report={imported} />
+            <Link href="/admin/posts" className="inline-block text-blue-600 dark:text-blue-400 hover:underline">
+              View posts →
+            </Link>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function ReportSummary({ report, future = false }: { report: ImportReport; future?: boolean }) {
+  const verb = future ? "will be" : "were";
+
+  return (
+    <ul className="text-sm space-y-1">
+      <li>
+        <strong>{report.posts.create}</strong> of {report.posts.total} posts {verb} imported
+        {report.posts.skip > 0 && `, ${report.posts.skip} skipped`}
+      </li>
+      <li>
+        <strong>{report.categories.create}</strong> new categories, {report.categories.existing} matched existing ones
+      </li>
+      <li>
+        <strong>{report.tags.create}</strong> new tags, {report.tags.existing} matched existing ones
+      </li>
+      <li>
+        <strong>{report.comments}</strong> approved comments
+      </li>
+      {report.unmatchedAuthors > 0 && (
+        <li className="text-gray-600 dark:text-gray-400">
+          {report.unmatchedAuthors} posts {verb} attributed to you - their authors have no staff account here
+        </li>
+      )}
+    </ul>
+  );
+}
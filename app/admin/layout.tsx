@@ -4,6 +4,24 @@ import { useSession } from "next-auth/react";
 import { useRouter } from "next/navigation";
 import Link from "next/link";
 import { useEffect } from "react";
+import { hasPermission, Permission } from "@/lib/permissions";
+
+// Sections are hidden from roles that can't use them
+const NAV_LINKS: { href: string; label: string; permission?: Permission }[] = [
+  { href: "/admin", label: "Dashboard" },
+  { href: "/admin/posts", label: "Posts" },
+  { href: "/admin/comments", label: "Comments", permission: "comments:moderate" },
+  { href: "/admin/newsletter", label: "Newsletter", permission: "newsletter:manage" },
+  { href: "/admin/media", label: "Media", permission: "media:upload" },
+  { href: "/admin/categories", label: "Categories & Tags", permission: "taxonomy:manage" },
+  { href: "/admin/series", label: "Series", permission: "taxonomy:manage" },
+  { href: "/admin/projects", label: "Projects", permission: "projects:manage" },
+  { href: "/admin/users", label: "Users", permission: "users:manage" },
+  { href: "/admin/import", label: "Import", permission: "settings:manage" },
+  { href: "/admin/backup", label: "Backup", permission: "settings:manage" },
+  { href: "/admin/settings", label: "Settings", permission: "settings:manage" },
+  { href: "/admin/profile", label: "Your Profile" },
+];
 
 export default function AdminLayout({
   children,
@@ -16,7 +34,7 @@ export default function AdminLayout({
   useEffect(() => {
     if (status === "loading") return;
 
-    if (!session?.user || session.user.role !== "ADMIN") {
+    if (!session?.user || !hasPermission(session.user, "admin:access")) {
       router.push("/auth/signin?callbackUrl=/admin");
     }
   }, [session, status, router]);
@@ -29,7 +47,7 @@ export default function AdminLayout({
     );
   }
 
-  if (!session?.user || session.user.role !== "ADMIN") {
+  if (!session?.user || !hasPermission(session.user, "admin:access")) {
     return null;
   }
 
@@ -41,42 +59,17 @@ export default function AdminLayout({
           <div className="p-6">
             <h2 className="text-2xl font-bold mb-8">Admin Panel</h2>
             <nav className="space-y-2">
-              <Link
-                href="/admin"
-                className="block px-4 py-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
-              >
-                Dashboard
-              </Link>
-              <Link
-                href="/admin/posts"
-                className="block px-4 py-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
-              >
-                Posts
-              </Link>
-              <Link
-                href="/admin/comments"
-                className="block px-4 py-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
-              >
-                Comments
-              </Link>
-              <Link
-                href="/admin/categories"
-                className="block px-4 py-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
-              >
-                Categories & Tags
-              </Link>
-              <Link
-                href="/admin/projects"
-                className="block px-4 py-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
-              >
-                Projects
-              </Link>
-              <Link
-                href="/admin/settings"
-                className="block px-4 py-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
-              >
-                Settings
-              </Link>
+              {NAV_LINKS.filter(
+                (link) => !link.permission || hasPermission(session.user, link.permission)
+              ).map((link) => (
+                <Link
+                  key={link.href}
+                  href={link.href}
+                  className="block px-4 py-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+                >
+                  {link.label}
+                </Link>
+              ))}
               <Link
                 href="/blog"
                 className="block px-4 py-2 rounded-lg text-blue-600 dark:text-blue-400 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
@@ -0,0 +1,20 @@
+"use client";
+
+import MediaLibrary from "@/components/admin/MediaLibrary";
+
+export default function AdminMediaPage() {
+  return (
+    <div>
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold">Media Library</h1>
+        <p className="text-gray-600 dark:text-gray-400 mt-1">
+          Upload and manage images used across posts, projects and settings
+        </p>
+      </div>
+
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6">
+        <MediaLibrary />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,443 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import Link from "next/link";
+
+type SubscriberStatus = "PENDING" | "ACTIVE" | "UNSUBSCRIBED";
+type SendStatus = "QUEUED" | "SENDING" | "SENT" | "FAILED";
+
+interface Subscriber {
+  id: string;
+  email: string;
+  status: SubscriberStatus;
+  confirmedAt: string | null;
+  unsubscribedAt: string | null;
+  createdAt: string;
+}
+
+interface NewsletterSend {
+  id: string;
+  subject: string;
+  status: SendStatus;
+  recipientCount: number;
+  sentCount: number;
+  failedCount: number;
+  error: string | null;
+  createdAt: string;
+  sentAt: string | null;
+  post: { id: string; title: string; slug: string } | null;
+  createdBy: { name: string | null; email: string } | null;
+}
+
+interface Pagination {
+  page: number;
+  limit: number;
+  totalCount: number;
+  totalPages: number;
+}
+
+type FilterType = "all" | SubscriberStatus;
+
+const FILTER_TABS: { value: FilterType; label: string }[] = [
+  { value: "all", label: "All" },
+  { value: "ACTIVE", label: "Active" },
+  { value: "PENDING", label: "Unconfirmed" },
+  { value: "UNSUBSCRIBED", label: "Unsubscribed" },
+];
+
+const SUBSCRIBER_BADGES: Record<SubscriberStatus, { label: string; className: string }> = {
+  ACTIVE: { label: "Active", className: "bg-green-100 dark:bg-green-900/20 text-green-800 dark:text-green-300" },
+  PENDING: { label: "Unconfirmed", className: "bg-yellow-100 dark:bg-yellow-900/20 text-yellow-800 dark:text-yellow-300" },
+  UNSUBSCRIBED: { label: "Unsubscribed", className: "bg-gray-100 dark:bg-gray-700 text-gray-800 dark:text-gray-300" },
+};
+
+const SEND_BADGES: Record<SendStatus, { label: string; className: string }> = {
+  QUEUED: { label: "Queued", className: "bg-blue-100 dark:bg-blue-900/20 text-blue-800 dark:text-blue-300" },
+  SENDING: { label: "Sending", className: "bg-yellow-100 dark:bg-yellow-900/20 text-yellow-800 dark:text-yellow-300" },
+  SENT: { label: "Sent", className: "bg-green-100 dark:bg-green-900/20 text-green-800 dark:text-green-300" },
+  FAILED: { label: "Failed", className: "bg-red-100 dark:bg-red-900/20 text-red-800 dark:text-red-300" },
+};
+
+export default function AdminNewsletterPage() {
+  const [subscribers, setSubscribers] = useState<Subscriber[]>([]);
+  const [statusCounts, setStatusCounts] = useState<Record<SubscriberStatus, number> | null>(null);
+  const [pagination, setPagination] = useState<Pagination | null>(null);
+  const [sends, setSends] = useState<NewsletterSend[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Filters
+  const [filter, setFilter] = useState<FilterType>("all");
+  const [searchQuery, setSearchQuery] = useState("");
+  const [currentPage, setCurrentPage] = useState(1);
+
+  const [sendingId, setSendingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchSubscribers();
+  }, [filter, currentPage]);
+
+  useEffect(() => {
+    fetchSends();
+  }, []);
+
+  const filterParams = () => {
+    const params = new URLSearchParams();
+    if (filter !== "all") params.set("status", filter);
+    if (searchQuery) params.set("search", searchQuery);
+    return params;
+  };
+
+  const fetchSubscribers = async () => {
+    try {
+      setLoading(true);
+      const params = filterParams();
+      params.set("page", currentPage.toString());
+
+      const response = await fetch(`/api/admin/subscribers?${params.toString()}`);
+      if (!response.ok) throw new Error("Failed to fetch subscribers");
+
+      const data = await response.json();
+      setSubscribers(data.subscribers);
+      setStatusCounts(data.statusCounts);
+      setPagination(data.pagination);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load subscribers");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchSends = async () => {
+    try {
+      const response = await fetch("/api/admin/newsletter");
+      if (!response.ok) throw new Error("Failed to fetch send log");
+
+      const data = await response.json();
+      setSends(data.sends);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load send log");
+    }
+  };
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    setCurrentPage(1);
+    fetchSubscribers();
+  };
+
+  const handleUnsubscribe = async (subscriber: Subscriber) => {
+    if (!confirm(`Unsubscribe ${subscriber.email}? They will need to opt in again to get emails.`)) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/admin/subscribers/${subscriber.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ status: "UNSUBSCRIBED" }),
+      });
+
+      if (response.ok) {
+        fetchSubscribers();
+      } else {
+        alert("Failed to unsubscribe");
+      }
+    } catch (error) {
+      alert("Failed to unsubscribe");
+    }
+  };
+
+  const handleDelete = async (subscriber: Subscriber) => {
+    if (!confirm(`Permanently delete ${subscriber.email}?`)) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/admin/subscribers/${subscriber.id}`, {
+        method: "DELETE",
+      });
+
+      if (response.ok) {
+        fetchSubscribers();
+      } else {
+        alert("Failed to delete subscriber");
+      }
+    } catch (error) {
+      alert("Failed to delete subscriber");
+    }
+  };
+
+  const handleSendNow = async (send: NewsletterSend) => {
+    if (!confirm(`Email "${send.subject}" to all active subscribers now?`)) {
+      return;
+    }
+
+    try {
+      setSendingId(send.id);
+      const response = await fetch(`/api/admin/newsletter/${send.id}`, {
+        method: "POST",
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        alert(data.error || "Failed to send newsletter");
+      }
+      fetchSends();
+    } catch (error) {
+      alert("Failed to send newsletter");
+    } finally {
+      setSendingId(null);
+    }
+  };
+
+  const totalCount = statusCounts
+    ? Object.values(statusCounts).reduce((sum, value) => sum + value, 0)
+    : null;
+
+  return (
+    <div>
+      <div className="mb-8 flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold">Newsletter</h1>
+          <p className="text-gray-600 dark:text-gray-400 mt-1">
+            Subscribers confirm by email before they receive announcements
+          </p>
+        </div>
+        <a
+          href={`/api/admin/subscribers/export?${filterParams().toString()}`}
+          className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+        >
+          Export CSV
+        </a>
+      </div>
+
+      {/* Status Tabs */}
+      <div className="flex flex-wrap gap-2 mb-6">
+        {FILTER_TABS.map((tab) => {
+          const count = tab.value === "all" ? totalCount : statusCounts?.[tab.value];
+
+          return (
+            <button
+              key={tab.value}
+              onClick={() => {
+                setFilter(tab.value);
+                setCurrentPage(1);
+              }}
+              className={`px-4 py-2 rounded-lg font-medium transition-colors ${
+                filter === tab.value
+                  ? "bg-blue-600 text-white"
+                  : "bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600"
+              }`}
+            >
+              {tab.label}
+              {count !== undefined && count !== null && ` (${count})`}
+            </button>
+          );
+        })}
+      </div>
+
+      {/* Search */}
+      <form onSubmit={handleSearch} className="mb-6 flex gap-2">
+        <input
+          type="text"
+          value={searchQuery}
+          onChange={(e) => setSearchQuery(e.target.value)}
+          placeholder="Search by email..."
+          className="flex-1 px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700"
+        />
+        <button
+          type="submit"
+          className="px-4 py-2 bg-gray-600 text-white rounded-lg hover:bg-gray-700"
+        >
+          Search
+        </button>
+      </form>
+
+      {error && (
+        <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-red-800 dark:text-red-200 px-4 py-3 rounded-lg mb-6">
+          {error}
+        </div>
+      )}
+
+      {/* Subscribers */}
+      {loading ? (
+        <div className="flex items-center justify-center min-h-[200px]">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+        </div>
+      ) : subscribers.length === 0 ? (
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-12 text-center">
+          <p className="text-gray-600 dark:text-gray-400">
+            {filter === "all" && !searchQuery ? "No subscribers yet" : "No subscribers match your filters"}
+          </p>
+        </div>
+      ) : (
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow overflow-hidden">
+          <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+            <thead className="bg-gray-50 dark:bg-gray-900">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                  Email
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                  Status
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                  Subscribed
+                </th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                  Actions
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
+              {subscribers.map((subscriber) => (
+                <tr key={subscriber.id}>
+                  <td className="px-6 py-4 whitespace-nowrap font-medium">{subscriber.email}</td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${SUBSCRIBER_BADGES[subscriber.status].className}`}>
+                      {SUBSCRIBER_BADGES[subscriber.status].label}
+                    </span>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600 dark:text-gray-400">
+                    {new Date(subscriber.confirmedAt || subscriber.createdAt).toLocaleDateString()}
+                    {subscriber.unsubscribedAt && (
+                      <span className="block text-xs">
+                        Left {new Date(subscriber.unsubscribedAt).toLocaleDateString()}
+                      </span>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                    {subscriber.status !== "UNSUBSCRIBED" && (
+                      <button
+                        onClick={() => handleUnsubscribe(subscriber)}
+                        className="text-gray-600 dark:text-gray-400 hover:underline mr-4"
+                      >
+                        Unsubscribe
+                      </button>
+                    )}
+                    <button
+                      onClick={() => handleDelete(subscriber)}
+                      className="text-red-600 dark:text-red-400 hover:underline"
+                    >
+                      Delete
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {/* Pagination */}
+      {pagination && pagination.totalPages > 1 && (
+        <div className="mt-6 flex justify-center gap-2">
+          <button
+            onClick={() => setCurrentPage((p) => Math.max(1, p - 1))}
+            disabled={currentPage === 1}
+            className="px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Previous
+          </button>
+          <span className="px-4 py-2 text-gray-600 dark:text-gray-400">
+            Page {currentPage} of {pagination.totalPages}
+          </span>
+          <button
+            onClick={() => setCurrentPage((p) => Math.min(pagination.totalPages, p + 1))}
+            disabled={currentPage === pagination.totalPages}
+            className="px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Next
+          </button>
+        </div>
+      )}
+
+      {/* Send Log */}
+      <h2 className="text-2xl font-bold mt-12 mb-4">Send Log</h2>
+      {sends.length === 0 ? (
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-8 text-center">
+          <p className="text-gray-600 dark:text-gray-400">
+            No announcements yet. Tick &quot;Email this post to newsletter subscribers&quot; when publishing a post.
+          </p>
+        </div>
+      ) : (
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow overflow-hidden">
+          <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+            <thead className="bg-gray-50 dark:bg-gray-900">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                  Post
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                  Status
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                  Delivered
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                  Date
+                </th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                  Actions
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
+              {sends.map((send) => (
+                <tr key={send.id}>
+                  <td className="px-6 py-4">
+                    {send.post ? (
+                      <Link
+                        href={`/blog/${send.post.slug}`}
+                        className="text-blue-600 dark:text-blue-400 hover:underline font-medium"
+                      >
+                        {send.subject}
+                      </Link>
+                    ) : (
+                      <span className="font-medium">{send.subject}</span>
+                    )}
+                    {send.createdBy && (
+                      <span className="block text-xs text-gray-500 dark:text-gray-400">
+                        Queued by {send.createdBy.name || send.createdBy.email}
+                      </span>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${SEND_BADGES[send.status].className}`}>
+                      {SEND_BADGES[send.status].label}
+                    </span>
+                    {send.error && (
+                      <span className="block text-xs text-red-600 dark:text-red-400 mt-1 max-w-xs truncate" title={send.error}>
+                        {send.error}
+                      </span>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600 dark:text-gray-400">
+                    {send.status !== "QUEUED"
+                      ? `${send.sentCount} / ${send.recipientCount}${send.failedCount > 0 ? ` (${send.failedCount} failed)` : ""}`
+                      : "-"}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600 dark:text-gray-400">
+                    {new Date(send.sentAt || send.createdAt).toLocaleString()}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                    {send.status === "QUEUED" && (
+                      <button
+                        onClick={() => handleSendNow(send)}
+                        disabled={sendingId === send.id}
+                        className="text-blue-600 dark:text-blue-400 hover:underline disabled:opacity-50"
+                      >
+                        {sendingId === send.id ? "Sending..." : "Send now"}
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
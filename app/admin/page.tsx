@@ -2,16 +2,22 @@
 
 import { useState, useEffect } from "react";
 import Link from "next/link";
+import { getPostStatus } from "@/lib/posts";
+import type { PostViews, ReadingSummary, TrafficSource, ViewHistory } from "@/lib/analytics";
+import ViewsChart from "@/components/admin/ViewsChart";
 
 interface Stats {
   posts: {
     total: number;
     published: number;
+    scheduled: number;
     drafts: number;
   };
   engagement: {
     views: number;
     comments: number;
+    pendingComments: number;
+    spamComments: number;
     likes: number;
   };
   projects: number;
@@ -23,6 +29,7 @@ interface RecentPost {
   title: string;
   slug: string;
   published: boolean;
+  scheduledAt: string | null;
   views: number;
   createdAt: string;
 }
@@ -32,22 +39,67 @@ interface TopPost {
   title: string;
   slug: string;
   views: number;
+  readingTime: number | null;
   _count: {
     comments: number;
     likes: number;
   };
+  sources: TrafficSource[];
+  reading: ReadingSummary | null;
 }
 
+function formatSeconds(seconds: number) {
+  return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+}
+
+// Tooltip: how many readers got how far
+function readingFunnel(reading: ReadingSummary) {
+  const steps = ([25, 50, 75, 100] as const).map((depth) => `${depth}%: ${Math.round(reading.depth[depth] * 100)}%`);
+  return `${reading.reads} reads in the last 30 days - scrolled past ${steps.join(", ")}`;
+}
+
+// e.g. "linkedin.com" or "newsletter (email / march-launch)"
+function sourceLabel(source: TrafficSource) {
+  const details = [source.medium, source.campaign].filter(Boolean).join(" / ");
+  return `${source.source || "Direct"}${details ? ` (${details})` : ""}`;
+}
+
+const PERIODS = [7, 30, 90];
+
 export default function AdminDashboard() {
   const [stats, setStats] = useState<Stats | null>(null);
   const [recentPosts, setRecentPosts] = useState<RecentPost[]>([]);
   const [topPosts, setTopPosts] = useState<TopPost[]>([]);
+  const [trafficSources, setTrafficSources] = useState<TrafficSource[]>([]);
   const [loading, setLoading] = useState(true);
+  const [history, setHistory] = useState<ViewHistory | null>(null);
+  const [viewedPosts, setViewedPosts] = useState<PostViews[]>([]);
+  const [days, setDays] = useState(30);
+  const [postId, setPostId] = useState("");
 
   useEffect(() => {
     fetchStats();
   }, []);
 
+  useEffect(() => {
+    fetchAnalytics();
+  }, [days, postId]);
+
+  const fetchAnalytics = async () => {
+    try {
+      const params = new URLSearchParams({ days: String(days) });
+      if (postId) params.set("postId", postId);
+      const response = await fetch(`/api/admin/analytics?${params.toString()}`);
+      if (response.ok) {
+        const data = await response.json();
+        setHistory(data.history);
+        setViewedPosts(data.posts);
+      }
+    } catch (error) {
+      console.error("Error fetching analytics:", error);
+    }
+  };
+
   const fetchStats = async () => {
     try {
       const response = await fetch("/api/admin/stats");
@@ -56,6 +108,7 @@ export default function AdminDashboard() {
         setStats(data.stats);
         setRecentPosts(data.recentPosts);
         setTopPosts(data.topPosts);
+        setTrafficSources(data.trafficSources);
       }
     } catch (error) {
       console.error("Error fetching stats:", error);
@@ -98,6 +151,11 @@ export default function AdminDashboard() {
           <p className="text-3xl font-bold text-green-600">
             {stats?.posts.published || 0}
           </p>
+          {!!stats?.posts.scheduled && (
+            <p className="mt-1 text-xs text-blue-600 dark:text-blue-400">
+              +{stats.posts.scheduled} scheduled
+            </p>
+          )}
         </Link>
 
         <Link
@@ -137,6 +195,11 @@ export default function AdminDashboard() {
           <p className="text-3xl font-bold text-purple-600">
             {stats?.engagement.comments || 0}
           </p>
+          {!!stats?.engagement.pendingComments && (
+            <p className="text-sm text-yellow-600 dark:text-yellow-400 mt-1">
+              {stats.engagement.pendingComments} awaiting moderation
+            </p>
+          )}
         </Link>
 
         <Link
@@ -164,6 +227,70 @@ export default function AdminDashboard() {
         </Link>
       </div>
 
+      {/* Views over time */}
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6 mb-8">
+        <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+          <h2 className="text-xl font-bold">
+            Views
+            {history && (
+              <span className="ml-2 text-base font-normal text-gray-500">
+                {history.total} in the last {history.days} days
+              </span>
+            )}
+          </h2>
+          <div className="flex gap-2">
+            <select
+              value={postId}
+              onChange={(e) => setPostId(e.target.value)}
+              className="px-3 py-1.5 text-sm border rounded-lg dark:bg-gray-700 dark:border-gray-600 max-w-xs"
+            >
+              <option value="">All posts and projects</option>
+              {viewedPosts.map((post) => (
+                <option key={post.id} value={post.id}>
+                  {post.title} ({post.views})
+                </option>
+              ))}
+            </select>
+            <select
+              value={days}
+              onChange={(e) => setDays(Number(e.target.value))}
+              className="px-3 py-1.5 text-sm border rounded-lg dark:bg-gray-700 dark:border-gray-600"
+            >
+              {PERIODS.map((period) => (
+                <option key={period} value={period}>
+                  Last {period} days
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        {history && (
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+            <div className="lg:col-span-2">
+              <ViewsChart daily={history.daily} />
+            </div>
+            <div className="text-sm">
+              <h3 className="font-medium mb-2">Devices</h3>
+              {history.devices.length === 0 ? (
+                <p className="text-gray-500">No views yet</p>
+              ) : (
+                <ul className="space-y-1">
+                  {history.devices.map((device) => (
+                    <li key={device.name} className="flex justify-between gap-2">
+                      <span className="capitalize">{device.name}</span>
+                      <span className="text-gray-500">
+                        {Math.round((device.views / Math.max(history.total, 1)) * 100)}%
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-8 mb-8">
         {/* Recent Posts */}
         <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6">
@@ -172,33 +299,38 @@ export default function AdminDashboard() {
             <p className="text-gray-500">No posts yet</p>
           ) : (
             <div className="space-y-3">
-              {recentPosts.map((post) => (
-                <div
-                  key={post.id}
-                  className="flex items-center justify-between py-2 border-b border-gray-100 dark:border-gray-700 last:border-0"
-                >
-                  <div className="flex-1 min-w-0">
-                    <Link
-                      href={`/admin/posts/${post.slug}/edit`}
-                      className="text-sm font-medium hover:text-blue-600 truncate block"
+              {recentPosts.map((post) => {
+                const status = getPostStatus(post);
+                return (
+                  <div
+                    key={post.id}
+                    className="flex items-center justify-between py-2 border-b border-gray-100 dark:border-gray-700 last:border-0"
+                  >
+                    <div className="flex-1 min-w-0">
+                      <Link
+                        href={`/admin/posts/${post.slug}/edit`}
+                        className="text-sm font-medium hover:text-blue-600 truncate block"
+                      >
+                        {post.title}
+                      </Link>
+                      <p className="text-xs text-gray-500">
+                        {new Date(post.createdAt).toLocaleDateString()}
+                      </p>
+                    </div>
+                    <span
+                      className={`ml-2 px-2 py-1 text-xs rounded-full ${
+                        status === "published"
+                          ? "bg-green-100 text-green-800 dark:bg-green-900/20 dark:text-green-400"
+                          : status === "scheduled"
+                          ? "bg-blue-100 text-blue-800 dark:bg-blue-900/20 dark:text-blue-400"
+                          : "bg-yellow-100 text-yellow-800 dark:bg-yellow-900/20 dark:text-yellow-400"
+                      }`}
                     >
-                      {post.title}
-                    </Link>
-                    <p className="text-xs text-gray-500">
-                      {new Date(post.createdAt).toLocaleDateString()}
-                    </p>
+                      {status === "published" ? "Published" : status === "scheduled" ? "Scheduled" : "Draft"}
+                    </span>
                   </div>
-                  <span
-                    className={`ml-2 px-2 py-1 text-xs rounded-full ${
-                      post.published
-                        ? "bg-green-100 text-green-800 dark:bg-green-900/20 dark:text-green-400"
-                        : "bg-yellow-100 text-yellow-800 dark:bg-yellow-900/20 dark:text-yellow-400"
-                    }`}
-                  >
-                    {post.published ? "Published" : "Draft"}
-                  </span>
-                </div>
-              ))}
+                );
+              })}
             </div>
           )}
         </div>
@@ -231,6 +363,26 @@ export default function AdminDashboard() {
                         <span>{post._count.comments} comments</span>
                         <span>{post._count.likes} likes</span>
                       </div>
+                      <div className="flex gap-3 text-xs text-gray-500">
+                        {post.readingTime && <span>{post.readingTime} min read</span>}
+                        {post.reading ? (
+                          <>
+                            <span title={readingFunnel(post.reading)}>
+                              {Math.round(post.reading.readThrough * 100)}% read to the end
+                            </span>
+                            {post.reading.averageSeconds !== null && (
+                              <span>{formatSeconds(post.reading.averageSeconds)} avg. reading time</span>
+                            )}
+                          </>
+                        ) : (
+                          <span>No reading data yet</span>
+                        )}
+                      </div>
+                      {post.sources.length > 0 && (
+                        <p className="text-xs text-gray-500 mt-0.5">
+                          From {post.sources.map((source) => `${sourceLabel(source)} ${source.views}`).join(", ")}
+                        </p>
+                      )}
                     </div>
                   </div>
                 </div>
@@ -240,6 +392,40 @@ export default function AdminDashboard() {
         </div>
       </div>
 
+      {/* Traffic Sources */}
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6 mb-8">
+        <h2 className="text-xl font-bold mb-4">
+          Traffic Sources
+          <span className="ml-2 text-base font-normal text-gray-500">last 30 days</span>
+        </h2>
+        {trafficSources.length === 0 ? (
+          <p className="text-gray-500">No views yet</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="text-left text-gray-500 dark:text-gray-400">
+                <tr>
+                  <th className="py-2 pr-4">Source</th>
+                  <th className="py-2 pr-4">Medium</th>
+                  <th className="py-2 pr-4">Campaign</th>
+                  <th className="py-2 text-right">Views</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100 dark:divide-gray-700">
+                {trafficSources.map((source) => (
+                  <tr key={`${source.source}|${source.medium}|${source.campaign}`}>
+                    <td className="py-2 pr-4">{source.source || "Direct"}</td>
+                    <td className="py-2 pr-4 text-gray-500">{source.medium || "-"}</td>
+                    <td className="py-2 pr-4 text-gray-500">{source.campaign || "-"}</td>
+                    <td className="py-2 text-right">{source.views}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
       {/* Quick Actions */}
       <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6">
         <h2 className="text-xl font-bold mb-4">Quick Actions</h2>
@@ -3,9 +3,23 @@
 import { useState, useEffect, FormEvent } from "react";
 import { useRouter, useParams } from "next/navigation";
 import Link from "next/link";
+import { useSession } from "next-auth/react";
 import RichTextEditor from "@/components/admin/RichTextEditor";
 import HelpTip from "@/components/ui/HelpTip";
-import { processContentForSave } from "@/lib/sanitize";
+import ImageUrlInput from "@/components/admin/ImageUrlInput";
+import PublishOptions, { PostAnnouncement, PublishMode } from "@/components/admin/PublishOptions";
+import SeriesPicker from "@/components/admin/SeriesPicker";
+import MarkdownImport, { ImportedPost } from "@/components/admin/MarkdownImport";
+import RevisionHistory from "@/components/admin/RevisionHistory";
+import ReviewPanel from "@/components/admin/ReviewPanel";
+import ActivityTimeline from "@/components/admin/ActivityTimeline";
+import AutosaveIndicator from "@/components/admin/AutosaveIndicator";
+import { useAutosave } from "@/lib/use-autosave";
+import { htmlToText, processContentForSave } from "@/lib/sanitize";
+import { hasPermission } from "@/lib/permissions";
+import { matchTaxonomy } from "@/lib/markdown";
+import { getPostStatus, toDateTimeLocal } from "@/lib/posts";
+import { addHeadingIds } from "@/lib/headings";
 
 interface Category {
   id: string;
@@ -19,6 +33,13 @@ interface Tag {
   slug: string;
 }
 
+interface Draft {
+  title: string;
+  excerpt: string | null;
+  content: string;
+  updatedAt: string;
+}
+
 interface Post {
   id: string;
   title: string;
@@ -27,10 +48,13 @@ interface Post {
   coverImage: string | null;
   published: boolean;
   categoryId: string | null;
+  seriesId: string | null;
+  seriesPosition: string;
 }
 
 export default function EditPostPage() {
   const router = useRouter();
+  const { data: session } = useSession();
   const params = useParams();
   const slug = params.slug as string;
 
@@ -38,9 +62,27 @@ export default function EditPostPage() {
   const [tags, setTags] = useState<Tag[]>([]);
   const [selectedTags, setSelectedTags] = useState<string[]>([]);
   const [formData, setFormData] = useState<Post | null>(null);
+  const [publishMode, setPublishMode] = useState<PublishMode>("draft");
+  const [scheduledAt, setScheduledAt] = useState("");
+  const [announce, setAnnounce] = useState(false);
+  const [announcement, setAnnouncement] = useState<PostAnnouncement | null>(null);
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [importNotice, setImportNotice] = useState<string | null>(null);
+  const [draftChecked, setDraftChecked] = useState(false);
+  const [newerDraft, setNewerDraft] = useState<Draft | null>(null);
+  const [activityKey, setActivityKey] = useState(0);
+
+  const autosave = useAutosave({
+    postId: formData?.id || null,
+    values: {
+      title: formData?.title || "",
+      excerpt: formData?.excerpt || null,
+      content: formData?.content || "",
+    },
+    enabled: !!formData && draftChecked && !saving,
+  });
 
   useEffect(() => {
     if (slug) {
@@ -64,20 +106,9 @@ export default function EditPostPage() {
       }
 
       const postData = await postRes.json();
-      setFormData({
-        id: postData.post.id,
-        title: postData.post.title,
-        content: postData.post.content,
-        excerpt: postData.post.excerpt || "",
-        coverImage: postData.post.coverImage || "",
-        published: postData.post.published,
-        categoryId: postData.post.categoryId || "",
-      });
-
-      // Set existing tags
-      if (postData.post.tags) {
-        setSelectedTags(postData.post.tags.map((t: { tag: Tag }) => t.tag.id));
-      }
+      applyPost(postData.post);
+      setAnnouncement(postData.post.announcement || null);
+      await checkDraft(postData.post);
 
       if (catRes.ok) {
         const catData = await catRes.json();
@@ -95,6 +126,114 @@ export default function EditPostPage() {
     }
   };
 
+  const applyPost = (
+    post: Omit<Post, "seriesPosition"> & {
+      seriesPosition: number | null;
+      scheduledAt: string | null;
+      tags?: Array<{ tag: Tag }>;
+    }
+  ) => {
+    setFormData({
+      id: post.id,
+      title: post.title,
+      content: post.content,
+      excerpt: post.excerpt || "",
+      coverImage: post.coverImage || "",
+      published: post.published,
+      categoryId: post.categoryId || "",
+      seriesId: post.seriesId || "",
+      seriesPosition: post.seriesPosition?.toString() || "",
+    });
+
+    // Map stored publish state to the editor's visibility option
+    const status = getPostStatus(post);
+    setPublishMode(status === "published" ? "publish" : status === "scheduled" ? "schedule" : "draft");
+    setScheduledAt(status === "scheduled" && post.scheduledAt ? toDateTimeLocal(post.scheduledAt) : "");
+
+    // Set existing tags
+    if (post.tags) {
+      setSelectedTags(post.tags.map((t) => t.tag.id));
+    }
+  };
+
+  // Warn when an autosaved draft is newer than the saved post
+  const checkDraft = async (post: Post & { updatedAt: string }) => {
+    try {
+      const response = await fetch(`/api/drafts?postId=${post.id}`);
+      if (response.ok) {
+        const data = await response.json();
+        const draft: Draft | null = data.draft;
+        const differs =
+          draft &&
+          (draft.title !== post.title ||
+            (draft.excerpt || "") !== (post.excerpt || "") ||
+            addHeadingIds(draft.content) !== post.content);
+
+        if (draft && differs && new Date(draft.updatedAt) > new Date(post.updatedAt)) {
+          setNewerDraft(draft);
+        }
+      }
+    } catch (err) {
+      console.error("Error checking draft:", err);
+    } finally {
+      setDraftChecked(true);
+    }
+  };
+
+  const handleRestoreDraft = () => {
+    if (!formData || !newerDraft) return;
+    setFormData({
+      ...formData,
+      title: newerDraft.title || formData.title,
+      excerpt: newerDraft.excerpt || "",
+      content: newerDraft.content,
+    });
+    setNewerDraft(null);
+  };
+
+  const handleDiscardDraft = async () => {
+    if (!confirm("Discard the autosaved draft? This cannot be undone.")) return;
+    setNewerDraft(null);
+    await autosave.discard();
+  };
+
+  // Reload the post into the form after a revision restore (keeps the page mounted)
+  const reloadPost = async () => {
+    try {
+      const response = await fetch(`/api/posts/${slug}`);
+      if (!response.ok) throw new Error("Failed to fetch post");
+
+      const data = await response.json();
+      applyPost(data.post);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load post");
+    }
+  };
+
+  // Front matter names only count when they match an existing tag or category
+  const handleMarkdownImport = (imported: ImportedPost) => {
+    const category = matchTaxonomy(categories, imported.category ? [imported.category] : []);
+    const importedTags = matchTaxonomy(tags, imported.tags);
+
+    setFormData((prev) => prev && ({
+      ...prev,
+      title: imported.title || prev.title,
+      excerpt: imported.excerpt || prev.excerpt,
+      content: imported.content,
+      categoryId: category.ids[0] || prev.categoryId,
+    }));
+    if (imported.tags.length > 0) {
+      setSelectedTags(importedTags.ids);
+    }
+
+    const unmatched = [...category.unmatched, ...importedTags.unmatched];
+    setImportNotice(
+      unmatched.length > 0
+        ? `Imported. These tags or categories don't exist yet and were skipped: ${unmatched.join(", ")}`
+        : null
+    );
+  };
+
   const handleTagToggle = (tagId: string) => {
     setSelectedTags((prev) =>
       prev.includes(tagId)
@@ -111,6 +250,10 @@ export default function EditPostPage() {
     setError(null);
 
     try {
+      if (publishMode === "schedule" && !scheduledAt) {
+        throw new Error("Please choose when the post should be published");
+      }
+
       // Process and sanitize content before saving
       const processedContent = processContentForSave(formData.content);
 
@@ -122,8 +265,12 @@ export default function EditPostPage() {
         body: JSON.stringify({
           ...formData,
           content: processedContent,
+          published: publishMode === "publish",
+          scheduledAt: publishMode === "schedule" ? new Date(scheduledAt).toISOString() : null,
           categoryId: formData.categoryId || null,
+          seriesId: formData.seriesId || null,
           tags: selectedTags,
+          announce: publishMode !== "draft" && announce,
         }),
       });
 
@@ -201,8 +348,43 @@ export default function EditPostPage() {
         </div>
       )}
 
+      {newerDraft && (
+        <div className="flex flex-wrap items-center justify-between gap-4 bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 text-yellow-800 dark:text-yellow-200 px-4 py-3 rounded-lg mb-6">
+          <span>
+            You have an autosaved draft from {new Date(newerDraft.updatedAt).toLocaleString()} that is
+            newer than the saved post.
+          </span>
+          <div className="flex gap-4 text-sm font-medium whitespace-nowrap">
+            <button type="button" onClick={handleRestoreDraft} className="hover:underline">
+              Restore draft
+            </button>
+            <button type="button" onClick={handleDiscardDraft} className="hover:underline">
+              Discard
+            </button>
+          </div>
+        </div>
+      )}
+
+      {importNotice && (
+        <div className="flex items-center justify-between gap-4 bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 text-yellow-800 dark:text-yellow-200 px-4 py-3 rounded-lg mb-6">
+          <span>{importNotice}</span>
+          <button
+            type="button"
+            onClick={() => setImportNotice(null)}
+            className="text-sm font-medium hover:underline whitespace-nowrap"
+          >
+            Dismiss
+          </button>
+        </div>
+      )}
+
       <form onSubmit={handleSubmit} className="space-y-6">
         <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6">
+          <MarkdownImport
+            onImport={handleMarkdownImport}
+            hasContent={htmlToText(formData.content).trim() !== ""}
+          />
+
           {/* Title */}
           <div className="mb-6">
             <label htmlFor="title" className="block text-sm font-medium mb-2">
@@ -285,6 +467,17 @@ export default function EditPostPage() {
             </div>
           </div>
 
+          {/* Series */}
+          <div className="mb-6">
+            <SeriesPicker
+              seriesId={formData.seriesId || ""}
+              seriesPosition={formData.seriesPosition}
+              onChange={(seriesId, seriesPosition) =>
+                setFormData({ ...formData, seriesId, seriesPosition })
+              }
+            />
+          </div>
+
           {/* Excerpt */}
           <div className="mb-6">
             <label htmlFor="excerpt" className="block text-sm font-medium mb-2">
@@ -312,14 +505,10 @@ export default function EditPostPage() {
               Cover Image URL
               <HelpTip text="Recommended: 1200x630px (landscape). Displayed at top of post and in social media shares." />
             </label>
-            <input
-              type="url"
+            <ImageUrlInput
               id="coverImage"
               value={formData.coverImage || ""}
-              onChange={(e) =>
-                setFormData({ ...formData, coverImage: e.target.value })
-              }
-              className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700"
+              onChange={(url) => setFormData({ ...formData, coverImage: url })}
               placeholder="https://example.com/image.jpg"
             />
           </div>
@@ -328,7 +517,7 @@ export default function EditPostPage() {
           <div className="mb-6">
             <label className="block text-sm font-medium mb-2">
               Content *
-              <HelpTip text="Use the toolbar to format text: bold, headings, lists, code blocks. Paste YouTube URLs to embed videos." />
+              <HelpTip text="Use the toolbar to format text: bold, headings, lists, tables, code blocks. Paste YouTube URLs to embed videos. Prefer Markdown? Switch to the Markdown tab." />
             </label>
             <RichTextEditor
               content={formData.content}
@@ -341,20 +530,17 @@ export default function EditPostPage() {
 
           {/* Published Status */}
           <div className="mb-6">
-            <label className="flex items-center">
-              <input
-                type="checkbox"
-                checked={formData.published}
-                onChange={(e) =>
-                  setFormData({ ...formData, published: e.target.checked })
-                }
-                className="w-4 h-4 text-blue-600 bg-gray-100 border-gray-300 rounded focus:ring-blue-500 dark:focus:ring-blue-600 dark:ring-offset-gray-800 focus:ring-2 dark:bg-gray-700 dark:border-gray-600"
-              />
-              <span className="ml-2 text-sm font-medium">Published</span>
-            </label>
-            <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
-              If unchecked, the post will be saved as a draft
-            </p>
+            <PublishOptions
+              mode={publishMode}
+              scheduledAt={scheduledAt}
+              onModeChange={setPublishMode}
+              onScheduledAtChange={setScheduledAt}
+              publishLabel="Published"
+              canPublish={hasPermission(session?.user, "posts:publish")}
+              announce={announce}
+              onAnnounceChange={hasPermission(session?.user, "posts:announce") ? setAnnounce : undefined}
+              announcement={announcement}
+            />
           </div>
         </div>
 
@@ -367,7 +553,8 @@ export default function EditPostPage() {
           >
             Delete Post
           </button>
-          <div className="flex gap-4">
+          <div className="flex items-center gap-4">
+            <AutosaveIndicator status={autosave.status} lastSavedAt={autosave.lastSavedAt} />
             <Link
               href="/admin/posts"
               className="px-6 py-3 border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors"
@@ -384,6 +571,21 @@ export default function EditPostPage() {
           </div>
         </div>
       </form>
+
+      {/* Editorial Review */}
+      <div className="mt-8">
+        <ReviewPanel slug={slug} onChange={() => setActivityKey((key) => key + 1)} />
+      </div>
+
+      {/* Activity Timeline */}
+      <div className="mt-8">
+        <ActivityTimeline slug={slug} refreshKey={activityKey} />
+      </div>
+
+      {/* Revision History */}
+      <div className="mt-8">
+        <RevisionHistory slug={slug} onRestored={reloadPost} />
+      </div>
     </div>
   );
 }
@@ -3,9 +3,18 @@
 import { useState, useEffect, FormEvent } from "react";
 import { useRouter } from "next/navigation";
 import Link from "next/link";
+import { useSession } from "next-auth/react";
 import RichTextEditor from "@/components/admin/RichTextEditor";
 import HelpTip from "@/components/ui/HelpTip";
-import { processContentForSave } from "@/lib/sanitize";
+import ImageUrlInput from "@/components/admin/ImageUrlInput";
+import PublishOptions, { PublishMode } from "@/components/admin/PublishOptions";
+import SeriesPicker from "@/components/admin/SeriesPicker";
+import MarkdownImport, { ImportedPost } from "@/components/admin/MarkdownImport";
+import AutosaveIndicator from "@/components/admin/AutosaveIndicator";
+import { useAutosave } from "@/lib/use-autosave";
+import { htmlToText, processContentForSave } from "@/lib/sanitize";
+import { hasPermission } from "@/lib/permissions";
+import { matchTaxonomy } from "@/lib/markdown";
 
 interface Category {
   id: string;
@@ -21,6 +30,7 @@ interface Tag {
 
 export default function NewPostPage() {
   const router = useRouter();
+  const { data: session } = useSession();
   const [categories, setCategories] = useState<Category[]>([]);
   const [tags, setTags] = useState<Tag[]>([]);
   const [selectedTags, setSelectedTags] = useState<string[]>([]);
@@ -29,16 +39,64 @@ export default function NewPostPage() {
     content: "",
     excerpt: "",
     coverImage: "",
-    published: false,
     categoryId: "",
+    seriesId: "",
+    seriesPosition: "",
   });
+  const [publishMode, setPublishMode] = useState<PublishMode>("draft");
+  const [scheduledAt, setScheduledAt] = useState("");
+  const [announce, setAnnounce] = useState(false);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [importNotice, setImportNotice] = useState<string | null>(null);
+  const [draftChecked, setDraftChecked] = useState(false);
+  const [recoveredAt, setRecoveredAt] = useState<Date | null>(null);
+
+  const autosave = useAutosave({
+    postId: null,
+    values: {
+      title: formData.title,
+      excerpt: formData.excerpt,
+      content: formData.content,
+    },
+    enabled: draftChecked && !loading,
+  });
 
   useEffect(() => {
     fetchCategoriesAndTags();
+    recoverDraft();
   }, []);
 
+  // Reopening the editor picks up where the last autosave left off
+  const recoverDraft = async () => {
+    try {
+      const response = await fetch("/api/drafts");
+      if (response.ok) {
+        const data = await response.json();
+        if (data.draft) {
+          setFormData((prev) => ({
+            ...prev,
+            title: data.draft.title,
+            excerpt: data.draft.excerpt || "",
+            content: data.draft.content,
+          }));
+          setRecoveredAt(new Date(data.draft.updatedAt));
+        }
+      }
+    } catch (err) {
+      console.error("Error recovering draft:", err);
+    } finally {
+      setDraftChecked(true);
+    }
+  };
+
+  const handleDiscardDraft = async () => {
+    if (!confirm("Discard the recovered draft and start over?")) return;
+    setFormData((prev) => ({ ...prev, title: "", excerpt: "", content: "" }));
+    setRecoveredAt(null);
+    await autosave.discard();
+  };
+
   const fetchCategoriesAndTags = async () => {
     try {
       const [catRes, tagRes] = await Promise.all([
@@ -60,6 +118,30 @@ export default function NewPostPage() {
     }
   };
 
+  // Front matter names only count when they match an existing tag or category
+  const handleMarkdownImport = (imported: ImportedPost) => {
+    const category = matchTaxonomy(categories, imported.category ? [imported.category] : []);
+    const importedTags = matchTaxonomy(tags, imported.tags);
+
+    setFormData((prev) => ({
+      ...prev,
+      title: imported.title || prev.title,
+      excerpt: imported.excerpt || prev.excerpt,
+      content: imported.content,
+      categoryId: category.ids[0] || prev.categoryId,
+    }));
+    if (imported.tags.length > 0) {
+      setSelectedTags(importedTags.ids);
+    }
+
+    const unmatched = [...category.unmatched, ...importedTags.unmatched];
+    setImportNotice(
+      unmatched.length > 0
+        ? `Imported. These tags or categories don't exist yet and were skipped: ${unmatched.join(", ")}`
+        : null
+    );
+  };
+
   const handleTagToggle = (tagId: string) => {
     setSelectedTags((prev) =>
       prev.includes(tagId)
@@ -68,12 +150,16 @@ export default function NewPostPage() {
     );
   };
 
-  const handleSubmit = async (e: FormEvent) => {
+  const handleSubmit = async (e: FormEvent, mode: PublishMode = publishMode) => {
     e.preventDefault();
     setLoading(true);
     setError(null);
 
     try {
+      if (mode === "schedule" && !scheduledAt) {
+        throw new Error("Please choose when the post should be published");
+      }
+
       // Process and sanitize content before saving
       const processedContent = processContentForSave(formData.content);
 
@@ -85,8 +171,12 @@ export default function NewPostPage() {
         body: JSON.stringify({
           ...formData,
           content: processedContent,
+          published: mode === "publish",
+          scheduledAt: mode === "schedule" ? new Date(scheduledAt).toISOString() : null,
           categoryId: formData.categoryId || null,
+          seriesId: formData.seriesId || null,
           tags: selectedTags,
+          announce: mode !== "draft" && announce,
         }),
       });
 
@@ -122,8 +212,39 @@ export default function NewPostPage() {
         </div>
       )}
 
+      {recoveredAt && (
+        <div className="flex items-center justify-between gap-4 bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 text-blue-800 dark:text-blue-200 px-4 py-3 rounded-lg mb-6">
+          <span>Recovered your unsaved draft from {recoveredAt.toLocaleString()}.</span>
+          <button
+            type="button"
+            onClick={handleDiscardDraft}
+            className="text-sm font-medium hover:underline whitespace-nowrap"
+          >
+            Discard draft
+          </button>
+        </div>
+      )}
+
+      {importNotice && (
+        <div className="flex items-center justify-between gap-4 bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 text-yellow-800 dark:text-yellow-200 px-4 py-3 rounded-lg mb-6">
+          <span>{importNotice}</span>
+          <button
+            type="button"
+            onClick={() => setImportNotice(null)}
+            className="text-sm font-medium hover:underline whitespace-nowrap"
+          >
+            Dismiss
+          </button>
+        </div>
+      )}
+
       <form onSubmit={handleSubmit} className="space-y-6">
         <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6">
+          <MarkdownImport
+            onImport={handleMarkdownImport}
+            hasContent={htmlToText(formData.content).trim() !== ""}
+          />
+
           {/* Title */}
           <div className="mb-6">
             <label
@@ -209,6 +330,17 @@ export default function NewPostPage() {
             </div>
           </div>
 
+          {/* Series */}
+          <div className="mb-6">
+            <SeriesPicker
+              seriesId={formData.seriesId || ""}
+              seriesPosition={formData.seriesPosition}
+              onChange={(seriesId, seriesPosition) =>
+                setFormData({ ...formData, seriesId, seriesPosition })
+              }
+            />
+          </div>
+
           {/* Excerpt */}
           <div className="mb-6">
             <label
@@ -239,14 +371,10 @@ export default function NewPostPage() {
               Cover Image URL
               <HelpTip text="Recommended: 1200x630px (landscape). Displayed at top of post and in social media shares." />
             </label>
-            <input
-              type="url"
+            <ImageUrlInput
               id="coverImage"
               value={formData.coverImage}
-              onChange={(e) =>
-                setFormData({ ...formData, coverImage: e.target.value })
-              }
-              className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700"
+              onChange={(url) => setFormData({ ...formData, coverImage: url })}
               placeholder="https://example.com/image.jpg"
             />
           </div>
@@ -255,7 +383,7 @@ export default function NewPostPage() {
           <div className="mb-6">
             <label className="block text-sm font-medium mb-2">
               Content *
-              <HelpTip text="Use the toolbar to format text: bold, headings, lists, code blocks. Paste YouTube URLs to embed videos." />
+              <HelpTip text="Use the toolbar to format text: bold, headings, lists, tables, code blocks. Paste YouTube URLs to embed videos. Prefer Markdown? Switch to the Markdown tab." />
             </label>
             <RichTextEditor
               content={formData.content}
@@ -268,22 +396,15 @@ export default function NewPostPage() {
 
           {/* Published Status */}
           <div className="mb-6">
-            <label className="flex items-center">
-              <input
-                type="checkbox"
-                checked={formData.published}
-                onChange={(e) =>
-                  setFormData({ ...formData, published: e.target.checked })
-                }
-                className="w-4 h-4 text-blue-600 bg-gray-100 border-gray-300 rounded focus:ring-blue-500 dark:focus:ring-blue-600 dark:ring-offset-gray-800 focus:ring-2 dark:bg-gray-700 dark:border-gray-600"
-              />
-              <span className="ml-2 text-sm font-medium">
-                Publish immediately
-              </span>
-            </label>
-            <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
-              If unchecked, the post will be saved as a draft
-            </p>
+            <PublishOptions
+              mode={publishMode}
+              scheduledAt={scheduledAt}
+              onModeChange={setPublishMode}
+              onScheduledAtChange={setScheduledAt}
+              canPublish={hasPermission(session?.user, "posts:publish")}
+              announce={announce}
+              onAnnounceChange={hasPermission(session?.user, "posts:announce") ? setAnnounce : undefined}
+            />
           </div>
         </div>
 
@@ -295,12 +416,13 @@ export default function NewPostPage() {
           >
             Cancel
           </Link>
-          <div className="flex gap-4">
+          <div className="flex items-center gap-4">
+            <AutosaveIndicator status={autosave.status} lastSavedAt={autosave.lastSavedAt} />
             <button
               type="button"
-              onClick={() => {
-                setFormData({ ...formData, published: false });
-                handleSubmit(new Event("submit") as any);
+              onClick={(e) => {
+                setPublishMode("draft");
+                handleSubmit(e, "draft");
               }}
               disabled={loading}
               className="px-6 py-3 bg-gray-600 text-white rounded-lg hover:bg-gray-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
@@ -312,7 +434,7 @@ export default function NewPostPage() {
               disabled={loading}
               className="px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
             >
-              {loading ? "Creating..." : "Create Post"}
+              {loading ? "Creating..." : publishMode === "schedule" ? "Schedule Post" : "Create Post"}
             </button>
           </div>
         </div>
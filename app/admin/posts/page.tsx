@@ -3,12 +3,19 @@
 import { Suspense, useState, useEffect } from "react";
 import Link from "next/link";
 import { useRouter, useSearchParams } from "next/navigation";
+import { useSession } from "next-auth/react";
+import type { ReviewStatus } from "@prisma/client";
+import { getWorkflowState, WorkflowState, WORKFLOW_LABELS } from "@/lib/workflow";
+import { canDeletePost, canEditPost } from "@/lib/permissions";
 
 interface Post {
   id: string;
   title: string;
   slug: string;
   published: boolean;
+  scheduledAt: string | null;
+  reviewStatus: ReviewStatus;
+  authorId: string;
   views: number;
   createdAt: string;
   publishedAt: string | null;
@@ -18,23 +25,58 @@ interface Post {
   };
 }
 
-type FilterType = "all" | "published" | "drafts";
+type FilterType = "all" | "drafts" | "review" | "approved" | "scheduled" | "published";
+
+// URL filter values (kept short for links like ?filter=drafts) -> workflow state
+const FILTER_STATES: Record<Exclude<FilterType, "all">, WorkflowState> = {
+  drafts: "draft",
+  review: "in_review",
+  approved: "approved",
+  scheduled: "scheduled",
+  published: "published",
+};
+
+const FILTER_TABS: { value: FilterType; label: string; activeClassName: string }[] = [
+  { value: "all", label: "All", activeClassName: "bg-blue-600 text-white" },
+  { value: "drafts", label: "Drafts", activeClassName: "bg-yellow-600 text-white" },
+  { value: "review", label: "In Review", activeClassName: "bg-purple-600 text-white" },
+  { value: "approved", label: "Approved", activeClassName: "bg-teal-600 text-white" },
+  { value: "scheduled", label: "Scheduled", activeClassName: "bg-blue-600 text-white" },
+  { value: "published", label: "Published", activeClassName: "bg-green-600 text-white" },
+];
+
+const STATUS_BADGES: Record<WorkflowState, string> = {
+  draft: "bg-yellow-100 dark:bg-yellow-900/20 text-yellow-800 dark:text-yellow-300",
+  in_review: "bg-purple-100 dark:bg-purple-900/20 text-purple-800 dark:text-purple-300",
+  approved: "bg-teal-100 dark:bg-teal-900/20 text-teal-800 dark:text-teal-300",
+  scheduled: "bg-blue-100 dark:bg-blue-900/20 text-blue-800 dark:text-blue-300",
+  published: "bg-green-100 dark:bg-green-900/20 text-green-800 dark:text-green-300",
+};
+
+function isFilterType(value: string | null): value is FilterType {
+  return value === "all" || (!!value && value in FILTER_STATES);
+}
+
+function matchesFilter(post: Post, filter: FilterType) {
+  return filter === "all" || getWorkflowState(post) === FILTER_STATES[filter];
+}
 
 function AdminPostsContent() {
   const router = useRouter();
   const searchParams = useSearchParams();
+  const { data: session } = useSession();
   const [posts, setPosts] = useState<Post[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
   // Get filter from URL query param
-  const filterParam = searchParams.get("filter") as FilterType | null;
-  const [filter, setFilter] = useState<FilterType>(filterParam || "all");
+  const filterParam = searchParams.get("filter");
+  const [filter, setFilter] = useState<FilterType>(isFilterType(filterParam) ? filterParam : "all");
 
   useEffect(() => {
     // Update filter when URL changes
-    const newFilter = searchParams.get("filter") as FilterType | null;
-    if (newFilter && ["all", "published", "drafts"].includes(newFilter)) {
+    const newFilter = searchParams.get("filter");
+    if (isFilterType(newFilter)) {
       setFilter(newFilter);
     } else {
       setFilter("all");
@@ -87,11 +129,7 @@ function AdminPostsContent() {
   }
 
   // Filter posts based on selected filter
-  const filteredPosts = posts.filter((post) => {
-    if (filter === "published") return post.published;
-    if (filter === "drafts") return !post.published;
-    return true; // "all"
-  });
+  const filteredPosts = posts.filter((post) => matchesFilter(post, filter));
 
   const handleFilterChange = (newFilter: FilterType) => {
     setFilter(newFilter);
@@ -118,37 +156,20 @@ function AdminPostsContent() {
       </div>
 
       {/* Filter Tabs */}
-      <div className="flex gap-2 mb-6">
-        <button
-          onClick={() => handleFilterChange("all")}
-          className={`px-4 py-2 rounded-lg font-medium transition-colors ${
-            filter === "all"
-              ? "bg-blue-600 text-white"
-              : "bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600"
-          }`}
-        >
-          All ({posts.length})
-        </button>
-        <button
-          onClick={() => handleFilterChange("published")}
-          className={`px-4 py-2 rounded-lg font-medium transition-colors ${
-            filter === "published"
-              ? "bg-green-600 text-white"
-              : "bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600"
-          }`}
-        >
-          Published ({posts.filter((p) => p.published).length})
-        </button>
-        <button
-          onClick={() => handleFilterChange("drafts")}
-          className={`px-4 py-2 rounded-lg font-medium transition-colors ${
-            filter === "drafts"
-              ? "bg-yellow-600 text-white"
-              : "bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600"
-          }`}
-        >
-          Drafts ({posts.filter((p) => !p.published).length})
-        </button>
+      <div className="flex flex-wrap gap-2 mb-6">
+        {FILTER_TABS.map((tab) => (
+          <button
+            key={tab.value}
+            onClick={() => handleFilterChange(tab.value)}
+            className={`px-4 py-2 rounded-lg font-medium transition-colors ${
+              filter === tab.value
+                ? tab.activeClassName
+                : "bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600"
+            }`}
+          >
+            {tab.label} ({tab.value === "all" ? posts.length : posts.filter((p) => matchesFilter(p, tab.value)).length})
+          </button>
+        ))}
       </div>
 
       {error && (
@@ -160,7 +181,7 @@ function AdminPostsContent() {
       {filteredPosts.length === 0 ? (
         <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-12 text-center">
           <p className="text-gray-600 dark:text-gray-400 mb-4">
-            {filter === "all" ? "No posts yet" : `No ${filter} posts`}
+            {filter === "all" ? "No posts yet" : `No ${WORKFLOW_LABELS[FILTER_STATES[filter]].toLowerCase()} posts`}
           </p>
           {filter === "all" && (
             <Link
@@ -211,15 +232,9 @@ function AdminPostsContent() {
                     </Link>
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap">
-                    {post.published ? (
-                      <span className="inline-flex px-2 py-1 text-xs font-semibold rounded-full bg-green-100 dark:bg-green-900/20 text-green-800 dark:text-green-300">
-                        Published
-                      </span>
-                    ) : (
-                      <span className="inline-flex px-2 py-1 text-xs font-semibold rounded-full bg-yellow-100 dark:bg-yellow-900/20 text-yellow-800 dark:text-yellow-300">
-                        Draft
-                      </span>
-                    )}
+                    <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${STATUS_BADGES[getWorkflowState(post)]}`}>
+                      {WORKFLOW_LABELS[getWorkflowState(post)]}
+                    </span>
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600 dark:text-gray-400">
                     {post.views}
@@ -231,23 +246,29 @@ function AdminPostsContent() {
                     {post._count.likes}
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600 dark:text-gray-400">
-                    {new Date(
-                      post.publishedAt || post.createdAt
-                    ).toLocaleDateString()}
+                    {getWorkflowState(post) === "scheduled" && post.scheduledAt
+                      ? new Date(post.scheduledAt).toLocaleString()
+                      : new Date(
+                          post.publishedAt || post.createdAt
+                        ).toLocaleDateString()}
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
-                    <Link
-                      href={`/admin/posts/${post.slug}/edit`}
-                      className="text-blue-600 dark:text-blue-400 hover:underline mr-4"
-                    >
-                      Edit
-                    </Link>
-                    <button
-                      onClick={() => handleDelete(post.slug)}
-                      className="text-red-600 dark:text-red-400 hover:underline"
-                    >
-                      Delete
-                    </button>
+                    {canEditPost(session?.user, post) && (
+                      <Link
+                        href={`/admin/posts/${post.slug}/edit`}
+                        className="text-blue-600 dark:text-blue-400 hover:underline mr-4"
+                      >
+                        Edit
+                      </Link>
+                    )}
+                    {canDeletePost(session?.user, post) && (
+                      <button
+                        onClick={() => handleDelete(post.slug)}
+                        className="text-red-600 dark:text-red-400 hover:underline"
+                      >
+                        Delete
+                      </button>
+                    )}
                   </td>
                 </tr>
               ))}
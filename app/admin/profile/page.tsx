@@ -0,0 +1,211 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import Link from "next/link";
+import { getAuthorPath } from "@/lib/authors";
+
+interface Profile {
+  id: string;
+  name: string;
+  slug: string;
+  image: string;
+  bio: string;
+  website: string;
+  githubUrl: string;
+  linkedinUrl: string;
+  twitterUrl: string;
+}
+
+const LINK_INPUTS: { field: keyof Profile; label: string; placeholder: string }[] = [
+  { field: "website", label: "Website", placeholder: "https://example.com" },
+  { field: "githubUrl", label: "GitHub URL", placeholder: "https://github.com/username" },
+  { field: "linkedinUrl", label: "LinkedIn URL", placeholder: "https://linkedin.com/in/username" },
+  { field: "twitterUrl", label: "Twitter URL", placeholder: "https://twitter.com/username" },
+];
+
+// The API returns null for empty fields; the form works with strings
+function toFormData(profile: Record<keyof Profile, string | null>): Profile {
+  return Object.fromEntries(
+    Object.entries(profile).map(([key, value]) => [key, value ?? ""])
+  ) as unknown as Profile;
+}
+
+export default function AdminProfilePage() {
+  const [formData, setFormData] = useState<Profile | null>(null);
+  // Follows the saved slug, not what's being typed
+  const [profilePath, setProfilePath] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState(false);
+
+  useEffect(() => {
+    fetchProfile();
+  }, []);
+
+  const fetchProfile = async () => {
+    try {
+      const response = await fetch("/api/profile");
+      if (!response.ok) throw new Error("Failed to fetch profile");
+
+      const data = await response.json();
+      setFormData(toFormData(data.profile));
+      setProfilePath(getAuthorPath(data.profile));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load profile");
+    }
+  };
+
+  const handleChange = (field: keyof Profile, value: string) => {
+    if (!formData) return;
+    setFormData({ ...formData, [field]: value });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setError(null);
+    setSuccess(false);
+
+    try {
+      const response = await fetch("/api/profile", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(formData),
+      });
+
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || "Failed to save profile");
+
+      setFormData(toFormData(data.profile));
+      setProfilePath(getAuthorPath(data.profile));
+      setSuccess(true);
+      setTimeout(() => setSuccess(false), 3000);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save profile");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!formData) {
+    return error ? (
+      <div className="p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg text-red-800 dark:text-red-200">
+        {error}
+      </div>
+    ) : (
+      <div className="flex items-center justify-center py-12">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold">Your Profile</h1>
+        <p className="text-gray-600 dark:text-gray-400 mt-1">
+          Shown on your public author page and linked from your posts
+        </p>
+      </div>
+
+      {error && (
+        <div className="mb-6 p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg text-red-800 dark:text-red-200">
+          {error}
+        </div>
+      )}
+
+      {success && (
+        <div className="mb-6 p-4 bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 rounded-lg text-green-800 dark:text-green-200">
+          Profile saved successfully!
+        </div>
+      )}
+
+      <form onSubmit={handleSubmit} className="space-y-8">
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6">
+          <h2 className="text-xl font-semibold mb-4">About You</h2>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div>
+              <label className="block text-sm font-medium mb-2">Display Name</label>
+              <input
+                type="text"
+                value={formData.name}
+                onChange={(e) => handleChange("name", e.target.value)}
+                className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium mb-2">Profile URL</label>
+              <div className="flex items-center">
+                <span className="px-3 py-2 text-sm text-gray-500 dark:text-gray-400 bg-gray-100 dark:bg-gray-900 border border-r-0 border-gray-300 dark:border-gray-600 rounded-l-lg">
+                  /authors/
+                </span>
+                <input
+                  type="text"
+                  value={formData.slug}
+                  onChange={(e) => handleChange("slug", e.target.value)}
+                  placeholder="your-name"
+                  className="flex-1 px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-r-lg bg-white dark:bg-gray-700"
+                />
+              </div>
+            </div>
+            <div className="md:col-span-2">
+              <label className="block text-sm font-medium mb-2">Avatar URL</label>
+              <input
+                type="text"
+                value={formData.image}
+                onChange={(e) => handleChange("image", e.target.value)}
+                placeholder="https://... or a URL from the media library"
+                className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700"
+              />
+            </div>
+            <div className="md:col-span-2">
+              <label className="block text-sm font-medium mb-2">Bio</label>
+              <textarea
+                value={formData.bio}
+                onChange={(e) => handleChange("bio", e.target.value)}
+                rows={4}
+                maxLength={2000}
+                className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700"
+              />
+            </div>
+          </div>
+        </div>
+
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6">
+          <h2 className="text-xl font-semibold mb-4">Links</h2>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            {LINK_INPUTS.map(({ field, label, placeholder }) => (
+              <div key={field}>
+                <label className="block text-sm font-medium mb-2">{label}</label>
+                <input
+                  type="url"
+                  value={formData[field]}
+                  onChange={(e) => handleChange(field, e.target.value)}
+                  placeholder={placeholder}
+                  className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700"
+                />
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-4">
+          <Link
+            href={profilePath}
+            target="_blank"
+            className="px-6 py-3 border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700"
+          >
+            View Public Profile
+          </Link>
+          <button
+            type="submit"
+            disabled={saving}
+            className="px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+          >
+            {saving ? "Saving..." : "Save Profile"}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
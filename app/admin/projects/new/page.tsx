@@ -4,6 +4,7 @@ import { useState, useEffect, FormEvent } from "react";
 import { useRouter } from "next/navigation";
 import Link from "next/link";
 import HelpTip from "@/components/ui/HelpTip";
+import ImageUrlInput from "@/components/admin/ImageUrlInput";
 
 interface ProjectCategory {
   id: string;
@@ -275,14 +276,10 @@ export default function NewProjectPage() {
               Image URL
               <HelpTip text="Recommended: 800x600px or 16:9 aspect ratio. Screenshot or preview of your project." />
             </label>
-            <input
-              type="url"
+            <ImageUrlInput
               id="imageUrl"
               value={formData.imageUrl}
-              onChange={(e) =>
-                setFormData({ ...formData, imageUrl: e.target.value })
-              }
-              className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700"
+              onChange={(url) => setFormData({ ...formData, imageUrl: url })}
               placeholder="https://example.com/image.png"
             />
           </div>
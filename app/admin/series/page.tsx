@@ -0,0 +1,369 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import Link from "next/link";
+import { getPostStatus } from "@/lib/posts";
+
+interface Series {
+  id: string;
+  title: string;
+  slug: string;
+  description: string | null;
+  _count: {
+    posts: number;
+  };
+}
+
+interface SeriesPost {
+  id: string;
+  title: string;
+  slug: string;
+  published: boolean;
+  scheduledAt: string | null;
+}
+
+export default function AdminSeriesPage() {
+  const [series, setSeries] = useState<Series[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Form states
+  const [newTitle, setNewTitle] = useState("");
+  const [newDescription, setNewDescription] = useState("");
+  const [editing, setEditing] = useState<Series | null>(null);
+  const [parts, setParts] = useState<SeriesPost[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    fetchSeries();
+  }, []);
+
+  const fetchSeries = async () => {
+    try {
+      const response = await fetch("/api/series");
+      if (response.ok) {
+        const data = await response.json();
+        setSeries(data.series);
+      }
+    } catch (err) {
+      console.error("Error fetching series:", err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    try {
+      const response = await fetch("/api/series", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ title: newTitle, description: newDescription }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || "Failed to create series");
+      }
+
+      setNewTitle("");
+      setNewDescription("");
+      fetchSeries();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to create series");
+    }
+  };
+
+  const handleEdit = async (item: Series) => {
+    setError(null);
+    setEditing(item);
+    setParts([]);
+
+    try {
+      const response = await fetch(`/api/series/${item.id}`);
+      if (!response.ok) throw new Error("Failed to fetch series posts");
+
+      const data = await response.json();
+      setParts(data.series.posts);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to fetch series posts");
+    }
+  };
+
+  const movePart = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= parts.length) return;
+
+    const reordered = [...parts];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    setParts(reordered);
+  };
+
+  const handleUpdate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editing) return;
+    setError(null);
+    setSaving(true);
+
+    try {
+      const response = await fetch(`/api/series/${editing.id}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          title: editing.title,
+          description: editing.description,
+          postIds: parts.map((part) => part.id),
+        }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || "Failed to update series");
+      }
+
+      setEditing(null);
+      fetchSeries();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to update series");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!confirm("Delete this series? Its posts stay published but are no longer grouped.")) return;
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/series/${id}`, {
+        method: "DELETE",
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || "Failed to delete series");
+      }
+
+      if (editing?.id === id) setEditing(null);
+      fetchSeries();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to delete series");
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold">Series</h1>
+        <p className="text-gray-600 dark:text-gray-400 mt-2">
+          Group multi-part posts and set the order readers go through them. Posts join a series from the post editor.
+        </p>
+      </div>
+
+      {error && (
+        <div className="mb-4 p-4 bg-red-100 dark:bg-red-900/20 text-red-800 dark:text-red-400 rounded-lg">
+          {error}
+        </div>
+      )}
+
+      <div className="space-y-6">
+        {/* Add Series Form */}
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6">
+          <h2 className="text-lg font-semibold mb-4">Add New Series</h2>
+          <form onSubmit={handleCreate} className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium mb-1">Title</label>
+              <input
+                type="text"
+                value={newTitle}
+                onChange={(e) => setNewTitle(e.target.value)}
+                className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700"
+                placeholder="e.g. Kubernetes from Scratch"
+                required
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium mb-1">
+                Description (optional)
+              </label>
+              <textarea
+                value={newDescription}
+                onChange={(e) => setNewDescription(e.target.value)}
+                rows={2}
+                className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700"
+                placeholder="Shown on the series page"
+              />
+            </div>
+            <button
+              type="submit"
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+            >
+              Add Series
+            </button>
+          </form>
+        </div>
+
+        {/* Edit Series */}
+        {editing && (
+          <form onSubmit={handleUpdate} className="bg-white dark:bg-gray-800 rounded-lg shadow p-6 space-y-4">
+            <h2 className="text-lg font-semibold">Edit Series</h2>
+            <div>
+              <label className="block text-sm font-medium mb-1">Title</label>
+              <input
+                type="text"
+                value={editing.title}
+                onChange={(e) => setEditing({ ...editing, title: e.target.value })}
+                className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700"
+                required
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium mb-1">Description</label>
+              <textarea
+                value={editing.description || ""}
+                onChange={(e) => setEditing({ ...editing, description: e.target.value })}
+                rows={2}
+                className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700"
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium mb-1">Part Order</label>
+              {parts.length === 0 ? (
+                <p className="text-sm text-gray-500 dark:text-gray-400">
+                  No posts in this series yet
+                </p>
+              ) : (
+                <ol className="divide-y divide-gray-200 dark:divide-gray-700 border border-gray-200 dark:border-gray-700 rounded-lg">
+                  {parts.map((part, index) => (
+                    <li key={part.id} className="flex items-center gap-3 px-4 py-2">
+                      <span className="w-6 text-sm text-gray-500 dark:text-gray-400">{index + 1}.</span>
+                      <Link
+                        href={`/admin/posts/${part.slug}/edit`}
+                        className="flex-1 min-w-0 truncate hover:text-blue-600"
+                      >
+                        {part.title}
+                      </Link>
+                      {getPostStatus(part) !== "published" && (
+                        <span className="text-xs px-2 py-0.5 bg-yellow-100 dark:bg-yellow-900/20 text-yellow-800 dark:text-yellow-300 rounded">
+                          {getPostStatus(part) === "scheduled" ? "Scheduled" : "Draft"}
+                        </span>
+                      )}
+                      <button
+                        type="button"
+                        onClick={() => movePart(index, -1)}
+                        disabled={index === 0}
+                        aria-label={`Move ${part.title} up`}
+                        className="px-2 text-gray-500 hover:text-gray-900 dark:hover:text-white disabled:opacity-30"
+                      >
+                        ↑
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => movePart(index, 1)}
+                        disabled={index === parts.length - 1}
+                        aria-label={`Move ${part.title} down`}
+                        className="px-2 text-gray-500 hover:text-gray-900 dark:hover:text-white disabled:opacity-30"
+                      >
+                        ↓
+                      </button>
+                    </li>
+                  ))}
+                </ol>
+              )}
+            </div>
+
+            <div className="flex gap-2">
+              <button
+                type="submit"
+                disabled={saving}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+              >
+                {saving ? "Saving..." : "Save"}
+              </button>
+              <button
+                type="button"
+                onClick={() => setEditing(null)}
+                className="px-4 py-2 bg-gray-300 dark:bg-gray-600 rounded-lg hover:bg-gray-400 dark:hover:bg-gray-500"
+              >
+                Cancel
+              </button>
+            </div>
+          </form>
+        )}
+
+        {/* Series List */}
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow overflow-hidden">
+          <table className="w-full">
+            <thead className="bg-gray-50 dark:bg-gray-700">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                  Title
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                  Slug
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                  Published Parts
+                </th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                  Actions
+                </th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+              {series.length === 0 ? (
+                <tr>
+                  <td colSpan={4} className="px-6 py-8 text-center text-gray-500">
+                    No series yet
+                  </td>
+                </tr>
+              ) : (
+                series.map((item) => (
+                  <tr key={item.id}>
+                    <td className="px-6 py-4">
+                      <div className="font-medium">{item.title}</div>
+                      {item.description && (
+                        <div className="text-sm text-gray-500 line-clamp-1">{item.description}</div>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-500">
+                      <Link href={`/series/${item.slug}`} target="_blank" className="hover:underline">
+                        {item.slug}
+                      </Link>
+                    </td>
+                    <td className="px-6 py-4 text-sm">{item._count.posts}</td>
+                    <td className="px-6 py-4 text-right space-x-2">
+                      <button
+                        onClick={() => handleEdit(item)}
+                        className="text-blue-600 hover:text-blue-800"
+                      >
+                        Edit
+                      </button>
+                      <button
+                        onClick={() => handleDelete(item.id)}
+                        className="text-red-600 hover:text-red-800"
+                      >
+                        Delete
+                      </button>
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
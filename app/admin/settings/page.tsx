@@ -5,6 +5,7 @@ import Link from "next/link";
 import ImagePositionEditor from "@/components/admin/ImagePositionEditor";
 import LogoPositionEditor from "@/components/admin/LogoPositionEditor";
 import HelpTip from "@/components/ui/HelpTip";
+import ImageUrlInput from "@/components/admin/ImageUrlInput";
 
 interface Experience {
   role: string;
@@ -55,6 +56,10 @@ export default function AdminSettingsPage() {
     linkedinUrl: "",
     twitterUrl: "",
     contactEmail: "",
+    requireCommentApproval: true,
+    spamBlocklist: "",
+    blockedCommenters: "",
+    commentNotifications: "immediate",
   });
 
   const [experience, setExperience] = useState<Experience[]>([]);
@@ -96,6 +101,10 @@ export default function AdminSettingsPage() {
         linkedinUrl: settings.linkedinUrl || "",
         twitterUrl: settings.twitterUrl || "",
         contactEmail: settings.contactEmail || "",
+        requireCommentApproval: settings.requireCommentApproval ?? true,
+        spamBlocklist: settings.spamBlocklist || "",
+        blockedCommenters: settings.blockedCommenters || "",
+        commentNotifications: settings.commentNotifications || "immediate",
       });
 
       try {
@@ -280,12 +289,10 @@ export default function AdminSettingsPage() {
                 Logo URL
                 <HelpTip text="Recommended: PNG or SVG with transparent background. Height should be around 40px for best display in the header." />
               </label>
-              <input
-                type="url"
+              <ImageUrlInput
                 value={formData.siteLogo}
-                onChange={(e) => setFormData({ ...formData, siteLogo: e.target.value })}
+                onChange={(url) => setFormData({ ...formData, siteLogo: url })}
                 placeholder="https://example.com/logo.png"
-                className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700"
               />
             </div>
             <div className="md:col-span-2">
@@ -365,12 +372,10 @@ export default function AdminSettingsPage() {
                 Profile Image URL
                 <HelpTip text="Minimum: 200x200px. Square images work best. Use the editor below to zoom and position your photo within the circle." />
               </label>
-              <input
-                type="url"
+              <ImageUrlInput
                 value={formData.profileImage}
-                onChange={(e) => setFormData({ ...formData, profileImage: e.target.value })}
+                onChange={(url) => setFormData({ ...formData, profileImage: url })}
                 placeholder="https://example.com/photo.jpg"
-                className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700"
               />
 
               {/* Image Position Editor */}
@@ -622,12 +627,11 @@ export default function AdminSettingsPage() {
                   </div>
                   <div>
                     <label className="block text-xs text-gray-500 mb-1">Image URL</label>
-                    <input
-                      type="url"
+                    <ImageUrlInput
                       value={badge.imageUrl}
-                      onChange={(e) => updateBadge(index, "imageUrl", e.target.value)}
+                      onChange={(url) => updateBadge(index, "imageUrl", url)}
                       placeholder="https://images.credly.com/..."
-                      className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700"
+                      className="px-3 py-2"
                     />
                   </div>
                   <div>
@@ -718,6 +722,74 @@ export default function AdminSettingsPage() {
           </div>
         </div>
 
+        {/* Comments */}
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6">
+          <h2 className="text-xl font-semibold mb-4">Comments</h2>
+          <div className="flex items-center gap-3">
+            <input
+              type="checkbox"
+              id="requireCommentApproval"
+              checked={formData.requireCommentApproval}
+              onChange={(e) => setFormData({ ...formData, requireCommentApproval: e.target.checked })}
+              className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+            />
+            <label htmlFor="requireCommentApproval" className="text-sm font-medium">
+              Hold anonymous comments for approval
+            </label>
+          </div>
+          <p className="text-xs text-gray-500 mt-1">
+            When enabled, comments from visitors who are not signed in wait in the moderation queue until approved
+          </p>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mt-6">
+            <div>
+              <label className="block text-sm font-medium mb-2">Blocked Words & Patterns</label>
+              <textarea
+                value={formData.spamBlocklist}
+                onChange={(e) => setFormData({ ...formData, spamBlocklist: e.target.value })}
+                rows={5}
+                placeholder={"casino\n/buy\\s+followers/"}
+                className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 font-mono text-sm"
+              />
+              <p className="text-xs text-gray-500 mt-1">
+                One per line. Wrap in slashes for a regular expression
+              </p>
+            </div>
+            <div>
+              <label className="block text-sm font-medium mb-2">Blocked Emails & IPs</label>
+              <textarea
+                value={formData.blockedCommenters}
+                onChange={(e) => setFormData({ ...formData, blockedCommenters: e.target.value })}
+                rows={5}
+                placeholder={"spammer@example.com\n@spam-domain.com\n203.0.113.7"}
+                className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 font-mono text-sm"
+              />
+              <p className="text-xs text-gray-500 mt-1">
+                One per line. Start with @ to block a whole email domain
+              </p>
+            </div>
+          </div>
+          <p className="text-xs text-gray-500 mt-2">
+            Anonymous comments are scored against these lists plus honeypot, submit-time, link-count and duplicate checks. Suspicious comments are held for review; high scores go straight to spam. Blocklists are never shown publicly.
+          </p>
+
+          <div className="mt-6">
+            <label className="block text-sm font-medium mb-2">Email Me About New Comments</label>
+            <select
+              value={formData.commentNotifications}
+              onChange={(e) => setFormData({ ...formData, commentNotifications: e.target.value })}
+              className="w-full md:w-64 px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700"
+            >
+              <option value="immediate">Immediately</option>
+              <option value="digest">Daily digest</option>
+              <option value="off">Never</option>
+            </select>
+            <p className="text-xs text-gray-500 mt-1">
+              Sent to every admin. The daily digest needs a scheduled job calling /api/cron/comment-digest
+            </p>
+          </div>
+        </div>
+
         {/* Save Button */}
         <div className="flex justify-end gap-4">
           <Link
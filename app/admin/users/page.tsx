@@ -0,0 +1,371 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useSession } from "next-auth/react";
+import type { UserRole } from "@prisma/client";
+import { hasPermission, ROLE_LABELS, USER_ROLES } from "@/lib/permissions";
+
+interface User {
+  id: string;
+  name: string | null;
+  email: string;
+  image: string | null;
+  role: UserRole;
+  createdAt: string;
+  _count: {
+    posts: number;
+    comments: number;
+  };
+}
+
+interface Invitation {
+  id: string;
+  email: string;
+  role: UserRole;
+  expiresAt: string;
+  createdAt: string;
+  invitedBy: {
+    name: string | null;
+    email: string;
+  } | null;
+}
+
+// Only roles with admin panel access can be invited
+const INVITE_ROLES = USER_ROLES.filter((role) => hasPermission({ role }, "admin:access"));
+
+const ROLE_DESCRIPTIONS: Record<UserRole, string> = {
+  ADMIN: "Everything, including settings, users and the newsletter",
+  EDITOR: "Edits and publishes any post, moderates comments, manages media and taxonomy",
+  AUTHOR: "Writes and publishes their own posts",
+  CONTRIBUTOR: "Writes drafts for an editor to publish",
+  USER: "Signed-in reader without access to the admin panel",
+};
+
+export default function AdminUsersPage() {
+  const { data: session } = useSession();
+  const [users, setUsers] = useState<User[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [searchQuery, setSearchQuery] = useState("");
+  const [updatingId, setUpdatingId] = useState<string | null>(null);
+  const [invitations, setInvitations] = useState<Invitation[]>([]);
+  const [inviteEmail, setInviteEmail] = useState("");
+  const [inviteRole, setInviteRole] = useState<UserRole>("AUTHOR");
+  const [inviting, setInviting] = useState(false);
+  const [inviteMessage, setInviteMessage] = useState<{ type: "success" | "error"; text: string } | null>(null);
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchUsers();
+    fetchInvitations();
+  }, []);
+
+  const fetchInvitations = async () => {
+    try {
+      const response = await fetch("/api/admin/invitations");
+      if (!response.ok) throw new Error("Failed to fetch invitations");
+
+      const data = await response.json();
+      setInvitations(data.invitations);
+    } catch (err) {
+      console.error("Failed to load invitations:", err);
+    }
+  };
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      setInviting(true);
+      setInviteMessage(null);
+      const response = await fetch("/api/admin/invitations", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ email: inviteEmail, role: inviteRole }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        setInviteMessage({ type: "error", text: data.error || "Failed to send invitation" });
+        return;
+      }
+
+      setInviteMessage({ type: "success", text: `Invitation sent to ${data.invitation.email}` });
+      setInviteEmail("");
+      fetchInvitations();
+    } catch (error) {
+      setInviteMessage({ type: "error", text: "Failed to send invitation" });
+    } finally {
+      setInviting(false);
+    }
+  };
+
+  const handleRevoke = async (invitation: Invitation) => {
+    if (!confirm(`Revoke the invitation for ${invitation.email}?`)) {
+      return;
+    }
+
+    try {
+      setRevokingId(invitation.id);
+      const response = await fetch(`/api/admin/invitations/${invitation.id}`, {
+        method: "DELETE",
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        alert(data.error || "Failed to revoke invitation");
+      }
+
+      // Refresh either way - a failed revoke usually means it was accepted or expired
+      fetchInvitations();
+    } catch (error) {
+      alert("Failed to revoke invitation");
+    } finally {
+      setRevokingId(null);
+    }
+  };
+
+  const fetchUsers = async () => {
+    try {
+      setLoading(true);
+      const params = new URLSearchParams();
+      if (searchQuery) params.set("search", searchQuery);
+
+      const response = await fetch(`/api/admin/users?${params.toString()}`);
+      if (!response.ok) throw new Error("Failed to fetch users");
+
+      const data = await response.json();
+      setUsers(data.users);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load users");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    fetchUsers();
+  };
+
+  const handleRoleChange = async (user: User, role: UserRole) => {
+    if (!confirm(`Make ${user.name || user.email} ${ROLE_LABELS[role].toLowerCase()}?`)) {
+      return;
+    }
+
+    try {
+      setUpdatingId(user.id);
+      const response = await fetch(`/api/admin/users/${user.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ role }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        alert(data.error || "Failed to change role");
+        return;
+      }
+
+      setUsers(users.map((u) => (u.id === user.id ? { ...u, role: data.user.role } : u)));
+    } catch (error) {
+      alert("Failed to change role");
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  return (
+    <div>
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold">Users</h1>
+        <p className="text-gray-600 dark:text-gray-400 mt-1">
+          Roles decide what each person can do in the admin panel
+        </p>
+      </div>
+
+      {/* Role Reference */}
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6 mb-6">
+        <dl className="grid gap-3 sm:grid-cols-2">
+          {USER_ROLES.map((role) => (
+            <div key={role}>
+              <dt className="text-sm font-medium">{ROLE_LABELS[role]}</dt>
+              <dd className="text-sm text-gray-500 dark:text-gray-400">{ROLE_DESCRIPTIONS[role]}</dd>
+            </div>
+          ))}
+        </dl>
+      </div>
+
+      {/* Invitations */}
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6 mb-6">
+        <h2 className="text-lg font-semibold mb-1">Invite Someone</h2>
+        <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+          They get an email with a link that works once and expires after a week
+        </p>
+
+        <form onSubmit={handleInvite} className="flex flex-col sm:flex-row gap-2">
+          <input
+            type="email"
+            required
+            value={inviteEmail}
+            onChange={(e) => setInviteEmail(e.target.value)}
+            placeholder="name@example.com"
+            className="flex-1 px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700"
+          />
+          <select
+            value={inviteRole}
+            onChange={(e) => setInviteRole(e.target.value as UserRole)}
+            aria-label="Role to invite as"
+            className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700"
+          >
+            {INVITE_ROLES.map((role) => (
+              <option key={role} value={role}>
+                {ROLE_LABELS[role]}
+              </option>
+            ))}
+          </select>
+          <button
+            type="submit"
+            disabled={inviting}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {inviting ? "Sending..." : "Send Invitation"}
+          </button>
+        </form>
+
+        {inviteMessage && (
+          <p
+            className={`mt-3 text-sm ${
+              inviteMessage.type === "success"
+                ? "text-green-600 dark:text-green-400"
+                : "text-red-600 dark:text-red-400"
+            }`}
+          >
+            {inviteMessage.text}
+          </p>
+        )}
+
+        {invitations.length > 0 && (
+          <div className="mt-6">
+            <h3 className="text-sm font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider mb-2">
+              Pending Invitations
+            </h3>
+            <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+              {invitations.map((invitation) => (
+                <li key={invitation.id} className="py-3 flex items-center justify-between gap-4">
+                  <div>
+                    <div className="font-medium">{invitation.email}</div>
+                    <div className="text-sm text-gray-500 dark:text-gray-400">
+                      {ROLE_LABELS[invitation.role]} · invited by{" "}
+                      {invitation.invitedBy?.name || invitation.invitedBy?.email || "a former admin"} · expires{" "}
+                      {new Date(invitation.expiresAt).toLocaleDateString()}
+                    </div>
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() => handleRevoke(invitation)}
+                    disabled={revokingId === invitation.id}
+                    className="text-sm text-red-600 dark:text-red-400 hover:underline disabled:opacity-50"
+                  >
+                    {revokingId === invitation.id ? "Revoking..." : "Revoke"}
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+
+      {/* Search */}
+      <form onSubmit={handleSearch} className="mb-6 flex gap-2">
+        <input
+          type="text"
+          value={searchQuery}
+          onChange={(e) => setSearchQuery(e.target.value)}
+          placeholder="Search by name or email..."
+          className="flex-1 px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700"
+        />
+        <button
+          type="submit"
+          className="px-4 py-2 bg-gray-600 text-white rounded-lg hover:bg-gray-700"
+        >
+          Search
+        </button>
+      </form>
+
+      {error && (
+        <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-red-800 dark:text-red-200 px-4 py-3 rounded-lg mb-6">
+          {error}
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex items-center justify-center min-h-[200px]">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+        </div>
+      ) : users.length === 0 ? (
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-12 text-center">
+          <p className="text-gray-600 dark:text-gray-400">No users match your search</p>
+        </div>
+      ) : (
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow overflow-hidden">
+          <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+            <thead className="bg-gray-50 dark:bg-gray-900">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                  User
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                  Posts
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                  Comments
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                  Joined
+                </th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                  Role
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
+              {users.map((user) => (
+                <tr key={user.id}>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <div className="font-medium">{user.name || user.email.split("@")[0]}</div>
+                    <div className="text-sm text-gray-500 dark:text-gray-400">{user.email}</div>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm">{user._count.posts}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm">{user._count.comments}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600 dark:text-gray-400">
+                    {new Date(user.createdAt).toLocaleDateString()}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-right text-sm">
+                    {user.id === session?.user?.id ? (
+                      <span className="text-gray-500 dark:text-gray-400">{ROLE_LABELS[user.role]} (you)</span>
+                    ) : (
+                      <select
+                        value={user.role}
+                        onChange={(e) => handleRoleChange(user, e.target.value as UserRole)}
+                        disabled={updatingId === user.id}
+                        aria-label={`Role for ${user.email}`}
+                        className="px-3 py-1 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 disabled:opacity-50"
+                      >
+                        {USER_ROLES.map((role) => (
+                          <option key={role} value={role}>
+                            {ROLE_LABELS[role]}
+                          </option>
+                        ))}
+                      </select>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
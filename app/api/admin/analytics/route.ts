@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorize } from "@/lib/authorization";
+import { getMostViewedPosts, getViewHistory } from "@/lib/analytics";
+
+const PERIODS = [7, 30, 90];
+
+// GET /api/admin/analytics - Daily views, referrers and devices (?days=7|30|90, ?postId= for one post) (staff)
+export async function GET(req: NextRequest) {
+  try {
+    const session = await authorize("admin:access");
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(req.url);
+    const days = parseInt(searchParams.get("days") || "30");
+    const postId = searchParams.get("postId");
+
+    if (!PERIODS.includes(days)) {
+      return NextResponse.json(
+        { error: "Invalid period" },
+        { status: 400 }
+      );
+    }
+
+    const [history, posts] = await Promise.all([
+      getViewHistory(postId ? { postId } : null, days),
+      getMostViewedPosts(days),
+    ]);
+
+    return NextResponse.json({ history, posts });
+  } catch (error) {
+    console.error("Error fetching analytics:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch analytics" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,18 +1,22 @@
 import { NextRequest, NextResponse } from "next/server";
-import { auth } from "@/auth";
+import { authorize } from "@/lib/authorization";
 import { prisma } from "@/lib/prisma";
+import { getCommentStatusCounts, isCommentStatus } from "@/lib/comments";
+import { parseSpamReasons } from "@/lib/spam";
+import { notifyReplySubscribers } from "@/lib/comment-notifications";
 
-// GET /api/admin/comments - Get all comments (admin only)
+// GET /api/admin/comments - Get all comments (editors)
 export async function GET(req: NextRequest) {
   try {
-    const session = await auth();
+    const session = await authorize("comments:moderate");
 
-    if (!session?.user || session.user.role !== "ADMIN") {
+    if (!session) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
 
     const { searchParams } = new URL(req.url);
     const postId = searchParams.get("postId");
+    const status = searchParams.get("status");
     const search = searchParams.get("search");
     const page = parseInt(searchParams.get("page") || "1");
     const limit = parseInt(searchParams.get("limit") || "20");
@@ -25,6 +29,10 @@ export async function GET(req: NextRequest) {
       where.postId = postId;
     }
 
+    if (isCommentStatus(status)) {
+      where.status = status;
+    }
+
     if (search) {
       where.OR = [
         { content: { contains: search, mode: "insensitive" } },
@@ -61,6 +69,7 @@ export async function GET(req: NextRequest) {
           select: {
             id: true,
             content: true,
+            nickname: true,
             user: {
               select: {
                 name: true,
@@ -81,10 +90,11 @@ export async function GET(req: NextRequest) {
       take: limit,
     });
 
-    // Transform comments to include displayName
+    // Transform comments to include displayName and decoded spam reasons
     const transformedComments = comments.map((comment) => ({
       ...comment,
       displayName: comment.user?.name || comment.nickname || "Anonymous",
+      spamReasons: parseSpamReasons(comment.spamReasons),
     }));
 
     // Get list of posts for filter dropdown
@@ -104,9 +114,13 @@ export async function GET(req: NextRequest) {
       },
     });
 
+    // Per-status totals for the queue tabs (respecting the post filter)
+    const statusCounts = await getCommentStatusCounts(postId ? { postId } : {});
+
     return NextResponse.json({
       comments: transformedComments,
       posts,
+      statusCounts,
       pagination: {
         page,
         limit,
@@ -122,3 +136,50 @@ export async function GET(req: NextRequest) {
     );
   }
 }
+
+// PATCH /api/admin/comments - Bulk moderate comments (editors)
+// Body: { ids: string[], status: "PENDING" | "APPROVED" | "SPAM" | "REJECTED" }
+export async function PATCH(req: NextRequest) {
+  try {
+    const session = await authorize("comments:moderate");
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await req.json();
+    const { ids, status } = body;
+
+    if (!Array.isArray(ids) || ids.length === 0 || !ids.every((id) => typeof id === "string")) {
+      return NextResponse.json(
+        { error: "Comment IDs are required" },
+        { status: 400 }
+      );
+    }
+
+    if (!isCommentStatus(status)) {
+      return NextResponse.json(
+        { error: "Invalid status" },
+        { status: 400 }
+      );
+    }
+
+    const result = await prisma.comment.updateMany({
+      where: { id: { in: ids } },
+      data: { status },
+    });
+
+    // Replies that just became visible can now be announced to subscribers
+    if (status === "APPROVED") {
+      await notifyReplySubscribers(ids);
+    }
+
+    return NextResponse.json({ updated: result.count });
+  } catch (error) {
+    console.error("Error moderating comments:", error);
+    return NextResponse.json(
+      { error: "Failed to update comments" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,28 @@
+import { NextResponse } from "next/server";
+import { authorize } from "@/lib/authorization";
+import { createMarkdownExport } from "@/lib/markdown-export";
+
+// GET /api/admin/export/markdown - Download every published post as Markdown with front matter, zipped (admin only)
+export async function GET() {
+  try {
+    const session = await authorize("settings:manage");
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const zip = await createMarkdownExport();
+    return new NextResponse(Buffer.from(zip), {
+      headers: {
+        "Content-Type": "application/zip",
+        "Content-Disposition": `attachment; filename="posts-markdown-${new Date().toISOString().slice(0, 10)}.zip"`,
+      },
+    });
+  } catch (error) {
+    console.error("Error exporting Markdown:", error);
+    return NextResponse.json(
+      { error: "Failed to export posts" },
+      { status: 500 }
+    );
+  }
+}
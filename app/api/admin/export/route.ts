@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorize } from "@/lib/authorization";
+import { buildSiteArchive, createSiteArchiveZip } from "@/lib/site-archive";
+
+// GET /api/admin/export - Download a site backup: ZIP with media, or ?media=false for site.json only (admin only)
+export async function GET(req: NextRequest) {
+  try {
+    const session = await authorize("settings:manage");
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(req.url);
+    const date = new Date().toISOString().slice(0, 10);
+
+    if (searchParams.get("media") === "false") {
+      const archive = await buildSiteArchive();
+      return new NextResponse(JSON.stringify(archive, null, 2), {
+        headers: {
+          "Content-Type": "application/json; charset=utf-8",
+          "Content-Disposition": `attachment; filename="site-export-${date}.json"`,
+        },
+      });
+    }
+
+    const zip = await createSiteArchiveZip();
+    return new NextResponse(Buffer.from(zip), {
+      headers: {
+        "Content-Type": "application/zip",
+        "Content-Disposition": `attachment; filename="site-export-${date}.zip"`,
+      },
+    });
+  } catch (error) {
+    console.error("Error exporting site:", error);
+    return NextResponse.json(
+      { error: "Failed to export site" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorize } from "@/lib/authorization";
+import { parseImportFile } from "@/lib/import-formats";
+import { dryRunImport, isConflictStrategy, runImport } from "@/lib/blog-import";
+
+// POST /api/admin/import - Import a WordPress WXR or Ghost JSON export (multipart form: file, onConflict, dryRun) (admin only)
+export async function POST(req: NextRequest) {
+  try {
+    const session = await authorize("settings:manage");
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const formData = await req.formData();
+    const file = formData.get("file");
+    const onConflict = formData.get("onConflict") || "skip";
+    const dryRun = formData.get("dryRun") !== "false";
+
+    if (!(file instanceof File)) {
+      return NextResponse.json(
+        { error: "No file uploaded" },
+        { status: 400 }
+      );
+    }
+
+    if (!isConflictStrategy(onConflict)) {
+      return NextResponse.json(
+        { error: "Invalid conflict handling" },
+        { status: 400 }
+      );
+    }
+
+    const data = parseImportFile(await file.text());
+
+    if ("error" in data) {
+      return NextResponse.json({ error: data.error }, { status: 400 });
+    }
+
+    if (dryRun) {
+      const report = await dryRunImport(data, onConflict);
+      return NextResponse.json({ report, dryRun: true });
+    }
+
+    const report = await runImport(data, onConflict, session.user.id);
+    return NextResponse.json({ report, dryRun: false });
+  } catch (error) {
+    console.error("Error importing posts:", error);
+    return NextResponse.json(
+      { error: "Failed to import posts" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorize } from "@/lib/authorization";
+import { revokeInvitation } from "@/lib/invitations";
+
+// DELETE /api/admin/invitations/[id] - Revoke a pending invitation (admin only)
+// The record is kept for the history; its link stops working
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await authorize("users:manage");
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    const revoked = await revokeInvitation(id);
+    if (!revoked) {
+      return NextResponse.json(
+        { error: "Invitation not found or no longer pending" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ message: "Invitation revoked successfully" });
+  } catch (error) {
+    console.error("Error revoking invitation:", error);
+    return NextResponse.json(
+      { error: "Failed to revoke invitation" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,108 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorize } from "@/lib/authorization";
+import { prisma } from "@/lib/prisma";
+import { hasPermission, isUserRole } from "@/lib/permissions";
+import { isValidEmail, normalizeEmail } from "@/lib/newsletter";
+import { createInvitation, getInvitationStatus, pendingInvitationWhere } from "@/lib/invitations";
+
+// GET /api/admin/invitations - List invitations, pending only unless ?status=all (admin only)
+export async function GET(req: NextRequest) {
+  try {
+    const session = await authorize("users:manage");
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(req.url);
+    const showAll = searchParams.get("status") === "all";
+
+    const invitations = await prisma.invitation.findMany({
+      where: showAll ? {} : pendingInvitationWhere(),
+      omit: { tokenHash: true },
+      include: { invitedBy: { select: { name: true, email: true } } },
+      orderBy: { createdAt: "desc" },
+      take: 100,
+    });
+
+    const now = new Date();
+
+    return NextResponse.json({
+      invitations: invitations.map((invitation) => ({
+        ...invitation,
+        status: getInvitationStatus(invitation, now),
+      })),
+    });
+  } catch (error) {
+    console.error("Error fetching invitations:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch invitations" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/admin/invitations - Invite someone by email with a staff role (admin only)
+export async function POST(req: NextRequest) {
+  try {
+    const session = await authorize("users:manage");
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await req.json();
+    const email = typeof body.email === "string" ? normalizeEmail(body.email) : "";
+
+    if (!isValidEmail(email)) {
+      return NextResponse.json(
+        { error: "Please enter a valid email address" },
+        { status: 400 }
+      );
+    }
+
+    if (!isUserRole(body.role) || !hasPermission({ role: body.role }, "admin:access")) {
+      return NextResponse.json(
+        { error: "Invitations are for staff roles only" },
+        { status: 400 }
+      );
+    }
+
+    const existingUser = await prisma.user.findUnique({
+      where: { email },
+      select: { role: true },
+    });
+
+    if (existingUser && hasPermission(existingUser, "admin:access")) {
+      return NextResponse.json(
+        { error: "This person already has staff access - change their role in the user list instead" },
+        { status: 409 }
+      );
+    }
+
+    const invitation = await createInvitation(email, body.role, {
+      id: session.user.id,
+      name: session.user.name ?? null,
+      email: session.user.email!,
+    });
+
+    return NextResponse.json(
+      {
+        invitation: {
+          id: invitation.id,
+          email: invitation.email,
+          role: invitation.role,
+          expiresAt: invitation.expiresAt,
+          status: getInvitationStatus(invitation),
+        },
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("Error creating invitation:", error);
+    return NextResponse.json(
+      { error: "Failed to send invitation" },
+      { status: 500 }
+    );
+  }
+}
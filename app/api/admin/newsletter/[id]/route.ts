@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorize } from "@/lib/authorization";
+import { prisma } from "@/lib/prisma";
+import { deliverAnnouncement } from "@/lib/newsletter";
+
+// Delivery stops itself after DELIVERY_TIME_MS and leaves the rest to the cron
+export const maxDuration = 60;
+
+// POST /api/admin/newsletter/[id] - Deliver a queued announcement now (admin only)
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await authorize("newsletter:manage");
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    const status = await deliverAnnouncement(id);
+    const send = await prisma.newsletterSend.findUnique({ where: { id } });
+
+    if (!send) {
+      return NextResponse.json({ error: "Send not found" }, { status: 404 });
+    }
+
+    if (!status) {
+      return NextResponse.json(
+        {
+          error:
+            send.status === "QUEUED"
+              ? "The post isn't live yet"
+              : send.status === "SENDING"
+                ? "This announcement is being sent right now"
+                : "This announcement was already processed",
+        },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({ send });
+  } catch (error) {
+    console.error("Error sending newsletter:", error);
+    return NextResponse.json(
+      { error: "Failed to send newsletter" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,42 @@
+import { NextResponse } from "next/server";
+import { authorize } from "@/lib/authorization";
+import { prisma } from "@/lib/prisma";
+
+// GET /api/admin/newsletter - Newsletter send log (admin only)
+export async function GET() {
+  try {
+    const session = await authorize("newsletter:manage");
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const sends = await prisma.newsletterSend.findMany({
+      include: {
+        post: {
+          select: {
+            id: true,
+            title: true,
+            slug: true,
+          },
+        },
+        createdBy: {
+          select: {
+            name: true,
+            email: true,
+          },
+        },
+      },
+      orderBy: { createdAt: "desc" },
+      take: 100,
+    });
+
+    return NextResponse.json({ sends });
+  } catch (error) {
+    console.error("Error fetching newsletter sends:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch newsletter sends" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorize } from "@/lib/authorization";
+import { isRestoreMode, readSiteArchive, restoreSiteArchive } from "@/lib/site-archive";
+
+// POST /api/admin/restore - Restore a site backup (multipart form: file, mode) (admin only)
+export async function POST(req: NextRequest) {
+  try {
+    const session = await authorize("settings:manage");
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const formData = await req.formData();
+    const file = formData.get("file");
+    const mode = formData.get("mode") || "merge";
+
+    if (!(file instanceof File)) {
+      return NextResponse.json(
+        { error: "No file uploaded" },
+        { status: 400 }
+      );
+    }
+
+    if (!isRestoreMode(mode)) {
+      return NextResponse.json(
+        { error: "Invalid restore mode" },
+        { status: 400 }
+      );
+    }
+
+    const result = readSiteArchive(new Uint8Array(await file.arrayBuffer()));
+
+    if ("error" in result) {
+      return NextResponse.json({ error: result.error }, { status: 400 });
+    }
+
+    const report = await restoreSiteArchive(result.archive, result.files, mode, session.user.id);
+    return NextResponse.json({ report });
+  } catch (error) {
+    console.error("Error restoring site:", error);
+    return NextResponse.json(
+      { error: "Failed to restore site" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,13 +1,19 @@
 import { NextResponse } from "next/server";
-import { auth } from "@/auth";
+import { authorize } from "@/lib/authorization";
 import { prisma } from "@/lib/prisma";
+import { livePostWhere, scheduledPostWhere } from "@/lib/posts";
+import { approvedCommentsCount, getCommentStatusCounts } from "@/lib/comments";
+import { getPostTrafficSources, getReadingSummaries, getTrafficSources } from "@/lib/analytics";
 
-// GET /api/admin/stats - Get dashboard statistics (admin only)
+// Traffic sources and reading engagement cover the last 30 days
+const TRAFFIC_DAYS = 30;
+
+// GET /api/admin/stats - Get dashboard statistics (staff)
 export async function GET() {
   try {
-    const session = await auth();
+    const session = await authorize("admin:access");
 
-    if (!session?.user || session.user.role !== "ADMIN") {
+    if (!session) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
 
@@ -15,25 +21,29 @@ export async function GET() {
     const [
       totalPosts,
       publishedPosts,
+      scheduledPosts,
       draftPosts,
       totalViews,
-      totalComments,
+      commentCounts,
       totalLikes,
       totalProjects,
       totalUsers,
       recentPosts,
       topPosts,
+      trafficSources,
     ] = await Promise.all([
       // Total posts
       prisma.post.count(),
-      // Published posts
-      prisma.post.count({ where: { published: true } }),
+      // Published posts (live now)
+      prisma.post.count({ where: livePostWhere() }),
+      // Scheduled posts (waiting for their go-live time)
+      prisma.post.count({ where: scheduledPostWhere() }),
       // Draft posts
       prisma.post.count({ where: { published: false } }),
       // Total views (sum of all post views)
       prisma.post.aggregate({ _sum: { views: true } }),
-      // Total comments
-      prisma.comment.count(),
+      // Comments by moderation status
+      getCommentStatusCounts(),
       // Total likes
       prisma.like.count(),
       // Total projects
@@ -49,6 +59,7 @@ export async function GET() {
           title: true,
           slug: true,
           published: true,
+          scheduledAt: true,
           views: true,
           createdAt: true,
         },
@@ -56,21 +67,31 @@ export async function GET() {
       // Top posts by views
       prisma.post.findMany({
         take: 5,
-        where: { published: true },
+        where: livePostWhere(),
         orderBy: { views: "desc" },
         select: {
           id: true,
           title: true,
           slug: true,
           views: true,
+          readingTime: true,
           _count: {
             select: {
-              comments: true,
+              ...approvedCommentsCount,
               likes: true,
             },
           },
         },
       }),
+      // Where views came from, site-wide
+      getTrafficSources(TRAFFIC_DAYS),
+    ]);
+
+    // ...and for each top post, with how far readers get
+    const topPostIds = topPosts.map((post) => post.id);
+    const [postSources, reading] = await Promise.all([
+      getPostTrafficSources(topPostIds, TRAFFIC_DAYS),
+      getReadingSummaries(topPostIds, TRAFFIC_DAYS),
     ]);
 
     return NextResponse.json({
@@ -78,18 +99,26 @@ export async function GET() {
         posts: {
           total: totalPosts,
           published: publishedPosts,
+          scheduled: scheduledPosts,
           drafts: draftPosts,
         },
         engagement: {
           views: totalViews._sum.views || 0,
-          comments: totalComments,
+          comments: commentCounts.APPROVED,
+          pendingComments: commentCounts.PENDING,
+          spamComments: commentCounts.SPAM,
           likes: totalLikes,
         },
         projects: totalProjects,
         users: totalUsers,
       },
       recentPosts,
-      topPosts,
+      topPosts: topPosts.map((post) => ({
+        ...post,
+        sources: postSources[post.id],
+        reading: reading[post.id] ?? null,
+      })),
+      trafficSources,
     });
   } catch (error) {
     console.error("Error fetching admin stats:", error);
@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorize } from "@/lib/authorization";
+import { prisma } from "@/lib/prisma";
+import { unsubscribe } from "@/lib/newsletter";
+
+// PATCH /api/admin/subscribers/[id] - Unsubscribe a subscriber (admin only)
+// Re-subscribing requires the reader to opt in again, so only unsubscribing is allowed here
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await authorize("newsletter:manage");
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const body = await req.json();
+
+    if (body.status !== "UNSUBSCRIBED") {
+      return NextResponse.json(
+        { error: "Subscribers can only be unsubscribed" },
+        { status: 400 }
+      );
+    }
+
+    const subscriber = await prisma.subscriber.findUnique({ where: { id } });
+    if (!subscriber) {
+      return NextResponse.json({ error: "Subscriber not found" }, { status: 404 });
+    }
+
+    await unsubscribe(subscriber.email);
+
+    const updated = await prisma.subscriber.findUnique({ where: { id } });
+    return NextResponse.json({ subscriber: updated });
+  } catch (error) {
+    console.error("Error updating subscriber:", error);
+    return NextResponse.json(
+      { error: "Failed to update subscriber" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/admin/subscribers/[id] - Remove a subscriber entirely (admin only)
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await authorize("newsletter:manage");
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    const subscriber = await prisma.subscriber.findUnique({ where: { id } });
+    if (!subscriber) {
+      return NextResponse.json({ error: "Subscriber not found" }, { status: 404 });
+    }
+
+    await prisma.subscriber.delete({ where: { id } });
+
+    return NextResponse.json({ message: "Subscriber deleted successfully" });
+  } catch (error) {
+    console.error("Error deleting subscriber:", error);
+    return NextResponse.json(
+      { error: "Failed to delete subscriber" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorize } from "@/lib/authorization";
+import { prisma } from "@/lib/prisma";
+import { getSubscriberWhere } from "@/lib/newsletter";
+
+function csvField(value: string) {
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+// GET /api/admin/subscribers/export - Download subscribers as CSV (admin only)
+export async function GET(req: NextRequest) {
+  try {
+    const session = await authorize("newsletter:manage");
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(req.url);
+    const subscribers = await prisma.subscriber.findMany({
+      where: getSubscriberWhere(searchParams.get("status"), searchParams.get("search")),
+      orderBy: { createdAt: "asc" },
+    });
+
+    const rows = [
+      ["email", "status", "subscribed_at", "confirmed_at", "unsubscribed_at"],
+      ...subscribers.map((subscriber) => [
+        subscriber.email,
+        subscriber.status,
+        subscriber.createdAt.toISOString(),
+        subscriber.confirmedAt?.toISOString() || "",
+        subscriber.unsubscribedAt?.toISOString() || "",
+      ]),
+    ];
+    const csv = rows.map((row) => row.map(csvField).join(",")).join("\n") + "\n";
+
+    return new NextResponse(csv, {
+      headers: {
+        "Content-Type": "text/csv; charset=utf-8",
+        "Content-Disposition": `attachment; filename="subscribers-${new Date().toISOString().slice(0, 10)}.csv"`,
+      },
+    });
+  } catch (error) {
+    console.error("Error exporting subscribers:", error);
+    return NextResponse.json(
+      { error: "Failed to export subscribers" },
+      { status: 500 }
+    );
+  }
+}
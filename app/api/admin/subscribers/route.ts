@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from "next/server";
+import { SubscriberStatus } from "@prisma/client";
+import { authorize } from "@/lib/authorization";
+import { prisma } from "@/lib/prisma";
+import { getSubscriberWhere } from "@/lib/newsletter";
+
+// GET /api/admin/subscribers - List newsletter subscribers (admin only)
+export async function GET(req: NextRequest) {
+  try {
+    const session = await authorize("newsletter:manage");
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(req.url);
+    const page = parseInt(searchParams.get("page") || "1");
+    const limit = parseInt(searchParams.get("limit") || "50");
+    const where = getSubscriberWhere(searchParams.get("status"), searchParams.get("search"));
+
+    const [subscribers, totalCount, groups] = await Promise.all([
+      prisma.subscriber.findMany({
+        where,
+        orderBy: { createdAt: "desc" },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.subscriber.count({ where }),
+      prisma.subscriber.groupBy({
+        by: ["status"],
+        _count: { _all: true },
+      }),
+    ]);
+
+    const statusCounts: Record<SubscriberStatus, number> = { PENDING: 0, ACTIVE: 0, UNSUBSCRIBED: 0 };
+    for (const group of groups) {
+      statusCounts[group.status] = group._count._all;
+    }
+
+    return NextResponse.json({
+      subscribers,
+      statusCounts,
+      pagination: {
+        page,
+        limit,
+        totalCount,
+        totalPages: Math.ceil(totalCount / limit),
+      },
+    });
+  } catch (error) {
+    console.error("Error fetching subscribers:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch subscribers" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorize } from "@/lib/authorization";
+import { prisma } from "@/lib/prisma";
+import { isUserRole } from "@/lib/permissions";
+
+// PATCH /api/admin/users/[id] - Change a user's role (admin only)
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await authorize("users:manage");
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const body = await req.json();
+
+    if (!isUserRole(body.role)) {
+      return NextResponse.json({ error: "Invalid role" }, { status: 400 });
+    }
+
+    // Prevents admins from locking themselves out
+    if (id === session.user.id) {
+      return NextResponse.json(
+        { error: "You can't change your own role" },
+        { status: 400 }
+      );
+    }
+
+    const user = await prisma.user.findUnique({ where: { id } });
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    if (user.role === "ADMIN" && body.role !== "ADMIN") {
+      const adminCount = await prisma.user.count({ where: { role: "ADMIN" } });
+      if (adminCount <= 1) {
+        return NextResponse.json(
+          { error: "The site needs at least one admin" },
+          { status: 400 }
+        );
+      }
+    }
+
+    const updated = await prisma.user.update({
+      where: { id },
+      data: { role: body.role },
+      select: { id: true, name: true, email: true, role: true },
+    });
+
+    return NextResponse.json({ user: updated });
+  } catch (error) {
+    console.error("Error updating user:", error);
+    return NextResponse.json(
+      { error: "Failed to update user" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,7 @@
 import { handlers } from "@/auth";
 import { NextRequest, NextResponse } from "next/server";
-import { checkRateLimit, getClientIp, RATE_LIMITS, rateLimitHeaders } from "@/lib/rate-limit";
+import { checkRateLimit, RATE_LIMITS, rateLimitHeaders } from "@/lib/rate-limit";
+import { getClientIp } from "@/lib/client-ip";
 
 // GET requests don't need rate limiting (callbacks, session checks)
 export const { GET } = handlers;
@@ -9,7 +10,7 @@ export const { GET } = handlers;
 export async function POST(request: NextRequest) {
   // Rate limit by IP address
   const ip = getClientIp(request);
-  const rateLimitResult = checkRateLimit(`auth:${ip}`, RATE_LIMITS.auth);
+  const rateLimitResult = await checkRateLimit(`auth:${ip}`, RATE_LIMITS.auth);
 
   if (!rateLimitResult.success) {
     return NextResponse.json(
@@ -1,21 +1,25 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
-import { checkRateLimit, getClientIp, RATE_LIMITS } from "@/lib/rate-limit";
+import { hasPermission } from "@/lib/permissions";
+import { hasPendingInvitation } from "@/lib/invitations";
+import { checkRateLimit, RATE_LIMITS } from "@/lib/rate-limit";
+import { getClientIp } from "@/lib/client-ip";
 
 /**
  * Check if an email is allowed to sign in.
  * Rules:
  * - If no users exist: allow (first user becomes admin)
- * - If users exist: only allow existing ADMIN users
+ * - If users exist: only allow existing staff (any role with admin access)
+ *   and addresses with a pending invitation
  *
- * This prevents non-admin emails from receiving magic links,
+ * This prevents reader and unknown emails from receiving magic links,
  * protecting Resend quota and preventing unauthorized sign-in attempts.
  */
 export async function POST(request: NextRequest) {
   try {
     // Rate limit check
     const ip = getClientIp(request);
-    const rateLimitResult = checkRateLimit(`check-email:${ip}`, RATE_LIMITS.auth);
+    const rateLimitResult = await checkRateLimit(`check-email:${ip}`, RATE_LIMITS.auth);
 
     if (!rateLimitResult.success) {
       return NextResponse.json(
@@ -49,29 +53,30 @@ export async function POST(request: NextRequest) {
       });
     }
 
-    // Users exist - check if this email belongs to an admin
+    // Users exist - check if this email belongs to someone with admin access
     const user = await prisma.user.findUnique({
       where: { email: normalizedEmail },
       select: { role: true },
     });
 
-    if (!user) {
-      // Email not in database - not allowed
-      return NextResponse.json({
-        allowed: false,
-        reason: "Sign-in is restricted to administrators only."
-      });
-    }
+    if (!user || !hasPermission(user, "admin:access")) {
+      // Invited addresses are let in; the invitation is claimed on sign-in
+      if (await hasPendingInvitation(normalizedEmail)) {
+        return NextResponse.json({
+          allowed: true,
+          isFirstUser: false,
+          message: "Welcome! Your invitation will be accepted when you sign in."
+        });
+      }
 
-    if (user.role !== "ADMIN") {
-      // User exists but is not admin - not allowed
+      // Not in the database, or a reader - not allowed
       return NextResponse.json({
         allowed: false,
-        reason: "Sign-in is restricted to administrators only."
+        reason: "Sign-in is restricted to site staff."
       });
     }
 
-    // User is an admin - allowed
+    // User is staff - allowed
     return NextResponse.json({
       allowed: true,
       isFirstUser: false
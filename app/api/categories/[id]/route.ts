@@ -1,16 +1,16 @@
 import { NextRequest, NextResponse } from "next/server";
-import { auth } from "@/auth";
+import { authorize } from "@/lib/authorization";
 import { prisma } from "@/lib/prisma";
 
-// PUT /api/categories/[id] - Update category (admin only)
+// PUT /api/categories/[id] - Update category (editors)
 export async function PUT(
   req: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    const session = await auth();
+    const session = await authorize("taxonomy:manage");
 
-    if (!session?.user || session.user.role !== "ADMIN") {
+    if (!session) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
 
@@ -73,15 +73,15 @@ export async function PUT(
   }
 }
 
-// DELETE /api/categories/[id] - Delete category (admin only)
+// DELETE /api/categories/[id] - Delete category (editors)
 export async function DELETE(
   req: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    const session = await auth();
+    const session = await authorize("taxonomy:manage");
 
-    if (!session?.user || session.user.role !== "ADMIN") {
+    if (!session) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
 
@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from "next/server";
-import { auth } from "@/auth";
+import { authorize } from "@/lib/authorization";
 import { prisma } from "@/lib/prisma";
 
 // GET /api/categories - List all categories
@@ -24,12 +24,12 @@ export async function GET() {
   }
 }
 
-// POST /api/categories - Create new category (admin only)
+// POST /api/categories - Create new category (editors)
 export async function POST(req: NextRequest) {
   try {
-    const session = await auth();
+    const session = await authorize("taxonomy:manage");
 
-    if (!session?.user || session.user.role !== "ADMIN") {
+    if (!session) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
 
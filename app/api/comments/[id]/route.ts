@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from "next/server";
 import { auth } from "@/auth";
 import { prisma } from "@/lib/prisma";
+import { hasPermission } from "@/lib/permissions";
+import { commentContentHash } from "@/lib/spam";
 
 // PUT /api/comments/[id] - Update a comment
 export async function PUT(
@@ -37,10 +39,10 @@ export async function PUT(
       );
     }
 
-    // Check if user owns the comment or is admin
+    // Check if user owns the comment or moderates comments
     if (
       existingComment.userId !== session.user.id &&
-      session.user.role !== "ADMIN"
+      !hasPermission(session.user, "comments:moderate")
     ) {
       return NextResponse.json(
         { error: "You can only edit your own comments" },
@@ -51,7 +53,7 @@ export async function PUT(
     // Update comment
     const comment = await prisma.comment.update({
       where: { id },
-      data: { content },
+      data: { content, contentHash: commentContentHash(content) },
       include: {
         user: {
           select: {
@@ -100,10 +102,10 @@ export async function DELETE(
       );
     }
 
-    // Check if user owns the comment or is admin
+    // Check if user owns the comment or moderates comments
     if (
       existingComment.userId !== session.user.id &&
-      session.user.role !== "ADMIN"
+      !hasPermission(session.user, "comments:moderate")
     ) {
       return NextResponse.json(
         { error: "You can only delete your own comments" },
@@ -0,0 +1,18 @@
+import { NextResponse } from "next/server";
+import { issueFormToken } from "@/lib/spam";
+
+// GET /api/comments/form-token - Get a signed render time for the comment form (public)
+export async function GET() {
+  try {
+    return NextResponse.json(
+      { token: issueFormToken() },
+      { headers: { "Cache-Control": "no-store" } }
+    );
+  } catch (error) {
+    console.error("Error issuing comment form token:", error);
+    return NextResponse.json(
+      { error: "Failed to load the comment form" },
+      { status: 500 }
+    );
+  }
+}
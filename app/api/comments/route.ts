@@ -1,9 +1,14 @@
 import { NextRequest, NextResponse } from "next/server";
 import { auth } from "@/auth";
 import { prisma } from "@/lib/prisma";
-import { checkRateLimit, getClientIp, RATE_LIMITS, rateLimitHeaders } from "@/lib/rate-limit";
-
-// GET /api/comments?postId=xxx - Get comments for a post
+import { checkRateLimit, RATE_LIMITS, rateLimitHeaders } from "@/lib/rate-limit";
+import { getClientIp } from "@/lib/client-ip";
+import { getInitialCommentStatus, privateCommentFields } from "@/lib/comments";
+import { hasPermission } from "@/lib/permissions";
+import { applySpamScore, commentContentHash, scoreComment, SpamResult } from "@/lib/spam";
+import { notifyAdminsOfComment, notifyReplySubscribers } from "@/lib/comment-notifications";
+
+// GET /api/comments?postId=xxx - Get approved comments for a post
 export async function GET(req: NextRequest) {
   try {
     const { searchParams } = new URL(req.url);
@@ -16,12 +21,14 @@ export async function GET(req: NextRequest) {
       );
     }
 
-    // Fetch all comments for the post with nested structure
+    // Fetch approved comments for the post with nested structure
     const comments = await prisma.comment.findMany({
       where: {
         postId,
         parentId: null, // Only top-level comments
+        status: "APPROVED",
       },
+      omit: privateCommentFields,
       include: {
         user: {
           select: {
@@ -31,6 +38,10 @@ export async function GET(req: NextRequest) {
           },
         },
         replies: {
+          where: {
+            status: "APPROVED",
+          },
+          omit: privateCommentFields,
           include: {
             user: {
               select: {
@@ -82,7 +93,7 @@ export async function POST(req: NextRequest) {
     const rateLimitKey = isAuthenticated
       ? `comments:user:${session.user.id}`
       : `comments:ip:${clientIp}`;
-    const rateLimit = checkRateLimit(rateLimitKey, RATE_LIMITS.comments);
+    const rateLimit = await checkRateLimit(rateLimitKey, RATE_LIMITS.comments);
 
     if (!rateLimit.success) {
       return NextResponse.json(
@@ -92,7 +103,7 @@ export async function POST(req: NextRequest) {
     }
 
     const body = await req.json();
-    const { postId, content, parentId, nickname, email } = body;
+    const { postId, content, parentId, nickname, email, notifyReplies, website, formToken } = body;
 
     if (!postId || !content) {
       return NextResponse.json(
@@ -159,7 +170,11 @@ export async function POST(req: NextRequest) {
         where: { id: parentId },
       });
 
-      if (!parentComment) {
+      // Replies can only target visible comments (moderators can reply from the queue)
+      const canSeeParent =
+        parentComment?.status === "APPROVED" || hasPermission(session?.user, "comments:moderate");
+
+      if (!parentComment || parentComment.postId !== postId || !canSeeParent) {
         return NextResponse.json(
           { error: "Parent comment not found" },
           { status: 404 }
@@ -167,20 +182,46 @@ export async function POST(req: NextRequest) {
       }
     }
 
+    let status = await getInitialCommentStatus(isAuthenticated);
+
+    // Anonymous comments go through the spam pipeline; suspicious ones are held or filed as spam
+    let spam: SpamResult | null = null;
+    if (!isAuthenticated) {
+      spam = await scoreComment({
+        content,
+        nickname: nickname.trim(),
+        email: email?.trim() || null,
+        ipAddress: clientIp,
+        honeypot: typeof website === "string" ? website.trim() || null : null,
+        formToken: typeof formToken === "string" ? formToken : null,
+      });
+      status = applySpamScore(status, spam.score);
+    }
+
     // Create comment - authenticated or anonymous
     const comment = await prisma.comment.create({
       data: {
         content,
+        contentHash: commentContentHash(content),
         postId,
         parentId: parentId || null,
+        status,
         // Authenticated user
         ...(isAuthenticated && { userId: session.user.id }),
         // Anonymous user
         ...(!isAuthenticated && {
           nickname: nickname.trim(),
           email: email?.trim() || null,
+          // Reply emails need an address to go to
+          notifyReplies: !!notifyReplies && !!email?.trim(),
+          ipAddress: clientIp,
+        }),
+        ...(spam && {
+          spamScore: spam.score,
+          spamReasons: JSON.stringify(spam.reasons),
         }),
       },
+      omit: privateCommentFields,
       include: {
         user: {
           select: {
@@ -192,6 +233,11 @@ export async function POST(req: NextRequest) {
       },
     });
 
+    await notifyAdminsOfComment(comment.id);
+    if (comment.parentId) {
+      await notifyReplySubscribers([comment.id]);
+    }
+
     // Add display name to response
     const responseComment = {
       ...comment,
@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from "next/server";
+import { sendCommentDigest } from "@/lib/comment-notifications";
+
+// GET /api/cron/comment-digest - Email admins the daily comment digest (cron only)
+// Requires "Authorization: Bearer <CRON_SECRET>" (sent automatically by Vercel Cron)
+export async function GET(req: NextRequest) {
+  const secret = process.env.CRON_SECRET;
+
+  if (!secret || req.headers.get("authorization") !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const sent = await sendCommentDigest();
+    return NextResponse.json({ comments: sent });
+  } catch (error) {
+    console.error("Error sending comment digest:", error);
+    return NextResponse.json(
+      { error: "Failed to send comment digest" },
+      { status: 500 }
+    );
+  }
+}
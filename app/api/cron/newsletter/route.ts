@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from "next/server";
+import { processNewsletterQueue } from "@/lib/newsletter";
+
+// Delivery stops itself after DELIVERY_TIME_MS; the next run resumes it
+export const maxDuration = 60;
+
+// GET /api/cron/newsletter - Deliver queued post announcements (cron only)
+// Requires "Authorization: Bearer <CRON_SECRET>" (sent automatically by Vercel Cron)
+export async function GET(req: NextRequest) {
+  const secret = process.env.CRON_SECRET;
+
+  if (!secret || req.headers.get("authorization") !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const delivered = await processNewsletterQueue();
+    return NextResponse.json({ delivered });
+  } catch (error) {
+    console.error("Error processing newsletter queue:", error);
+    return NextResponse.json(
+      { error: "Failed to process newsletter queue" },
+      { status: 500 }
+    );
+  }
+}
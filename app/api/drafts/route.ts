@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorize } from "@/lib/authorization";
+import { prisma } from "@/lib/prisma";
+import { clearDraft, findDraft, saveDraft } from "@/lib/drafts";
+import { sanitizeHtml } from "@/lib/sanitize";
+
+// Drafts are addressed by ?postId=xxx; omit it for the "new post" editor
+function getPostId(req: NextRequest): string | null {
+  const { searchParams } = new URL(req.url);
+  return searchParams.get("postId") || null;
+}
+
+// GET /api/drafts?postId=xxx - Get the current user's autosaved draft (staff)
+export async function GET(req: NextRequest) {
+  try {
+    const session = await authorize("posts:create");
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const draft = await findDraft(session.user.id, getPostId(req));
+
+    return NextResponse.json({ draft });
+  } catch (error) {
+    console.error("Error fetching draft:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch draft" },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT /api/drafts - Autosave editor state (staff)
+export async function PUT(req: NextRequest) {
+  try {
+    const session = await authorize("posts:create");
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await req.json();
+    const { postId, title, excerpt, content } = body;
+
+    if (typeof content !== "string") {
+      return NextResponse.json(
+        { error: "Content is required" },
+        { status: 400 }
+      );
+    }
+
+    if (postId) {
+      const post = await prisma.post.findUnique({
+        where: { id: postId },
+        select: { id: true },
+      });
+
+      if (!post) {
+        return NextResponse.json({ error: "Post not found" }, { status: 404 });
+      }
+    }
+
+    const draft = await saveDraft(session.user.id, postId || null, {
+      title: typeof title === "string" ? title : "",
+      excerpt: typeof excerpt === "string" ? excerpt : null,
+      content: sanitizeHtml(content),
+    });
+
+    return NextResponse.json({
+      draft: { id: draft.id, updatedAt: draft.updatedAt },
+    });
+  } catch (error) {
+    console.error("Error saving draft:", error);
+    return NextResponse.json(
+      { error: "Failed to save draft" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/drafts?postId=xxx - Discard the current user's draft (staff)
+export async function DELETE(req: NextRequest) {
+  try {
+    const session = await authorize("posts:create");
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    await clearDraft(session.user.id, getPostId(req));
+
+    return NextResponse.json({ message: "Draft discarded" });
+  } catch (error) {
+    console.error("Error discarding draft:", error);
+    return NextResponse.json(
+      { error: "Failed to discard draft" },
+      { status: 500 }
+    );
+  }
+}
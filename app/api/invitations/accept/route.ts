@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from "next/server";
+import { checkRateLimit, RATE_LIMITS, rateLimitHeaders } from "@/lib/rate-limit";
+import { getClientIp } from "@/lib/client-ip";
+import { acceptInvitation } from "@/lib/invitations";
+
+// POST /api/invitations/accept - Accept an invitation with the emailed token (public)
+// Accepting is a POST so link scanners that open the email can't use up the invitation
+export async function POST(req: NextRequest) {
+  try {
+    const rateLimit = await checkRateLimit(`invitation:ip:${getClientIp(req)}`, RATE_LIMITS.auth);
+
+    if (!rateLimit.success) {
+      return NextResponse.json(
+        { error: `Too many requests. Please wait ${rateLimit.resetIn} seconds.` },
+        { status: 429, headers: rateLimitHeaders(rateLimit) }
+      );
+    }
+
+    const body = await req.json();
+
+    if (!body.token || typeof body.token !== "string") {
+      return NextResponse.json({ error: "Token is required" }, { status: 400 });
+    }
+
+    const email = await acceptInvitation(body.token);
+    if (!email) {
+      return NextResponse.json(
+        { error: "This invitation is invalid, expired or has already been used" },
+        { status: 410 }
+      );
+    }
+
+    return NextResponse.json({ email });
+  } catch (error) {
+    console.error("Error accepting invitation:", error);
+    return NextResponse.json(
+      { error: "Failed to accept invitation" },
+      { status: 500 }
+    );
+  }
+}
@@ -17,7 +17,7 @@ export async function POST(req: NextRequest) {
 
     // Rate limit by user ID
     const rateLimitKey = `likes:${session.user.id}`;
-    const rateLimit = checkRateLimit(rateLimitKey, RATE_LIMITS.likes);
+    const rateLimit = await checkRateLimit(rateLimitKey, RATE_LIMITS.likes);
 
     if (!rateLimit.success) {
       return NextResponse.json(
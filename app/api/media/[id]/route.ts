@@ -0,0 +1,124 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorize } from "@/lib/authorization";
+import { prisma } from "@/lib/prisma";
+import { deleteMedia, updateMediaFocus } from "@/lib/media";
+import { hasPermission } from "@/lib/permissions";
+
+function isFocusValue(value: unknown): value is number {
+  return typeof value === "number" && value >= 0 && value <= 1;
+}
+
+// PATCH /api/media/[id] - Update alt text and/or crop focus point (uploader or editor)
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await authorize("media:upload");
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const body = await req.json();
+    const { alt, focusX, focusY } = body;
+
+    const existingMedia = await prisma.media.findUnique({
+      where: { id },
+    });
+
+    if (!existingMedia) {
+      return NextResponse.json(
+        { error: "Media not found" },
+        { status: 404 }
+      );
+    }
+
+    // Uploaders manage their own files; editors manage the whole library
+    if (existingMedia.uploadedById !== session.user.id && !hasPermission(session.user, "media:manage")) {
+      return NextResponse.json(
+        { error: "You can only change your own uploads" },
+        { status: 403 }
+      );
+    }
+
+    const hasFocus = focusX !== undefined || focusY !== undefined;
+
+    if (hasFocus && (!isFocusValue(focusX) || !isFocusValue(focusY))) {
+      return NextResponse.json(
+        { error: "Focus point must be between 0 and 1" },
+        { status: 400 }
+      );
+    }
+
+    let media = existingMedia;
+
+    if (alt !== undefined) {
+      media = await prisma.media.update({
+        where: { id },
+        data: {
+          alt: typeof alt === "string" && alt.trim() ? alt.trim() : null,
+        },
+      });
+    }
+
+    // Moving the focus point re-crops every variant
+    if (hasFocus) {
+      media = await updateMediaFocus(media, { focusX, focusY });
+    }
+
+    return NextResponse.json({ media });
+  } catch (error) {
+    console.error("Error updating media:", error);
+    return NextResponse.json(
+      { error: "Failed to update media" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/media/[id] - Delete file from storage and library (uploader or editor)
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await authorize("media:upload");
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    const existingMedia = await prisma.media.findUnique({
+      where: { id },
+    });
+
+    if (!existingMedia) {
+      return NextResponse.json(
+        { error: "Media not found" },
+        { status: 404 }
+      );
+    }
+
+    // Uploaders manage their own files; editors manage the whole library
+    if (existingMedia.uploadedById !== session.user.id && !hasPermission(session.user, "media:manage")) {
+      return NextResponse.json(
+        { error: "You can only change your own uploads" },
+        { status: 403 }
+      );
+    }
+
+    await deleteMedia(existingMedia);
+
+    return NextResponse.json({ message: "Media deleted successfully" });
+  } catch (error) {
+    console.error("Error deleting media:", error);
+    return NextResponse.json(
+      { error: "Failed to delete media" },
+      { status: 500 }
+    );
+  }
+}
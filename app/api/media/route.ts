@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorize } from "@/lib/authorization";
+import { prisma } from "@/lib/prisma";
+import { createMedia, validateImageUpload } from "@/lib/media";
+
+// GET /api/media - List media library items, newest first (staff)
+export async function GET(req: NextRequest) {
+  try {
+    const session = await authorize("media:upload");
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(req.url);
+    const q = searchParams.get("q")?.trim();
+    const page = Math.max(parseInt(searchParams.get("page") || "1") || 1, 1);
+    const limit = Math.min(Math.max(parseInt(searchParams.get("limit") || "24") || 24, 1), 100);
+
+    const whereClause = q
+      ? {
+          OR: [
+            { filename: { contains: q, mode: "insensitive" as const } },
+            { alt: { contains: q, mode: "insensitive" as const } },
+          ],
+        }
+      : {};
+
+    const [media, total] = await Promise.all([
+      prisma.media.findMany({
+        where: whereClause,
+        orderBy: { createdAt: "desc" },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.media.count({ where: whereClause }),
+    ]);
+
+    return NextResponse.json({
+      media,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error) {
+    console.error("Error fetching media:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch media" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/media - Upload an image (multipart form: file, alt) (staff)
+export async function POST(req: NextRequest) {
+  try {
+    const session = await authorize("media:upload");
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const formData = await req.formData();
+    const file = formData.get("file");
+    const alt = formData.get("alt");
+
+    if (!(file instanceof File)) {
+      return NextResponse.json(
+        { error: "No file uploaded" },
+        { status: 400 }
+      );
+    }
+
+    const buffer = Buffer.from(await file.arrayBuffer());
+    const validation = validateImageUpload(buffer);
+
+    if ("error" in validation) {
+      return NextResponse.json({ error: validation.error }, { status: 400 });
+    }
+
+    const media = await createMedia({
+      buffer,
+      filename: file.name || "image",
+      mimeType: validation.mimeType,
+      alt: typeof alt === "string" ? alt.trim() : null,
+      uploadedById: session.user.id,
+    });
+
+    return NextResponse.json({ media }, { status: 201 });
+  } catch (error) {
+    console.error("Error uploading media:", error);
+    return NextResponse.json(
+      { error: "Failed to upload media" },
+      { status: 500 }
+    );
+  }
+}
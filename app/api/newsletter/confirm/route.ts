@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from "next/server";
+import { checkRateLimit, RATE_LIMITS, rateLimitHeaders } from "@/lib/rate-limit";
+import { getClientIp } from "@/lib/client-ip";
+import { confirmSubscription } from "@/lib/newsletter";
+
+// POST /api/newsletter/confirm - Confirm a subscription with the emailed link's parameters (public)
+// Confirming is a POST so link scanners that open the email can't subscribe anyone
+export async function POST(req: NextRequest) {
+  try {
+    const rateLimit = await checkRateLimit(`newsletter-confirm:ip:${getClientIp(req)}`, RATE_LIMITS.newsletter);
+
+    if (!rateLimit.success) {
+      return NextResponse.json(
+        { error: `Too many requests. Please wait ${rateLimit.resetIn} seconds.` },
+        { status: 429, headers: rateLimitHeaders(rateLimit) }
+      );
+    }
+
+    const body = await req.json();
+    const { email, issued, token } = body;
+
+    if (typeof email !== "string" || typeof issued !== "string" || typeof token !== "string") {
+      return NextResponse.json({ error: "Email, issued and token are required" }, { status: 400 });
+    }
+
+    if (!(await confirmSubscription(email, issued, token))) {
+      return NextResponse.json(
+        { error: "This confirmation link is invalid or has expired. Please subscribe again to get a fresh link." },
+        { status: 410 }
+      );
+    }
+
+    return NextResponse.json({ message: "Subscription confirmed" });
+  } catch (error) {
+    console.error("Error confirming newsletter subscription:", error);
+    return NextResponse.json(
+      { error: "Failed to confirm subscription" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from "next/server";
+import { checkRateLimit, RATE_LIMITS, rateLimitHeaders } from "@/lib/rate-limit";
+import { getClientIp } from "@/lib/client-ip";
+import { isValidEmail, normalizeEmail, subscribe } from "@/lib/newsletter";
+
+// POST /api/newsletter/subscribe - Start a newsletter subscription (sends a confirmation email)
+export async function POST(req: NextRequest) {
+  try {
+    const rateLimit = await checkRateLimit(`newsletter:ip:${getClientIp(req)}`, RATE_LIMITS.newsletter);
+
+    if (!rateLimit.success) {
+      return NextResponse.json(
+        { error: `Too many requests. Please wait ${rateLimit.resetIn} seconds.` },
+        { status: 429, headers: rateLimitHeaders(rateLimit) }
+      );
+    }
+
+    const body = await req.json();
+    const { email, website } = body;
+
+    if (!email || typeof email !== "string" || !isValidEmail(normalizeEmail(email))) {
+      return NextResponse.json(
+        { error: "Please enter a valid email address" },
+        { status: 400 }
+      );
+    }
+
+    // Honeypot filled in - pretend it worked without emailing anyone
+    if (!website) {
+      await subscribe(email);
+    }
+
+    return NextResponse.json({
+      message: "Check your inbox to confirm your subscription.",
+    });
+  } catch (error) {
+    console.error("Error subscribing to newsletter:", error);
+    return NextResponse.json(
+      { error: "Failed to subscribe" },
+      { status: 500 }
+    );
+  }
+}
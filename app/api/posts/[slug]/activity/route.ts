@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorize } from "@/lib/authorization";
+import { prisma } from "@/lib/prisma";
+import { canAccessReview } from "@/lib/workflow";
+import { workflowUserSelect } from "@/lib/post-workflow";
+
+// GET /api/posts/[slug]/activity - Activity timeline of a post, newest first (author or editor)
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ slug: string }> }
+) {
+  try {
+    const session = await authorize("posts:create");
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { slug } = await params;
+
+    const post = await prisma.post.findUnique({
+      where: { slug },
+      select: { id: true, authorId: true, published: true },
+    });
+
+    if (!post) {
+      return NextResponse.json({ error: "Post not found" }, { status: 404 });
+    }
+
+    if (!canAccessReview(session.user, post)) {
+      return NextResponse.json(
+        { error: "You can only view activity of posts you can edit" },
+        { status: 403 }
+      );
+    }
+
+    const activities = await prisma.postActivity.findMany({
+      where: { postId: post.id },
+      include: { actor: { select: workflowUserSelect } },
+      orderBy: { createdAt: "desc" },
+    });
+
+    return NextResponse.json({ activities });
+  } catch (error) {
+    console.error("Error fetching post activity:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch post activity" },
+      { status: 500 }
+    );
+  }
+}
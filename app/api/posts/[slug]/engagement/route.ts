@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { isPostLive } from "@/lib/posts";
+import { recordReadingEvent } from "@/lib/analytics";
+import { parseReadingEvent } from "@/lib/tracking";
+import { checkRateLimit, RATE_LIMITS, rateLimitHeaders } from "@/lib/rate-limit";
+import { getClientIp } from "@/lib/client-ip";
+
+// POST /api/posts/[slug]/engagement - Reading beacon: start, scroll depth or active reading time (public)
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ slug: string }> }
+) {
+  try {
+    // Rate limit by IP address
+    const rateLimit = await checkRateLimit(`beacons:${getClientIp(req)}`, RATE_LIMITS.beacons);
+
+    if (!rateLimit.success) {
+      return NextResponse.json(
+        { error: `Too many requests. Please wait ${rateLimit.resetIn} seconds.` },
+        { status: 429, headers: rateLimitHeaders(rateLimit) }
+      );
+    }
+
+    const { slug } = await params;
+
+    // navigator.sendBeacon posts plain text
+    let event;
+    try {
+      event = parseReadingEvent(JSON.parse(await req.text()));
+    } catch {
+      event = null;
+    }
+
+    if (!event) {
+      return NextResponse.json(
+        { error: "Invalid event" },
+        { status: 400 }
+      );
+    }
+
+    const post = await prisma.post.findUnique({
+      where: { slug },
+      select: { id: true, published: true, scheduledAt: true },
+    });
+
+    if (!post || !isPostLive(post)) {
+      return NextResponse.json({ error: "Post not found" }, { status: 404 });
+    }
+
+    await recordReadingEvent(post.id, event);
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    console.error("Error recording reading event:", error);
+    return NextResponse.json(
+      { error: "Failed to record event" },
+      { status: 500 }
+    );
+  }
+}
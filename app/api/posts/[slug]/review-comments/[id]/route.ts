@@ -0,0 +1,106 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorize } from "@/lib/authorization";
+import { prisma } from "@/lib/prisma";
+import { hasPermission } from "@/lib/permissions";
+import { canAccessReview } from "@/lib/workflow";
+import { workflowUserSelect } from "@/lib/post-workflow";
+
+async function findReviewComment(slug: string, id: string) {
+  return prisma.reviewComment.findFirst({
+    where: { id, post: { slug } },
+    include: { post: { select: { authorId: true, published: true } } },
+  });
+}
+
+// PATCH /api/posts/[slug]/review-comments/[id] - Resolve or reopen a review note (author or editor)
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: Promise<{ slug: string; id: string }> }
+) {
+  try {
+    const session = await authorize("posts:create");
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { slug, id } = await params;
+    const body = await req.json();
+
+    if (typeof body.resolved !== "boolean") {
+      return NextResponse.json(
+        { error: "resolved must be true or false" },
+        { status: 400 }
+      );
+    }
+
+    const existing = await findReviewComment(slug, id);
+
+    if (!existing) {
+      return NextResponse.json({ error: "Review note not found" }, { status: 404 });
+    }
+
+    if (!canAccessReview(session.user, existing.post)) {
+      return NextResponse.json(
+        { error: "You can only resolve review notes on posts you can edit" },
+        { status: 403 }
+      );
+    }
+
+    const comment = await prisma.reviewComment.update({
+      where: { id },
+      data: {
+        resolved: body.resolved,
+        resolvedAt: body.resolved ? new Date() : null,
+      },
+      include: { author: { select: workflowUserSelect } },
+    });
+
+    return NextResponse.json({ comment });
+  } catch (error) {
+    console.error("Error updating review note:", error);
+    return NextResponse.json(
+      { error: "Failed to update review note" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/posts/[slug]/review-comments/[id] - Delete a review note (its author or a reviewer)
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: Promise<{ slug: string; id: string }> }
+) {
+  try {
+    const session = await authorize("posts:create");
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { slug, id } = await params;
+
+    const existing = await findReviewComment(slug, id);
+
+    if (!existing) {
+      return NextResponse.json({ error: "Review note not found" }, { status: 404 });
+    }
+
+    if (existing.authorId !== session.user.id && !hasPermission(session.user, "posts:review")) {
+      return NextResponse.json(
+        { error: "You can only delete your own review notes" },
+        { status: 403 }
+      );
+    }
+
+    await prisma.reviewComment.delete({ where: { id } });
+
+    return NextResponse.json({ message: "Review note deleted successfully" });
+  } catch (error) {
+    console.error("Error deleting review note:", error);
+    return NextResponse.json(
+      { error: "Failed to delete review note" },
+      { status: 500 }
+    );
+  }
+}
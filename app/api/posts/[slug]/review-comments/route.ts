@@ -0,0 +1,115 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorize } from "@/lib/authorization";
+import { prisma } from "@/lib/prisma";
+import { canAccessReview } from "@/lib/workflow";
+import { logPostActivity, workflowUserSelect } from "@/lib/post-workflow";
+
+const MAX_QUOTE_LENGTH = 500;
+
+// GET /api/posts/[slug]/review-comments - Internal review notes on a post (author or editor)
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ slug: string }> }
+) {
+  try {
+    const session = await authorize("posts:create");
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { slug } = await params;
+
+    const post = await prisma.post.findUnique({
+      where: { slug },
+      select: { id: true, authorId: true, published: true },
+    });
+
+    if (!post) {
+      return NextResponse.json({ error: "Post not found" }, { status: 404 });
+    }
+
+    if (!canAccessReview(session.user, post)) {
+      return NextResponse.json(
+        { error: "You can only view review notes of posts you can edit" },
+        { status: 403 }
+      );
+    }
+
+    const comments = await prisma.reviewComment.findMany({
+      where: { postId: post.id },
+      include: { author: { select: workflowUserSelect } },
+      orderBy: { createdAt: "asc" },
+    });
+
+    return NextResponse.json({ comments });
+  } catch (error) {
+    console.error("Error fetching review notes:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch review notes" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/posts/[slug]/review-comments - Add a review note, optionally quoting a passage (author or editor)
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ slug: string }> }
+) {
+  try {
+    const session = await authorize("posts:create");
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { slug } = await params;
+    const body = await req.json();
+    const content = typeof body.content === "string" ? body.content.trim() : "";
+    const quote = typeof body.quote === "string" ? body.quote.trim().slice(0, MAX_QUOTE_LENGTH) : "";
+
+    if (!content) {
+      return NextResponse.json(
+        { error: "Content is required" },
+        { status: 400 }
+      );
+    }
+
+    const post = await prisma.post.findUnique({
+      where: { slug },
+      select: { id: true, authorId: true, published: true },
+    });
+
+    if (!post) {
+      return NextResponse.json({ error: "Post not found" }, { status: 404 });
+    }
+
+    if (!canAccessReview(session.user, post)) {
+      return NextResponse.json(
+        { error: "You can only add review notes to posts you can edit" },
+        { status: 403 }
+      );
+    }
+
+    const comment = await prisma.reviewComment.create({
+      data: {
+        postId: post.id,
+        authorId: session.user.id,
+        content,
+        quote: quote || null,
+      },
+      include: { author: { select: workflowUserSelect } },
+    });
+
+    await logPostActivity(post.id, session.user.id, "REVIEW_COMMENT", content);
+
+    return NextResponse.json({ comment }, { status: 201 });
+  } catch (error) {
+    console.error("Error creating review note:", error);
+    return NextResponse.json(
+      { error: "Failed to create review note" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,113 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorize } from "@/lib/authorization";
+import { prisma } from "@/lib/prisma";
+import { canEditPost } from "@/lib/permissions";
+import { recordRevision } from "@/lib/revisions";
+import { addHeadingIds } from "@/lib/headings";
+
+// GET /api/posts/[slug]/revisions/[id] - Get a single revision with content (author or editor)
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ slug: string; id: string }> }
+) {
+  try {
+    const session = await authorize("posts:create");
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { slug, id } = await params;
+
+    const revision = await prisma.postRevision.findFirst({
+      where: { id, post: { slug } },
+      include: {
+        post: { select: { authorId: true, published: true } },
+        author: {
+          select: {
+            id: true,
+            name: true,
+            email: true,
+          },
+        },
+      },
+    });
+
+    if (!revision) {
+      return NextResponse.json({ error: "Revision not found" }, { status: 404 });
+    }
+
+    if (!canEditPost(session.user, revision.post)) {
+      return NextResponse.json(
+        { error: "You can only view revisions of posts you can edit" },
+        { status: 403 }
+      );
+    }
+
+    return NextResponse.json({ revision });
+  } catch (error) {
+    console.error("Error fetching revision:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch revision" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/posts/[slug]/revisions/[id] - Restore a revision (author or editor)
+// Restores title, excerpt and content; the slug is kept so existing links keep working
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ slug: string; id: string }> }
+) {
+  try {
+    const session = await authorize("posts:create");
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { slug, id } = await params;
+
+    const revision = await prisma.postRevision.findFirst({
+      where: { id, post: { slug } },
+      include: { post: { select: { authorId: true, published: true } } },
+    });
+
+    if (!revision) {
+      return NextResponse.json({ error: "Revision not found" }, { status: 404 });
+    }
+
+    if (!canEditPost(session.user, revision.post)) {
+      return NextResponse.json(
+        { error: "You can only restore revisions of posts you can edit" },
+        { status: 403 }
+      );
+    }
+
+    // Calculate reading time (rough estimate: 200 words per minute)
+    const wordCount = revision.content.split(/\s+/).length;
+    const readingTime = Math.ceil(wordCount / 200);
+
+    const post = await prisma.post.update({
+      where: { slug },
+      data: {
+        title: revision.title,
+        excerpt: revision.excerpt,
+        content: addHeadingIds(revision.content),
+        readingTime,
+      },
+    });
+
+    // The restore itself becomes the newest revision
+    await recordRevision(post, session.user.id);
+
+    return NextResponse.json({ post });
+  } catch (error) {
+    console.error("Error restoring revision:", error);
+    return NextResponse.json(
+      { error: "Failed to restore revision" },
+      { status: 500 }
+    );
+  }
+}
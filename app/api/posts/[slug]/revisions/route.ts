@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorize } from "@/lib/authorization";
+import { prisma } from "@/lib/prisma";
+import { canEditPost } from "@/lib/permissions";
+
+// GET /api/posts/[slug]/revisions - List revisions of a post, newest first (author or editor)
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ slug: string }> }
+) {
+  try {
+    const session = await authorize("posts:create");
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { slug } = await params;
+
+    const post = await prisma.post.findUnique({
+      where: { slug },
+      select: { id: true, authorId: true, published: true },
+    });
+
+    if (!post) {
+      return NextResponse.json({ error: "Post not found" }, { status: 404 });
+    }
+
+    if (!canEditPost(session.user, post)) {
+      return NextResponse.json(
+        { error: "You can only view revisions of posts you can edit" },
+        { status: 403 }
+      );
+    }
+
+    // Content is omitted from the list - fetch a single revision for it
+    const revisions = await prisma.postRevision.findMany({
+      where: { postId: post.id },
+      select: {
+        id: true,
+        title: true,
+        createdAt: true,
+        author: {
+          select: {
+            id: true,
+            name: true,
+            email: true,
+          },
+        },
+      },
+      orderBy: {
+        createdAt: "desc",
+      },
+    });
+
+    return NextResponse.json({ revisions });
+  } catch (error) {
+    console.error("Error fetching revisions:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch revisions" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,24 +1,23 @@
 import { NextRequest, NextResponse } from "next/server";
 import { auth } from "@/auth";
 import { prisma } from "@/lib/prisma";
-import crypto from "crypto";
-
-// In-memory view tracker (IP hash -> timestamp)
-// Cleaned up periodically to prevent memory growth
-const viewTracker = new Map<string, number>();
-const VIEW_WINDOW = 24 * 60 * 60 * 1000; // 24 hours
-
-// Cleanup old entries every hour
-setInterval(() => {
-  const now = Date.now();
-  for (const [key, timestamp] of viewTracker.entries()) {
-    if (now - timestamp > VIEW_WINDOW) {
-      viewTracker.delete(key);
-    }
-  }
-}, 60 * 60 * 1000);
+import { authorize } from "@/lib/authorization";
+import { canDeletePost, canEditPost, hasPermission } from "@/lib/permissions";
+import { isPostLive, parseScheduledAt } from "@/lib/posts";
+import { getSeriesNavigation, nextSeriesPosition, parseSeriesPosition, seriesExists } from "@/lib/series";
+import { addHeadingIds } from "@/lib/headings";
+import { sanitizeHtml } from "@/lib/sanitize";
+import { ensureBaselineRevision, recordRevision } from "@/lib/revisions";
+import { clearDraft } from "@/lib/drafts";
+import { getImageSets } from "@/lib/media";
+import { approvedCommentsCount, privateCommentFields } from "@/lib/comments";
+import { queueAnnouncement } from "@/lib/newsletter";
+import { logPostActivity, logPublishChange } from "@/lib/post-workflow";
+import { recordPageView } from "@/lib/analytics";
+import { getClientIp } from "@/lib/client-ip";
+import { parseCampaign } from "@/lib/tracking";
 
-// GET /api/posts/[slug] - Get single post by slug
+// GET /api/posts/[slug] - Get single post by slug (?ref= and utm_* describe the visit, for view analytics)
 export async function GET(
   req: NextRequest,
   { params }: { params: Promise<{ slug: string }> }
@@ -34,6 +33,7 @@ export async function GET(
           select: {
             id: true,
             name: true,
+            slug: true,
             image: true,
           },
         },
@@ -46,7 +46,9 @@ export async function GET(
         comments: {
           where: {
             parentId: null, // Only top-level comments
+            status: "APPROVED",
           },
+          omit: privateCommentFields,
           include: {
             user: {
               select: {
@@ -56,6 +58,10 @@ export async function GET(
               },
             },
             replies: {
+              where: {
+                status: "APPROVED",
+              },
+              omit: privateCommentFields,
               include: {
                 user: {
                   select: {
@@ -76,7 +82,7 @@ export async function GET(
         },
         _count: {
           select: {
-            comments: true,
+            ...approvedCommentsCount,
             likes: true,
           },
         },
@@ -87,37 +93,59 @@ export async function GET(
       return NextResponse.json({ error: "Post not found" }, { status: 404 });
     }
 
-    // Check if post is published (unless user is admin)
+    // Unpublished posts are only visible to people who can edit them
     const session = await auth();
-    const isAdmin = session?.user?.role === "ADMIN";
+    const canEdit = canEditPost(session?.user, post);
 
-    if (!post.published && !isAdmin) {
+    if (!isPostLive(post) && !canEdit) {
       return NextResponse.json({ error: "Post not found" }, { status: 404 });
     }
 
-    // IP-based view deduplication (cookieless)
-    // Hash the IP for privacy, track views per IP+post for 24 hours
-    const forwarded = req.headers.get("x-forwarded-for");
-    const ip = forwarded ? forwarded.split(",")[0].trim() : "unknown";
-    const ipHash = crypto.createHash("sha256").update(ip + post.id).digest("hex").slice(0, 16);
+    // Cookieless view counting, once per visitor per day (see lib/analytics.ts)
+    // Live posts only, and not the staff who edit them
+    if (isPostLive(post) && !canEdit) {
+      const counted = await recordPageView(
+        { postId: post.id },
+        {
+          ip: getClientIp(req),
+          userAgent: req.headers.get("user-agent"),
+          referrer: req.nextUrl.searchParams.get("ref"),
+          campaign: parseCampaign(req.nextUrl.searchParams),
+        }
+      );
 
-    const hasViewed = viewTracker.has(ipHash);
-
-    if (!hasViewed) {
-      await prisma.post.update({
-        where: { slug },
-        data: {
-          views: {
-            increment: 1,
+      if (counted) {
+        await prisma.post.update({
+          where: { slug },
+          data: {
+            views: {
+              increment: 1,
+            },
           },
-        },
-      });
-
-      // Track this view for 24 hours
-      viewTracker.set(ipHash, Date.now());
+        });
+      }
     }
 
-    return NextResponse.json({ post });
+    const imageSets = await getImageSets([post.coverImage]);
+
+    // Let the editor know whether subscribers were already told about this post
+    const announcement = canEdit
+      ? await prisma.newsletterSend.findFirst({
+          where: { postId: post.id, status: { not: "FAILED" } },
+          select: { status: true, sentAt: true },
+        })
+      : null;
+
+    return NextResponse.json({
+      post: {
+        ...post,
+        // Posts saved before heading anchors existed get them here
+        content: addHeadingIds(post.content),
+        coverImageSet: (post.coverImage && imageSets[post.coverImage]) || null,
+        seriesNavigation: await getSeriesNavigation(post),
+        ...(canEdit && { announcement }),
+      },
+    });
   } catch (error) {
     console.error("Error fetching post:", error);
     return NextResponse.json(
@@ -127,15 +155,15 @@ export async function GET(
   }
 }
 
-// PUT /api/posts/[slug] - Update post (admin only)
+// PUT /api/posts/[slug] - Update post (author or editor)
 export async function PUT(
   req: NextRequest,
   { params }: { params: Promise<{ slug: string }> }
 ) {
   try {
-    const session = await auth();
+    const session = await authorize("posts:create");
 
-    if (!session?.user || session.user.role !== "ADMIN") {
+    if (!session) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
 
@@ -143,13 +171,15 @@ export async function PUT(
     const body = await req.json();
     const {
       title,
-      content,
       excerpt,
       coverImage,
-      published,
       categoryId,
+      seriesId,
       tags,
     } = body;
+    // Sanitized on the server whatever the editor did, then anchor ids, so
+    // unchanged content compares equal to what's stored
+    const content = body.content ? addHeadingIds(sanitizeHtml(String(body.content))) : body.content;
 
     // Check if post exists
     const existingPost = await prisma.post.findUnique({
@@ -160,6 +190,76 @@ export async function PUT(
       return NextResponse.json({ error: "Post not found" }, { status: 404 });
     }
 
+    if (!canEditPost(session.user, existingPost)) {
+      return NextResponse.json(
+        { error: "You can only edit your own posts" },
+        { status: 403 }
+      );
+    }
+
+    // Publishing state is left alone for people who can't publish
+    const canPublish = hasPermission(session.user, "posts:publish");
+    const published = canPublish ? body.published : undefined;
+    const scheduledAt = canPublish ? body.scheduledAt : undefined;
+    const announce = hasPermission(session.user, "posts:announce") && body.announce;
+
+    const schedule = parseScheduledAt(scheduledAt);
+    if (schedule === "invalid") {
+      return NextResponse.json(
+        { error: "Invalid scheduled date" },
+        { status: 400 }
+      );
+    }
+
+    const seriesPosition = parseSeriesPosition(body.seriesPosition);
+    if (seriesPosition === "invalid") {
+      return NextResponse.json(
+        { error: "Series part must be a positive whole number" },
+        { status: 400 }
+      );
+    }
+
+    if (seriesId && !(await seriesExists(seriesId))) {
+      return NextResponse.json(
+        { error: "Series not found" },
+        { status: 400 }
+      );
+    }
+
+    // Moving into a series appends the post unless a position was picked
+    let seriesData = {};
+    if (seriesId !== undefined) {
+      if (!seriesId) {
+        seriesData = { seriesId: null, seriesPosition: null };
+      } else if (seriesPosition) {
+        seriesData = { seriesId, seriesPosition };
+      } else if (seriesId !== existingPost.seriesId || !existingPost.seriesPosition) {
+        seriesData = { seriesId, seriesPosition: await nextSeriesPosition(seriesId) };
+      }
+    }
+
+    const now = new Date();
+    let publishData = {};
+
+    if (schedule) {
+      // Schedule (or reschedule) - stored as published with a future go-live time
+      if (schedule <= now) {
+        return NextResponse.json(
+          { error: "Scheduled time must be in the future" },
+          { status: 400 }
+        );
+      }
+      publishData = { published: true, scheduledAt: schedule, publishedAt: schedule };
+    } else if (published !== undefined) {
+      // Publishing a draft or a still-pending scheduled post goes live now
+      const wasPending = !isPostLive(existingPost, now);
+      publishData = {
+        published,
+        ...(schedule === null && { scheduledAt: null }),
+        ...(published && wasPending && { scheduledAt: null, publishedAt: now }),
+      };
+    }
+
     // Generate new slug if title changed
     let newSlug = slug;
     if (title && title !== existingPost.title) {
@@ -188,6 +288,20 @@ export async function PUT(
       readingTime = Math.ceil(wordCount / 200);
     }
 
+    // Approval covers the approved text - a writer changing it sends the post back to review
+    // (older posts are compared with anchors added, which alone isn't a change)
+    const contentChanged =
+      (title && title !== existingPost.title) ||
+      (content && content !== addHeadingIds(existingPost.content));
+    const needsReReview =
+      existingPost.reviewStatus === "APPROVED" &&
+      !existingPost.published &&
+      contentChanged &&
+      !hasPermission(session.user, "posts:review");
+
+    // Keep the pre-edit version of posts created before revision history existed
+    await ensureBaselineRevision(existingPost);
+
     // Update post
     const post = await prisma.post.update({
       where: { slug },
@@ -197,12 +311,10 @@ export async function PUT(
         ...(content && { content, readingTime }),
         ...(excerpt !== undefined && { excerpt }),
         ...(coverImage !== undefined && { coverImage }),
-        ...(published !== undefined && {
-          published,
-          publishedAt:
-            published && !existingPost.published ? new Date() : undefined,
-        }),
+        ...publishData,
+        ...(needsReReview && { reviewStatus: "IN_REVIEW" }),
         ...(categoryId !== undefined && { categoryId }),
+        ...seriesData,
         // Handle tags update
         ...(tags && {
           tags: {
@@ -220,6 +332,7 @@ export async function PUT(
           select: {
             id: true,
             name: true,
+            slug: true,
             image: true,
           },
         },
@@ -232,6 +345,22 @@ export async function PUT(
       },
     });
 
+    // Snapshot the saved version into the revision history
+    await recordRevision(post, session.user.id);
+
+    // Autosaved changes are now part of the post
+    await clearDraft(session.user.id, post.id);
+
+    if (needsReReview) {
+      await logPostActivity(post.id, session.user.id, "SUBMITTED", "Changed after approval");
+    }
+    await logPublishChange(post.id, existingPost, post, session.user.id);
+
+    // Email subscribers once the post is live (delivered by the newsletter queue)
+    if (announce && post.published) {
+      await queueAnnouncement(post.id, session.user.id);
+    }
+
     return NextResponse.json({ post });
   } catch (error) {
     console.error("Error updating post:", error);
@@ -242,15 +371,15 @@ export async function PUT(
   }
 }
 
-// DELETE /api/posts/[slug] - Delete post (admin only)
+// DELETE /api/posts/[slug] - Delete post (author or editor)
 export async function DELETE(
   req: NextRequest,
   { params }: { params: Promise<{ slug: string }> }
 ) {
   try {
-    const session = await auth();
+    const session = await authorize("posts:create");
 
-    if (!session?.user || session.user.role !== "ADMIN") {
+    if (!session) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
 
@@ -265,6 +394,13 @@ export async function DELETE(
       return NextResponse.json({ error: "Post not found" }, { status: 404 });
     }
 
+    if (!canDeletePost(session.user, existingPost)) {
+      return NextResponse.json(
+        { error: "You can only delete your own posts" },
+        { status: 403 }
+      );
+    }
+
     // Delete post (cascade will handle comments, likes, tags)
     await prisma.post.delete({
       where: { slug },
@@ -0,0 +1,144 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorize } from "@/lib/authorization";
+import { prisma } from "@/lib/prisma";
+import { hasPermission } from "@/lib/permissions";
+import { canAccessReview, canTransition, isWorkflowAction } from "@/lib/workflow";
+import {
+  applyWorkflowAction,
+  assignReviewer,
+  getReviewers,
+  workflowUserSelect,
+} from "@/lib/post-workflow";
+
+// GET /api/posts/[slug]/workflow - Review state, assigned reviewer and who can review (author or editor)
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ slug: string }> }
+) {
+  try {
+    const session = await authorize("posts:create");
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { slug } = await params;
+
+    const post = await prisma.post.findUnique({
+      where: { slug },
+      select: {
+        id: true,
+        authorId: true,
+        published: true,
+        scheduledAt: true,
+        reviewStatus: true,
+        reviewer: { select: workflowUserSelect },
+      },
+    });
+
+    if (!post) {
+      return NextResponse.json({ error: "Post not found" }, { status: 404 });
+    }
+
+    if (!canAccessReview(session.user, post)) {
+      return NextResponse.json(
+        { error: "You can only review posts you can edit" },
+        { status: 403 }
+      );
+    }
+
+    const reviewers = await getReviewers();
+
+    return NextResponse.json({ workflow: post, reviewers });
+  } catch (error) {
+    console.error("Error fetching workflow:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch workflow" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/posts/[slug]/workflow - Take a workflow action or assign the reviewer (author or editor)
+// Body: { action: "submit" | "withdraw" | "approve" | "request_changes", note? } or { reviewerId }
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ slug: string }> }
+) {
+  try {
+    const session = await authorize("posts:create");
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { slug } = await params;
+    const body = await req.json();
+    const note = typeof body.note === "string" && body.note.trim() ? body.note.trim() : null;
+
+    const post = await prisma.post.findUnique({ where: { slug } });
+
+    if (!post) {
+      return NextResponse.json({ error: "Post not found" }, { status: 404 });
+    }
+
+    if (!canAccessReview(session.user, post)) {
+      return NextResponse.json(
+        { error: "You can only review posts you can edit" },
+        { status: 403 }
+      );
+    }
+
+    if (body.reviewerId !== undefined) {
+      if (body.reviewerId !== null) {
+        const reviewer = await prisma.user.findUnique({
+          where: { id: body.reviewerId },
+          select: { role: true },
+        });
+        if (!reviewer || !hasPermission(reviewer, "posts:review")) {
+          return NextResponse.json(
+            { error: "That user can't review posts" },
+            { status: 400 }
+          );
+        }
+      }
+
+      await assignReviewer(post.id, body.reviewerId, session.user.id);
+    }
+
+    if (body.action !== undefined) {
+      if (!isWorkflowAction(body.action)) {
+        return NextResponse.json({ error: "Invalid action" }, { status: 400 });
+      }
+
+      if (!canTransition(session.user, post, body.action)) {
+        return NextResponse.json(
+          { error: "This action isn't available for the post right now" },
+          { status: 409 }
+        );
+      }
+
+      await applyWorkflowAction(post.id, body.action, session.user.id, note);
+    }
+
+    const workflow = await prisma.post.findUnique({
+      where: { id: post.id },
+      select: {
+        id: true,
+        authorId: true,
+        published: true,
+        scheduledAt: true,
+        reviewStatus: true,
+        reviewer: { select: workflowUserSelect },
+      },
+    });
+
+    return NextResponse.json({ workflow });
+  } catch (error) {
+    console.error("Error updating workflow:", error);
+    return NextResponse.json(
+      { error: "Failed to update workflow" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,22 +1,42 @@
 import { NextRequest, NextResponse } from "next/server";
+import { Prisma } from "@prisma/client";
 import { auth } from "@/auth";
 import { prisma } from "@/lib/prisma";
+import { authorize } from "@/lib/authorization";
+import { hasPermission } from "@/lib/permissions";
+import { livePostWhere, parseScheduledAt } from "@/lib/posts";
+import { nextSeriesPosition, parseSeriesPosition, seriesExists, seriesPostOrder } from "@/lib/series";
+import { addHeadingIds } from "@/lib/headings";
+import { sanitizeHtml } from "@/lib/sanitize";
+import { recordRevision } from "@/lib/revisions";
+import { clearDraft } from "@/lib/drafts";
+import { getImageSets } from "@/lib/media";
+import { approvedCommentsCount } from "@/lib/comments";
+import { queueAnnouncement } from "@/lib/newsletter";
+import { logPostActivity, logPublishChange } from "@/lib/post-workflow";
 
-// GET /api/posts - List all published posts (or all for admin)
+// GET /api/posts - List all published posts (plus unpublished ones the user can work on)
 export async function GET(req: NextRequest) {
   try {
     const session = await auth();
     const { searchParams } = new URL(req.url);
     const category = searchParams.get("category");
     const tag = searchParams.get("tag");
+    const author = searchParams.get("author"); // user ID or profile slug
+    const series = searchParams.get("series");
     const page = parseInt(searchParams.get("page") || "1");
     const limit = parseInt(searchParams.get("limit") || "0"); // 0 = no pagination
 
-    // Admin can see all posts, others only published
-    const isAdmin = session?.user?.role === "ADMIN";
+    // Editors see all posts, writers also see their own unpublished ones,
+    // everyone else only published posts past their scheduled time
+    const visibility = hasPermission(session?.user, "posts:edit-any")
+      ? {}
+      : hasPermission(session?.user, "posts:create")
+        ? { OR: [livePostWhere(), { authorId: session!.user!.id }] }
+        : livePostWhere();
 
     const whereClause = {
-      ...(isAdmin ? {} : { published: true }),
+      ...visibility,
       ...(category && {
         category: {
           slug: category,
@@ -31,6 +51,16 @@ export async function GET(req: NextRequest) {
           },
         },
       }),
+      ...(author && {
+        author: {
+          OR: [{ id: author }, { slug: author }],
+        },
+      }),
+      ...(series && {
+        series: {
+          slug: series,
+        },
+      }),
     };
 
     // Get total count for pagination
@@ -39,12 +69,12 @@ export async function GET(req: NextRequest) {
     const queryOptions: {
       where: typeof whereClause;
       include: {
-        author: { select: { id: boolean; name: boolean; image: boolean } };
+        author: { select: { id: boolean; name: boolean; slug: boolean; image: boolean } };
         category: boolean;
         tags: { include: { tag: boolean } };
-        _count: { select: { comments: boolean; likes: boolean } };
+        _count: { select: typeof approvedCommentsCount & { likes: boolean } };
       };
-      orderBy: { createdAt: "desc" };
+      orderBy: Prisma.PostOrderByWithRelationInput | Prisma.PostOrderByWithRelationInput[];
       skip?: number;
       take?: number;
     } = {
@@ -54,6 +84,7 @@ export async function GET(req: NextRequest) {
           select: {
             id: true,
             name: true,
+            slug: true,
             image: true,
           },
         },
@@ -65,12 +96,13 @@ export async function GET(req: NextRequest) {
         },
         _count: {
           select: {
-            comments: true,
+            ...approvedCommentsCount,
             likes: true,
           },
         },
       },
-      orderBy: {
+      // A series reads in part order, everything else newest first
+      orderBy: series ? seriesPostOrder : {
         createdAt: "desc",
       },
     };
@@ -83,8 +115,14 @@ export async function GET(req: NextRequest) {
 
     const posts = await prisma.post.findMany(queryOptions);
 
+    // Responsive variants for covers uploaded through the media library
+    const imageSets = await getImageSets(posts.map((post) => post.coverImage));
+
     return NextResponse.json({
-      posts,
+      posts: posts.map((post) => ({
+        ...post,
+        coverImageSet: (post.coverImage && imageSets[post.coverImage]) || null,
+      })),
       pagination: limit > 0 ? {
         page,
         limit,
@@ -101,17 +139,24 @@ export async function GET(req: NextRequest) {
   }
 }
 
-// POST /api/posts - Create new post (admin only)
+// POST /api/posts - Create new post (contributors and up)
 export async function POST(req: NextRequest) {
   try {
-    const session = await auth();
+    const session = await authorize("posts:create");
 
-    if (!session?.user || session.user.role !== "ADMIN") {
+    if (!session) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
 
     const body = await req.json();
-    const { title, content, excerpt, coverImage, published, categoryId, tags } = body;
+    const { title, content, excerpt, coverImage, categoryId, tags } = body;
+    const seriesId: string | null = body.seriesId || null;
+
+    // Contributors can only save drafts; someone who can publish takes it from there
+    const canPublish = hasPermission(session.user, "posts:publish");
+    const published = canPublish && body.published;
+    const scheduledAt = canPublish ? body.scheduledAt : null;
+    const announce = hasPermission(session.user, "posts:announce") && body.announce;
 
     if (!title || !content) {
       return NextResponse.json(
@@ -120,6 +165,36 @@ export async function POST(req: NextRequest) {
       );
     }
 
+    // Scheduled posts are stored as published with a future go-live time
+    const schedule = parseScheduledAt(scheduledAt);
+    if (schedule === "invalid") {
+      return NextResponse.json(
+        { error: "Invalid scheduled date" },
+        { status: 400 }
+      );
+    }
+    if (schedule && schedule <= new Date()) {
+      return NextResponse.json(
+        { error: "Scheduled time must be in the future" },
+        { status: 400 }
+      );
+    }
+
+    const seriesPosition = parseSeriesPosition(body.seriesPosition);
+    if (seriesPosition === "invalid") {
+      return NextResponse.json(
+        { error: "Series part must be a positive whole number" },
+        { status: 400 }
+      );
+    }
+
+    if (seriesId && !(await seriesExists(seriesId))) {
+      return NextResponse.json(
+        { error: "Series not found" },
+        { status: 400 }
+      );
+    }
+
     // Generate slug from title
     const slug = title
       .toLowerCase()
@@ -146,14 +221,19 @@ export async function POST(req: NextRequest) {
       data: {
         title,
         slug,
-        content,
+        // Never trust the editor's own sanitizing - any role that can write posts could skip it
+        content: addHeadingIds(sanitizeHtml(content)),
         excerpt,
         coverImage,
-        published: published || false,
+        published: !!schedule || published || false,
+        scheduledAt: schedule || null,
         readingTime,
         authorId: session.user.id,
         categoryId,
-        publishedAt: published ? new Date() : null,
+        seriesId,
+        // New parts go at the end unless a position was picked
+        seriesPosition: seriesId ? seriesPosition ?? (await nextSeriesPosition(seriesId)) : null,
+        publishedAt: schedule || (published ? new Date() : null),
         ...(tags && tags.length > 0 && {
           tags: {
             create: tags.map((tagId: string) => ({
@@ -181,6 +261,21 @@ export async function POST(req: NextRequest) {
       },
     });
 
+    // Start the revision history with the initial version
+    await recordRevision(post, session.user.id);
+
+    // Start the activity timeline
+    await logPostActivity(post.id, session.user.id, "CREATED");
+    await logPublishChange(post.id, null, post, session.user.id);
+
+    // The "new post" autosave has been saved for real
+    await clearDraft(session.user.id, null);
+
+    // Email subscribers once the post is live (delivered by the newsletter queue)
+    if (announce && post.published) {
+      await queueAnnouncement(post.id, session.user.id);
+    }
+
     return NextResponse.json({ post }, { status: 201 });
   } catch (error) {
     console.error("Error creating post:", error);
@@ -0,0 +1,123 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorize } from "@/lib/authorization";
+import { prisma } from "@/lib/prisma";
+import {
+  authorProfileSelect,
+  isValidProfileUrl,
+  normalizeAuthorSlug,
+  PROFILE_LINK_FIELDS,
+} from "@/lib/authors";
+
+const MAX_BIO_LENGTH = 2000;
+
+// Empty strings clear a field
+function optionalString(value: unknown) {
+  return typeof value === "string" && value.trim() ? value.trim() : null;
+}
+
+// GET /api/profile - Get your own author profile (staff)
+export async function GET() {
+  try {
+    const session = await authorize("admin:access");
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const profile = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: authorProfileSelect,
+    });
+
+    if (!profile) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ profile });
+  } catch (error) {
+    console.error("Error fetching profile:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch profile" },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT /api/profile - Update your own author profile (staff)
+export async function PUT(req: NextRequest) {
+  try {
+    const session = await authorize("admin:access");
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await req.json();
+
+    const bio = optionalString(body.bio);
+    if (bio && bio.length > MAX_BIO_LENGTH) {
+      return NextResponse.json(
+        { error: `Bio must be ${MAX_BIO_LENGTH} characters or less` },
+        { status: 400 }
+      );
+    }
+
+    const links: Partial<Record<(typeof PROFILE_LINK_FIELDS)[number], string | null>> = {};
+    for (const field of PROFILE_LINK_FIELDS) {
+      const url = optionalString(body[field]);
+      if (url && !isValidProfileUrl(url)) {
+        return NextResponse.json(
+          { error: `${url} is not a valid http(s) URL` },
+          { status: 400 }
+        );
+      }
+      links[field] = url;
+    }
+
+    const requestedSlug = optionalString(body.slug);
+    const slug = requestedSlug ? normalizeAuthorSlug(requestedSlug) : null;
+    if (requestedSlug && !slug) {
+      return NextResponse.json(
+        { error: "Profile URL must contain letters or numbers" },
+        { status: 400 }
+      );
+    }
+
+    if (slug) {
+      const taken = await prisma.user.findFirst({
+        where: {
+          id: { not: session.user.id },
+          OR: [{ slug }, { id: slug }],
+        },
+        select: { id: true },
+      });
+
+      if (taken) {
+        return NextResponse.json(
+          { error: "That profile URL is already taken" },
+          { status: 409 }
+        );
+      }
+    }
+
+    const profile = await prisma.user.update({
+      where: { id: session.user.id },
+      data: {
+        name: optionalString(body.name),
+        image: optionalString(body.image),
+        slug,
+        bio,
+        ...links,
+      },
+      select: authorProfileSelect,
+    });
+
+    return NextResponse.json({ profile });
+  } catch (error) {
+    console.error("Error updating profile:", error);
+    return NextResponse.json(
+      { error: "Failed to update profile" },
+      { status: 500 }
+    );
+  }
+}
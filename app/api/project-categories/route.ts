@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from "next/server";
-import { auth } from "@/auth";
+import { authorize } from "@/lib/authorization";
 import { prisma } from "@/lib/prisma";
 
 // GET /api/project-categories - List all project categories
@@ -27,9 +27,9 @@ export async function GET() {
 // POST /api/project-categories - Create new project category (admin only)
 export async function POST(req: NextRequest) {
   try {
-    const session = await auth();
+    const session = await authorize("projects:manage");
 
-    if (!session?.user || session.user.role !== "ADMIN") {
+    if (!session) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
 
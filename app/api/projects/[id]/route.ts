@@ -1,8 +1,13 @@
 import { NextRequest, NextResponse } from "next/server";
-import { auth } from "@/auth";
+import { authorize } from "@/lib/authorization";
 import { prisma } from "@/lib/prisma";
+import { auth } from "@/auth";
+import { hasPermission } from "@/lib/permissions";
+import { recordPageView } from "@/lib/analytics";
+import { getClientIp } from "@/lib/client-ip";
+import { parseCampaign } from "@/lib/tracking";
 
-// GET /api/projects/[id] - Get single project by ID or slug
+// GET /api/projects/[id] - Get single project by ID or slug (?ref= and utm_* describe the visit, for view analytics)
 export async function GET(
   req: NextRequest,
   { params }: { params: Promise<{ id: string }> }
@@ -47,6 +52,20 @@ export async function GET(
       );
     }
 
+    // Cookieless view counting, not for the staff who manage projects (see lib/analytics.ts)
+    const session = await auth();
+    if (!hasPermission(session?.user, "projects:manage")) {
+      await recordPageView(
+        { projectId: project.id },
+        {
+          ip: getClientIp(req),
+          userAgent: req.headers.get("user-agent"),
+          referrer: req.nextUrl.searchParams.get("ref"),
+          campaign: parseCampaign(req.nextUrl.searchParams),
+        }
+      );
+    }
+
     return NextResponse.json({ project });
   } catch (error) {
     console.error("Error fetching project:", error);
@@ -63,9 +82,9 @@ export async function PUT(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    const session = await auth();
+    const session = await authorize("projects:manage");
 
-    if (!session?.user || session.user.role !== "ADMIN") {
+    if (!session) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
 
@@ -162,9 +181,9 @@ export async function DELETE(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    const session = await auth();
+    const session = await authorize("projects:manage");
 
-    if (!session?.user || session.user.role !== "ADMIN") {
+    if (!session) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
 
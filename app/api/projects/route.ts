@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
-import { auth } from "@/auth";
+import { authorize } from "@/lib/authorization";
 import { prisma } from "@/lib/prisma";
+import { getImageSets } from "@/lib/media";
 
 // GET /api/projects - List all projects (public)
 export async function GET(req: NextRequest) {
@@ -66,8 +67,14 @@ export async function GET(req: NextRequest) {
 
     const projects = await prisma.project.findMany(queryOptions);
 
+    // Responsive variants for images uploaded through the media library
+    const imageSets = await getImageSets(projects.map((project) => project.imageUrl));
+
     return NextResponse.json({
-      projects,
+      projects: projects.map((project) => ({
+        ...project,
+        imageSet: (project.imageUrl && imageSets[project.imageUrl]) || null,
+      })),
       pagination: limit > 0 ? {
         page,
         limit,
@@ -87,9 +94,9 @@ export async function GET(req: NextRequest) {
 // POST /api/projects - Create new project (admin only)
 export async function POST(req: NextRequest) {
   try {
-    const session = await auth();
+    const session = await authorize("projects:manage");
 
-    if (!session?.user || session.user.role !== "ADMIN") {
+    if (!session) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
 
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from "next/server";
+import { search, SearchType } from "@/lib/search";
+import { checkRateLimit, RATE_LIMITS, rateLimitHeaders } from "@/lib/rate-limit";
+import { getClientIp } from "@/lib/client-ip";
+
+const SEARCH_TYPES: SearchType[] = ["all", "posts", "projects"];
+
+// GET /api/search?q=xxx&type=all|posts|projects&limit=10 - Full-text search (public)
+export async function GET(req: NextRequest) {
+  try {
+    const clientIp = getClientIp(req);
+    const rateLimit = await checkRateLimit(`search:ip:${clientIp}`, RATE_LIMITS.general);
+
+    if (!rateLimit.success) {
+      return NextResponse.json(
+        { error: `Too many searches. Please wait ${rateLimit.resetIn} seconds.` },
+        { status: 429, headers: rateLimitHeaders(rateLimit) }
+      );
+    }
+
+    const { searchParams } = new URL(req.url);
+    const query = (searchParams.get("q") || "").trim();
+    const typeParam = searchParams.get("type") || "all";
+    const limit = Math.min(Math.max(parseInt(searchParams.get("limit") || "10") || 10, 1), 50);
+
+    if (query.length < 2) {
+      return NextResponse.json(
+        { error: "Search query must be at least 2 characters" },
+        { status: 400 }
+      );
+    }
+
+    if (query.length > 200) {
+      return NextResponse.json(
+        { error: "Search query is too long (max 200 characters)" },
+        { status: 400 }
+      );
+    }
+
+    if (!SEARCH_TYPES.includes(typeParam as SearchType)) {
+      return NextResponse.json(
+        { error: "Invalid search type" },
+        { status: 400 }
+      );
+    }
+
+    const results = await search(query, { type: typeParam as SearchType, limit });
+
+    return NextResponse.json({
+      query,
+      ...results,
+      total: results.posts.length + results.projects.length,
+    });
+  } catch (error) {
+    console.error("Error searching:", error);
+    return NextResponse.json(
+      { error: "Failed to search" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,180 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/auth";
+import { authorize } from "@/lib/authorization";
+import { prisma } from "@/lib/prisma";
+import { hasPermission } from "@/lib/permissions";
+import { livePostWhere } from "@/lib/posts";
+import { reorderSeries, seriesPostOrder } from "@/lib/series";
+
+// GET /api/series/[id] - Get a series with its posts in order (editors also see unpublished parts)
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const session = await auth();
+    const showAll = hasPermission(session?.user, "taxonomy:manage");
+
+    const series = await prisma.series.findUnique({
+      where: { id },
+      include: {
+        posts: {
+          where: showAll ? {} : livePostWhere(),
+          select: {
+            id: true,
+            title: true,
+            slug: true,
+            published: true,
+            scheduledAt: true,
+            seriesPosition: true,
+          },
+          orderBy: seriesPostOrder,
+        },
+      },
+    });
+
+    if (!series) {
+      return NextResponse.json(
+        { error: "Series not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ series });
+  } catch (error) {
+    console.error("Error fetching series:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch series" },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT /api/series/[id] - Update series details or the order of its posts (editors)
+export async function PUT(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await authorize("taxonomy:manage");
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const body = await req.json();
+    const { title, description, postIds } = body;
+
+    const existing = await prisma.series.findUnique({
+      where: { id },
+    });
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: "Series not found" },
+        { status: 404 }
+      );
+    }
+
+    if (postIds !== undefined && (!Array.isArray(postIds) || postIds.some((postId) => typeof postId !== "string"))) {
+      return NextResponse.json(
+        { error: "postIds must be a list of post IDs" },
+        { status: 400 }
+      );
+    }
+
+    // Generate new slug if title changed
+    const slug = title
+      ? title
+          .toLowerCase()
+          .replace(/[^a-z0-9]+/g, "-")
+          .replace(/^-|-$/g, "")
+      : existing.slug;
+
+    // Check for conflicts
+    if (title && title !== existing.title) {
+      const conflict = await prisma.series.findFirst({
+        where: {
+          OR: [{ title }, { slug }],
+          NOT: { id },
+        },
+      });
+
+      if (conflict) {
+        return NextResponse.json(
+          { error: "A series with this title already exists" },
+          { status: 400 }
+        );
+      }
+    }
+
+    const series = await prisma.series.update({
+      where: { id },
+      data: {
+        title: title || existing.title,
+        slug,
+        description: description !== undefined ? description : existing.description,
+      },
+    });
+
+    if (postIds) {
+      await reorderSeries(id, postIds);
+    }
+
+    return NextResponse.json({ series });
+  } catch (error) {
+    console.error("Error updating series:", error);
+    return NextResponse.json(
+      { error: "Failed to update series" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/series/[id] - Delete series, keeping its posts (editors)
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await authorize("taxonomy:manage");
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    const existing = await prisma.series.findUnique({
+      where: { id },
+    });
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: "Series not found" },
+        { status: 404 }
+      );
+    }
+
+    // Posts are detached by the relation (onDelete: SetNull); clear their positions too
+    await prisma.$transaction([
+      prisma.post.updateMany({
+        where: { seriesId: id },
+        data: { seriesPosition: null },
+      }),
+      prisma.series.delete({
+        where: { id },
+      }),
+    ]);
+
+    return NextResponse.json({ message: "Series deleted successfully" });
+  } catch (error) {
+    console.error("Error deleting series:", error);
+    return NextResponse.json(
+      { error: "Failed to delete series" },
+      { status: 500 }
+    );
+  }
+}
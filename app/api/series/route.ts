@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorize } from "@/lib/authorization";
+import { prisma } from "@/lib/prisma";
+import { livePostWhere } from "@/lib/posts";
+
+// GET /api/series - List all series with their number of published parts
+export async function GET() {
+  try {
+    const series = await prisma.series.findMany({
+      include: {
+        _count: {
+          select: { posts: { where: livePostWhere() } },
+        },
+      },
+      orderBy: { title: "asc" },
+    });
+
+    return NextResponse.json({ series });
+  } catch (error) {
+    console.error("Error fetching series:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch series" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/series - Create new series (editors)
+export async function POST(req: NextRequest) {
+  try {
+    const session = await authorize("taxonomy:manage");
+
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await req.json();
+    const { title, description } = body;
+
+    if (!title) {
+      return NextResponse.json(
+        { error: "Title is required" },
+        { status: 400 }
+      );
+    }
+
+    // Generate slug from title
+    const slug = title
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-|-$/g, "");
+
+    // Check if series already exists
+    const existing = await prisma.series.findFirst({
+      where: {
+        OR: [{ title }, { slug }],
+      },
+    });
+
+    if (existing) {
+      return NextResponse.json(
+        { error: "A series with this title already exists" },
+        { status: 400 }
+      );
+    }
+
+    const series = await prisma.series.create({
+      data: {
+        title,
+        slug,
+        description,
+      },
+    });
+
+    return NextResponse.json({ series }, { status: 201 });
+  } catch (error) {
+    console.error("Error creating series:", error);
+    return NextResponse.json(
+      { error: "Failed to create series" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,10 +1,14 @@
 import { NextRequest, NextResponse } from "next/server";
 import { auth } from "@/auth";
 import { prisma } from "@/lib/prisma";
+import { authorize } from "@/lib/authorization";
+import { hasPermission } from "@/lib/permissions";
 
-// GET /api/settings - Get site settings (public)
+// GET /api/settings - Get site settings (public; moderation settings for admin only)
 export async function GET() {
   try {
+    const session = await auth();
+
     let settings = await prisma.siteSettings.findUnique({
       where: { id: "default" },
     });
@@ -16,6 +20,11 @@ export async function GET() {
       });
     }
 
+    if (!hasPermission(session?.user, "settings:manage")) {
+      const { spamBlocklist, blockedCommenters, commentNotifications, ...publicSettings } = settings;
+      return NextResponse.json({ settings: publicSettings });
+    }
+
     return NextResponse.json({ settings });
   } catch (error) {
     console.error("Error fetching settings:", error);
@@ -29,9 +38,9 @@ export async function GET() {
 // PUT /api/settings - Update site settings (admin only)
 export async function PUT(req: NextRequest) {
   try {
-    const session = await auth();
+    const session = await authorize("settings:manage");
 
-    if (!session?.user || session.user.role !== "ADMIN") {
+    if (!session) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
 
@@ -61,8 +70,19 @@ export async function PUT(req: NextRequest) {
       certifications,
       badges,
       usefulLinks,
+      requireCommentApproval,
+      spamBlocklist,
+      blockedCommenters,
+      commentNotifications,
     } = body;
 
+    if (commentNotifications !== undefined && !["immediate", "digest", "off"].includes(commentNotifications)) {
+      return NextResponse.json(
+        { error: "Invalid comment notification setting" },
+        { status: 400 }
+      );
+    }
+
     const settings = await prisma.siteSettings.upsert({
       where: { id: "default" },
       update: {
@@ -90,6 +110,10 @@ export async function PUT(req: NextRequest) {
         ...(certifications !== undefined && { certifications: JSON.stringify(certifications) }),
         ...(badges !== undefined && { badges: JSON.stringify(badges) }),
         ...(usefulLinks !== undefined && { usefulLinks: JSON.stringify(usefulLinks) }),
+        ...(requireCommentApproval !== undefined && { requireCommentApproval: !!requireCommentApproval }),
+        ...(spamBlocklist !== undefined && { spamBlocklist: spamBlocklist || null }),
+        ...(blockedCommenters !== undefined && { blockedCommenters: blockedCommenters || null }),
+        ...(commentNotifications !== undefined && { commentNotifications }),
       },
       create: {
         id: "default",
@@ -117,6 +141,10 @@ export async function PUT(req: NextRequest) {
         certifications: certifications ? JSON.stringify(certifications) : "[]",
         badges: badges ? JSON.stringify(badges) : "[]",
         usefulLinks: usefulLinks ? JSON.stringify(usefulLinks) : "[]",
+        requireCommentApproval: requireCommentApproval !== undefined ? !!requireCommentApproval : true,
+        spamBlocklist: spamBlocklist || null,
+        blockedCommenters: blockedCommenters || null,
+        commentNotifications: commentNotifications || "immediate",
       },
     });
 
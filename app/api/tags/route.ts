@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from "next/server";
-import { auth } from "@/auth";
+import { authorize } from "@/lib/authorization";
 import { prisma } from "@/lib/prisma";
 
 // GET /api/tags - List all tags
@@ -24,12 +24,12 @@ export async function GET() {
   }
 }
 
-// POST /api/tags - Create new tag (admin only)
+// POST /api/tags - Create new tag (editors)
 export async function POST(req: NextRequest) {
   try {
-    const session = await auth();
+    const session = await authorize("taxonomy:manage");
 
-    if (!session?.user || session.user.role !== "ADMIN") {
+    if (!session) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
 
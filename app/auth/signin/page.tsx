@@ -5,12 +5,13 @@ import { signIn, useSession } from "next-auth/react";
 import { useSearchParams, useRouter } from "next/navigation";
 
 function SignInForm() {
-  const [email, setEmail] = useState("");
+  const searchParams = useSearchParams();
+  // Prefilled when arriving from an accepted invitation
+  const [email, setEmail] = useState(searchParams.get("email") || "");
   const [isLoading, setIsLoading] = useState(false);
   const [emailSent, setEmailSent] = useState(false);
   const [magicLink, setMagicLink] = useState("");
   const [error, setError] = useState("");
-  const searchParams = useSearchParams();
   const router = useRouter();
   const { data: session, status } = useSession();
   const callbackUrl = searchParams.get("callbackUrl") || "/";
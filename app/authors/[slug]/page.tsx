@@ -0,0 +1,202 @@
+import { Metadata } from "next";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { prisma } from "@/lib/prisma";
+import { livePostWhere } from "@/lib/posts";
+import { getImageSets } from "@/lib/media";
+import { authorProfileSelect, buildPersonJsonLd, getAuthorPath, publicAuthorWhere } from "@/lib/authors";
+import ResponsiveImage from "@/components/ui/ResponsiveImage";
+
+interface Props {
+  // Profile slug, or the user ID for authors without one
+  params: Promise<{ slug: string }>;
+}
+
+function getBaseUrl() {
+  return process.env.NEXTAUTH_URL || "http://localhost:3000";
+}
+
+function findAuthor(slug: string) {
+  return prisma.user.findFirst({
+    where: publicAuthorWhere(slug),
+    select: authorProfileSelect,
+  });
+}
+
+// Generate dynamic metadata for SEO
+export async function generateMetadata({ params }: Props): Promise<Metadata> {
+  const { slug } = await params;
+
+  const [author, settings] = await Promise.all([
+    findAuthor(slug),
+    prisma.siteSettings.findUnique({
+      where: { id: "default" },
+      select: { siteName: true },
+    }),
+  ]);
+
+  const siteName = settings?.siteName || "IT Blog";
+
+  if (!author) {
+    return {
+      title: "Author Not Found",
+    };
+  }
+
+  const name = author.name || "Anonymous";
+  const description = author.bio || `Posts by ${name} on ${siteName}`;
+
+  return {
+    title: `${name} | ${siteName}`,
+    description,
+    alternates: {
+      canonical: `${getBaseUrl()}${getAuthorPath(author)}`,
+    },
+    openGraph: {
+      title: name,
+      description,
+      type: "profile",
+      url: `${getBaseUrl()}${getAuthorPath(author)}`,
+      images: author.image ? [{ url: author.image }] : undefined,
+    },
+  };
+}
+
+export default async function AuthorPage({ params }: Props) {
+  const { slug } = await params;
+
+  const author = await findAuthor(slug);
+  if (!author) {
+    notFound();
+  }
+
+  const posts = await prisma.post.findMany({
+    where: { ...livePostWhere(), authorId: author.id },
+    select: {
+      id: true,
+      title: true,
+      slug: true,
+      excerpt: true,
+      coverImage: true,
+      readingTime: true,
+      publishedAt: true,
+      createdAt: true,
+    },
+    orderBy: { publishedAt: "desc" },
+  });
+
+  const imageSets = await getImageSets(posts.map((post) => post.coverImage));
+  const jsonLd = buildPersonJsonLd(author, getBaseUrl());
+  const name = author.name || "Anonymous";
+
+  const links = [
+    { href: author.website, label: "Website", className: "bg-gray-600 hover:bg-gray-700" },
+    { href: author.githubUrl, label: "GitHub", className: "bg-gray-900 dark:bg-gray-700 hover:bg-gray-800 dark:hover:bg-gray-600" },
+    { href: author.linkedinUrl, label: "LinkedIn", className: "bg-blue-600 hover:bg-blue-700" },
+    { href: author.twitterUrl, label: "Twitter", className: "bg-sky-500 hover:bg-sky-600" },
+  ].filter((link): link is typeof link & { href: string } => !!link.href);
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
+      <script
+        type="application/ld+json"
+        // Escaped so a bio can't close the script tag
+        dangerouslySetInnerHTML={{ __html: JSON.stringify(jsonLd).replace(/</g, "\\u003c") }}
+      />
+
+      <div className="container mx-auto px-4 py-12 max-w-5xl">
+        {/* Profile */}
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-8 mb-10 flex flex-col sm:flex-row gap-6 items-center sm:items-start">
+          {author.image ? (
+            <img
+              src={author.image}
+              alt={name}
+              className="w-28 h-28 rounded-full object-cover flex-shrink-0"
+            />
+          ) : (
+            <div className="w-28 h-28 rounded-full bg-blue-600 flex items-center justify-center text-white font-semibold text-4xl flex-shrink-0">
+              {name[0].toUpperCase()}
+            </div>
+          )}
+
+          <div className="text-center sm:text-left">
+            <h1 className="text-3xl font-bold mb-2">{name}</h1>
+            {author.bio && (
+              <p className="text-gray-600 dark:text-gray-400 whitespace-pre-line mb-4">{author.bio}</p>
+            )}
+
+            {links.length > 0 && (
+              <div className="flex flex-wrap gap-2 justify-center sm:justify-start">
+                {links.map((link) => (
+                  <a
+                    key={link.label}
+                    href={link.href}
+                    target="_blank"
+                    rel="noopener noreferrer me"
+                    className={`px-3 py-1 text-sm text-white rounded-lg transition-colors ${link.className}`}
+                  >
+                    {link.label}
+                  </a>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+
+        {/* Posts */}
+        <h2 className="text-2xl font-bold mb-6">
+          Posts by {name} <span className="text-gray-500 dark:text-gray-400 font-normal">({posts.length})</span>
+        </h2>
+
+        {posts.length === 0 ? (
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-12 text-center">
+            <p className="text-gray-600 dark:text-gray-400">No published posts yet</p>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+            {posts.map((post) => (
+              <article
+                key={post.id}
+                className="bg-white dark:bg-gray-800 rounded-lg shadow-md overflow-hidden hover:shadow-lg transition-shadow group"
+              >
+                <Link href={`/blog/${post.slug}`} className="block">
+                  <div className="aspect-video w-full bg-gradient-to-br from-blue-500 to-purple-600">
+                    {post.coverImage && (
+                      <ResponsiveImage
+                        src={post.coverImage}
+                        imageSet={imageSets[post.coverImage] || null}
+                        alt={post.title}
+                        sizes="(min-width: 1024px) 33vw, (min-width: 768px) 50vw, 100vw"
+                        className="w-full h-full object-cover"
+                      />
+                    )}
+                  </div>
+                  <div className="p-4">
+                    <h3 className="text-lg font-bold line-clamp-2 group-hover:text-blue-600 dark:group-hover:text-blue-400 transition-colors mb-2">
+                      {post.title}
+                    </h3>
+                    {post.excerpt && (
+                      <p className="text-gray-600 dark:text-gray-400 text-sm mb-3 line-clamp-2">
+                        {post.excerpt}
+                      </p>
+                    )}
+                    <div className="flex items-center justify-between text-xs text-gray-500 dark:text-gray-400 pt-3 border-t border-gray-100 dark:border-gray-700">
+                      <span>{post.readingTime || 5} min</span>
+                      <time>
+                        {(post.publishedAt || post.createdAt).toLocaleDateString("en-US", {
+                          month: "short",
+                          day: "numeric",
+                          year: "numeric",
+                        })}
+                      </time>
+                    </div>
+                  </div>
+                </Link>
+              </article>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,16 +1,29 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { useSession } from "next-auth/react";
 import { useRouter } from "next/navigation";
 import Link from "next/link";
 import ContentRenderer from "@/components/blog/ContentRenderer";
 import LikeButton from "@/components/blog/LikeButton";
 import CommentSection from "@/components/comments/CommentSection";
+import NewsletterForm from "@/components/newsletter/NewsletterForm";
+import SeriesNavigator from "@/components/blog/SeriesNavigator";
+import TableOfContents from "@/components/blog/TableOfContents";
+import { getPostStatus, isPostLive } from "@/lib/posts";
+import { canDeletePost, canEditPost } from "@/lib/permissions";
+import { extractHeadings } from "@/lib/headings";
+import { getAuthorPath } from "@/lib/authors";
+import { getTrackingParams } from "@/lib/tracking";
+import { useReadingTracker } from "@/lib/use-reading-tracker";
+import type { ResponsiveImageSet } from "@/lib/images";
+import type { SeriesNavigation } from "@/lib/series";
+import ResponsiveImage from "@/components/ui/ResponsiveImage";
 
 interface Author {
   id: string;
   name: string | null;
+  slug: string | null;
   email: string;
   image: string | null;
 }
@@ -34,7 +47,10 @@ interface Post {
   content: string;
   excerpt: string | null;
   coverImage: string | null;
+  coverImageSet: ResponsiveImageSet | null;
   published: boolean;
+  scheduledAt: string | null;
+  authorId: string;
   views: number;
   readingTime: number | null;
   createdAt: string;
@@ -43,6 +59,7 @@ interface Post {
   category: Category | null;
   categoryId: string | null;
   tags: Array<{ tag: Tag }>;
+  seriesNavigation: SeriesNavigation | null;
   _count: {
     comments: number;
     likes: number;
@@ -54,6 +71,7 @@ interface RelatedPost {
   title: string;
   slug: string;
   coverImage: string | null;
+  coverImageSet: ResponsiveImageSet | null;
   category: Category | null;
 }
 
@@ -62,7 +80,7 @@ interface BlogPostClientProps {
 }
 
 export default function BlogPostClient({ slug }: BlogPostClientProps) {
-  const { data: session } = useSession();
+  const { data: session, status: sessionStatus } = useSession();
   const router = useRouter();
   const [post, setPost] = useState<Post | null>(null);
   const [relatedPosts, setRelatedPosts] = useState<RelatedPost[]>([]);
@@ -70,6 +88,12 @@ export default function BlogPostClient({ slug }: BlogPostClientProps) {
   const [error, setError] = useState<string | null>(null);
   const [imageError, setImageError] = useState(false);
   const [showLightbox, setShowLightbox] = useState(false);
+  const contentRef = useRef<HTMLDivElement>(null);
+
+  // Reading beacons for live posts, not from the staff who edit them
+  const trackReading =
+    !!post && sessionStatus !== "loading" && isPostLive(post) && !canEditPost(session?.user, post);
+  useReadingTracker(trackReading ? post.slug : null, contentRef);
 
   useEffect(() => {
     if (slug) {
@@ -98,7 +122,8 @@ export default function BlogPostClient({ slug }: BlogPostClientProps) {
   const fetchPost = async () => {
     try {
       setLoading(true);
-      const response = await fetch(`/api/posts/${slug}`);
+      // How the visitor got here, for view analytics - the API only sees this page
+      const response = await fetch(`/api/posts/${slug}?${getTrackingParams().toString()}`);
 
       if (response.status === 404) {
         setError("Post not found");
@@ -172,6 +197,12 @@ export default function BlogPostClient({ slug }: BlogPostClientProps) {
     );
   }
 
+  const canEdit = canEditPost(session?.user, post);
+  const canDelete = canDeletePost(session?.user, post);
+  // A single heading isn't worth a table of contents
+  const headings = extractHeadings(post.content);
+  const showToc = headings.length >= 2;
+
   return (
     <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
@@ -206,10 +237,13 @@ export default function BlogPostClient({ slug }: BlogPostClientProps) {
                   onClick={() => setShowLightbox(true)}
                   className="w-full relative group cursor-zoom-in"
                 >
-                  <img
+                  <ResponsiveImage
                     src={post.coverImage}
+                    imageSet={post.coverImageSet}
                     alt={post.title}
+                    sizes="(min-width: 1280px) 900px, 100vw"
                     className="w-full h-80 md:h-96 object-cover object-top"
+                    priority
                     onError={() => setImageError(true)}
                   />
                   {/* Expand hint overlay */}
@@ -251,11 +285,16 @@ export default function BlogPostClient({ slug }: BlogPostClientProps) {
                   {post.category.name}
                 </Link>
               )}
-              {!post.published && session?.user?.role === "ADMIN" && (
+              {getPostStatus(post) === "draft" && canEdit && (
                 <span className="px-3 py-1 bg-yellow-100 dark:bg-yellow-900/20 text-yellow-800 dark:text-yellow-300 rounded-full text-sm font-semibold">
                   Draft
                 </span>
               )}
+              {getPostStatus(post) === "scheduled" && post.scheduledAt && canEdit && (
+                <span className="px-3 py-1 bg-blue-100 dark:bg-blue-900/20 text-blue-800 dark:text-blue-300 rounded-full text-sm font-semibold">
+                  Scheduled for {new Date(post.scheduledAt).toLocaleString()}
+                </span>
+              )}
             </div>
 
             {/* Title */}
@@ -264,7 +303,7 @@ export default function BlogPostClient({ slug }: BlogPostClientProps) {
             {/* Meta */}
             <div className="flex flex-wrap items-center gap-6 text-gray-600 dark:text-gray-400 mb-8 pb-8 border-b border-gray-200 dark:border-gray-700">
               {/* Author */}
-              <div className="flex items-center gap-3">
+              <Link href={getAuthorPath(post.author)} className="flex items-center gap-3 group">
                 {post.author.image ? (
                   <img
                     src={post.author.image}
@@ -277,7 +316,7 @@ export default function BlogPostClient({ slug }: BlogPostClientProps) {
                   </div>
                 )}
                 <div>
-                  <p className="font-medium text-gray-900 dark:text-white">
+                  <p className="font-medium text-gray-900 dark:text-white group-hover:text-blue-600 dark:group-hover:text-blue-400">
                     {post.author?.name || "Anonymous"}
                   </p>
                   <p className="text-sm">
@@ -290,7 +329,7 @@ export default function BlogPostClient({ slug }: BlogPostClientProps) {
                     })}
                   </p>
                 </div>
-              </div>
+              </Link>
 
               {/* Stats */}
               <div className="flex items-center gap-4 text-sm">
@@ -319,94 +358,120 @@ export default function BlogPostClient({ slug }: BlogPostClientProps) {
               </div>
             )}
 
+            {post.seriesNavigation && (
+              <SeriesNavigator navigation={post.seriesNavigation} compact />
+            )}
+
+            {showToc && <TableOfContents headings={headings} variant="collapsible" />}
+
             {/* Content */}
-            <div className="mb-12">
+            <div ref={contentRef} className="mb-12">
               <ContentRenderer content={post.content} />
             </div>
 
+            {/* Series Previous/Next */}
+            {post.seriesNavigation && <SeriesNavigator navigation={post.seriesNavigation} />}
+
             {/* Like Button */}
             <div className="mb-8 pb-8 border-b border-gray-200 dark:border-gray-700">
               <LikeButton postId={post.id} initialCount={post._count.likes} />
             </div>
 
-            {/* Admin Actions */}
-            {session?.user?.role === "ADMIN" && (
+            {/* Author/Editor Actions */}
+            {(canEdit || canDelete) && (
               <div className="flex gap-4 mb-12 pb-12 border-b border-gray-200 dark:border-gray-700">
-                <Link
-                  href={`/admin/posts/${post.slug}/edit`}
-                  className="px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
-                >
-                  Edit Post
-                </Link>
-                <button
-                  onClick={async () => {
-                    if (confirm("Are you sure you want to delete this post?")) {
-                      try {
-                        const response = await fetch(`/api/posts/${post.slug}`, {
-                          method: "DELETE",
-                        });
-                        if (response.ok) {
-                          router.push("/blog");
-                        } else {
+                {canEdit && (
+                  <Link
+                    href={`/admin/posts/${post.slug}/edit`}
+                    className="px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+                  >
+                    Edit Post
+                  </Link>
+                )}
+                {canDelete && (
+                  <button
+                    onClick={async () => {
+                      if (confirm("Are you sure you want to delete this post?")) {
+                        try {
+                          const response = await fetch(`/api/posts/${post.slug}`, {
+                            method: "DELETE",
+                          });
+                          if (response.ok) {
+                            router.push("/blog");
+                          } else {
+                            alert("Failed to delete post");
+                          }
+                        } catch (error) {
                           alert("Failed to delete post");
                         }
-                      } catch (error) {
-                        alert("Failed to delete post");
                       }
-                    }
-                  }}
-                  className="px-6 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors"
-                >
-                  Delete Post
-                </button>
+                    }}
+                    className="px-6 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors"
+                  >
+                    Delete Post
+                  </button>
+                )}
               </div>
             )}
 
+            {/* Newsletter Signup */}
+            <div className="mt-12">
+              <NewsletterForm variant="card" />
+            </div>
+
             {/* Comments Section */}
             <CommentSection postId={post.id} />
           </article>
 
-          {/* Sidebar - Related Posts */}
-          {relatedPosts.length > 0 && (
+          {/* Sidebar - Table of Contents & Related Posts */}
+          {(showToc || relatedPosts.length > 0) && (
             <aside className="lg:w-80 flex-shrink-0">
               <div className="lg:sticky lg:top-24">
-                <h2 className="text-lg font-bold mb-4 text-gray-900 dark:text-white">
-                  {post.category ? `More in ${post.category.name}` : "More Posts"}
-                </h2>
-                <div className="space-y-4">
-                  {relatedPosts.map((relatedPost) => (
+                {showToc && <TableOfContents headings={headings} variant="sidebar" />}
+
+                {relatedPosts.length > 0 && (
+                  <>
+                    <h2 className="text-lg font-bold mb-4 text-gray-900 dark:text-white">
+                      {post.category ? `More in ${post.category.name}` : "More Posts"}
+                    </h2>
+                    <div className="space-y-4">
+                      {relatedPosts.map((relatedPost) => (
+                        <Link
+                          key={relatedPost.id}
+                          href={`/blog/${relatedPost.slug}`}
+                          className="block bg-white dark:bg-gray-800 rounded-lg shadow hover:shadow-md transition-shadow overflow-hidden group"
+                        >
+                          {/* Image */}
+                          <div className="h-32 bg-gradient-to-br from-blue-500 to-purple-600">
+                            {relatedPost.coverImage && (
+                              <ResponsiveImage
+                                src={relatedPost.coverImage}
+                                imageSet={relatedPost.coverImageSet}
+                                alt={relatedPost.title}
+                                sizes="(min-width: 768px) 300px, 100vw"
+                                className="w-full h-full object-cover object-top"
+                                onError={(e) => { e.currentTarget.style.display = 'none'; }}
+                              />
+                            )}
+                          </div>
+                          {/* Title */}
+                          <div className="p-3">
+                            <h3 className="font-medium text-gray-900 dark:text-white group-hover:text-blue-600 dark:group-hover:text-blue-400 transition-colors line-clamp-2">
+                              {relatedPost.title}
+                            </h3>
+                          </div>
+                        </Link>
+                      ))}
+                    </div>
+                    {/* View All Link */}
                     <Link
-                      key={relatedPost.id}
-                      href={`/blog/${relatedPost.slug}`}
-                      className="block bg-white dark:bg-gray-800 rounded-lg shadow hover:shadow-md transition-shadow overflow-hidden group"
+                      href={post.category ? `/blog?category=${post.category.slug}` : "/blog"}
+                      className="block mt-4 text-center text-blue-600 dark:text-blue-400 hover:underline text-sm"
                     >
-                      {/* Image */}
-                      <div className="h-32 bg-gradient-to-br from-blue-500 to-purple-600">
-                        {relatedPost.coverImage && (
-                          <img
-                            src={relatedPost.coverImage}
-                            alt={relatedPost.title}
-                            className="w-full h-full object-cover object-top"
-                            onError={(e) => { e.currentTarget.style.display = 'none'; }}
-                          />
-                        )}
-                      </div>
-                      {/* Title */}
-                      <div className="p-3">
-                        <h3 className="font-medium text-gray-900 dark:text-white group-hover:text-blue-600 dark:group-hover:text-blue-400 transition-colors line-clamp-2">
-                          {relatedPost.title}
-                        </h3>
-                      </div>
+                      View all {post.category?.name || "posts"} →
                     </Link>
-                  ))}
-                </div>
-                {/* View All Link */}
-                <Link
-                  href={post.category ? `/blog?category=${post.category.slug}` : "/blog"}
-                  className="block mt-4 text-center text-blue-600 dark:text-blue-400 hover:underline text-sm"
-                >
-                  View all {post.category?.name || "posts"} →
-                </Link>
+                  </>
+                )}
               </div>
             </aside>
           )}
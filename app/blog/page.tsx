@@ -4,6 +4,10 @@ import { Suspense, useState, useEffect } from "react";
 import { useSession } from "next-auth/react";
 import { useSearchParams, useRouter } from "next/navigation";
 import Link from "next/link";
+import { getPostStatus } from "@/lib/posts";
+import { hasPermission } from "@/lib/permissions";
+import type { ResponsiveImageSet } from "@/lib/images";
+import ResponsiveImage from "@/components/ui/ResponsiveImage";
 
 interface Author {
   id: string;
@@ -30,7 +34,9 @@ interface Post {
   slug: string;
   excerpt: string | null;
   coverImage: string | null;
+  coverImageSet: ResponsiveImageSet | null;
   published: boolean;
+  scheduledAt: string | null;
   views: number;
   readingTime: number | null;
   createdAt: string;
@@ -62,6 +68,7 @@ function BlogContent() {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [pagination, setPagination] = useState<Pagination | null>(null);
+  const [searchQuery, setSearchQuery] = useState("");
 
   const activeTag = searchParams.get("tag");
   const activeCategory = searchParams.get("category");
@@ -115,6 +122,13 @@ function BlogContent() {
     router.push(`/blog?${params.toString()}`);
   };
 
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    const query = searchQuery.trim();
+    if (!query) return;
+    router.push(`/search?q=${encodeURIComponent(query)}&type=posts`);
+  };
+
   const handleTagFilter = (tagSlug: string | null) => {
     const params = new URLSearchParams();
     if (tagSlug) {
@@ -160,6 +174,24 @@ function BlogContent() {
           <p className="text-lg text-gray-600 dark:text-gray-400 max-w-2xl mx-auto">
             IT insights, tutorials, and experiences
           </p>
+
+          {/* Search */}
+          <form onSubmit={handleSearch} role="search" className="mt-6 max-w-xl mx-auto flex gap-2">
+            <input
+              type="search"
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+              placeholder="Search posts..."
+              aria-label="Search posts"
+              className="flex-1 px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+            <button
+              type="submit"
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+            >
+              Search
+            </button>
+          </form>
         </div>
 
         {/* Tag Filters */}
@@ -209,7 +241,7 @@ function BlogContent() {
                 <PostCard
                   key={post.id}
                   post={post}
-                  isAdmin={session?.user?.role === "ADMIN"}
+                  showStatus={hasPermission(session?.user, "posts:create")}
                 />
               ))}
             </div>
@@ -268,7 +300,7 @@ function BlogContent() {
 }
 
 // Post Card Component
-function PostCard({ post, isAdmin }: { post: Post; isAdmin: boolean }) {
+function PostCard({ post, showStatus }: { post: Post; showStatus: boolean }) {
   return (
     <article className="bg-white dark:bg-gray-800 rounded-lg shadow-md overflow-hidden hover:shadow-lg transition-shadow group">
       {/* Clickable Image with Title Overlay */}
@@ -276,9 +308,11 @@ function PostCard({ post, isAdmin }: { post: Post; isAdmin: boolean }) {
         {/* Image or Gradient Placeholder */}
         <div className="aspect-video w-full bg-gradient-to-br from-blue-500 to-purple-600">
           {post.coverImage && (
-            <img
+            <ResponsiveImage
               src={post.coverImage}
+              imageSet={post.coverImageSet}
               alt={post.title}
+              sizes="(min-width: 1024px) 33vw, (min-width: 768px) 50vw, 100vw"
               className="w-full h-full object-cover"
             />
           )}
@@ -289,12 +323,17 @@ function PostCard({ post, isAdmin }: { post: Post; isAdmin: boolean }) {
           <h3 className="text-lg font-bold text-white line-clamp-2 group-hover:text-blue-300 transition-colors">
             {post.title}
           </h3>
-          {/* Draft Badge */}
-          {!post.published && isAdmin && (
+          {/* Draft / Scheduled Badge */}
+          {showStatus && getPostStatus(post) === "draft" && (
             <span className="inline-block mt-2 px-2 py-0.5 bg-yellow-500 text-yellow-900 rounded text-xs font-medium">
               Draft
             </span>
           )}
+          {showStatus && getPostStatus(post) === "scheduled" && (
+            <span className="inline-block mt-2 px-2 py-0.5 bg-blue-500 text-white rounded text-xs font-medium">
+              Scheduled
+            </span>
+          )}
         </div>
       </Link>
 
@@ -1,4 +1,5 @@
 import { prisma } from "@/lib/prisma";
+import { livePostWhere } from "@/lib/posts";
 
 export async function GET() {
   const baseUrl = process.env.NEXTAUTH_URL || "http://localhost:3000";
@@ -6,7 +7,7 @@ export async function GET() {
   // Get all published posts and site settings
   const [posts, settings] = await Promise.all([
     prisma.post.findMany({
-      where: { published: true },
+      where: livePostWhere(),
       orderBy: { publishedAt: "desc" },
       take: 20,
       select: {
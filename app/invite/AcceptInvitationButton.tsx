@@ -0,0 +1,53 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+
+interface AcceptInvitationButtonProps {
+  token: string;
+}
+
+export default function AcceptInvitationButton({ token }: AcceptInvitationButtonProps) {
+  const [accepting, setAccepting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const router = useRouter();
+
+  const handleAccept = async () => {
+    try {
+      setAccepting(true);
+      setError(null);
+      const response = await fetch("/api/invitations/accept", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ token }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || "Failed to accept invitation");
+
+      // The account now exists with the invited role - sign in to continue
+      router.push(`/auth/signin?email=${encodeURIComponent(data.email)}&callbackUrl=/admin`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to accept invitation");
+      setAccepting(false);
+    }
+  };
+
+  return (
+    <div>
+      {error && (
+        <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-red-800 dark:text-red-200 px-4 py-3 rounded-lg mb-4 text-sm">
+          {error}
+        </div>
+      )}
+      <button
+        type="button"
+        onClick={handleAccept}
+        disabled={accepting}
+        className="w-full px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        {accepting ? "Accepting..." : "Accept Invitation"}
+      </button>
+    </div>
+  );
+}
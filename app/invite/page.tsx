@@ -0,0 +1,50 @@
+import Link from "next/link";
+import { findInvitationByToken, getInvitationStatus } from "@/lib/invitations";
+import { ROLE_LABELS } from "@/lib/permissions";
+import AcceptInvitationButton from "./AcceptInvitationButton";
+
+interface InvitePageProps {
+  searchParams: Promise<{ token?: string }>;
+}
+
+export default async function InvitePage({ searchParams }: InvitePageProps) {
+  const { token } = await searchParams;
+  const invitation = token ? await findInvitationByToken(token) : null;
+  const status = invitation ? getInvitationStatus(invitation) : null;
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 dark:bg-gray-900 px-4">
+      <div className="max-w-md w-full bg-white dark:bg-gray-800 rounded-lg shadow-lg p-8 text-center">
+        {invitation && token && status === "pending" ? (
+          <>
+            <h2 className="text-2xl font-bold mb-4">You&apos;re invited!</h2>
+            <p className="text-gray-600 dark:text-gray-400 mb-6">
+              {invitation.invitedBy?.name || invitation.invitedBy?.email || "An admin"} invited{" "}
+              <span className="font-medium text-gray-900 dark:text-gray-100">{invitation.email}</span>{" "}
+              to join as {ROLE_LABELS[invitation.role]}. The invitation expires on{" "}
+              {invitation.expiresAt.toLocaleDateString()}.
+            </p>
+            <AcceptInvitationButton token={token} />
+          </>
+        ) : (
+          <>
+            <h2 className="text-2xl font-bold mb-4">
+              {status === "accepted" ? "Invitation already accepted" : "Invalid invitation link"}
+            </h2>
+            <p className="text-gray-600 dark:text-gray-400 mb-6">
+              {status === "accepted"
+                ? "This invitation has been used. Sign in with the invited email address."
+                : "This link is incomplete, has expired or was revoked. Ask an admin to send a new invitation."}
+            </p>
+            <Link
+              href={status === "accepted" ? "/auth/signin?callbackUrl=/admin" : "/"}
+              className="text-blue-600 dark:text-blue-400 hover:underline"
+            >
+              {status === "accepted" ? "Sign in" : "Back to home"}
+            </Link>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from "next/server";
+import { promises as fs } from "fs";
+import { resolveLocalPath } from "@/lib/storage";
+import { detectImageType } from "@/lib/media";
+
+// GET /media/[...key] - Serve files from the local storage adapter
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ key: string[] }> }
+) {
+  const { key } = await params;
+  const filePath = resolveLocalPath(key.join("/"));
+
+  if (!filePath) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+
+  try {
+    const file = await fs.readFile(filePath);
+
+    return new NextResponse(new Uint8Array(file), {
+      headers: {
+        "Content-Type": detectImageType(file) || "application/octet-stream",
+        "Content-Length": file.length.toString(),
+        // Keys are unique per upload, so files never change
+        "Cache-Control": "public, max-age=31536000, immutable",
+        "X-Content-Type-Options": "nosniff",
+      },
+    });
+  } catch {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+}
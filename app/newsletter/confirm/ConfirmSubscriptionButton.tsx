@@ -0,0 +1,61 @@
+"use client";
+
+import { useState } from "react";
+
+interface ConfirmSubscriptionButtonProps {
+  email: string;
+  issued: string;
+  token: string;
+}
+
+export default function ConfirmSubscriptionButton({ email, issued, token }: ConfirmSubscriptionButtonProps) {
+  const [confirming, setConfirming] = useState(false);
+  const [confirmed, setConfirmed] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleConfirm = async () => {
+    try {
+      setConfirming(true);
+      setError(null);
+      const response = await fetch("/api/newsletter/confirm", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ email, issued, token }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || "Failed to confirm subscription");
+
+      setConfirmed(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to confirm subscription");
+      setConfirming(false);
+    }
+  };
+
+  if (confirmed) {
+    return (
+      <p className="text-green-700 dark:text-green-400 font-medium">
+        You&apos;re subscribed! You&apos;ll get an email whenever a new post is published.
+      </p>
+    );
+  }
+
+  return (
+    <div>
+      {error && (
+        <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-red-800 dark:text-red-200 px-4 py-3 rounded-lg mb-4 text-sm">
+          {error}
+        </div>
+      )}
+      <button
+        type="button"
+        onClick={handleConfirm}
+        disabled={confirming}
+        className="w-full px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        {confirming ? "Confirming..." : "Confirm Subscription"}
+      </button>
+    </div>
+  );
+}
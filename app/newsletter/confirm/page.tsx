@@ -0,0 +1,44 @@
+import Link from "next/link";
+import { getConfirmationState } from "@/lib/newsletter";
+import ConfirmSubscriptionButton from "./ConfirmSubscriptionButton";
+
+interface ConfirmPageProps {
+  searchParams: Promise<{ email?: string; issued?: string; token?: string }>;
+}
+
+export default async function ConfirmSubscriptionPage({ searchParams }: ConfirmPageProps) {
+  const { email, issued, token } = await searchParams;
+  const state = email && issued && token ? await getConfirmationState(email, issued, token) : "invalid";
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 dark:bg-gray-900 px-4">
+      <div className="max-w-md w-full bg-white dark:bg-gray-800 rounded-lg shadow-lg p-8 text-center">
+        {state === "pending" && email && issued && token ? (
+          <>
+            <h2 className="text-2xl font-bold mb-4">Confirm your subscription</h2>
+            <p className="text-gray-600 dark:text-gray-400 mb-6">
+              Get an email at{" "}
+              <span className="font-medium text-gray-900 dark:text-gray-100">{email}</span>{" "}
+              whenever a new post is published.
+            </p>
+            <ConfirmSubscriptionButton email={email} issued={issued} token={token} />
+          </>
+        ) : (
+          <>
+            <h2 className="text-2xl font-bold mb-4">
+              {state === "active" ? "You're subscribed!" : "Invalid confirmation link"}
+            </h2>
+            <p className="text-gray-600 dark:text-gray-400">
+              {state === "active"
+                ? "Your subscription is already confirmed. You'll get an email whenever a new post is published."
+                : "This link is incomplete or has expired. Please subscribe again to get a fresh link."}
+            </p>
+          </>
+        )}
+        <Link href="/blog" className="inline-block mt-6 text-blue-600 dark:text-blue-400 hover:underline">
+          Back to the blog
+        </Link>
+      </div>
+    </div>
+  );
+}
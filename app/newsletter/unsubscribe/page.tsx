@@ -0,0 +1,29 @@
+import Link from "next/link";
+import { unsubscribeWithToken } from "@/lib/newsletter";
+
+interface UnsubscribePageProps {
+  searchParams: Promise<{ email?: string; token?: string }>;
+}
+
+export default async function NewsletterUnsubscribePage({ searchParams }: UnsubscribePageProps) {
+  const { email, token } = await searchParams;
+  const success = !!email && !!token && (await unsubscribeWithToken(email, token));
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 dark:bg-gray-900 px-4">
+      <div className="max-w-md w-full bg-white dark:bg-gray-800 rounded-lg shadow-lg p-8 text-center">
+        <h2 className="text-2xl font-bold mb-4">
+          {success ? "You're unsubscribed" : "Invalid unsubscribe link"}
+        </h2>
+        <p className="text-gray-600 dark:text-gray-400 mb-6">
+          {success
+            ? `${email} won't receive any more newsletter emails.`
+            : "This link is incomplete or has been changed. Please use the link from the most recent email."}
+        </p>
+        <Link href="/blog" className="text-blue-600 dark:text-blue-400 hover:underline">
+          Back to the blog
+        </Link>
+      </div>
+    </div>
+  );
+}
@@ -1,5 +1,6 @@
 import Link from "next/link"; // Homepage
 import { prisma } from "@/lib/prisma";
+import { livePostWhere } from "@/lib/posts";
 
 // Disable caching so settings changes reflect immediately
 export const dynamic = 'force-dynamic';
@@ -8,7 +9,7 @@ async function getFeaturedContent() {
   const [recentPosts, featuredProjects, settings] = await Promise.all([
     // Get 3 most recent published posts
     prisma.post.findMany({
-      where: { published: true },
+      where: livePostWhere(),
       take: 3,
       orderBy: { publishedAt: "desc" },
       select: {
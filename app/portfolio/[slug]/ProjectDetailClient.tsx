@@ -4,6 +4,8 @@ import { useState, useEffect, useCallback } from "react";
 import { useRouter } from "next/navigation";
 import { useSession } from "next-auth/react";
 import Link from "next/link";
+import { hasPermission } from "@/lib/permissions";
+import { getTrackingParams } from "@/lib/tracking";
 
 interface Category {
   id: string;
@@ -75,7 +77,8 @@ export default function ProjectDetailClient({ slug }: ProjectDetailClientProps)
   const fetchProject = async () => {
     try {
       setLoading(true);
-      const response = await fetch(`/api/projects/${slug}`);
+      // How the visitor got here, for view analytics - the API only sees this page
+      const response = await fetch(`/api/projects/${slug}?${getTrackingParams().toString()}`);
 
       if (response.status === 404) {
         setError("Project not found");
@@ -319,7 +322,7 @@ export default function ProjectDetailClient({ slug }: ProjectDetailClientProps)
             </div>
 
             {/* Admin Actions */}
-            {session?.user?.role === "ADMIN" && (
+            {hasPermission(session?.user, "projects:manage") && (
               <div className="flex gap-4 mb-8">
                 <Link
                   href={`/admin/projects/${project.id}/edit`}
@@ -3,6 +3,8 @@
 import { Suspense, useState, useEffect } from "react";
 import { useSearchParams, useRouter } from "next/navigation";
 import Link from "next/link";
+import type { ResponsiveImageSet } from "@/lib/images";
+import ResponsiveImage from "@/components/ui/ResponsiveImage";
 
 interface ProjectCategory {
   id: string;
@@ -22,6 +24,7 @@ interface Project {
   githubUrl: string | null;
   liveUrl: string | null;
   imageUrl: string | null;
+  imageSet: ResponsiveImageSet | null;
   featured: boolean;
   createdAt: string;
   category: {
@@ -217,9 +220,11 @@ function PortfolioContent() {
                     {/* Image or Gradient Placeholder */}
                     <div className="h-48 bg-gradient-to-br from-blue-500 to-purple-600">
                       {project.imageUrl && (
-                        <img
+                        <ResponsiveImage
                           src={project.imageUrl}
+                          imageSet={project.imageSet}
                           alt={project.title}
+                          sizes="(min-width: 1024px) 33vw, (min-width: 768px) 50vw, 100vw"
                           className="w-full h-full object-cover"
                           onError={(e) => { e.currentTarget.style.display = 'none'; }}
                         />
@@ -0,0 +1,276 @@
+"use client";
+
+import { Suspense, useState, useEffect } from "react";
+import { useSearchParams, useRouter } from "next/navigation";
+import Link from "next/link";
+
+interface PostResult {
+  type: "post";
+  id: string;
+  title: string;
+  slug: string;
+  excerpt: string | null;
+  coverImage: string | null;
+  publishedAt: string | null;
+  createdAt: string;
+  rank: number;
+  highlight: string;
+}
+
+interface ProjectResult {
+  type: "project";
+  id: string;
+  title: string;
+  slug: string;
+  imageUrl: string | null;
+  technologies: string[];
+  rank: number;
+  highlight: string;
+}
+
+type SearchType = "all" | "posts" | "projects";
+
+const SEARCH_TABS: { value: SearchType; label: string }[] = [
+  { value: "all", label: "All" },
+  { value: "posts", label: "Posts" },
+  { value: "projects", label: "Projects" },
+];
+
+function SearchContent() {
+  const searchParams = useSearchParams();
+  const router = useRouter();
+  const query = searchParams.get("q") || "";
+  const activeType = (searchParams.get("type") as SearchType) || "all";
+
+  const [input, setInput] = useState(query);
+  const [posts, setPosts] = useState<PostResult[]>([]);
+  const [projects, setProjects] = useState<ProjectResult[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setInput(query);
+    if (query.trim().length >= 2) {
+      fetchResults();
+    } else {
+      setPosts([]);
+      setProjects([]);
+    }
+  }, [query, activeType]);
+
+  const fetchResults = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const params = new URLSearchParams({ q: query, type: activeType, limit: "20" });
+      const response = await fetch(`/api/search?${params.toString()}`);
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || "Search failed");
+
+      setPosts(data.posts);
+      setProjects(data.projects);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Search failed");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateSearch = (q: string, type: SearchType) => {
+    const params = new URLSearchParams();
+    if (q.trim()) params.set("q", q.trim());
+    if (type !== "all") params.set("type", type);
+    router.push(`/search${params.toString() ? `?${params.toString()}` : ""}`);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    updateSearch(input, activeType);
+  };
+
+  const hasQuery = query.trim().length >= 2;
+  const noResults = hasQuery && !loading && !error && posts.length === 0 && projects.length === 0;
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
+        {/* Header */}
+        <div className="text-center mb-8">
+          <h1 className="text-4xl md:text-5xl font-bold mb-4">Search</h1>
+          <p className="text-lg text-gray-600 dark:text-gray-400">
+            Find posts and projects
+          </p>
+        </div>
+
+        {/* Search Form */}
+        <form onSubmit={handleSubmit} className="mb-6">
+          <div className="flex gap-2">
+            <input
+              type="search"
+              value={input}
+              onChange={(e) => setInput(e.target.value)}
+              placeholder="Search posts and projects..."
+              autoFocus
+              className="flex-1 px-4 py-3 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+            <button
+              type="submit"
+              className="px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-medium"
+            >
+              Search
+            </button>
+          </div>
+          <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+            Tip: use &quot;quotes&quot; for exact phrases, OR for alternatives and -word to exclude.
+          </p>
+        </form>
+
+        {/* Type Tabs */}
+        <div className="flex gap-2 mb-8">
+          {SEARCH_TABS.map((tab) => (
+            <button
+              key={tab.value}
+              onClick={() => updateSearch(query, tab.value)}
+              className={`px-4 py-2 rounded-lg transition-colors ${
+                activeType === tab.value
+                  ? "bg-blue-600 text-white"
+                  : "bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700"
+              }`}
+            >
+              {tab.label}
+            </button>
+          ))}
+        </div>
+
+        {loading ? (
+          <div className="flex justify-center py-12">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+          </div>
+        ) : error ? (
+          <div className="text-center py-12">
+            <p className="text-red-600 dark:text-red-400">{error}</p>
+          </div>
+        ) : !hasQuery ? (
+          <div className="text-center py-12">
+            <p className="text-gray-600 dark:text-gray-400">
+              Enter at least 2 characters to search.
+            </p>
+          </div>
+        ) : noResults ? (
+          <div className="text-center py-12">
+            <p className="text-gray-600 dark:text-gray-400 text-lg">
+              No results found for &quot;{query}&quot;
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-10">
+            {/* Post Results */}
+            {posts.length > 0 && (
+              <section>
+                <h2 className="text-xl font-semibold mb-4">
+                  Posts <span className="text-gray-500 text-base font-normal">({posts.length})</span>
+                </h2>
+                <div className="space-y-4">
+                  {posts.map((post) => (
+                    <Link
+                      key={post.id}
+                      href={`/blog/${post.slug}`}
+                      className="flex gap-4 p-4 bg-white dark:bg-gray-800 rounded-lg shadow-sm hover:shadow-md transition-shadow group"
+                    >
+                      {post.coverImage && (
+                        <img
+                          src={post.coverImage}
+                          alt={post.title}
+                          className="hidden sm:block w-32 h-20 object-cover rounded flex-shrink-0"
+                        />
+                      )}
+                      <div className="min-w-0">
+                        <h3 className="font-semibold text-lg group-hover:text-blue-600 transition-colors">
+                          {post.title}
+                        </h3>
+                        <p
+                          className="search-highlight text-sm text-gray-600 dark:text-gray-400 mt-1 line-clamp-3"
+                          dangerouslySetInnerHTML={{ __html: post.highlight }}
+                        />
+                        <time className="block mt-2 text-xs text-gray-500 dark:text-gray-400">
+                          {new Date(post.publishedAt || post.createdAt).toLocaleDateString("en-US", {
+                            year: "numeric",
+                            month: "short",
+                            day: "numeric",
+                          })}
+                        </time>
+                      </div>
+                    </Link>
+                  ))}
+                </div>
+              </section>
+            )}
+
+            {/* Project Results */}
+            {projects.length > 0 && (
+              <section>
+                <h2 className="text-xl font-semibold mb-4">
+                  Projects <span className="text-gray-500 text-base font-normal">({projects.length})</span>
+                </h2>
+                <div className="space-y-4">
+                  {projects.map((project) => (
+                    <Link
+                      key={project.id}
+                      href={`/portfolio/${project.slug}`}
+                      className="flex gap-4 p-4 bg-white dark:bg-gray-800 rounded-lg shadow-sm hover:shadow-md transition-shadow group"
+                    >
+                      {project.imageUrl && (
+                        <img
+                          src={project.imageUrl}
+                          alt={project.title}
+                          className="hidden sm:block w-32 h-20 object-cover rounded flex-shrink-0"
+                        />
+                      )}
+                      <div className="min-w-0">
+                        <h3 className="font-semibold text-lg group-hover:text-blue-600 transition-colors">
+                          {project.title}
+                        </h3>
+                        <p
+                          className="search-highlight text-sm text-gray-600 dark:text-gray-400 mt-1 line-clamp-3"
+                          dangerouslySetInnerHTML={{ __html: project.highlight }}
+                        />
+                        {project.technologies.length > 0 && (
+                          <div className="flex flex-wrap gap-1 mt-2">
+                            {project.technologies.slice(0, 5).map((tech) => (
+                              <span
+                                key={tech}
+                                className="text-xs px-2 py-0.5 bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-400 rounded"
+                              >
+                                {tech}
+                              </span>
+                            ))}
+                          </div>
+                        )}
+                      </div>
+                    </Link>
+                  ))}
+                </div>
+              </section>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function LoadingFallback() {
+  return (
+    <div className="min-h-screen flex items-center justify-center">
+      <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+    </div>
+  );
+}
+
+export default function SearchPage() {
+  return (
+    <Suspense fallback={<LoadingFallback />}>
+      <SearchContent />
+    </Suspense>
+  );
+}
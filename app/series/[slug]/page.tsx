@@ -0,0 +1,152 @@
+import { Metadata } from "next";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { prisma } from "@/lib/prisma";
+import { livePostWhere } from "@/lib/posts";
+import { seriesPostOrder } from "@/lib/series";
+import { getAuthorPath } from "@/lib/authors";
+
+interface Props {
+  params: Promise<{ slug: string }>;
+}
+
+function findSeries(slug: string) {
+  return prisma.series.findUnique({
+    where: { slug },
+    include: {
+      posts: {
+        where: livePostWhere(),
+        select: {
+          id: true,
+          title: true,
+          slug: true,
+          excerpt: true,
+          readingTime: true,
+          publishedAt: true,
+          createdAt: true,
+          author: {
+            select: { id: true, name: true, slug: true },
+          },
+        },
+        orderBy: seriesPostOrder,
+      },
+    },
+  });
+}
+
+// Generate dynamic metadata for SEO
+export async function generateMetadata({ params }: Props): Promise<Metadata> {
+  const { slug } = await params;
+
+  const [series, settings] = await Promise.all([
+    findSeries(slug),
+    prisma.siteSettings.findUnique({
+      where: { id: "default" },
+      select: { siteName: true },
+    }),
+  ]);
+
+  const siteName = settings?.siteName || "IT Blog";
+
+  if (!series) {
+    return {
+      title: "Series Not Found",
+    };
+  }
+
+  const baseUrl = process.env.NEXTAUTH_URL || "http://localhost:3000";
+  const description =
+    series.description || `A ${series.posts.length}-part series on ${siteName}`;
+
+  return {
+    title: `${series.title} | ${siteName}`,
+    description,
+    openGraph: {
+      title: series.title,
+      description,
+      type: "website",
+      url: `${baseUrl}/series/${slug}`,
+    },
+  };
+}
+
+export default async function SeriesPage({ params }: Props) {
+  const { slug } = await params;
+
+  const series = await findSeries(slug);
+  if (!series) {
+    notFound();
+  }
+
+  const readingTime = series.posts.reduce((total, post) => total + (post.readingTime || 5), 0);
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
+      <div className="container mx-auto px-4 py-12 max-w-3xl">
+        <Link
+          href="/blog"
+          className="inline-flex items-center text-blue-600 dark:text-blue-400 hover:underline mb-8"
+        >
+          ← Back to Blog
+        </Link>
+
+        <p className="text-sm font-semibold text-blue-600 dark:text-blue-400 uppercase tracking-wider mb-2">
+          Series
+        </p>
+        <h1 className="text-4xl font-bold mb-4">{series.title}</h1>
+        {series.description && (
+          <p className="text-lg text-gray-600 dark:text-gray-400 whitespace-pre-line mb-4">
+            {series.description}
+          </p>
+        )}
+        <p className="text-sm text-gray-500 dark:text-gray-400 mb-10">
+          {series.posts.length} {series.posts.length === 1 ? "part" : "parts"} · {readingTime} min read in total
+        </p>
+
+        {series.posts.length === 0 ? (
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-12 text-center">
+            <p className="text-gray-600 dark:text-gray-400">The first part hasn&apos;t been published yet</p>
+          </div>
+        ) : (
+          <ol className="space-y-4">
+            {series.posts.map((post, index) => (
+              <li
+                key={post.id}
+                className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6 flex gap-5"
+              >
+                <span className="flex-shrink-0 w-10 h-10 rounded-full bg-blue-600 text-white flex items-center justify-center font-semibold">
+                  {index + 1}
+                </span>
+                <div className="min-w-0">
+                  <Link
+                    href={`/blog/${post.slug}`}
+                    className="text-xl font-bold hover:text-blue-600 dark:hover:text-blue-400 transition-colors"
+                  >
+                    {post.title}
+                  </Link>
+                  {post.excerpt && (
+                    <p className="text-gray-600 dark:text-gray-400 text-sm mt-2 line-clamp-2">
+                      {post.excerpt}
+                    </p>
+                  )}
+                  <p className="text-xs text-gray-500 dark:text-gray-400 mt-3">
+                    <Link href={getAuthorPath(post.author)} className="hover:underline">
+                      {post.author.name || "Anonymous"}
+                    </Link>
+                    {" · "}
+                    {post.readingTime || 5} min ·{" "}
+                    {(post.publishedAt || post.createdAt).toLocaleDateString("en-US", {
+                      month: "short",
+                      day: "numeric",
+                      year: "numeric",
+                    })}
+                  </p>
+                </div>
+              </li>
+            ))}
+          </ol>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,12 +1,17 @@
 import { MetadataRoute } from "next";
 import { prisma } from "@/lib/prisma";
+import { livePostWhere } from "@/lib/posts";
+import { getAuthorPath } from "@/lib/authors";
+
+// Regenerate hourly so scheduled posts appear once they go live
+export const revalidate = 3600;
 
 export default async function sitemap(): Promise<MetadataRoute.Sitemap> {
   const baseUrl = process.env.NEXTAUTH_URL || "http://localhost:3000";
 
   // Get all published posts
   const posts = await prisma.post.findMany({
-    where: { published: true },
+    where: livePostWhere(),
     select: {
       slug: true,
       updatedAt: true,
@@ -21,6 +26,25 @@ export default async function sitemap(): Promise<MetadataRoute.Sitemap> {
     },
   });
 
+  // Authors with at least one live post
+  const authors = await prisma.user.findMany({
+    where: { posts: { some: livePostWhere() } },
+    select: {
+      id: true,
+      slug: true,
+      updatedAt: true,
+    },
+  });
+
+  // Series with at least one live post
+  const series = await prisma.series.findMany({
+    where: { posts: { some: livePostWhere() } },
+    select: {
+      slug: true,
+      updatedAt: true,
+    },
+  });
+
   // Static pages
   const staticPages: MetadataRoute.Sitemap = [
     {
@@ -59,5 +83,21 @@ export default async function sitemap(): Promise<MetadataRoute.Sitemap> {
     priority: 0.7,
   }));
 
-  return [...staticPages, ...postPages, ...projectPages];
+  // Author profile pages
+  const authorPages: MetadataRoute.Sitemap = authors.map((author) => ({
+    url: `${baseUrl}${getAuthorPath(author)}`,
+    lastModified: author.updatedAt,
+    changeFrequency: "weekly" as const,
+    priority: 0.6,
+  }));
+
+  // Series landing pages
+  const seriesPages: MetadataRoute.Sitemap = series.map((s) => ({
+    url: `${baseUrl}/series/${s.slug}`,
+    lastModified: s.updatedAt,
+    changeFrequency: "weekly" as const,
+    priority: 0.7,
+  }));
+
+  return [...staticPages, ...postPages, ...projectPages, ...authorPages, ...seriesPages];
 }
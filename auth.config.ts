@@ -1,4 +1,5 @@
 import type { NextAuthConfig } from "next-auth";
+import { hasPermission } from "@/lib/permissions";
 
 /**
  * Edge-compatible Auth.js configuration.
@@ -23,14 +24,14 @@ export const authConfig: NextAuthConfig = {
     // This callback determines if a user is authorized to access a route
     authorized({ auth, request: { nextUrl } }) {
       const isLoggedIn = !!auth?.user;
-      const isAdmin = (auth?.user as any)?.role === "ADMIN";
+      const canAccessAdmin = hasPermission(auth?.user as any, "admin:access");
       const isOnAdmin = nextUrl.pathname.startsWith("/admin");
       const isOnDashboard = nextUrl.pathname.startsWith("/dashboard");
 
       if (isOnAdmin) {
-        // Admin routes require ADMIN role, not just being logged in
-        if (isAdmin) return true;
-        // Redirect non-admins to home page (not login, to avoid redirect loop)
+        // Admin routes require a staff role, not just being logged in
+        if (canAccessAdmin) return true;
+        // Redirect readers to home page (not login, to avoid redirect loop)
         return Response.redirect(new URL("/", nextUrl));
       }
 
@@ -3,6 +3,8 @@ import { PrismaAdapter } from "@auth/prisma-adapter";
 import Credentials from "next-auth/providers/credentials";
 import Resend from "next-auth/providers/resend";
 import { prisma } from "@/lib/prisma";
+import { hasPermission } from "@/lib/permissions";
+import { acceptInvitationForEmail, hasPendingInvitation } from "@/lib/invitations";
 import { authConfig } from "./auth.config";
 
 // Type bypass: @auth/prisma-adapter and next-auth bundle different versions of @auth/core
@@ -72,10 +74,15 @@ const authOptions: any = {
                       });
                     }
                   } else {
-                    // Users exist - only allow existing admins
-                    if (!user || user.role !== "ADMIN") {
-                      console.log(`Blocked sign-in attempt for non-admin: ${email}`);
-                      return null;
+                    // Users exist - only allow existing staff and invited addresses
+                    if (!user || !hasPermission(user, "admin:access")) {
+                      if (!(await acceptInvitationForEmail(email))) {
+                        console.log(`Blocked sign-in attempt for non-staff: ${email}`);
+                        return null;
+                      }
+                      user = await prisma.user.findUniqueOrThrow({
+                        where: { email },
+                      });
                     }
                   }
 
@@ -123,10 +130,15 @@ const authOptions: any = {
                 });
               }
             } else {
-              // Users exist - only allow existing admins
-              if (!user || user.role !== "ADMIN") {
-                console.log(`Blocked sign-in attempt for non-admin: ${email}`);
-                return null;
+              // Users exist - only allow existing staff and invited addresses
+              if (!user || !hasPermission(user, "admin:access")) {
+                if (!(await acceptInvitationForEmail(email))) {
+                  console.log(`Blocked sign-in attempt for non-staff: ${email}`);
+                  return null;
+                }
+                user = await prisma.user.findUniqueOrThrow({
+                  where: { email },
+                });
               }
             }
 
@@ -152,19 +164,39 @@ const authOptions: any = {
           data: { role: "ADMIN" },
         });
         console.log(`First user ${user.email} promoted to ADMIN`);
+      } else if (user.email) {
+        // Invited addresses signing in with a magic link get their invited role
+        await acceptInvitationForEmail(user.email.toLowerCase());
       }
     },
   },
   callbacks: {
     ...authConfig.callbacks,
-    // signIn callback - block non-admin sign-ins (defense in depth for magic links)
-    async signIn({ user, account }: { user: any; account: any }) {
+    // Refresh the role on every check, so the token (and with it the Edge
+    // middleware) follows role changes without signing in again
+    async jwt(params: any) {
+      const token = await authConfig.callbacks!.jwt!(params);
+      if (token && !params.user && token.sub) {
+        try {
+          const user = await prisma.user.findUnique({
+            where: { id: token.sub },
+            select: { role: true },
+          });
+          if (user) token.role = user.role;
+        } catch {
+          // Keep the current role until the database answers again
+        }
+      }
+      return token;
+    },
+    // signIn callback - block non-staff sign-ins (defense in depth for magic links)
+    async signIn({ user, account, email: emailInfo }: { user: any; account: any; email?: { verificationRequest?: boolean } }) {
       // Skip check for credentials provider (already handled in authorize)
       if (account?.provider === "dev-email") {
         return true;
       }
 
-      // For magic link (Resend), check if user is admin
+      // For magic link (Resend), check if user has admin access
       if (account?.provider === "resend") {
         const email = user.email?.toLowerCase().trim();
         if (!email) return false;
@@ -185,15 +217,22 @@ const authOptions: any = {
           }
         }
 
-        // Check if user exists and is admin
+        // Check if user exists and has admin access
         const existingUser = await prisma.user.findUnique({
           where: { email },
           select: { role: true },
         });
 
-        if (!existingUser || existingUser.role !== "ADMIN") {
-          console.log(`Blocked magic link sign-in for non-admin: ${email}`);
-          return false;
+        if (!existingUser || !hasPermission(existingUser, "admin:access")) {
+          if (!(await hasPendingInvitation(email))) {
+            console.log(`Blocked magic link sign-in for non-staff: ${email}`);
+            return false;
+          }
+          // Existing reader accounts are upgraded once the link is clicked;
+          // new accounts get their role when the adapter creates them
+          if (existingUser && !emailInfo?.verificationRequest) {
+            await acceptInvitationForEmail(email);
+          }
         }
       }
 
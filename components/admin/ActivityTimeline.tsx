@@ -0,0 +1,147 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import type { PostActivityType } from "@prisma/client";
+
+interface Activity {
+  id: string;
+  type: PostActivityType;
+  note: string | null;
+  createdAt: string;
+  actor: {
+    id: string;
+    name: string | null;
+    email: string;
+  } | null;
+}
+
+interface ActivityTimelineProps {
+  slug: string;
+  /** Changes whenever the timeline should be reloaded */
+  refreshKey?: number;
+}
+
+const DOT_STYLES: Partial<Record<PostActivityType, string>> = {
+  APPROVED: "bg-green-500",
+  PUBLISHED: "bg-green-500",
+  CHANGES_REQUESTED: "bg-yellow-500",
+  SUBMITTED: "bg-purple-500",
+  SCHEDULED: "bg-blue-500",
+  UNPUBLISHED: "bg-gray-500",
+};
+
+// Notes worth showing in full under the entry
+const SHOW_NOTE: PostActivityType[] = ["SUBMITTED", "WITHDRAWN", "APPROVED", "CHANGES_REQUESTED", "REVIEW_COMMENT"];
+
+function describe(activity: Activity) {
+  switch (activity.type) {
+    case "CREATED":
+      return "created the post";
+    case "SUBMITTED":
+      return "submitted it for review";
+    case "WITHDRAWN":
+      return "withdrew it from review";
+    case "REVIEWER_ASSIGNED":
+      return activity.note ? `assigned ${activity.note} as reviewer` : "removed the reviewer";
+    case "CHANGES_REQUESTED":
+      return "requested changes";
+    case "APPROVED":
+      return "approved it";
+    case "PUBLISHED":
+      return "published it";
+    case "SCHEDULED":
+      return activity.note
+        ? `scheduled it for ${new Date(activity.note).toLocaleString()}`
+        : "scheduled it";
+    case "UNPUBLISHED":
+      return "unpublished it";
+    case "REVIEW_COMMENT":
+      return "left a review note";
+  }
+}
+
+export default function ActivityTimeline({ slug, refreshKey = 0 }: ActivityTimelineProps) {
+  const [open, setOpen] = useState(false);
+  const [activities, setActivities] = useState<Activity[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (open) {
+      fetchActivities();
+    }
+  }, [open, slug, refreshKey]);
+
+  const fetchActivities = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const response = await fetch(`/api/posts/${slug}/activity`);
+      if (!response.ok) throw new Error("Failed to fetch activity");
+
+      const data = await response.json();
+      setActivities(data.activities);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load activity");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow">
+      <button
+        type="button"
+        onClick={() => setOpen(!open)}
+        className="w-full flex items-center justify-between p-6 text-left"
+      >
+        <span className="text-lg font-semibold">Activity</span>
+        <span className="text-sm text-gray-500 dark:text-gray-400">
+          {open ? "Hide" : "Show"}
+        </span>
+      </button>
+
+      {open && (
+        <div className="px-6 pb-6">
+          {error && (
+            <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-red-800 dark:text-red-200 px-4 py-3 rounded-lg mb-4">
+              {error}
+            </div>
+          )}
+
+          {loading && activities.length === 0 ? (
+            <div className="flex justify-center py-6">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+            </div>
+          ) : activities.length === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">No activity yet.</p>
+          ) : (
+            <ol className="relative border-l border-gray-200 dark:border-gray-700 ml-2 space-y-4">
+              {activities.map((activity) => (
+                <li key={activity.id} className="ml-4">
+                  <span
+                    className={`absolute -left-1.5 mt-1.5 w-3 h-3 rounded-full ${DOT_STYLES[activity.type] || "bg-gray-300 dark:bg-gray-600"}`}
+                  />
+                  <p className="text-sm">
+                    <span className="font-medium">
+                      {activity.actor?.name || activity.actor?.email || "Someone"}
+                    </span>{" "}
+                    {describe(activity)}
+                  </p>
+                  <time className="text-xs text-gray-500 dark:text-gray-400">
+                    {new Date(activity.createdAt).toLocaleString()}
+                  </time>
+                  {activity.note && SHOW_NOTE.includes(activity.type) && (
+                    <p className="mt-1 text-sm text-gray-600 dark:text-gray-400 whitespace-pre-wrap">
+                      {activity.note}
+                    </p>
+                  )}
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,50 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import type { AutosaveStatus } from "@/lib/use-autosave";
+
+interface AutosaveIndicatorProps {
+  status: AutosaveStatus;
+  lastSavedAt: Date | null;
+}
+
+function formatElapsed(seconds: number): string {
+  if (seconds < 5) return "just now";
+  if (seconds < 60) return `${seconds}s ago`;
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}m ago`;
+  return `${Math.floor(minutes / 60)}h ago`;
+}
+
+export default function AutosaveIndicator({ status, lastSavedAt }: AutosaveIndicatorProps) {
+  const [now, setNow] = useState(() => Date.now());
+
+  // Re-render periodically so the relative time stays current
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 5000);
+    return () => clearInterval(timer);
+  }, []);
+
+  if (status === "saving") {
+    return <span className="text-sm text-gray-500 dark:text-gray-400">Saving draft...</span>;
+  }
+
+  if (status === "error") {
+    return <span className="text-sm text-red-600 dark:text-red-400">Autosave failed</span>;
+  }
+
+  if (!lastSavedAt) {
+    return <span className="text-sm text-gray-400 dark:text-gray-500">Autosave on</span>;
+  }
+
+  const elapsed = Math.max(0, Math.floor((now - lastSavedAt.getTime()) / 1000));
+
+  return (
+    <span
+      className="text-sm text-gray-500 dark:text-gray-400"
+      title={lastSavedAt.toLocaleString()}
+    >
+      Draft saved {formatElapsed(elapsed)}
+    </span>
+  );
+}
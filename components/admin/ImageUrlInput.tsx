@@ -0,0 +1,59 @@
+"use client";
+
+import { useState } from "react";
+import MediaPicker from "./MediaPicker";
+
+interface ImageUrlInputProps {
+  value: string;
+  onChange: (url: string) => void;
+  id?: string;
+  placeholder?: string;
+  className?: string;
+}
+
+/**
+ * Image URL field with a button to pick from the media library
+ * Accepts external URLs as well as library paths like /media/...
+ */
+export default function ImageUrlInput({
+  value,
+  onChange,
+  id,
+  placeholder = "https://example.com/image.jpg",
+  className = "px-4 py-2",
+}: ImageUrlInputProps) {
+  const [pickerOpen, setPickerOpen] = useState(false);
+
+  return (
+    <>
+      <div className="flex gap-2">
+        <input
+          type="text"
+          inputMode="url"
+          id={id}
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          placeholder={placeholder}
+          className={`flex-1 min-w-0 ${className} border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700`}
+        />
+        <button
+          type="button"
+          onClick={() => setPickerOpen(true)}
+          className="px-3 py-2 bg-gray-100 dark:bg-gray-700 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors text-sm whitespace-nowrap"
+        >
+          Library
+        </button>
+      </div>
+
+      {pickerOpen && (
+        <MediaPicker
+          onSelect={(media) => {
+            onChange(media.url);
+            setPickerOpen(false);
+          }}
+          onClose={() => setPickerOpen(false)}
+        />
+      )}
+    </>
+  );
+}
@@ -0,0 +1,120 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { MarkdownImport as ParsedImport, markdownToHtml, parseMarkdownImport } from "@/lib/markdown";
+import { processContentForSave } from "@/lib/sanitize";
+
+export type ImportedPost = Omit<ParsedImport, "body"> & {
+  /** Sanitized editor HTML */
+  content: string;
+};
+
+interface MarkdownImportProps {
+  onImport: (post: ImportedPost) => void;
+  /** Ask before replacing content that is already there */
+  hasContent: boolean;
+}
+
+/**
+ * Import a .md file (or pasted Markdown) with optional YAML front matter
+ */
+export default function MarkdownImport({ onImport, hasContent }: MarkdownImportProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [pasteOpen, setPasteOpen] = useState(false);
+  const [pasted, setPasted] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  const importMarkdown = (source: string) => {
+    setError(null);
+    try {
+      const { body, ...fields } = parseMarkdownImport(source);
+      if (hasContent && !confirm("Replace the current content with the imported Markdown?")) {
+        return false;
+      }
+      onImport({ ...fields, content: processContentForSave(markdownToHtml(body)) });
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to import Markdown");
+      return false;
+    }
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    importMarkdown(await file.text());
+    // Let the same file be picked again after fixing it
+    if (fileInputRef.current) fileInputRef.current.value = "";
+  };
+
+  const handlePasteImport = () => {
+    if (importMarkdown(pasted)) {
+      setPasted("");
+      setPasteOpen(false);
+    }
+  };
+
+  return (
+    <div className="mb-6">
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <button
+          type="button"
+          onClick={() => fileInputRef.current?.click()}
+          className="px-3 py-2 bg-gray-100 dark:bg-gray-700 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors"
+        >
+          Import .md File
+        </button>
+        <button
+          type="button"
+          onClick={() => setPasteOpen(!pasteOpen)}
+          className="px-3 py-2 bg-gray-100 dark:bg-gray-700 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors"
+        >
+          Paste Markdown
+        </button>
+        <span className="text-gray-500 dark:text-gray-400">
+          Front matter fills in title, excerpt, tags and category.
+        </span>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".md,.markdown,text/markdown"
+          onChange={(e) => handleFile(e.target.files?.[0])}
+          className="hidden"
+        />
+      </div>
+
+      {pasteOpen && (
+        <div className="mt-3 space-y-2">
+          <textarea
+            value={pasted}
+            onChange={(e) => setPasted(e.target.value)}
+            rows={10}
+            spellCheck={false}
+            placeholder={"---\ntitle: My Post\ntags: [nextjs, react]\ncategory: Web\n---\n\n## Introduction\n..."}
+            className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700 font-mono text-sm"
+          />
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={handlePasteImport}
+              disabled={!pasted.trim()}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed text-sm"
+            >
+              Import
+            </button>
+            <button
+              type="button"
+              onClick={() => setPasteOpen(false)}
+              className="px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors text-sm"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {error && (
+        <p className="mt-2 text-sm text-red-600 dark:text-red-400">{error}</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,401 @@
+"use client";
+
+import { useState, useEffect, useRef } from "react";
+import ImagePositionEditor from "./ImagePositionEditor";
+import { focusToOffsets, offsetsToFocus, parseVariants } from "@/lib/images";
+
+export interface MediaItem {
+  id: string;
+  url: string;
+  filename: string;
+  mimeType: string;
+  size: number;
+  alt: string | null;
+  width: number | null;
+  height: number | null;
+  focusX: number;
+  focusY: number;
+  variants: string | null;
+  createdAt: string;
+}
+
+interface MediaLibraryProps {
+  /** When set, items get a "Select" action (picker mode) */
+  onSelect?: (media: MediaItem) => void;
+}
+
+const PAGE_SIZE = 24;
+
+// Grid previews use the smallest generated variant when there is one
+function thumbnailUrl(item: MediaItem) {
+  const thumb = parseVariants(item.variants).find(
+    (variant) => variant.name === "thumb" && variant.format === "webp"
+  );
+  return thumb?.url || item.url;
+}
+
+function formatSize(bytes: number) {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+export default function MediaLibrary({ onSelect }: MediaLibraryProps) {
+  const [media, setMedia] = useState<MediaItem[]>([]);
+  const [page, setPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [query, setQuery] = useState("");
+  const [search, setSearch] = useState("");
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [altText, setAltText] = useState("");
+  const [focus, setFocus] = useState({ x: 0, y: 0, zoom: 100 });
+  const [savingFocus, setSavingFocus] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [uploading, setUploading] = useState(false);
+  const [dragging, setDragging] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    fetchMedia();
+  }, [page, search]);
+
+  const selected = media.find((item) => item.id === selectedId) || null;
+
+  useEffect(() => {
+    setAltText(selected?.alt || "");
+    if (selected) {
+      setFocus({ ...focusToOffsets(selected.focusX, selected.focusY), zoom: 100 });
+    }
+  }, [selected?.id]);
+
+  const fetchMedia = async () => {
+    try {
+      setLoading(true);
+      const params = new URLSearchParams({ page: String(page), limit: String(PAGE_SIZE) });
+      if (search) params.set("q", search);
+
+      const response = await fetch(`/api/media?${params}`);
+      if (!response.ok) throw new Error("Failed to fetch media");
+
+      const data = await response.json();
+      setMedia(data.media);
+      setTotalPages(Math.max(data.pagination.totalPages, 1));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load media");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const uploadFiles = async (files: FileList | File[]) => {
+    setError(null);
+    setUploading(true);
+
+    try {
+      let lastUploaded: MediaItem | null = null;
+
+      for (const file of Array.from(files)) {
+        const body = new FormData();
+        body.append("file", file);
+
+        const response = await fetch("/api/media", { method: "POST", body });
+        const data = await response.json();
+
+        if (!response.ok) {
+          throw new Error(`${file.name}: ${data.error || "Upload failed"}`);
+        }
+        lastUploaded = data.media;
+      }
+
+      // Show the new uploads at the top of the first page
+      setSearch("");
+      setQuery("");
+      if (page === 1) {
+        await fetchMedia();
+      } else {
+        setPage(1);
+      }
+      if (lastUploaded) setSelectedId(lastUploaded.id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Upload failed");
+    } finally {
+      setUploading(false);
+      if (fileInputRef.current) fileInputRef.current.value = "";
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setDragging(false);
+    if (e.dataTransfer.files.length > 0) {
+      uploadFiles(e.dataTransfer.files);
+    }
+  };
+
+  const handleSaveAlt = async () => {
+    if (!selected) return;
+
+    try {
+      const response = await fetch(`/api/media/${selected.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ alt: altText }),
+      });
+      if (!response.ok) throw new Error("Failed to save alt text");
+
+      const data = await response.json();
+      setMedia(media.map((item) => (item.id === selected.id ? data.media : item)));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save alt text");
+    }
+  };
+
+  // Regenerates the cropped variants around the new focus point
+  const handleSaveFocus = async () => {
+    if (!selected) return;
+
+    try {
+      setSavingFocus(true);
+      const response = await fetch(`/api/media/${selected.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(offsetsToFocus(focus.x, focus.y, focus.zoom)),
+      });
+      if (!response.ok) throw new Error("Failed to update crop focus");
+
+      const data = await response.json();
+      setMedia(media.map((item) => (item.id === selected.id ? data.media : item)));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to update crop focus");
+    } finally {
+      setSavingFocus(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!selected) return;
+    if (!confirm(`Delete "${selected.filename}"? Pages still using this image will show a broken image.`)) return;
+
+    try {
+      const response = await fetch(`/api/media/${selected.id}`, { method: "DELETE" });
+      if (!response.ok) throw new Error("Failed to delete media");
+
+      setSelectedId(null);
+      fetchMedia();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to delete media");
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-red-800 dark:text-red-200 px-4 py-3 rounded-lg">
+          {error}
+        </div>
+      )}
+
+      {/* Upload Area */}
+      <div
+        onDragOver={(e) => {
+          e.preventDefault();
+          setDragging(true);
+        }}
+        onDragLeave={() => setDragging(false)}
+        onDrop={handleDrop}
+        className={`border-2 border-dashed rounded-lg p-6 text-center transition-colors ${
+          dragging
+            ? "border-blue-500 bg-blue-50 dark:bg-blue-900/20"
+            : "border-gray-300 dark:border-gray-600"
+        }`}
+      >
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="image/jpeg,image/png,image/gif,image/webp,image/avif"
+          multiple
+          onChange={(e) => e.target.files && uploadFiles(e.target.files)}
+          className="hidden"
+        />
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          {uploading ? "Uploading..." : "Drag images here or"}
+        </p>
+        {!uploading && (
+          <button
+            type="button"
+            onClick={() => fileInputRef.current?.click()}
+            className="mt-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors text-sm"
+          >
+            Choose Files
+          </button>
+        )}
+        <p className="text-xs text-gray-500 mt-2">JPEG, PNG, GIF, WebP or AVIF</p>
+      </div>
+
+      {/* Search */}
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          setPage(1);
+          setSearch(query.trim());
+        }}
+        className="flex gap-2"
+      >
+        <input
+          type="text"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search by filename or alt text..."
+          className="flex-1 px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700"
+        />
+        <button
+          type="submit"
+          className="px-4 py-2 bg-gray-100 dark:bg-gray-700 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors"
+        >
+          Search
+        </button>
+      </form>
+
+      <div className="flex flex-col md:flex-row gap-4">
+        {/* Grid */}
+        <div className="flex-1">
+          {loading ? (
+            <div className="flex justify-center py-12">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+            </div>
+          ) : media.length === 0 ? (
+            <p className="text-center py-12 text-sm text-gray-500 dark:text-gray-400">
+              {search ? "No images match your search." : "No images uploaded yet."}
+            </p>
+          ) : (
+            <div className="grid grid-cols-3 sm:grid-cols-4 lg:grid-cols-6 gap-2">
+              {media.map((item) => (
+                <button
+                  key={item.id}
+                  type="button"
+                  onClick={() => setSelectedId(item.id)}
+                  onDoubleClick={() => onSelect?.(item)}
+                  className={`aspect-square rounded-lg overflow-hidden border-2 bg-gray-100 dark:bg-gray-700 ${
+                    selectedId === item.id ? "border-blue-600" : "border-transparent"
+                  }`}
+                  title={item.filename}
+                >
+                  <img
+                    src={thumbnailUrl(item)}
+                    alt={item.alt || item.filename}
+                    loading="lazy"
+                    className="w-full h-full object-cover"
+                  />
+                </button>
+              ))}
+            </div>
+          )}
+
+          {totalPages > 1 && (
+            <div className="flex items-center justify-center gap-4 mt-4 text-sm">
+              <button
+                type="button"
+                onClick={() => setPage(page - 1)}
+                disabled={page <= 1}
+                className="px-3 py-1 rounded-lg bg-gray-100 dark:bg-gray-700 disabled:opacity-50"
+              >
+                Previous
+              </button>
+              <span className="text-gray-600 dark:text-gray-400">
+                Page {page} of {totalPages}
+              </span>
+              <button
+                type="button"
+                onClick={() => setPage(page + 1)}
+                disabled={page >= totalPages}
+                className="px-3 py-1 rounded-lg bg-gray-100 dark:bg-gray-700 disabled:opacity-50"
+              >
+                Next
+              </button>
+            </div>
+          )}
+        </div>
+
+        {/* Details */}
+        {selected && (
+          <div className="md:w-64 space-y-3 text-sm">
+            <img
+              src={selected.url}
+              alt={selected.alt || selected.filename}
+              className="w-full rounded-lg bg-gray-100 dark:bg-gray-700"
+            />
+            <div>
+              <p className="font-medium break-all">{selected.filename}</p>
+              <p className="text-xs text-gray-500">
+                {formatSize(selected.size)}
+                {selected.width && selected.height && ` · ${selected.width}×${selected.height}`}
+                {" · "}
+                {new Date(selected.createdAt).toLocaleDateString()}
+              </p>
+            </div>
+            {selected.variants && parseVariants(selected.variants).length > 0 && (
+              <div className="p-3 bg-gray-50 dark:bg-gray-700/50 rounded-lg space-y-3">
+                <p className="text-xs text-gray-500">
+                  Crop focus - resized versions are cropped around the centre of the circle
+                </p>
+                <ImagePositionEditor
+                  imageUrl={selected.url}
+                  zoom={focus.zoom}
+                  positionX={focus.x}
+                  positionY={focus.y}
+                  onZoomChange={(zoom) => setFocus((prev) => ({ ...prev, zoom }))}
+                  onPositionChange={(x, y) => setFocus((prev) => ({ ...prev, x, y }))}
+                />
+                <button
+                  type="button"
+                  onClick={handleSaveFocus}
+                  disabled={savingFocus}
+                  className="w-full px-4 py-2 bg-gray-100 dark:bg-gray-700 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors disabled:opacity-50"
+                >
+                  {savingFocus ? "Regenerating..." : "Save Crop Focus"}
+                </button>
+              </div>
+            )}
+            <div>
+              <label className="block text-xs text-gray-500 mb-1">Alt Text</label>
+              <input
+                type="text"
+                value={altText}
+                onChange={(e) => setAltText(e.target.value)}
+                onBlur={() => altText !== (selected.alt || "") && handleSaveAlt()}
+                placeholder="Describe the image"
+                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700"
+              />
+            </div>
+            <input
+              type="text"
+              value={selected.url}
+              readOnly
+              onFocus={(e) => e.target.select()}
+              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-gray-50 dark:bg-gray-900 text-xs"
+            />
+            <div className="flex gap-2">
+              {onSelect && (
+                <button
+                  type="button"
+                  onClick={() => onSelect(selected)}
+                  className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+                >
+                  Select
+                </button>
+              )}
+              <button
+                type="button"
+                onClick={handleDelete}
+                className="px-4 py-2 text-red-600 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg"
+              >
+                Delete
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
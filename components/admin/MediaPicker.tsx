@@ -0,0 +1,49 @@
+"use client";
+
+import { useEffect } from "react";
+import MediaLibrary, { MediaItem } from "./MediaLibrary";
+
+interface MediaPickerProps {
+  onSelect: (media: MediaItem) => void;
+  onClose: () => void;
+}
+
+/**
+ * Modal media library for choosing an image from any image field
+ */
+export default function MediaPicker({ onSelect, onClose }: MediaPickerProps) {
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onClose();
+    };
+    document.addEventListener("keydown", handleKeyDown);
+    return () => document.removeEventListener("keydown", handleKeyDown);
+  }, [onClose]);
+
+  return (
+    <div
+      className="fixed inset-0 z-50 bg-black/60 flex items-center justify-center p-4"
+      onClick={onClose}
+    >
+      <div
+        className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-5xl max-h-[90vh] overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between p-6 border-b border-gray-200 dark:border-gray-700">
+          <h2 className="text-lg font-semibold">Media Library</h2>
+          <button
+            type="button"
+            onClick={onClose}
+            className="text-gray-500 hover:text-gray-700 dark:hover:text-gray-300 text-2xl leading-none"
+            aria-label="Close"
+          >
+            &times;
+          </button>
+        </div>
+        <div className="p-6">
+          <MediaLibrary onSelect={onSelect} />
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,133 @@
+"use client";
+
+import { toDateTimeLocal } from "@/lib/posts";
+
+export type PublishMode = "draft" | "publish" | "schedule";
+
+interface PublishOptionsProps {
+  mode: PublishMode;
+  scheduledAt: string; // datetime-local value (browser timezone)
+  onModeChange: (mode: PublishMode) => void;
+  onScheduledAtChange: (value: string) => void;
+  /** Label for the "publish" option (e.g. "Publish immediately" vs "Published") */
+  publishLabel?: string;
+  /** Contributors can only save drafts */
+  canPublish?: boolean;
+  /** Email newsletter subscribers when the post goes live */
+  announce?: boolean;
+  onAnnounceChange?: (announce: boolean) => void;
+  /** Existing announcement for this post, if subscribers were already emailed */
+  announcement?: PostAnnouncement | null;
+}
+
+export interface PostAnnouncement {
+  status: "QUEUED" | "SENDING" | "SENT" | "FAILED";
+  sentAt: string | null;
+}
+
+const OPTIONS: { value: PublishMode; label: string; description: string }[] = [
+  { value: "draft", label: "Draft", description: "Only visible to you and editors" },
+  { value: "publish", label: "Publish", description: "Visible to everyone right away" },
+  { value: "schedule", label: "Schedule", description: "Goes live automatically at the chosen time" },
+];
+
+export default function PublishOptions({
+  mode,
+  scheduledAt,
+  onModeChange,
+  onScheduledAtChange,
+  publishLabel = "Publish immediately",
+  canPublish = true,
+  announce = false,
+  onAnnounceChange,
+  announcement,
+}: PublishOptionsProps) {
+  if (!canPublish) {
+    return (
+      <div>
+        <label className="block text-sm font-medium mb-2">Visibility</label>
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          Saved as a draft. Submit it for review below when it&apos;s ready and an editor will publish it.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <label className="block text-sm font-medium mb-2">Visibility</label>
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+        {OPTIONS.map((option) => (
+          <label
+            key={option.value}
+            className={`flex items-start gap-2 p-3 border rounded-lg cursor-pointer transition-colors ${
+              mode === option.value
+                ? "border-blue-500 bg-blue-50 dark:bg-blue-900/20"
+                : "border-gray-300 dark:border-gray-600 hover:bg-gray-50 dark:hover:bg-gray-700"
+            }`}
+          >
+            <input
+              type="radio"
+              name="publishMode"
+              value={option.value}
+              checked={mode === option.value}
+              onChange={() => onModeChange(option.value)}
+              className="mt-1 w-4 h-4 text-blue-600 focus:ring-blue-500"
+            />
+            <span>
+              <span className="block text-sm font-medium">
+                {option.value === "publish" ? publishLabel : option.label}
+              </span>
+              <span className="block text-xs text-gray-500 dark:text-gray-400">
+                {option.description}
+              </span>
+            </span>
+          </label>
+        ))}
+      </div>
+
+      {mode === "schedule" && (
+        <div className="mt-4">
+          <label htmlFor="scheduledAt" className="block text-sm font-medium mb-2">
+            Publish at *
+          </label>
+          <input
+            type="datetime-local"
+            id="scheduledAt"
+            value={scheduledAt}
+            min={toDateTimeLocal(new Date())}
+            onChange={(e) => onScheduledAtChange(e.target.value)}
+            className="px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700"
+            required
+          />
+          <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+            Your local time. The post appears on the blog, feed and sitemap once this time passes.
+          </p>
+        </div>
+      )}
+
+      {onAnnounceChange && mode !== "draft" && (
+        <div className="mt-4">
+          {announcement ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              {announcement.status === "SENT" && announcement.sentAt
+                ? `Subscribers were emailed about this post on ${new Date(announcement.sentAt).toLocaleString()}.`
+                : "An announcement email to subscribers is queued and goes out once the post is live."}
+            </p>
+          ) : (
+            <label className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={announce}
+                onChange={(e) => onAnnounceChange(e.target.checked)}
+                className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+              />
+              Email this post to newsletter subscribers
+              {mode === "schedule" && " when it goes live"}
+            </label>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
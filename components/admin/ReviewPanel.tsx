@@ -0,0 +1,368 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useSession } from "next-auth/react";
+import type { ReviewStatus } from "@prisma/client";
+import { hasPermission } from "@/lib/permissions";
+import {
+  getAvailableActions,
+  getWorkflowState,
+  WorkflowAction,
+  WorkflowState,
+  WORKFLOW_ACTION_LABELS,
+  WORKFLOW_LABELS,
+} from "@/lib/workflow";
+
+interface ReviewUser {
+  id: string;
+  name: string | null;
+  email: string;
+}
+
+interface Workflow {
+  id: string;
+  authorId: string;
+  published: boolean;
+  scheduledAt: string | null;
+  reviewStatus: ReviewStatus;
+  reviewer: ReviewUser | null;
+}
+
+interface ReviewComment {
+  id: string;
+  content: string;
+  quote: string | null;
+  resolved: boolean;
+  createdAt: string;
+  authorId: string | null;
+  author: ReviewUser | null;
+}
+
+interface ReviewPanelProps {
+  slug: string;
+  /** Called after anything that adds to the activity timeline */
+  onChange: () => void;
+}
+
+const WORKFLOW_BADGES: Record<WorkflowState, string> = {
+  draft: "bg-yellow-100 dark:bg-yellow-900/20 text-yellow-800 dark:text-yellow-300",
+  in_review: "bg-purple-100 dark:bg-purple-900/20 text-purple-800 dark:text-purple-300",
+  approved: "bg-teal-100 dark:bg-teal-900/20 text-teal-800 dark:text-teal-300",
+  scheduled: "bg-blue-100 dark:bg-blue-900/20 text-blue-800 dark:text-blue-300",
+  published: "bg-green-100 dark:bg-green-900/20 text-green-800 dark:text-green-300",
+};
+
+const ACTION_STYLES: Record<WorkflowAction, string> = {
+  submit: "bg-blue-600 text-white hover:bg-blue-700",
+  withdraw: "border border-gray-300 dark:border-gray-600 hover:bg-gray-50 dark:hover:bg-gray-700",
+  approve: "bg-green-600 text-white hover:bg-green-700",
+  request_changes: "bg-yellow-500 text-white hover:bg-yellow-600",
+};
+
+function userLabel(user: ReviewUser | null) {
+  return user?.name || user?.email || "Unknown";
+}
+
+export default function ReviewPanel({ slug, onChange }: ReviewPanelProps) {
+  const { data: session } = useSession();
+  const [workflow, setWorkflow] = useState<Workflow | null>(null);
+  const [reviewers, setReviewers] = useState<ReviewUser[]>([]);
+  const [comments, setComments] = useState<ReviewComment[]>([]);
+  const [note, setNote] = useState("");
+  const [newComment, setNewComment] = useState("");
+  const [quote, setQuote] = useState("");
+  const [showResolved, setShowResolved] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchWorkflow();
+    fetchComments();
+  }, [slug]);
+
+  const fetchWorkflow = async () => {
+    try {
+      const response = await fetch(`/api/posts/${slug}/workflow`);
+      if (!response.ok) throw new Error("Failed to fetch review status");
+
+      const data = await response.json();
+      setWorkflow(data.workflow);
+      setReviewers(data.reviewers);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load review status");
+    }
+  };
+
+  const fetchComments = async () => {
+    try {
+      const response = await fetch(`/api/posts/${slug}/review-comments`);
+      if (!response.ok) throw new Error("Failed to fetch review notes");
+
+      const data = await response.json();
+      setComments(data.comments);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load review notes");
+    }
+  };
+
+  const updateWorkflow = async (body: { action?: WorkflowAction; note?: string; reviewerId?: string | null }) => {
+    try {
+      setBusy(true);
+      setError(null);
+      const response = await fetch(`/api/posts/${slug}/workflow`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || "Failed to update review status");
+
+      setWorkflow(data.workflow);
+      setNote("");
+      onChange();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to update review status");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  // Keep the text selection in the editor while the button is clicked
+  const handleQuoteSelection = () => {
+    const selected = window.getSelection()?.toString().trim();
+    if (selected) setQuote(selected);
+  };
+
+  const handleAddComment = async () => {
+    if (!newComment.trim()) return;
+
+    try {
+      setBusy(true);
+      setError(null);
+      const response = await fetch(`/api/posts/${slug}/review-comments`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ content: newComment, quote }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || "Failed to add review note");
+
+      setComments([...comments, data.comment]);
+      setNewComment("");
+      setQuote("");
+      onChange();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to add review note");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleResolve = async (comment: ReviewComment) => {
+    try {
+      const response = await fetch(`/api/posts/${slug}/review-comments/${comment.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ resolved: !comment.resolved }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || "Failed to update review note");
+
+      setComments(comments.map((c) => (c.id === comment.id ? data.comment : c)));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to update review note");
+    }
+  };
+
+  const handleDeleteComment = async (comment: ReviewComment) => {
+    if (!confirm("Delete this review note?")) return;
+
+    try {
+      const response = await fetch(`/api/posts/${slug}/review-comments/${comment.id}`, {
+        method: "DELETE",
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || "Failed to delete review note");
+      }
+
+      setComments(comments.filter((c) => c.id !== comment.id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to delete review note");
+    }
+  };
+
+  if (!workflow) {
+    return error ? (
+      <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-red-800 dark:text-red-200 px-4 py-3 rounded-lg">
+        {error}
+      </div>
+    ) : null;
+  }
+
+  const state = getWorkflowState(workflow);
+  const actions = getAvailableActions(session?.user, workflow);
+  const isReviewer = hasPermission(session?.user, "posts:review");
+  const visibleComments = showResolved ? comments : comments.filter((comment) => !comment.resolved);
+  const resolvedCount = comments.filter((comment) => comment.resolved).length;
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6 space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div className="flex items-center gap-3">
+          <h2 className="text-lg font-semibold">Review</h2>
+          <span className={`px-2 py-1 text-xs font-semibold rounded-full ${WORKFLOW_BADGES[state]}`}>
+            {WORKFLOW_LABELS[state]}
+          </span>
+        </div>
+        <label className="flex items-center gap-2 text-sm">
+          Reviewer
+          <select
+            value={workflow.reviewer?.id || ""}
+            onChange={(e) => updateWorkflow({ reviewerId: e.target.value || null })}
+            disabled={busy}
+            className="px-3 py-1 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 disabled:opacity-50"
+          >
+            <option value="">Any editor</option>
+            {reviewers.map((reviewer) => (
+              <option key={reviewer.id} value={reviewer.id}>
+                {userLabel(reviewer)}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-red-800 dark:text-red-200 px-4 py-3 rounded-lg">
+          {error}
+        </div>
+      )}
+
+      {/* Workflow Actions */}
+      {actions.length > 0 && (
+        <div className="space-y-3">
+          <textarea
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            rows={2}
+            placeholder={isReviewer ? "Message for the author (optional)" : "Message for the reviewer (optional)"}
+            className="w-full px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700"
+          />
+          <div className="flex flex-wrap gap-2">
+            {actions.map((action) => (
+              <button
+                key={action}
+                type="button"
+                onClick={() => updateWorkflow({ action, note })}
+                disabled={busy}
+                className={`px-4 py-2 text-sm rounded-lg transition-colors disabled:opacity-50 ${ACTION_STYLES[action]}`}
+              >
+                {WORKFLOW_ACTION_LABELS[action]}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Review Notes */}
+      <div>
+        <div className="flex items-center justify-between mb-3">
+          <h3 className="text-sm font-semibold">Review Notes</h3>
+          {resolvedCount > 0 && (
+            <button
+              type="button"
+              onClick={() => setShowResolved(!showResolved)}
+              className="text-xs text-gray-500 dark:text-gray-400 hover:underline"
+            >
+              {showResolved ? "Hide" : "Show"} {resolvedCount} resolved
+            </button>
+          )}
+        </div>
+
+        {visibleComments.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+            No open notes. Select text in the editor and quote it to comment on a passage.
+          </p>
+        ) : (
+          <ul className="space-y-3 mb-4">
+            {visibleComments.map((comment) => (
+              <li
+                key={comment.id}
+                className={`border border-gray-200 dark:border-gray-700 rounded-lg p-3 ${comment.resolved ? "opacity-60" : ""}`}
+              >
+                {comment.quote && (
+                  <blockquote className="border-l-4 border-yellow-400 pl-3 mb-2 text-sm italic text-gray-600 dark:text-gray-400">
+                    {comment.quote}
+                  </blockquote>
+                )}
+                <p className="text-sm whitespace-pre-wrap">{comment.content}</p>
+                <div className="mt-2 flex items-center justify-between text-xs text-gray-500 dark:text-gray-400">
+                  <span>
+                    {userLabel(comment.author)} · {new Date(comment.createdAt).toLocaleString()}
+                  </span>
+                  <span className="flex gap-3">
+                    <button type="button" onClick={() => handleResolve(comment)} className="hover:underline">
+                      {comment.resolved ? "Reopen" : "Resolve"}
+                    </button>
+                    {(comment.authorId === session?.user?.id || isReviewer) && (
+                      <button
+                        type="button"
+                        onClick={() => handleDeleteComment(comment)}
+                        className="text-red-600 dark:text-red-400 hover:underline"
+                      >
+                        Delete
+                      </button>
+                    )}
+                  </span>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {quote && (
+          <div className="flex items-start justify-between gap-2 border-l-4 border-yellow-400 pl-3 mb-2">
+            <p className="text-sm italic text-gray-600 dark:text-gray-400 line-clamp-3">{quote}</p>
+            <button
+              type="button"
+              onClick={() => setQuote("")}
+              className="text-xs text-gray-500 hover:underline flex-shrink-0"
+            >
+              Remove quote
+            </button>
+          </div>
+        )}
+        <textarea
+          value={newComment}
+          onChange={(e) => setNewComment(e.target.value)}
+          rows={3}
+          placeholder="Add a review note..."
+          className="w-full px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700"
+        />
+        <div className="mt-2 flex justify-end gap-2">
+          <button
+            type="button"
+            onMouseDown={(e) => e.preventDefault()}
+            onClick={handleQuoteSelection}
+            className="px-3 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700"
+          >
+            Quote Selection
+          </button>
+          <button
+            type="button"
+            onClick={handleAddComment}
+            disabled={busy || !newComment.trim()}
+            className="px-3 py-1.5 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+          >
+            Add Note
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,314 @@
+"use client";
+
+import { useState, useEffect, useMemo } from "react";
+import {
+  diffLines,
+  htmlToDiffLines,
+  textToDiffLines,
+  toSideBySide,
+  SideBySideRow,
+} from "@/lib/diff";
+
+interface RevisionSummary {
+  id: string;
+  title: string;
+  createdAt: string;
+  author: {
+    id: string;
+    name: string | null;
+    email: string;
+  } | null;
+}
+
+interface Revision extends RevisionSummary {
+  excerpt: string | null;
+  content: string;
+}
+
+type DiffMode = "text" | "html";
+
+interface RevisionHistoryProps {
+  slug: string;
+  /** Called after a revision has been restored on the server */
+  onRestored: () => void;
+}
+
+const ROW_STYLES: Record<SideBySideRow["type"], { left: string; right: string }> = {
+  equal: { left: "", right: "" },
+  removed: {
+    left: "bg-red-50 dark:bg-red-900/20 text-red-900 dark:text-red-200",
+    right: "bg-gray-50 dark:bg-gray-900/40",
+  },
+  added: {
+    left: "bg-gray-50 dark:bg-gray-900/40",
+    right: "bg-green-50 dark:bg-green-900/20 text-green-900 dark:text-green-200",
+  },
+  changed: {
+    left: "bg-red-50 dark:bg-red-900/20 text-red-900 dark:text-red-200",
+    right: "bg-green-50 dark:bg-green-900/20 text-green-900 dark:text-green-200",
+  },
+};
+
+function authorLabel(revision: RevisionSummary) {
+  return revision.author?.name || revision.author?.email || "Unknown";
+}
+
+export default function RevisionHistory({ slug, onRestored }: RevisionHistoryProps) {
+  const [open, setOpen] = useState(false);
+  const [revisions, setRevisions] = useState<RevisionSummary[]>([]);
+  const [loaded, setLoaded] = useState<Record<string, Revision>>({});
+  const [fromId, setFromId] = useState<string | null>(null);
+  const [toId, setToId] = useState<string | null>(null);
+  const [mode, setMode] = useState<DiffMode>("text");
+  const [loading, setLoading] = useState(false);
+  const [restoring, setRestoring] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (open) {
+      fetchRevisions();
+    }
+  }, [open, slug]);
+
+  useEffect(() => {
+    [fromId, toId].forEach((id) => {
+      if (id && !loaded[id]) fetchRevision(id);
+    });
+  }, [fromId, toId]);
+
+  const fetchRevisions = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const response = await fetch(`/api/posts/${slug}/revisions`);
+      if (!response.ok) throw new Error("Failed to fetch revisions");
+
+      const data = await response.json();
+      setRevisions(data.revisions);
+      // Default comparison: previous version -> latest version
+      setToId(data.revisions[0]?.id || null);
+      setFromId(data.revisions[1]?.id || data.revisions[0]?.id || null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load revisions");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchRevision = async (id: string) => {
+    try {
+      const response = await fetch(`/api/posts/${slug}/revisions/${id}`);
+      if (!response.ok) throw new Error("Failed to fetch revision");
+
+      const data = await response.json();
+      setLoaded((prev) => ({ ...prev, [id]: data.revision }));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load revision");
+    }
+  };
+
+  const handleRestore = async (revision: RevisionSummary) => {
+    const date = new Date(revision.createdAt).toLocaleString();
+    if (!confirm(`Restore the version from ${date}? Unsaved changes in the editor will be lost.`)) return;
+
+    try {
+      setRestoring(revision.id);
+      const response = await fetch(`/api/posts/${slug}/revisions/${revision.id}`, {
+        method: "POST",
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || "Failed to restore revision");
+      }
+
+      onRestored();
+      fetchRevisions();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to restore revision");
+    } finally {
+      setRestoring(null);
+    }
+  };
+
+  const from = fromId ? loaded[fromId] : undefined;
+  const to = toId ? loaded[toId] : undefined;
+
+  const rows = useMemo(() => {
+    if (!from || !to) return [];
+    const split = mode === "html" ? htmlToDiffLines : textToDiffLines;
+    return toSideBySide(diffLines(split(from.content), split(to.content)));
+  }, [from, to, mode]);
+
+  const changedRows = rows.filter((row) => row.type !== "equal").length;
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow">
+      <button
+        type="button"
+        onClick={() => setOpen(!open)}
+        className="w-full flex items-center justify-between p-6 text-left"
+      >
+        <span className="text-lg font-semibold">Revision History</span>
+        <span className="text-sm text-gray-500 dark:text-gray-400">
+          {open ? "Hide" : "Show"}
+        </span>
+      </button>
+
+      {open && (
+        <div className="px-6 pb-6 space-y-6">
+          {error && (
+            <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-red-800 dark:text-red-200 px-4 py-3 rounded-lg">
+              {error}
+            </div>
+          )}
+
+          {loading && revisions.length === 0 ? (
+            <div className="flex justify-center py-6">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+            </div>
+          ) : revisions.length === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              No revisions yet. A revision is recorded every time the post is saved.
+            </p>
+          ) : (
+            <>
+              {/* Revision List */}
+              <div className="border border-gray-200 dark:border-gray-700 rounded-lg max-h-72 overflow-y-auto">
+                <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700 text-sm">
+                  <thead className="bg-gray-50 dark:bg-gray-900">
+                    <tr>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">From</th>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">To</th>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Saved</th>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Title</th>
+                      <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Actions</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                    {revisions.map((revision, index) => (
+                      <tr key={revision.id}>
+                        <td className="px-3 py-2">
+                          <input
+                            type="radio"
+                            name="revision-from"
+                            checked={fromId === revision.id}
+                            onChange={() => setFromId(revision.id)}
+                            aria-label="Compare from this revision"
+                          />
+                        </td>
+                        <td className="px-3 py-2">
+                          <input
+                            type="radio"
+                            name="revision-to"
+                            checked={toId === revision.id}
+                            onChange={() => setToId(revision.id)}
+                            aria-label="Compare to this revision"
+                          />
+                        </td>
+                        <td className="px-3 py-2 whitespace-nowrap text-gray-600 dark:text-gray-400">
+                          {new Date(revision.createdAt).toLocaleString()}
+                          <span className="block text-xs">{authorLabel(revision)}</span>
+                        </td>
+                        <td className="px-3 py-2 truncate max-w-xs">
+                          {revision.title}
+                          {index === 0 && (
+                            <span className="ml-2 inline-flex px-2 py-0.5 text-xs font-semibold rounded-full bg-green-100 dark:bg-green-900/20 text-green-800 dark:text-green-300">
+                              Current
+                            </span>
+                          )}
+                        </td>
+                        <td className="px-3 py-2 text-right whitespace-nowrap">
+                          {index > 0 && (
+                            <button
+                              type="button"
+                              onClick={() => handleRestore(revision)}
+                              disabled={restoring !== null}
+                              className="text-blue-600 dark:text-blue-400 hover:underline disabled:opacity-50"
+                            >
+                              {restoring === revision.id ? "Restoring..." : "Restore"}
+                            </button>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              {/* Diff Mode */}
+              <div className="flex items-center justify-between">
+                <div className="flex gap-2">
+                  {(["text", "html"] as DiffMode[]).map((value) => (
+                    <button
+                      key={value}
+                      type="button"
+                      onClick={() => setMode(value)}
+                      className={`px-3 py-1 rounded-lg text-sm font-medium transition-colors ${
+                        mode === value
+                          ? "bg-blue-600 text-white"
+                          : "bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600"
+                      }`}
+                    >
+                      {value === "text" ? "Text" : "HTML"}
+                    </button>
+                  ))}
+                </div>
+                {from && to && (
+                  <span className="text-sm text-gray-500 dark:text-gray-400">
+                    {changedRows === 0 ? "No content changes" : `${changedRows} changed line${changedRows === 1 ? "" : "s"}`}
+                  </span>
+                )}
+              </div>
+
+              {/* Side-by-side Diff */}
+              {!from || !to ? (
+                <div className="flex justify-center py-6">
+                  <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+                </div>
+              ) : (
+                <div className="border border-gray-200 dark:border-gray-700 rounded-lg overflow-hidden">
+                  <div className="grid grid-cols-2 bg-gray-50 dark:bg-gray-900 text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">
+                    <div className="px-3 py-2">{new Date(from.createdAt).toLocaleString()}</div>
+                    <div className="px-3 py-2 border-l border-gray-200 dark:border-gray-700">{new Date(to.createdAt).toLocaleString()}</div>
+                  </div>
+
+                  {(from.title !== to.title || (from.excerpt || "") !== (to.excerpt || "")) && (
+                    <div className="grid grid-cols-2 text-sm border-t border-gray-200 dark:border-gray-700">
+                      <div className={`px-3 py-2 ${ROW_STYLES.changed.left}`}>
+                        <p className="font-semibold">{from.title}</p>
+                        {from.excerpt && <p className="mt-1 text-xs">{from.excerpt}</p>}
+                      </div>
+                      <div className={`px-3 py-2 border-l border-gray-200 dark:border-gray-700 ${ROW_STYLES.changed.right}`}>
+                        <p className="font-semibold">{to.title}</p>
+                        {to.excerpt && <p className="mt-1 text-xs">{to.excerpt}</p>}
+                      </div>
+                    </div>
+                  )}
+
+                  <div className="max-h-[32rem] overflow-y-auto">
+                    {rows.map((row, index) => (
+                      <div
+                        key={index}
+                        className={`grid grid-cols-2 text-sm border-t border-gray-100 dark:border-gray-700 ${
+                          mode === "html" ? "font-mono text-xs" : ""
+                        }`}
+                      >
+                        <div className={`px-3 py-1 whitespace-pre-wrap break-words ${ROW_STYLES[row.type].left}`}>
+                          {row.left}
+                        </div>
+                        <div className={`px-3 py-1 whitespace-pre-wrap break-words border-l border-gray-200 dark:border-gray-700 ${ROW_STYLES[row.type].right}`}>
+                          {row.right}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,13 +1,15 @@
 "use client";
 
 import { useEditor, EditorContent } from "@tiptap/react";
-import StarterKit from "@tiptap/starter-kit";
-import Youtube from "@tiptap/extension-youtube";
-import CodeBlockLowlight from "@tiptap/extension-code-block-lowlight";
-import { common, createLowlight } from "lowlight";
-import { useEffect } from "react";
+import { Markdown } from "@tiptap/markdown";
+import { useEffect, useState } from "react";
+import MediaPicker from "./MediaPicker";
+import { getEditorExtensions } from "@/lib/editor-extensions";
 
-const lowlight = createLowlight(common);
+type EditorMode = "rich" | "markdown";
+
+// Remembered per browser - people who write Markdown tend to stick with it
+const MODE_STORAGE_KEY = "editorMode";
 
 interface RichTextEditorProps {
   content: string;
@@ -20,21 +22,12 @@ export default function RichTextEditor({
   onChange,
   placeholder = "Write your content here...",
 }: RichTextEditorProps) {
+  const [mediaPickerOpen, setMediaPickerOpen] = useState(false);
+  const [mode, setMode] = useState<EditorMode>("rich");
+  const [markdown, setMarkdown] = useState("");
+
   const editor = useEditor({
-    extensions: [
-      StarterKit.configure({
-        codeBlock: false, // Disable default code block
-      }),
-      CodeBlockLowlight.configure({
-        lowlight,
-      }),
-      Youtube.configure({
-        controls: true,
-        nocookie: true,
-        width: 640,
-        height: 360,
-      }),
-    ],
+    extensions: [...getEditorExtensions(), Markdown],
     content,
     immediatelyRender: false, // Fix SSR hydration issues in Next.js
     editorProps: {
@@ -50,14 +43,43 @@ export default function RichTextEditor({
 
   useEffect(() => {
     if (editor && content !== editor.getHTML()) {
-      editor.commands.setContent(content);
+      // Syncing from props is not a user edit - don't echo it back through onChange
+      editor.commands.setContent(content, { emitUpdate: false });
+      if (mode === "markdown") {
+        setMarkdown(editor.getMarkdown());
+      }
     }
   }, [content, editor]);
 
+  useEffect(() => {
+    if (localStorage.getItem(MODE_STORAGE_KEY) === "markdown") {
+      setMode("markdown");
+    }
+  }, []);
+
+  // The Markdown text is generated once per switch, not on every keystroke,
+  // so the textarea keeps the author's own formatting and cursor position
+  useEffect(() => {
+    if (editor && mode === "markdown") {
+      setMarkdown(editor.getMarkdown());
+    }
+  }, [editor, mode]);
+
   if (!editor) {
     return null;
   }
 
+  const switchMode = (next: EditorMode) => {
+    setMode(next);
+    localStorage.setItem(MODE_STORAGE_KEY, next);
+  };
+
+  const handleMarkdownChange = (value: string) => {
+    setMarkdown(value);
+    editor.commands.setContent(value, { contentType: "markdown", emitUpdate: false });
+    onChange(editor.getHTML());
+  };
+
   const addYouTubeVideo = () => {
     const url = prompt("Enter YouTube URL:");
     if (url) {
@@ -67,215 +89,349 @@ export default function RichTextEditor({
 
   return (
     <div className="border border-gray-300 dark:border-gray-600 rounded-lg overflow-hidden">
-      {/* Toolbar */}
-      <div className="bg-gray-50 dark:bg-gray-900 border-b border-gray-300 dark:border-gray-600 p-2 flex flex-wrap gap-1">
-        {/* Text Formatting */}
-        <button
-          type="button"
-          onMouseDown={(e) => {
-            e.preventDefault();
-            editor.commands.toggleBold();
-          }}
-          className={`px-3 py-1 rounded hover:bg-gray-200 dark:hover:bg-gray-700 ${
-            editor.isActive("bold") ? "bg-gray-300 dark:bg-gray-600 font-bold" : ""
-          }`}
-          title="Bold (Ctrl+B) - Select text first"
-        >
-          <strong>B</strong>
-        </button>
-        <button
-          type="button"
-          onMouseDown={(e) => {
-            e.preventDefault();
-            editor.commands.toggleItalic();
-          }}
-          className={`px-3 py-1 rounded hover:bg-gray-200 dark:hover:bg-gray-700 ${
-            editor.isActive("italic") ? "bg-gray-300 dark:bg-gray-600 italic" : ""
-          }`}
-          title="Italic (Ctrl+I) - Select text first"
-        >
-          <em>I</em>
-        </button>
-        <button
-          type="button"
-          onMouseDown={(e) => {
-            e.preventDefault();
-            editor.commands.toggleStrike();
-          }}
-          className={`px-3 py-1 rounded hover:bg-gray-200 dark:hover:bg-gray-700 ${
-            editor.isActive("strike") ? "bg-gray-300 dark:bg-gray-600" : ""
-          }`}
-          title="Strikethrough - Select text first"
-        >
-          <s>S</s>
-        </button>
-
-        <div className="w-px h-6 bg-gray-300 dark:bg-gray-600 mx-1"></div>
-
-        {/* Headings */}
-        <button
-          type="button"
-          onMouseDown={(e) => {
-            e.preventDefault();
-            editor.chain().focus().toggleHeading({ level: 2 }).run();
-          }}
-          className={`px-3 py-1 rounded hover:bg-gray-200 dark:hover:bg-gray-700 ${
-            editor.isActive("heading", { level: 2 })
-              ? "bg-blue-500 text-white font-bold"
-              : ""
-          }`}
-          title="Heading 2 (Large)"
-        >
-          H2
-        </button>
-        <button
-          type="button"
-          onMouseDown={(e) => {
-            e.preventDefault();
-            editor.chain().focus().toggleHeading({ level: 3 }).run();
-          }}
-          className={`px-3 py-1 rounded hover:bg-gray-200 dark:hover:bg-gray-700 ${
-            editor.isActive("heading", { level: 3 })
-              ? "bg-blue-500 text-white font-bold"
-              : ""
-          }`}
-          title="Heading 3 (Medium)"
-        >
-          H3
-        </button>
-
-        <div className="w-px h-6 bg-gray-300 dark:bg-gray-600 mx-1"></div>
-
-        {/* Lists */}
-        <button
-          type="button"
-          onMouseDown={(e) => {
-            e.preventDefault();
-            editor.chain().focus().toggleBulletList().run();
-          }}
-          className={`px-3 py-1 rounded hover:bg-gray-200 dark:hover:bg-gray-700 ${
-            editor.isActive("bulletList") ? "bg-green-500 text-white" : ""
-          }`}
-          title="Bullet List"
-        >
-          • List
-        </button>
-        <button
-          type="button"
-          onMouseDown={(e) => {
-            e.preventDefault();
-            editor.chain().focus().toggleOrderedList().run();
-          }}
-          className={`px-3 py-1 rounded hover:bg-gray-200 dark:hover:bg-gray-700 ${
-            editor.isActive("orderedList") ? "bg-green-500 text-white" : ""
-          }`}
-          title="Numbered List"
-        >
-          1. List
-        </button>
-
-        <div className="w-px h-6 bg-gray-300 dark:bg-gray-600 mx-1"></div>
-
-        {/* Code */}
-        <button
-          type="button"
-          onMouseDown={(e) => {
-            e.preventDefault();
-            editor.commands.toggleCode();
-          }}
-          className={`px-3 py-1 rounded hover:bg-gray-200 dark:hover:bg-gray-700 ${
-            editor.isActive("code") ? "bg-pink-500 text-white" : ""
-          }`}
-          title="Inline Code - Select text first, then click"
-        >
-          &lt;/&gt;
-        </button>
-        <button
-          type="button"
-          onMouseDown={(e) => {
-            e.preventDefault();
-            editor.chain().focus().toggleCodeBlock().run();
-          }}
-          className={`px-3 py-1 rounded hover:bg-gray-200 dark:hover:bg-gray-700 ${
-            editor.isActive("codeBlock") ? "bg-gray-700 text-white" : ""
-          }`}
-          title="Code Block (creates dark box)"
-        >
-          {"{ }"}
-        </button>
-
-        <div className="w-px h-6 bg-gray-300 dark:bg-gray-600 mx-1"></div>
-
-        {/* Blockquote */}
-        <button
-          type="button"
-          onMouseDown={(e) => {
-            e.preventDefault();
-            editor.chain().focus().toggleBlockquote().run();
-          }}
-          className={`px-3 py-1 rounded hover:bg-gray-200 dark:hover:bg-gray-700 ${
-            editor.isActive("blockquote") ? "bg-blue-400 text-white" : ""
-          }`}
-          title="Blockquote (blue left border)"
-        >
-          "
-        </button>
-
-        <div className="w-px h-6 bg-gray-300 dark:bg-gray-600 mx-1"></div>
-
-        {/* YouTube */}
-        <button
-          type="button"
-          onClick={addYouTubeVideo}
-          className="px-3 py-1 rounded hover:bg-gray-200 dark:hover:bg-gray-700"
-          title="Add YouTube Video"
-        >
-          📺 YouTube
-        </button>
-
-        <div className="w-px h-6 bg-gray-300 dark:bg-gray-600 mx-1"></div>
-
-        {/* Undo/Redo */}
-        <button
-          type="button"
-          onClick={() => editor.chain().focus().undo().run()}
-          disabled={!editor.can().undo()}
-          className="px-3 py-1 rounded hover:bg-gray-200 dark:hover:bg-gray-700 disabled:opacity-50"
-          title="Undo"
-        >
-          ↶
-        </button>
-        <button
-          type="button"
-          onClick={() => editor.chain().focus().redo().run()}
-          disabled={!editor.can().redo()}
-          className="px-3 py-1 rounded hover:bg-gray-200 dark:hover:bg-gray-700 disabled:opacity-50"
-          title="Redo"
-        >
-          ↷
-        </button>
+      {/* Mode */}
+      <div className="bg-gray-50 dark:bg-gray-900 border-b border-gray-300 dark:border-gray-600 px-2 pt-2 flex gap-1 text-sm">
+        {(["rich", "markdown"] as EditorMode[]).map((m) => (
+          <button
+            key={m}
+            type="button"
+            onClick={() => switchMode(m)}
+            className={`px-3 py-1 rounded-t border-b-2 ${
+              mode === m
+                ? "border-blue-500 font-medium"
+                : "border-transparent text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200"
+            }`}
+          >
+            {m === "rich" ? "Rich Text" : "Markdown"}
+          </button>
+        ))}
       </div>
 
-      {/* Editor */}
-      <div className="bg-white dark:bg-gray-800">
+      {/* Toolbar */}
+      {mode === "rich" && (
+        <div className="bg-gray-50 dark:bg-gray-900 border-b border-gray-300 dark:border-gray-600 p-2 flex flex-wrap gap-1">
+          {/* Text Formatting */}
+          <button
+            type="button"
+            onMouseDown={(e) => {
+              e.preventDefault();
+              editor.commands.toggleBold();
+            }}
+            className={`px-3 py-1 rounded hover:bg-gray-200 dark:hover:bg-gray-700 ${
+              editor.isActive("bold") ? "bg-gray-300 dark:bg-gray-600 font-bold" : ""
+            }`}
+            title="Bold (Ctrl+B) - Select text first"
+          >
+            <strong>B</strong>
+          </button>
+          <button
+            type="button"
+            onMouseDown={(e) => {
+              e.preventDefault();
+              editor.commands.toggleItalic();
+            }}
+            className={`px-3 py-1 rounded hover:bg-gray-200 dark:hover:bg-gray-700 ${
+              editor.isActive("italic") ? "bg-gray-300 dark:bg-gray-600 italic" : ""
+            }`}
+            title="Italic (Ctrl+I) - Select text first"
+          >
+            <em>I</em>
+          </button>
+          <button
+            type="button"
+            onMouseDown={(e) => {
+              e.preventDefault();
+              editor.commands.toggleStrike();
+            }}
+            className={`px-3 py-1 rounded hover:bg-gray-200 dark:hover:bg-gray-700 ${
+              editor.isActive("strike") ? "bg-gray-300 dark:bg-gray-600" : ""
+            }`}
+            title="Strikethrough - Select text first"
+          >
+            <s>S</s>
+          </button>
+
+          <div className="w-px h-6 bg-gray-300 dark:bg-gray-600 mx-1"></div>
+
+          {/* Headings */}
+          <button
+            type="button"
+            onMouseDown={(e) => {
+              e.preventDefault();
+              editor.chain().focus().toggleHeading({ level: 2 }).run();
+            }}
+            className={`px-3 py-1 rounded hover:bg-gray-200 dark:hover:bg-gray-700 ${
+              editor.isActive("heading", { level: 2 })
+                ? "bg-blue-500 text-white font-bold"
+                : ""
+            }`}
+            title="Heading 2 (Large)"
+          >
+            H2
+          </button>
+          <button
+            type="button"
+            onMouseDown={(e) => {
+              e.preventDefault();
+              editor.chain().focus().toggleHeading({ level: 3 }).run();
+            }}
+            className={`px-3 py-1 rounded hover:bg-gray-200 dark:hover:bg-gray-700 ${
+              editor.isActive("heading", { level: 3 })
+                ? "bg-blue-500 text-white font-bold"
+                : ""
+            }`}
+            title="Heading 3 (Medium)"
+          >
+            H3
+          </button>
+
+          <div className="w-px h-6 bg-gray-300 dark:bg-gray-600 mx-1"></div>
+
+          {/* Lists */}
+          <button
+            type="button"
+            onMouseDown={(e) => {
+              e.preventDefault();
+              editor.chain().focus().toggleBulletList().run();
+            }}
+            className={`px-3 py-1 rounded hover:bg-gray-200 dark:hover:bg-gray-700 ${
+              editor.isActive("bulletList") ? "bg-green-500 text-white" : ""
+            }`}
+            title="Bullet List"
+          >
+            • List
+          </button>
+          <button
+            type="button"
+            onMouseDown={(e) => {
+              e.preventDefault();
+              editor.chain().focus().toggleOrderedList().run();
+            }}
+            className={`px-3 py-1 rounded hover:bg-gray-200 dark:hover:bg-gray-700 ${
+              editor.isActive("orderedList") ? "bg-green-500 text-white" : ""
+            }`}
+            title="Numbered List"
+          >
+            1. List
+          </button>
+          <button
+            type="button"
+            onMouseDown={(e) => {
+              e.preventDefault();
+              editor.chain().focus().toggleTaskList().run();
+            }}
+            className={`px-3 py-1 rounded hover:bg-gray-200 dark:hover:bg-gray-700 ${
+              editor.isActive("taskList") ? "bg-green-500 text-white" : ""
+            }`}
+            title="Task List (checkboxes)"
+          >
+            ☑ Tasks
+          </button>
+
+          <div className="w-px h-6 bg-gray-300 dark:bg-gray-600 mx-1"></div>
+
+          {/* Code */}
+          <button
+            type="button"
+            onMouseDown={(e) => {
+              e.preventDefault();
+              editor.commands.toggleCode();
+            }}
+            className={`px-3 py-1 rounded hover:bg-gray-200 dark:hover:bg-gray-700 ${
+              editor.isActive("code") ? "bg-pink-500 text-white" : ""
+            }`}
+            title="Inline Code - Select text first, then click"
+          >
+            &lt;/&gt;
+          </button>
+          <button
+            type="button"
+            onMouseDown={(e) => {
+              e.preventDefault();
+              editor.chain().focus().toggleCodeBlock().run();
+            }}
+            className={`px-3 py-1 rounded hover:bg-gray-200 dark:hover:bg-gray-700 ${
+              editor.isActive("codeBlock") ? "bg-gray-700 text-white" : ""
+            }`}
+            title="Code Block (creates dark box)"
+          >
+            {"{ }"}
+          </button>
+
+          <div className="w-px h-6 bg-gray-300 dark:bg-gray-600 mx-1"></div>
+
+          {/* Blockquote */}
+          <button
+            type="button"
+            onMouseDown={(e) => {
+              e.preventDefault();
+              editor.chain().focus().toggleBlockquote().run();
+            }}
+            className={`px-3 py-1 rounded hover:bg-gray-200 dark:hover:bg-gray-700 ${
+              editor.isActive("blockquote") ? "bg-blue-400 text-white" : ""
+            }`}
+            title="Blockquote (blue left border)"
+          >
+            "
+          </button>
+
+          {/* Table */}
+          <button
+            type="button"
+            onMouseDown={(e) => {
+              e.preventDefault();
+              editor.chain().focus().insertTable({ rows: 3, cols: 3, withHeaderRow: true }).run();
+            }}
+            className="px-3 py-1 rounded hover:bg-gray-200 dark:hover:bg-gray-700"
+            title="Insert Table (3x3 with header row)"
+          >
+            ▦ Table
+          </button>
+          {editor.isActive("table") && (
+            <>
+              <button
+                type="button"
+                onMouseDown={(e) => {
+                  e.preventDefault();
+                  editor.chain().focus().addRowAfter().run();
+                }}
+                className="px-3 py-1 rounded hover:bg-gray-200 dark:hover:bg-gray-700"
+                title="Add Row Below"
+              >
+                + Row
+              </button>
+              <button
+                type="button"
+                onMouseDown={(e) => {
+                  e.preventDefault();
+                  editor.chain().focus().addColumnAfter().run();
+                }}
+                className="px-3 py-1 rounded hover:bg-gray-200 dark:hover:bg-gray-700"
+                title="Add Column Right"
+              >
+                + Col
+              </button>
+              <button
+                type="button"
+                onMouseDown={(e) => {
+                  e.preventDefault();
+                  editor.chain().focus().deleteTable().run();
+                }}
+                className="px-3 py-1 rounded hover:bg-gray-200 dark:hover:bg-gray-700 text-red-600 dark:text-red-400"
+                title="Delete Table"
+              >
+                ✕ Table
+              </button>
+            </>
+          )}
+
+          <div className="w-px h-6 bg-gray-300 dark:bg-gray-600 mx-1"></div>
+
+          {/* YouTube */}
+          <button
+            type="button"
+            onClick={addYouTubeVideo}
+            className="px-3 py-1 rounded hover:bg-gray-200 dark:hover:bg-gray-700"
+            title="Add YouTube Video"
+          >
+            📺 YouTube
+          </button>
+
+          {/* Image */}
+          <button
+            type="button"
+            onClick={() => setMediaPickerOpen(true)}
+            className="px-3 py-1 rounded hover:bg-gray-200 dark:hover:bg-gray-700"
+            title="Insert Image from Media Library"
+          >
+            🖼️ Image
+          </button>
+
+          <div className="w-px h-6 bg-gray-300 dark:bg-gray-600 mx-1"></div>
+
+          {/* Undo/Redo */}
+          <button
+            type="button"
+            onClick={() => editor.chain().focus().undo().run()}
+            disabled={!editor.can().undo()}
+            className="px-3 py-1 rounded hover:bg-gray-200 dark:hover:bg-gray-700 disabled:opacity-50"
+            title="Undo"
+          >
+            ↶
+          </button>
+          <button
+            type="button"
+            onClick={() => editor.chain().focus().redo().run()}
+            disabled={!editor.can().redo()}
+            className="px-3 py-1 rounded hover:bg-gray-200 dark:hover:bg-gray-700 disabled:opacity-50"
+            title="Redo"
+          >
+            ↷
+          </button>
+        </div>
+      )}
+
+      {/* Editor - stays mounted in Markdown mode so it keeps the document */}
+      <div className={`bg-white dark:bg-gray-800 ${mode === "markdown" ? "hidden" : ""}`}>
         <EditorContent editor={editor} />
       </div>
 
+      {mode === "markdown" && (
+        <textarea
+          value={markdown}
+          onChange={(e) => handleMarkdownChange(e.target.value)}
+          placeholder={placeholder}
+          spellCheck={false}
+          className="block w-full min-h-[300px] p-4 font-mono text-sm bg-white dark:bg-gray-800 focus:outline-none resize-y"
+        />
+      )}
+
       {/* Helper Text */}
-      <div className="bg-gray-50 dark:bg-gray-900 border-t border-gray-300 dark:border-gray-600 p-3 text-xs text-gray-600 dark:text-gray-400 space-y-2">
-        <div className="font-semibold text-gray-700 dark:text-gray-300">💡 How to use:</div>
-        <div className="grid grid-cols-2 gap-2">
-          <div><strong>H2/H3:</strong> Click button, then type (or use # ## at line start)</div>
-          <div><strong>&lt;/&gt; (inline code):</strong> Select text, click button (or use `text`)</div>
-          <div><strong>&#123; &#125; (code block):</strong> Click button, then type code</div>
-          <div><strong>" (quote):</strong> Click button, then type quote</div>
-          <div><strong>Lists:</strong> Click button, then type items (Enter for new item)</div>
-          <div><strong>YouTube:</strong> Click button, paste URL</div>
+      {mode === "markdown" ? (
+        <div className="bg-gray-50 dark:bg-gray-900 border-t border-gray-300 dark:border-gray-600 p-3 text-xs text-gray-600 dark:text-gray-400 space-y-2">
+          <div className="font-semibold text-gray-700 dark:text-gray-300">💡 GitHub-flavored Markdown:</div>
+          <div className="grid grid-cols-2 gap-2">
+            <div><strong>Headings:</strong> ## Heading, ### Subheading</div>
+            <div><strong>Code:</strong> `inline`, or ```js on its own line for a block</div>
+            <div><strong>Tables:</strong> | a | b | rows with a |---|---| separator</div>
+            <div><strong>Tasks:</strong> - [ ] todo, - [x] done</div>
+          </div>
+          <div className="text-gray-500 dark:text-gray-500 italic">
+            Tip: Switching back to Rich Text keeps your changes - both modes edit the same post.
+          </div>
         </div>
-        <div className="text-gray-500 dark:text-gray-500 italic">
-          Tip: Headings, code blocks, quotes, and lists are "block" elements - click the button first, then type.
+      ) : (
+        <div className="bg-gray-50 dark:bg-gray-900 border-t border-gray-300 dark:border-gray-600 p-3 text-xs text-gray-600 dark:text-gray-400 space-y-2">
+          <div className="font-semibold text-gray-700 dark:text-gray-300">💡 How to use:</div>
+          <div className="grid grid-cols-2 gap-2">
+            <div><strong>H2/H3:</strong> Click button, then type (or use # ## at line start)</div>
+            <div><strong>&lt;/&gt; (inline code):</strong> Select text, click button (or use `text`)</div>
+            <div><strong>&#123; &#125; (code block):</strong> Click button, then type code</div>
+            <div><strong>" (quote):</strong> Click button, then type quote</div>
+            <div><strong>Lists:</strong> Click button, then type items (Enter for new item)</div>
+            <div><strong>YouTube:</strong> Click button, paste URL</div>
+            <div><strong>Image:</strong> Click button, upload or pick from the library</div>
+            <div><strong>Table:</strong> Click button, Tab moves between cells</div>
+          </div>
+          <div className="text-gray-500 dark:text-gray-500 italic">
+            Tip: Headings, code blocks, quotes, and lists are "block" elements - click the button first, then type.
+          </div>
         </div>
-      </div>
+      )}
+
+      {mediaPickerOpen && (
+        <MediaPicker
+          onSelect={(media) => {
+            editor
+              .chain()
+              .focus()
+              .setImage({ src: media.url, alt: media.alt || "" })
+              .run();
+            setMediaPickerOpen(false);
+          }}
+          onClose={() => setMediaPickerOpen(false)}
+        />
+      )}
     </div>
   );
 }
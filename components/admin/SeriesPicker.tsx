@@ -0,0 +1,85 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import Link from "next/link";
+import HelpTip from "@/components/ui/HelpTip";
+
+interface Series {
+  id: string;
+  title: string;
+}
+
+interface SeriesPickerProps {
+  seriesId: string;
+  /** Part number as typed; empty means "add at the end" */
+  seriesPosition: string;
+  onChange: (seriesId: string, seriesPosition: string) => void;
+}
+
+export default function SeriesPicker({ seriesId, seriesPosition, onChange }: SeriesPickerProps) {
+  const [series, setSeries] = useState<Series[]>([]);
+
+  useEffect(() => {
+    fetchSeries();
+  }, []);
+
+  const fetchSeries = async () => {
+    try {
+      const response = await fetch("/api/series");
+      if (response.ok) {
+        const data = await response.json();
+        setSeries(data.series);
+      }
+    } catch (err) {
+      console.error("Error fetching series:", err);
+    }
+  };
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-[1fr_8rem] gap-3">
+      <div>
+        <label htmlFor="series" className="block text-sm font-medium mb-2">
+          Series
+          <HelpTip text="Group multi-part posts. Readers get a Part N of M navigator with previous/next links." />
+        </label>
+        <select
+          id="series"
+          value={seriesId}
+          // A different series has its own numbering
+          onChange={(e) => onChange(e.target.value, "")}
+          className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700"
+        >
+          <option value="">Not part of a series</option>
+          {series.map((s) => (
+            <option key={s.id} value={s.id}>
+              {s.title}
+            </option>
+          ))}
+        </select>
+        {series.length === 0 && (
+          <p className="mt-1 text-sm text-gray-500">
+            <Link href="/admin/series" className="text-blue-600 hover:underline">
+              Create a series
+            </Link>
+          </p>
+        )}
+      </div>
+      {seriesId && (
+        <div>
+          <label htmlFor="seriesPosition" className="block text-sm font-medium mb-2">
+            Part
+          </label>
+          <input
+            id="seriesPosition"
+            type="number"
+            min={1}
+            value={seriesPosition}
+            onChange={(e) => onChange(seriesId, e.target.value)}
+            placeholder="Last"
+            className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700"
+          />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,54 @@
+"use client";
+
+import type { DailyViews } from "@/lib/analytics";
+
+interface ViewsChartProps {
+  daily: DailyViews[];
+}
+
+const HEIGHT = 160;
+
+/**
+ * Bar chart of views per day. Plain SVG - one bar per day, scaled to the busiest day.
+ */
+export default function ViewsChart({ daily }: ViewsChartProps) {
+  const max = Math.max(1, ...daily.map((day) => day.views));
+  const barWidth = 100 / Math.max(daily.length, 1);
+  const label = (date: string) =>
+    new Date(`${date}T00:00:00Z`).toLocaleDateString(undefined, { month: "short", day: "numeric", timeZone: "UTC" });
+
+  return (
+    <div>
+      <p className="text-xs text-gray-500 mb-1">{max} views</p>
+      <svg
+        viewBox={`0 0 100 ${HEIGHT}`}
+        preserveAspectRatio="none"
+        className="w-full h-40 border-b border-gray-200 dark:border-gray-700"
+        role="img"
+        aria-label="Views per day"
+      >
+        {daily.map((day, index) => {
+          const height = (day.views / max) * HEIGHT;
+          return (
+            <rect
+              key={day.date}
+              x={index * barWidth + barWidth * 0.15}
+              y={HEIGHT - height}
+              width={barWidth * 0.7}
+              height={height}
+              className="fill-blue-500 dark:fill-blue-400"
+            >
+              <title>{`${label(day.date)}: ${day.views} views`}</title>
+            </rect>
+          );
+        })}
+      </svg>
+      {daily.length > 0 && (
+        <div className="flex justify-between text-xs text-gray-500 mt-1">
+          <span>{label(daily[0].date)}</span>
+          <span>{label(daily[daily.length - 1].date)}</span>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -6,13 +6,42 @@ interface ContentRendererProps {
   content: string;
 }
 
+// Anchored headings get a copy-link button (added after sanitizing, so it's trusted markup)
+function addCopyLinkButtons(html: string): string {
+  return html.replace(
+    /<h([2-4]) id="([^"]+)"([^>]*)>([\s\S]*?)<\/h\1>/g,
+    (_match, level, id, attrs, inner) =>
+      `<h${level} id="${id}"${attrs}>${inner}<a href="#${id}" class="heading-anchor" aria-label="Copy link to this section" title="Copy link">#</a></h${level}>`
+  );
+}
+
 export default function ContentRenderer({ content }: ContentRendererProps) {
   // Sanitize content before rendering
-  const sanitizedContent = processContentForDisplay(content);
+  const sanitizedContent = addCopyLinkButtons(processContentForDisplay(content));
+
+  // One listener for every copy-link button in the post
+  const handleClick = async (e: React.MouseEvent<HTMLDivElement>) => {
+    const anchor = (e.target as HTMLElement).closest<HTMLAnchorElement>("a.heading-anchor");
+    if (!anchor) return;
+
+    e.preventDefault();
+    const url = `${window.location.origin}${window.location.pathname}${anchor.hash}`;
+    window.history.replaceState(null, "", anchor.hash);
+    document.getElementById(decodeURIComponent(anchor.hash.slice(1)))?.scrollIntoView({ behavior: "smooth" });
+
+    try {
+      await navigator.clipboard.writeText(url);
+      anchor.classList.add("copied");
+      setTimeout(() => anchor.classList.remove("copied"), 1500);
+    } catch (err) {
+      console.error("Failed to copy link:", err);
+    }
+  };
 
   return (
     <div
       className="blog-content"
+      onClick={handleClick}
       dangerouslySetInnerHTML={{ __html: sanitizedContent }}
     />
   );
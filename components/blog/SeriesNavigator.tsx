@@ -0,0 +1,53 @@
+import Link from "next/link";
+import type { SeriesNavigation } from "@/lib/series";
+
+interface SeriesNavigatorProps {
+  navigation: SeriesNavigation;
+  /** Just the "Part N of M" line, for the top of the post */
+  compact?: boolean;
+}
+
+export default function SeriesNavigator({ navigation, compact = false }: SeriesNavigatorProps) {
+  const { series, part, total, previous, next } = navigation;
+
+  const label = (
+    <>
+      Part {part} of {total} in{" "}
+      <Link href={`/series/${series.slug}`} className="font-semibold text-blue-600 dark:text-blue-400 hover:underline">
+        {series.title}
+      </Link>
+    </>
+  );
+
+  if (compact) {
+    return <p className="text-sm text-gray-600 dark:text-gray-400 mb-8">{label}</p>;
+  }
+
+  return (
+    <nav aria-label="Series navigation" className="mb-8 p-6 bg-gray-50 dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700">
+      <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">{label}</p>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        {previous ? (
+          <Link
+            href={`/blog/${previous.slug}`}
+            className="block p-4 bg-white dark:bg-gray-900 rounded-lg hover:shadow-md transition-shadow"
+          >
+            <span className="block text-xs text-gray-500 dark:text-gray-400 mb-1">← Previous part</span>
+            <span className="font-medium line-clamp-2">{previous.title}</span>
+          </Link>
+        ) : (
+          <div />
+        )}
+        {next && (
+          <Link
+            href={`/blog/${next.slug}`}
+            className="block p-4 bg-white dark:bg-gray-900 rounded-lg hover:shadow-md transition-shadow sm:text-right"
+          >
+            <span className="block text-xs text-gray-500 dark:text-gray-400 mb-1">Next part →</span>
+            <span className="font-medium line-clamp-2">{next.title}</span>
+          </Link>
+        )}
+      </div>
+    </nav>
+  );
+}
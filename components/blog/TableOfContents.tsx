@@ -0,0 +1,98 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import type { Heading } from "@/lib/headings";
+
+interface TableOfContentsProps {
+  headings: Heading[];
+  /** Sticky sidebar list on desktop, or a collapsible block above the post on mobile */
+  variant: "sidebar" | "collapsible";
+}
+
+// Distance from the top of the viewport (below the sticky header) that counts as "reading"
+const ACTIVE_OFFSET = 120;
+
+const INDENT: Record<Heading["level"], string> = {
+  2: "",
+  3: "pl-3",
+  4: "pl-6",
+};
+
+/**
+ * Id of the last heading scrolled past, for scroll-spy highlighting
+ */
+function useActiveHeading(headings: Heading[]) {
+  const [activeId, setActiveId] = useState<string | null>(null);
+
+  useEffect(() => {
+    let frame = 0;
+
+    const update = () => {
+      frame = 0;
+      let current: string | null = null;
+      for (const heading of headings) {
+        const element = document.getElementById(heading.id);
+        if (element && element.getBoundingClientRect().top <= ACTIVE_OFFSET) {
+          current = heading.id;
+        }
+      }
+      setActiveId(current);
+    };
+
+    const onScroll = () => {
+      if (!frame) frame = requestAnimationFrame(update);
+    };
+
+    update();
+    window.addEventListener("scroll", onScroll, { passive: true });
+    return () => {
+      window.removeEventListener("scroll", onScroll);
+      if (frame) cancelAnimationFrame(frame);
+    };
+  }, [headings]);
+
+  return activeId;
+}
+
+export default function TableOfContents({ headings, variant }: TableOfContentsProps) {
+  const activeId = useActiveHeading(headings);
+
+  const list = (
+    <ol className="space-y-1 text-sm">
+      {headings.map((heading) => (
+        <li key={heading.id} className={INDENT[heading.level]}>
+          <a
+            href={`#${heading.id}`}
+            className={`block py-1 border-l-2 pl-3 transition-colors ${
+              heading.id === activeId
+                ? "border-blue-600 text-blue-600 dark:text-blue-400 font-medium"
+                : "border-transparent text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white"
+            }`}
+          >
+            {heading.text}
+          </a>
+        </li>
+      ))}
+    </ol>
+  );
+
+  if (variant === "collapsible") {
+    return (
+      <details className="lg:hidden mb-8 bg-white dark:bg-gray-800 rounded-lg shadow">
+        <summary className="px-4 py-3 font-semibold cursor-pointer select-none">
+          On this page
+        </summary>
+        <nav aria-label="Table of contents" className="px-4 pb-4">
+          {list}
+        </nav>
+      </details>
+    );
+  }
+
+  return (
+    <nav aria-label="Table of contents" className="hidden lg:block mb-8">
+      <h2 className="text-lg font-bold mb-3 text-gray-900 dark:text-white">On this page</h2>
+      <div className="max-h-[50vh] overflow-y-auto">{list}</div>
+    </nav>
+  );
+}
@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, FormEvent } from "react";
+import { useState, useRef, useEffect, useCallback, FormEvent } from "react";
 import { useSession } from "next-auth/react";
 
 interface CommentFormProps {
@@ -24,8 +24,28 @@ export default function CommentForm({
   const [content, setContent] = useState("");
   const [nickname, setNickname] = useState("");
   const [email, setEmail] = useState("");
+  const [notifyReplies, setNotifyReplies] = useState(false);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  // Spam signals: a field hidden from humans and how long the form was open,
+  // timed by the server so it can't be faked
+  const [website, setWebsite] = useState("");
+  const formToken = useRef<string | null>(null);
+
+  const loadFormToken = useCallback(async () => {
+    try {
+      const response = await fetch("/api/comments/form-token");
+      formToken.current = response.ok ? (await response.json()).token : null;
+    } catch {
+      formToken.current = null;
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!isAuthenticated) loadFormToken();
+  }, [isAuthenticated, loadFormToken]);
 
   const handleSubmit = async (e: FormEvent) => {
     e.preventDefault();
@@ -43,6 +63,7 @@ export default function CommentForm({
 
     setLoading(true);
     setError(null);
+    setNotice(null);
 
     try {
       const response = await fetch("/api/comments", {
@@ -58,25 +79,36 @@ export default function CommentForm({
           ...(!isAuthenticated && {
             nickname: nickname.trim(),
             email: email.trim() || undefined,
+            notifyReplies: notifyReplies && !!email.trim(),
+            website,
+            formToken: formToken.current,
           }),
         }),
       });
 
+      const data = await response.json();
+
       if (!response.ok) {
-        const data = await response.json();
         throw new Error(data.error || "Failed to post comment");
       }
 
+      // Held comments stay hidden until a moderator approves them
+      const isPending = data.comment?.status !== "APPROVED";
+      if (isPending) {
+        setNotice("Thanks! Your comment is awaiting moderation.");
+      }
+
       // Clear form and notify parent
       setContent("");
       if (!isAuthenticated) {
         // Keep nickname for convenience, clear email
         setEmail("");
       }
+      if (!isAuthenticated) loadFormToken();
       onCommentAdded();
 
-      // Call onCancel if it exists (for reply forms)
-      if (onCancel) {
+      // Call onCancel if it exists (for reply forms), keeping pending replies open for the notice
+      if (onCancel && !isPending) {
         onCancel();
       }
     } catch (err) {
@@ -94,6 +126,12 @@ export default function CommentForm({
         </div>
       )}
 
+      {notice && (
+        <div className="p-3 bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 rounded-lg">
+          <p className="text-sm text-green-800 dark:text-green-200">{notice}</p>
+        </div>
+      )}
+
       <div className="flex items-start gap-3">
         {/* User Avatar or Anonymous Icon */}
         {isAuthenticated && session.user.image ? (
@@ -116,6 +154,22 @@ export default function CommentForm({
 
         {/* Comment Input */}
         <div className="flex-1 space-y-3">
+          {/* Honeypot - invisible to people, filled in by bots */}
+          {!isAuthenticated && (
+            <div className="absolute -left-[10000px] w-px h-px overflow-hidden" aria-hidden="true">
+              <label>
+                Website
+                <input
+                  type="text"
+                  name="website"
+                  value={website}
+                  onChange={(e) => setWebsite(e.target.value)}
+                  tabIndex={-1}
+                  autoComplete="off"
+                />
+              </label>
+            </div>
+          )}
           {/* Name and Email fields for anonymous users */}
           {!isAuthenticated && (
             <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
@@ -140,6 +194,18 @@ export default function CommentForm({
                   disabled={loading}
                 />
               </div>
+              {email.trim() && (
+                <label className="sm:col-span-2 flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400">
+                  <input
+                    type="checkbox"
+                    checked={notifyReplies}
+                    onChange={(e) => setNotifyReplies(e.target.checked)}
+                    className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                    disabled={loading}
+                  />
+                  Email me when someone replies
+                </label>
+              )}
             </div>
           )}
 
@@ -2,6 +2,7 @@
 
 import { useState } from "react";
 import { useSession } from "next-auth/react";
+import { hasPermission } from "@/lib/permissions";
 import CommentForm from "./CommentForm";
 
 interface User {
@@ -53,7 +54,7 @@ export default function CommentItem({
   const [loading, setLoading] = useState(false);
 
   const isOwner = session?.user?.id && comment.userId === session.user.id;
-  const isAdmin = session?.user?.role === "ADMIN";
+  const isModerator = hasPermission(session?.user, "comments:moderate");
   const displayName = comment.displayName || comment.user?.name || comment.nickname || "Anonymous";
 
   const handleDelete = async () => {
@@ -130,14 +131,14 @@ export default function CommentItem({
               <p className="font-medium text-gray-900 dark:text-white">
                 {displayName}
               </p>
-              {/* Show if user is admin */}
-              {comment.user && comment.userId && isAdmin && comment.userId !== session?.user?.id && (
+              {/* Show registered users to moderators */}
+              {comment.user && comment.userId && isModerator && comment.userId !== session?.user?.id && (
                 <span className="text-xs bg-blue-100 dark:bg-blue-900 text-blue-800 dark:text-blue-200 px-2 py-0.5 rounded">
                   User
                 </span>
               )}
-              {/* Show anonymous badge for admin view */}
-              {!comment.userId && isAdmin && (
+              {/* Show anonymous badge for moderator view */}
+              {!comment.userId && isModerator && (
                 <span className="text-xs bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-400 px-2 py-0.5 rounded">
                   Guest
                 </span>
@@ -151,15 +152,15 @@ export default function CommentItem({
                 hour: "numeric",
                 minute: "numeric",
               })}
-              {/* Show email to admin only */}
-              {isAdmin && comment.email && (
+              {/* Show email to moderators only */}
+              {isModerator && comment.email && (
                 <span className="ml-2 text-gray-400">({comment.email})</span>
               )}
             </p>
           </div>
 
           {/* Actions for owner/admin */}
-          {(isOwner || isAdmin) && !isEditing && (
+          {(isOwner || isModerator) && !isEditing && (
             <div className="flex gap-2">
               <button
                 onClick={() => setIsEditing(true)}
@@ -79,7 +79,7 @@ export default function CommentSection({ postId }: CommentSectionProps) {
   }
 
   return (
-    <div className="mt-12">
+    <div id="comments" className="mt-12">
       <h2 className="text-2xl font-bold mb-6">
         Comments ({comments.length})
       </h2>
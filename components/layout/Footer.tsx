@@ -2,6 +2,7 @@
 
 import { useState, useEffect } from "react";
 import Link from "next/link";
+import NewsletterForm from "@/components/newsletter/NewsletterForm";
 
 interface UsefulLink {
   name: string;
@@ -168,6 +169,15 @@ export default function Footer() {
           )}
         </div>
 
+        {/* Newsletter */}
+        <div className="mt-8 pt-8 border-t border-gray-200 dark:border-gray-800 max-w-md mx-auto text-center">
+          <h3 className="font-semibold mb-2">Newsletter</h3>
+          <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+            Get an email when a new post is published.
+          </p>
+          <NewsletterForm />
+        </div>
+
         <div className="mt-8 pt-8 border-t border-gray-200 dark:border-gray-800">
           <p className="text-center text-sm text-gray-600 dark:text-gray-400">
             &copy; {currentYear} {settings?.siteName}. All rights reserved.
@@ -3,8 +3,9 @@
 import { useState, useEffect } from "react";
 import Link from "next/link";
 import { useSession, signOut } from "next-auth/react";
-import { usePathname } from "next/navigation";
+import { usePathname, useRouter } from "next/navigation";
 import { useTheme } from "@/components/providers/ThemeProvider";
+import { hasPermission } from "@/lib/permissions";
 
 interface SiteBranding {
   siteName: string;
@@ -17,9 +18,11 @@ interface SiteBranding {
 export default function Header() {
   const { data: session, status } = useSession();
   const pathname = usePathname();
+  const router = useRouter();
   const { theme, toggleTheme } = useTheme();
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
   const [branding, setBranding] = useState<SiteBranding | null>(null);
+  const [searchQuery, setSearchQuery] = useState("");
 
   useEffect(() => {
     // Fetch site branding (no-store to get fresh data after settings change)
@@ -59,6 +62,21 @@ export default function Header() {
 
   const closeMobileMenu = () => setMobileMenuOpen(false);
 
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    const query = searchQuery.trim();
+    if (!query) return;
+    closeMobileMenu();
+    setSearchQuery("");
+    router.push(`/search?q=${encodeURIComponent(query)}`);
+  };
+
+  const searchIcon = (
+    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
+    </svg>
+  );
+
   return (
     <header className="sticky top-0 z-50 w-full border-b border-gray-200 dark:border-gray-800 bg-white/95 dark:bg-gray-900/95 backdrop-blur supports-[backdrop-filter]:bg-white/60">
       <div className="container mx-auto px-4">
@@ -111,6 +129,21 @@ export default function Header() {
 
           {/* Desktop Auth Section */}
           <div className="hidden md:flex items-center space-x-4">
+            {/* Search */}
+            <form onSubmit={handleSearch} role="search" className="relative">
+              <span className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400 pointer-events-none">
+                {searchIcon}
+              </span>
+              <input
+                type="search"
+                value={searchQuery}
+                onChange={(e) => setSearchQuery(e.target.value)}
+                placeholder="Search..."
+                aria-label="Search posts and projects"
+                className="w-40 lg:w-56 pl-9 pr-3 py-2 text-sm border border-gray-300 dark:border-gray-700 rounded-lg bg-white dark:bg-gray-800 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </form>
+
             {/* Theme Toggle */}
             <button
               onClick={toggleTheme}
@@ -132,7 +165,7 @@ export default function Header() {
               <div className="h-8 w-20 bg-gray-200 dark:bg-gray-700 rounded animate-pulse" />
             ) : session ? (
               <div className="flex items-center space-x-4">
-                {session.user.role === "ADMIN" && (
+                {hasPermission(session.user, "admin:access") && (
                   <Link
                     href="/admin"
                     className="text-sm font-medium text-gray-700 dark:text-gray-300 hover:text-blue-600 transition-colors"
@@ -192,6 +225,21 @@ export default function Header() {
       {mobileMenuOpen && (
         <div className="md:hidden border-t border-gray-200 dark:border-gray-800 bg-white dark:bg-gray-900">
           <div className="container mx-auto px-4 py-4 space-y-4">
+            {/* Search - Mobile */}
+            <form onSubmit={handleSearch} role="search" className="relative">
+              <span className="absolute left-4 top-1/2 -translate-y-1/2 text-gray-400 pointer-events-none">
+                {searchIcon}
+              </span>
+              <input
+                type="search"
+                value={searchQuery}
+                onChange={(e) => setSearchQuery(e.target.value)}
+                placeholder="Search posts and projects..."
+                aria-label="Search posts and projects"
+                className="w-full pl-10 pr-4 py-3 border border-gray-300 dark:border-gray-700 rounded-lg bg-white dark:bg-gray-800 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </form>
+
             {/* Navigation Links */}
             <nav className="space-y-2">
               {navLinks.map((link) => (
@@ -262,7 +310,7 @@ export default function Header() {
                   </div>
 
                   {/* Admin Link */}
-                  {session.user.role === "ADMIN" && (
+                  {hasPermission(session.user, "admin:access") && (
                     <Link
                       href="/admin"
                       onClick={closeMobileMenu}
@@ -0,0 +1,97 @@
+"use client";
+
+import { useState, FormEvent } from "react";
+
+interface NewsletterFormProps {
+  /** "compact" fits the footer column; "card" stands alone below posts */
+  variant?: "compact" | "card";
+}
+
+export default function NewsletterForm({ variant = "compact" }: NewsletterFormProps) {
+  const [email, setEmail] = useState("");
+  // Honeypot - invisible to people, filled in by bots
+  const [website, setWebsite] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch("/api/newsletter/subscribe", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ email: email.trim(), website }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to subscribe");
+      }
+
+      setMessage(data.message);
+      setEmail("");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to subscribe");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const form = message ? (
+    <p className="text-sm text-green-700 dark:text-green-400">{message}</p>
+  ) : (
+    <form onSubmit={handleSubmit} className="space-y-2">
+      <div className="absolute -left-[10000px] w-px h-px overflow-hidden" aria-hidden="true">
+        <label>
+          Website
+          <input
+            type="text"
+            name="website"
+            value={website}
+            onChange={(e) => setWebsite(e.target.value)}
+            tabIndex={-1}
+            autoComplete="off"
+          />
+        </label>
+      </div>
+      <div className={variant === "card" ? "flex flex-col sm:flex-row gap-2" : "flex gap-2"}>
+        <input
+          type="email"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          placeholder="you@example.com"
+          aria-label="Email address"
+          required
+          disabled={loading}
+          className="flex-1 min-w-0 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-800 text-sm"
+        />
+        <button
+          type="submit"
+          disabled={loading}
+          className="px-4 py-2 bg-blue-600 text-white text-sm rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+        >
+          {loading ? "..." : "Subscribe"}
+        </button>
+      </div>
+      {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+    </form>
+  );
+
+  if (variant === "compact") {
+    return form;
+  }
+
+  return (
+    <div className="p-6 bg-blue-50 dark:bg-blue-900/20 border border-blue-100 dark:border-blue-900 rounded-lg">
+      <h3 className="text-lg font-semibold mb-1">Get new posts by email</h3>
+      <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+        No spam - just an email when something new is published. Unsubscribe anytime.
+      </p>
+      {form}
+    </div>
+  );
+}
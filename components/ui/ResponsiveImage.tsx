@@ -0,0 +1,58 @@
+"use client";
+
+import { useState } from "react";
+import type { ResponsiveImageSet } from "@/lib/images";
+
+interface ResponsiveImageProps {
+  src: string;
+  alt: string;
+  /** Variants from the media library; without them this is a plain <img> */
+  imageSet?: ResponsiveImageSet | null;
+  /** Rendered width hints for the browser, e.g. "(min-width: 768px) 33vw, 100vw" */
+  sizes?: string;
+  className?: string;
+  /** Above-the-fold images load eagerly */
+  priority?: boolean;
+  onError?: (e: React.SyntheticEvent<HTMLImageElement>) => void;
+}
+
+export default function ResponsiveImage({
+  src,
+  alt,
+  imageSet,
+  sizes = "100vw",
+  className,
+  priority = false,
+  onError,
+}: ResponsiveImageProps) {
+  const [loaded, setLoaded] = useState(false);
+
+  if (!imageSet) {
+    return <img src={src} alt={alt} className={className} onError={onError} />;
+  }
+
+  return (
+    <picture>
+      <source type="image/avif" srcSet={imageSet.srcSet.avif} sizes={sizes} />
+      <source type="image/webp" srcSet={imageSet.srcSet.webp} sizes={sizes} />
+      <img
+        src={src}
+        alt={alt}
+        width={imageSet.width}
+        height={imageSet.height}
+        loading={priority ? "eager" : "lazy"}
+        fetchPriority={priority ? "high" : undefined}
+        decoding="async"
+        className={className}
+        // Blurred preview until the real image arrives
+        style={
+          imageSet.placeholder && !loaded
+            ? { backgroundImage: `url(${imageSet.placeholder})`, backgroundSize: "cover" }
+            : undefined
+        }
+        onLoad={() => setLoaded(true)}
+        onError={onError}
+      />
+    </picture>
+  );
+}
@@ -0,0 +1,343 @@
+import crypto from "crypto";
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { getViewDedupStore } from "@/lib/rate-limit-store";
+import type { Campaign, ReadingEvent } from "@/lib/tracking";
+
+/**
+ * Privacy-friendly view analytics
+ *
+ * Views are stored as daily totals per post or project, split by referring
+ * domain, UTM campaign and device class - never per visitor. To count each visitor once a
+ * day, a hash of their IP, user agent and the page is kept in the view dedup
+ * store (lib/rate-limit-store.ts, the database by default) until the end of the day. The hash uses a
+ * random salt that is replaced every day (UTC) and the old one deleted, so
+ * yesterday's hashes can't be recomputed or linked to today's. Nothing is
+ * stored in the browser.
+ *
+ * Reading engagement (scroll depth and active reading time) comes from
+ * beacons sent by the post page, summed per post and day without any
+ * visitor identifier.
+ */
+
+export type DeviceClass = "desktop" | "mobile" | "tablet";
+
+export interface PageViewTarget {
+  postId?: string;
+  projectId?: string;
+}
+
+export interface DailyViews {
+  date: string; // YYYY-MM-DD
+  views: number;
+}
+
+export interface ViewBreakdown {
+  name: string;
+  views: number;
+}
+
+/** Where views came from: the utm_source if the link had one, else the referring domain */
+export interface TrafficSource {
+  source: string; // "" for direct visits
+  medium: string;
+  campaign: string;
+  views: number;
+}
+
+export interface PostViews {
+  id: string;
+  title: string;
+  slug: string;
+  views: number;
+}
+
+export interface ReadingSummary {
+  /** Page loads that sent reading beacons */
+  reads: number;
+  /** Share of reads that reached each scroll depth, 0-1 */
+  depth: Record<25 | 50 | 75 | 100, number>;
+  /** Share of reads that reached the end, 0-1 */
+  readThrough: number;
+  /** Average active reading time in seconds, or null without data */
+  averageSeconds: number | null;
+}
+
+export interface ViewHistory {
+  days: number;
+  total: number;
+  daily: DailyViews[];
+  devices: ViewBreakdown[];
+}
+
+const BOT_REGEX = /bot|crawl|spider|slurp|preview|facebookexternalhit|headless|lighthouse/i;
+const TABLET_REGEX = /ipad|tablet|kindle|silk|playbook|android(?!.*mobile)/i;
+const MOBILE_REGEX = /mobile|iphone|ipod|android|blackberry|opera mini|iemobile|windows phone/i;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Today's salt, cached per instance
+let saltCache: { day: number; salt: string } | null = null;
+
+function startOfUtcDay(date: Date = new Date()): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+// First day of a period of `days` days ending today
+function periodStart(days: number): Date {
+  return new Date(startOfUtcDay().getTime() - (days - 1) * DAY_MS);
+}
+
+/**
+ * Classify a user agent. Returns null for bots and crawlers, which aren't counted.
+ */
+export function getDeviceClass(userAgent: string | null): DeviceClass | null {
+  if (!userAgent || BOT_REGEX.test(userAgent)) return null;
+  if (TABLET_REGEX.test(userAgent)) return "tablet";
+  if (MOBILE_REGEX.test(userAgent)) return "mobile";
+  return "desktop";
+}
+
+/**
+ * Reduce a referrer URL to its domain ("" for direct visits or anything unparseable)
+ */
+export function getReferrerDomain(referrer: string | null | undefined): string {
+  if (!referrer) return "";
+  try {
+    const url = new URL(referrer);
+    if (url.protocol !== "http:" && url.protocol !== "https:") return "";
+    return url.hostname.toLowerCase().replace(/^www\./, "");
+  } catch {
+    return "";
+  }
+}
+
+/**
+ * The salt for today's visitor hashes. The first request of a new day creates
+ * it and deletes the previous day's salt.
+ */
+async function getDailySalt(today: Date): Promise<string> {
+  if (saltCache?.day === today.getTime()) return saltCache.salt;
+
+  let existing = await prisma.analyticsSalt.findUnique({ where: { date: today } });
+  if (!existing) {
+    try {
+      existing = await prisma.analyticsSalt.create({
+        data: { date: today, salt: crypto.randomBytes(32).toString("hex") },
+      });
+      await prisma.analyticsSalt.deleteMany({ where: { date: { lt: today } } });
+    } catch {
+      // Another instance created it first
+      existing = await prisma.analyticsSalt.findUniqueOrThrow({ where: { date: today } });
+    }
+  }
+
+  saltCache = { day: today.getTime(), salt: existing.salt };
+  return existing.salt;
+}
+
+/**
+ * Count a view of a post or project, once per visitor per day
+ * @returns Whether the view was counted (false for repeat visits and bots)
+ */
+export async function recordPageView(
+  target: PageViewTarget,
+  visitor: { ip: string; userAgent: string | null; referrer?: string | null; campaign?: Campaign }
+): Promise<boolean> {
+  const device = getDeviceClass(visitor.userAgent);
+  if (!device) return false;
+
+  const today = startOfUtcDay();
+  const salt = await getDailySalt(today);
+  const page = target.postId ? `post:${target.postId}` : `project:${target.projectId}`;
+  const hash = crypto
+    .createHash("sha256")
+    .update(`${salt}:${visitor.ip}:${visitor.userAgent}:${page}`)
+    .digest("hex");
+
+  // Kept until the day (and its salt) is over
+  const counted = await getViewDedupStore().setIfAbsent(`view:${hash}`, today.getTime() + DAY_MS - Date.now());
+  if (!counted) return false;
+
+  const row = {
+    date: today,
+    postId: target.postId ?? null,
+    projectId: target.projectId ?? null,
+    referrer: getReferrerDomain(visitor.referrer),
+    utmSource: visitor.campaign?.source ?? "",
+    utmMedium: visitor.campaign?.medium ?? "",
+    utmCampaign: visitor.campaign?.campaign ?? "",
+    device,
+  };
+  const updated = await prisma.pageView.updateMany({ where: row, data: { views: { increment: 1 } } });
+  if (updated.count === 0) {
+    await prisma.pageView.create({ data: { ...row, views: 1 } });
+  }
+
+  return true;
+}
+
+/**
+ * Views per day for the last `days` days (including today, zero-filled),
+ * with the device split
+ */
+export async function getViewHistory(target: PageViewTarget | null, days: number): Promise<ViewHistory> {
+  const since = periodStart(days);
+  const where = {
+    date: { gte: since },
+    ...(target?.postId && { postId: target.postId }),
+    ...(target?.projectId && { projectId: target.projectId }),
+  };
+
+  const [byDate, byDevice] = await Promise.all([
+    prisma.pageView.groupBy({ by: ["date"], where, _sum: { views: true } }),
+    prisma.pageView.groupBy({ by: ["device"], where, _sum: { views: true } }),
+  ]);
+
+  const totals = new Map(byDate.map((row) => [row.date.toISOString().slice(0, 10), row._sum.views ?? 0]));
+  const daily: DailyViews[] = [];
+  for (let day = 0; day < days; day++) {
+    const date = new Date(since.getTime() + day * DAY_MS).toISOString().slice(0, 10);
+    daily.push({ date, views: totals.get(date) ?? 0 });
+  }
+
+  return {
+    days,
+    total: daily.reduce((sum, day) => sum + day.views, 0),
+    daily,
+    devices: byDevice
+      .map((row) => ({ name: row.device, views: row._sum.views ?? 0 }))
+      .sort((a, b) => b.views - a.views),
+  };
+}
+
+/**
+ * The most viewed posts over the last `days` days
+ */
+export async function getMostViewedPosts(days: number, take = 10): Promise<PostViews[]> {
+  const since = periodStart(days);
+  const rows = await prisma.pageView.groupBy({
+    by: ["postId"],
+    where: { date: { gte: since }, postId: { not: null } },
+    _sum: { views: true },
+    orderBy: { _sum: { views: "desc" } },
+    take,
+  });
+
+  const posts = await prisma.post.findMany({
+    where: { id: { in: rows.map((row) => row.postId!) } },
+    select: { id: true, title: true, slug: true },
+  });
+
+  return rows.flatMap((row) => {
+    const post = posts.find((item) => item.id === row.postId);
+    return post ? [{ ...post, views: row._sum.views ?? 0 }] : [];
+  });
+}
+
+/**
+ * Combine view rows into traffic sources, busiest first
+ */
+function toTrafficSources(
+  rows: { referrer: string; utmSource: string; utmMedium: string; utmCampaign: string; _sum: { views: number | null } }[],
+  take: number
+): TrafficSource[] {
+  const sources = new Map<string, TrafficSource>();
+  for (const row of rows) {
+    const source = row.utmSource || row.referrer;
+    const key = JSON.stringify([source, row.utmMedium, row.utmCampaign]);
+    const entry = sources.get(key) ?? { source, medium: row.utmMedium, campaign: row.utmCampaign, views: 0 };
+    entry.views += row._sum.views ?? 0;
+    sources.set(key, entry);
+  }
+  return [...sources.values()].sort((a, b) => b.views - a.views).slice(0, take);
+}
+
+const SOURCE_FIELDS = ["referrer", "utmSource", "utmMedium", "utmCampaign"] satisfies Prisma.PageViewScalarFieldEnum[];
+
+/**
+ * Where the site's views came from over the last `days` days
+ */
+export async function getTrafficSources(days: number, take = 10): Promise<TrafficSource[]> {
+  const rows = await prisma.pageView.groupBy({
+    by: SOURCE_FIELDS,
+    where: { date: { gte: periodStart(days) } },
+    _sum: { views: true },
+  });
+  return toTrafficSources(rows, take);
+}
+
+/**
+ * Where each post's views came from over the last `days` days
+ * @returns Post ID -> its top sources
+ */
+export async function getPostTrafficSources(
+  postIds: string[],
+  days: number,
+  take = 3
+): Promise<Record<string, TrafficSource[]>> {
+  const rows = await prisma.pageView.groupBy({
+    by: ["postId", ...SOURCE_FIELDS],
+    where: { date: { gte: periodStart(days) }, postId: { in: postIds } },
+    _sum: { views: true },
+  });
+  return Object.fromEntries(
+    postIds.map((postId) => [postId, toTrafficSources(rows.filter((row) => row.postId === postId), take)])
+  );
+}
+
+/**
+ * Add a reading beacon to today's totals for the post
+ */
+export async function recordReadingEvent(postId: string, event: ReadingEvent): Promise<void> {
+  const increment: Prisma.ReadingStatUpdateManyMutationInput =
+    event.type === "start"
+      ? { starts: { increment: 1 } }
+      : event.type === "depth"
+        ? { [`depth${event.depth}`]: { increment: 1 } }
+        : { activeSeconds: { increment: event.seconds }, timedReads: { increment: 1 } };
+
+  const row = { date: startOfUtcDay(), postId };
+  const updated = await prisma.readingStat.updateMany({ where: row, data: increment });
+  if (updated.count === 0) {
+    const initial = Object.fromEntries(
+      Object.entries(increment).map(([field, value]) => [field, (value as { increment: number }).increment])
+    );
+    await prisma.readingStat.create({ data: { ...row, ...initial } });
+  }
+}
+
+/**
+ * Scroll depth and reading time per post over the last `days` days
+ * @returns Post ID -> summary, for posts with reading data
+ */
+export async function getReadingSummaries(postIds: string[], days: number): Promise<Record<string, ReadingSummary>> {
+  const rows = await prisma.readingStat.groupBy({
+    by: ["postId"],
+    where: { date: { gte: periodStart(days) }, postId: { in: postIds } },
+    _sum: {
+      starts: true,
+      depth25: true,
+      depth50: true,
+      depth75: true,
+      depth100: true,
+      activeSeconds: true,
+      timedReads: true,
+    },
+  });
+
+  const summaries: Record<string, ReadingSummary> = {};
+  for (const { postId, _sum: sum } of rows) {
+    const reads = sum.starts ?? 0;
+    if (reads === 0) continue;
+    // Beacons can arrive without their start (blocked, rate limited) - never report over 100%
+    const share = (count: number | null) => Math.min(1, (count ?? 0) / reads);
+    summaries[postId] = {
+      reads,
+      depth: { 25: share(sum.depth25), 50: share(sum.depth50), 75: share(sum.depth75), 100: share(sum.depth100) },
+      readThrough: share(sum.depth100),
+      averageSeconds: sum.timedReads ? Math.round((sum.activeSeconds ?? 0) / sum.timedReads) : null,
+    };
+  }
+  return summaries;
+}
@@ -0,0 +1,44 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const { auth, prisma } = vi.hoisted(() => ({
+  auth: vi.fn(),
+  prisma: { user: { findUnique: vi.fn() } },
+}));
+vi.mock("@/auth", () => ({ auth }));
+vi.mock("@/lib/prisma", () => ({ prisma }));
+
+import { authorize } from "@/lib/authorization";
+
+// The token still carries the role from sign-in
+const session = { user: { id: "user-1", email: "staff@example.com", role: "ADMIN" }, expires: "2099-01-01T00:00:00.000Z" };
+
+beforeEach(() => {
+  auth.mockReset().mockResolvedValue(session);
+  prisma.user.findUnique.mockReset();
+});
+
+describe("authorize", () => {
+  it("rejects a demoted user whose session still says admin", async () => {
+    prisma.user.findUnique.mockResolvedValue({ id: "user-1", role: "USER" });
+
+    expect(await authorize("users:manage")).toBeNull();
+    expect(await authorize("admin:access")).toBeNull();
+    expect(prisma.user.findUnique).toHaveBeenCalledWith({ where: { id: "user-1" }, select: { id: true, role: true } });
+  });
+
+  it("applies a promotion without signing in again", async () => {
+    auth.mockResolvedValue({ ...session, user: { ...session.user, role: "CONTRIBUTOR" } });
+    prisma.user.findUnique.mockResolvedValue({ id: "user-1", role: "EDITOR" });
+
+    const authorized = await authorize("posts:review");
+    expect(authorized?.user.role).toBe("EDITOR");
+  });
+
+  it("rejects deleted users and anonymous requests", async () => {
+    prisma.user.findUnique.mockResolvedValue(null);
+    expect(await authorize("admin:access")).toBeNull();
+
+    auth.mockResolvedValue(null);
+    expect(await authorize("admin:access")).toBeNull();
+  });
+});
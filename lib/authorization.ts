@@ -0,0 +1,29 @@
+import type { Session } from "next-auth";
+import { auth } from "@/auth";
+import { prisma } from "@/lib/prisma";
+import { hasPermission, Permission } from "@/lib/permissions";
+
+export type AuthorizedSession = Session & { user: NonNullable<Session["user"]> };
+
+/**
+ * Current session if the signed-in user holds the permission, otherwise null.
+ * API routes answer null with a 401.
+ *
+ * The role is read from the database rather than the session token, which
+ * keeps the role from sign-in - so promotions and demotions apply to the
+ * very next request.
+ */
+export async function authorize(permission: Permission): Promise<AuthorizedSession | null> {
+  const session = await auth();
+  if (!session?.user?.id) return null;
+
+  const user = await prisma.user.findUnique({
+    where: { id: session.user.id },
+    select: { id: true, role: true },
+  });
+  if (!user || !hasPermission(user, permission)) {
+    return null;
+  }
+
+  return { ...session, user: { ...session.user, role: user.role } } as AuthorizedSession;
+}
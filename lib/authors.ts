@@ -0,0 +1,104 @@
+import type { Prisma } from "@prisma/client";
+import { livePostWhere } from "@/lib/posts";
+import { rolesWithPermission } from "@/lib/permissions";
+
+/**
+ * Public author profiles
+ *
+ * Profiles live at /authors/[slug], or /authors/[id] until the author picks
+ * a slug. Anyone who can write posts has one, as does anyone with published
+ * posts (so links keep working after a role change). Email addresses are
+ * never part of a public profile.
+ */
+
+export const authorProfileSelect = {
+  id: true,
+  name: true,
+  slug: true,
+  image: true,
+  bio: true,
+  website: true,
+  githubUrl: true,
+  linkedinUrl: true,
+  twitterUrl: true,
+} as const;
+
+export const PROFILE_LINK_FIELDS = ["website", "githubUrl", "linkedinUrl", "twitterUrl"] as const;
+
+interface AuthorPathFields {
+  id: string;
+  slug?: string | null;
+}
+
+interface PersonFields extends AuthorPathFields {
+  name: string | null;
+  image: string | null;
+  bio: string | null;
+  website: string | null;
+  githubUrl: string | null;
+  linkedinUrl: string | null;
+  twitterUrl: string | null;
+}
+
+export function getAuthorPath(author: AuthorPathFields) {
+  return `/authors/${author.slug || author.id}`;
+}
+
+/**
+ * Prisma filter for the author behind an /authors/[id-or-slug] URL
+ */
+export function publicAuthorWhere(idOrSlug: string, now: Date = new Date()): Prisma.UserWhereInput {
+  return {
+    AND: [
+      { OR: [{ slug: idOrSlug }, { id: idOrSlug }] },
+      {
+        OR: [
+          { role: { in: rolesWithPermission("posts:create") } },
+          { posts: { some: livePostWhere(now) } },
+        ],
+      },
+    ],
+  };
+}
+
+/**
+ * Turn user input into a profile slug
+ * @returns The slug, or an empty string if nothing usable is left
+ */
+export function normalizeAuthorSlug(value: string) {
+  return value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "");
+}
+
+/**
+ * Profile links are shown as-is on the public page, so only web URLs are allowed
+ */
+export function isValidProfileUrl(value: string) {
+  try {
+    const url = new URL(value);
+    return url.protocol === "https:" || url.protocol === "http:";
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * schema.org Person markup for the profile page
+ */
+export function buildPersonJsonLd(author: PersonFields, baseUrl: string) {
+  const sameAs = PROFILE_LINK_FIELDS.map((field) => author[field]).filter(
+    (url): url is string => !!url
+  );
+
+  return {
+    "@context": "https://schema.org",
+    "@type": "Person",
+    name: author.name || "Anonymous",
+    url: `${baseUrl}${getAuthorPath(author)}`,
+    ...(author.image && { image: author.image }),
+    ...(author.bio && { description: author.bio }),
+    ...(sameAs.length > 0 && { sameAs }),
+  };
+}
@@ -0,0 +1,277 @@
+import { prisma } from "@/lib/prisma";
+import { rolesWithPermission } from "@/lib/permissions";
+import { sanitizeHtml } from "@/lib/sanitize";
+import { addHeadingIds } from "@/lib/headings";
+import { recordRevision } from "@/lib/revisions";
+import { logPostActivity } from "@/lib/post-workflow";
+import { ImportData, ImportPost, ImportSource, ImportTerm } from "@/lib/import-formats";
+import { commentContentHash } from "@/lib/spam";
+
+/**
+ * Bulk import from other blog platforms
+ *
+ * An import runs in two steps on the same uploaded file: a dry run that
+ * reports what would be created and which slugs clash with existing posts,
+ * then the real import. Both plan against the current database, so the
+ * report matches what actually happens. Existing categories and tags are
+ * reused (matched by slug or name); posts whose slug is taken are skipped or
+ * renamed, as chosen. Each post is written with its tags and comments in one
+ * transaction, so a failure never leaves half a post behind.
+ *
+ * The import as a whole is not atomic: categories and tags are created
+ * first, then posts one at a time. It stops at the first post that fails and
+ * reports it along with how many were imported before it. Those stay, so
+ * running the same file again with "skip" picks up where it stopped - the
+ * imported posts then show up as conflicts.
+ */
+
+export type ConflictStrategy = "skip" | "rename";
+
+export const CONFLICT_STRATEGIES: ConflictStrategy[] = ["skip", "rename"];
+
+export interface ImportConflict {
+  title: string;
+  slug: string;
+  reason: string;
+  /** The slug the post gets instead, or null when it is skipped */
+  renamedTo: string | null;
+}
+
+export interface ImportReport {
+  source: ImportSource;
+  posts: { total: number; create: number; skip: number };
+  categories: { create: number; existing: number };
+  tags: { create: number; existing: number };
+  comments: number;
+  /** Posts whose author has no staff account here and falls back to the importer */
+  unmatchedAuthors: number;
+  conflicts: ImportConflict[];
+  warnings: string[];
+  /** The post the import stopped at, or null if it didn't */
+  failed: { title: string; slug: string; error: string } | null;
+}
+
+interface PlannedPost {
+  post: ImportPost;
+  slug: string;
+}
+
+interface ImportPlan {
+  report: ImportReport;
+  posts: PlannedPost[];
+  /** Imported slug -> ID of the existing category or tag it maps to */
+  categoryIds: Map<string, string>;
+  tagIds: Map<string, string>;
+  authors: Map<string, string>; // email -> user ID
+}
+
+export function isConflictStrategy(value: unknown): value is ConflictStrategy {
+  return typeof value === "string" && (CONFLICT_STRATEGIES as string[]).includes(value);
+}
+
+/**
+ * Existing categories or tags matching the imported terms by slug or name,
+ * keyed by the imported slug
+ */
+async function findExistingTerms(kind: "category" | "tag", terms: ImportTerm[]) {
+  const where = {
+    OR: [
+      { slug: { in: terms.map((term) => term.slug) } },
+      { name: { in: terms.map((term) => term.name), mode: "insensitive" as const } },
+    ],
+  };
+  const existing = kind === "category"
+    ? await prisma.category.findMany({ where, select: { id: true, name: true, slug: true } })
+    : await prisma.tag.findMany({ where, select: { id: true, name: true, slug: true } });
+
+  const matches = new Map<string, string>(); // imported slug -> existing ID
+  for (const term of terms) {
+    const match =
+      existing.find((item) => item.slug === term.slug) ||
+      existing.find((item) => item.name.toLowerCase() === term.name.toLowerCase());
+    if (match) matches.set(term.slug, match.id);
+  }
+  return matches;
+}
+
+async function planImport(data: ImportData, strategy: ConflictStrategy): Promise<ImportPlan> {
+  const slugs = data.posts.map((post) => post.slug);
+  const taken = new Set(
+    (await prisma.post.findMany({ where: { slug: { in: slugs } }, select: { slug: true } })).map((post) => post.slug)
+  );
+
+  const conflicts: ImportConflict[] = [];
+  const posts: PlannedPost[] = [];
+  const claimed = new Set<string>();
+
+  for (const post of data.posts) {
+    const reason = taken.has(post.slug)
+      ? "A post with this slug already exists"
+      : claimed.has(post.slug)
+        ? "Another post in the file has the same slug"
+        : null;
+
+    if (!reason) {
+      claimed.add(post.slug);
+      posts.push({ post, slug: post.slug });
+      continue;
+    }
+
+    if (strategy === "skip") {
+      conflicts.push({ title: post.title, slug: post.slug, reason, renamedTo: null });
+      continue;
+    }
+
+    let suffix = 2;
+    let slug = `${post.slug}-${suffix}`;
+    while (claimed.has(slug) || (await prisma.post.findUnique({ where: { slug }, select: { id: true } }))) {
+      suffix++;
+      slug = `${post.slug}-${suffix}`;
+    }
+    claimed.add(slug);
+    conflicts.push({ title: post.title, slug: post.slug, reason, renamedTo: slug });
+    posts.push({ post, slug });
+  }
+
+  const [existingCategories, existingTags] = await Promise.all([
+    findExistingTerms("category", data.categories),
+    findExistingTerms("tag", data.tags),
+  ]);
+
+  // Imported posts keep their author when that person writes here too
+  const emails = [...new Set(posts.map(({ post }) => post.authorEmail).filter((email): email is string => !!email))];
+  const users = await prisma.user.findMany({
+    where: { email: { in: emails, mode: "insensitive" }, role: { in: rolesWithPermission("posts:create") } },
+    select: { id: true, email: true },
+  });
+  const authors = new Map(users.map((user) => [user.email.toLowerCase(), user.id]));
+
+  return {
+    posts,
+    categoryIds: existingCategories,
+    tagIds: existingTags,
+    authors,
+    report: {
+      source: data.source,
+      posts: { total: data.posts.length, create: posts.length, skip: data.posts.length - posts.length },
+      categories: { create: data.categories.length - existingCategories.size, existing: existingCategories.size },
+      tags: { create: data.tags.length - existingTags.size, existing: existingTags.size },
+      comments: posts.reduce((sum, { post }) => sum + post.comments.length, 0),
+      unmatchedAuthors: posts.filter(({ post }) => !post.authorEmail || !authors.has(post.authorEmail)).length,
+      conflicts,
+      warnings: data.warnings,
+      failed: null,
+    },
+  };
+}
+
+/**
+ * Work out what an import would do without writing anything
+ */
+export async function dryRunImport(data: ImportData, strategy: ConflictStrategy): Promise<ImportReport> {
+  return (await planImport(data, strategy)).report;
+}
+
+/**
+ * Create a category or tag, or find the one created since the dry run
+ */
+async function ensureTerm(kind: "category" | "tag", term: ImportTerm): Promise<string> {
+  const where = { OR: [{ slug: term.slug }, { name: { equals: term.name, mode: "insensitive" as const } }] };
+  if (kind === "category") {
+    const existing = await prisma.category.findFirst({ where, select: { id: true } });
+    return existing?.id ?? (await prisma.category.create({ data: term })).id;
+  }
+  const existing = await prisma.tag.findFirst({ where, select: { id: true } });
+  return existing?.id ?? (await prisma.tag.create({ data: term })).id;
+}
+
+/**
+ * Import the file for real
+ * @param actorId - The admin running the import; posts without a matching author are theirs
+ */
+export async function runImport(data: ImportData, strategy: ConflictStrategy, actorId: string): Promise<ImportReport> {
+  const plan = await planImport(data, strategy);
+
+  const { categoryIds, tagIds } = plan;
+  for (const term of data.categories) {
+    if (!categoryIds.has(term.slug)) categoryIds.set(term.slug, await ensureTerm("category", term));
+  }
+  for (const term of data.tags) {
+    if (!tagIds.has(term.slug)) tagIds.set(term.slug, await ensureTerm("tag", term));
+  }
+
+  const now = new Date();
+  const { report } = plan;
+  let createdPosts = 0;
+  let createdComments = 0;
+
+  for (const { post, slug } of plan.posts) {
+    const content = addHeadingIds(sanitizeHtml(post.content));
+    const tags = [...new Set(post.tags.map((tag) => tagIds.get(tag)).filter((id): id is string => !!id))];
+    // A scheduled date that passed while the blog was being moved just means published
+    const scheduledAt = post.status === "scheduled" && post.date > now ? post.date : null;
+    const published = post.status !== "draft";
+
+    let created;
+    try {
+      created = await prisma.$transaction(async (tx) => {
+        const created = await tx.post.create({
+          data: {
+            title: post.title,
+            slug,
+            content,
+            excerpt: post.excerpt,
+            coverImage: post.coverImage,
+            published,
+            scheduledAt,
+            publishedAt: published ? post.date : null,
+            createdAt: post.date,
+            updatedAt: post.updatedAt,
+            // Rough estimate: 200 words per minute
+            readingTime: Math.ceil(content.split(/\s+/).length / 200),
+            authorId: (post.authorEmail && plan.authors.get(post.authorEmail)) || actorId,
+            categoryId: (post.category && categoryIds.get(post.category)) || null,
+            tags: { create: tags.map((tagId) => ({ tag: { connect: { id: tagId } } })) },
+          },
+        });
+
+        // Replies come after what they reply to; orphaned replies become top-level
+        const commentIds = new Map<string, string>();
+        const comments = [...post.comments].sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+        for (const comment of comments) {
+          if (!comment.content) continue;
+          const { id } = await tx.comment.create({
+            data: {
+              postId: created.id,
+              content: comment.content,
+              contentHash: commentContentHash(comment.content),
+              nickname: comment.author.slice(0, 50),
+              email: comment.email,
+              ipAddress: comment.ipAddress,
+              parentId: (comment.parentSourceId && commentIds.get(comment.parentSourceId)) || null,
+              status: "APPROVED",
+              createdAt: comment.createdAt,
+            },
+          });
+          commentIds.set(comment.sourceId, id);
+        }
+
+        return created;
+      });
+    } catch (error) {
+      console.error(`Import stopped at post "${slug}":`, error);
+      report.failed = { title: post.title, slug, error: error instanceof Error ? error.message : String(error) };
+      break;
+    }
+    createdPosts++;
+    createdComments += post.comments.filter((comment) => comment.content).length;
+
+    // Only the creation is logged - publish entries would email every author
+    await recordRevision(created, actorId);
+    await logPostActivity(created.id, actorId, "CREATED");
+  }
+
+  report.posts.create = createdPosts;
+  report.comments = createdComments;
+  return report;
+}
@@ -0,0 +1,98 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { normalizeIp, parseForwardedHeader } from "@/lib/client-ip";
+
+// The proxy configuration is read once per process, so each test loads a fresh copy
+async function clientIp(env: Record<string, string>, headers: Record<string, string>) {
+  for (const [name, value] of Object.entries(env)) vi.stubEnv(name, value);
+  const { getClientIp } = await import("@/lib/client-ip");
+  return getClientIp(new Request("http://localhost/", { headers }));
+}
+
+beforeEach(() => {
+  vi.resetModules();
+  vi.stubEnv("CLIENT_IP_HEADER", "");
+  vi.stubEnv("TRUSTED_PROXY_HOPS", "");
+  vi.stubEnv("TRUSTED_PROXIES", "");
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe("normalizeIp", () => {
+  it("strips ports, brackets and quotes", () => {
+    expect(normalizeIp(" 203.0.113.7:51234 ")).toBe("203.0.113.7");
+    expect(normalizeIp('"[2001:DB8::1]:443"')).toBe("2001:db8::1");
+    expect(normalizeIp("2001:db8::1")).toBe("2001:db8::1");
+  });
+
+  it("unwraps IPv4-mapped IPv6", () => {
+    expect(normalizeIp("::ffff:198.51.100.2")).toBe("198.51.100.2");
+  });
+
+  it("returns null for anything that isn't an address", () => {
+    expect(normalizeIp("unknown")).toBeNull();
+    expect(normalizeIp("_hidden")).toBeNull();
+    expect(normalizeIp("")).toBeNull();
+  });
+});
+
+describe("parseForwardedHeader", () => {
+  it("reads the for= address of each element", () => {
+    expect(parseForwardedHeader('for=192.0.2.60;proto=http;by=203.0.113.43, For="[2001:db8:cafe::17]:4711", proto=https')).toEqual([
+      "192.0.2.60",
+      "2001:db8:cafe::17",
+      null,
+    ]);
+  });
+});
+
+describe("getClientIp", () => {
+  it("takes the address the proxy in front appended", async () => {
+    expect(await clientIp({}, { "x-forwarded-for": "1.1.1.1, 203.0.113.7" })).toBe("203.0.113.7");
+  });
+
+  it("falls back to loopback without the header", async () => {
+    expect(await clientIp({}, {})).toBe("127.0.0.1");
+  });
+
+  it("counts back the configured number of hops", async () => {
+    const headers = { "x-forwarded-for": "1.1.1.1, 203.0.113.7, 10.0.0.2" };
+    expect(await clientIp({ TRUSTED_PROXY_HOPS: "2" }, headers)).toBe("203.0.113.7");
+  });
+
+  it("uses the first entry when the chain is shorter than the hops", async () => {
+    expect(await clientIp({ TRUSTED_PROXY_HOPS: "3" }, { "x-forwarded-for": "203.0.113.7" })).toBe("203.0.113.7");
+  });
+
+  it("skips further entries from trusted proxies", async () => {
+    const headers = { "x-forwarded-for": "1.1.1.1, 203.0.113.7, 173.245.48.5, 10.0.0.2" };
+    expect(await clientIp({ TRUSTED_PROXIES: "173.245.48.0/20, private" }, headers)).toBe("203.0.113.7");
+  });
+
+  it("stops at an entry that isn't an address", async () => {
+    const headers = { "x-forwarded-for": "203.0.113.7, garbage, 10.0.0.2" };
+    expect(await clientIp({ TRUSTED_PROXIES: "private" }, headers)).toBe("127.0.0.1");
+  });
+
+  it("reads RFC 7239 Forwarded headers", async () => {
+    const headers = { forwarded: 'for=1.1.1.1, for="[2001:db8::5]:1234";proto=https' };
+    expect(await clientIp({ CLIENT_IP_HEADER: "forwarded" }, headers)).toBe("2001:db8::5");
+  });
+
+  it("trusts single-address headers as they are", async () => {
+    const headers = { "cf-connecting-ip": "198.51.100.2", "x-forwarded-for": "1.1.1.1" };
+    expect(await clientIp({ CLIENT_IP_HEADER: "CF-Connecting-IP" }, headers)).toBe("198.51.100.2");
+  });
+
+  it("rejects invalid configuration", async () => {
+    const headers = { "x-forwarded-for": "203.0.113.7" };
+    await expect(clientIp({ CLIENT_IP_HEADER: "x-client-ip" }, headers)).rejects.toThrow("CLIENT_IP_HEADER must be one of");
+    vi.resetModules();
+    await expect(clientIp({ CLIENT_IP_HEADER: "", TRUSTED_PROXY_HOPS: "0" }, headers)).rejects.toThrow("TRUSTED_PROXY_HOPS");
+    vi.resetModules();
+    await expect(clientIp({ TRUSTED_PROXY_HOPS: "", TRUSTED_PROXIES: "10.0.0.0/x" }, headers)).rejects.toThrow(
+      "Invalid entry in TRUSTED_PROXIES: 10.0.0.0/x"
+    );
+  });
+});
@@ -0,0 +1,137 @@
+import { BlockList, isIP } from "net";
+
+/**
+ * Client IP resolution behind reverse proxies
+ *
+ * Route handlers don't see the connecting socket, only headers - and any
+ * client can send X-Forwarded-For. So the address is read from the end of the
+ * chain, where the proxies we run behind append, never from the start:
+ *
+ * - CLIENT_IP_HEADER: "x-forwarded-for" (default), "forwarded" (RFC 7239),
+ *   "cf-connecting-ip" or "x-real-ip". The last two hold a single address and
+ *   are only safe when the proxy in front always overwrites them.
+ * - TRUSTED_PROXY_HOPS: how many proxies sit in front of the app (default 1).
+ *   Each appends the address it received from, so with n hops the client is
+ *   the n-th entry from the end.
+ * - TRUSTED_PROXIES: comma-separated IPs or CIDR ranges of further proxies
+ *   ("loopback" and "private" for the usual ranges). Entries matching them
+ *   are skipped too, e.g. Cloudflare's ranges in front of nginx.
+ */
+
+export type ClientIpHeader = "x-forwarded-for" | "forwarded" | "cf-connecting-ip" | "x-real-ip";
+
+const CLIENT_IP_HEADERS: ClientIpHeader[] = ["x-forwarded-for", "forwarded", "cf-connecting-ip", "x-real-ip"];
+
+// Used when the header is missing, e.g. in local development without a proxy
+const FALLBACK_IP = "127.0.0.1";
+
+const NAMED_RANGES: Record<string, string[]> = {
+  loopback: ["127.0.0.0/8", "::1/128"],
+  private: ["10.0.0.0/8", "172.16.0.0/12", "192.168.0.0/16", "fc00::/7"],
+};
+
+interface ProxyConfig {
+  header: ClientIpHeader;
+  hops: number;
+  trusted: BlockList;
+}
+
+let config: ProxyConfig | null = null;
+
+function getConfig(): ProxyConfig {
+  if (config) return config;
+
+  const header = (process.env.CLIENT_IP_HEADER || "x-forwarded-for").toLowerCase() as ClientIpHeader;
+  if (!CLIENT_IP_HEADERS.includes(header)) {
+    throw new Error(`CLIENT_IP_HEADER must be one of: ${CLIENT_IP_HEADERS.join(", ")}`);
+  }
+
+  const hops = Number(process.env.TRUSTED_PROXY_HOPS || "1");
+  if (!Number.isInteger(hops) || hops < 1) {
+    throw new Error("TRUSTED_PROXY_HOPS must be a whole number of at least 1");
+  }
+
+  const trusted = new BlockList();
+  const entries = (process.env.TRUSTED_PROXIES || "").split(",").map((entry) => entry.trim()).filter(Boolean);
+  for (const entry of entries.flatMap((entry) => NAMED_RANGES[entry.toLowerCase()] ?? [entry])) {
+    const [address, prefix] = entry.split("/");
+    const type = isIP(address) === 6 ? "ipv6" : "ipv4";
+    if (!isIP(address) || (prefix !== undefined && !/^\d+$/.test(prefix))) {
+      throw new Error(`Invalid entry in TRUSTED_PROXIES: ${entry}`);
+    }
+    if (prefix === undefined) {
+      trusted.addAddress(address, type);
+    } else {
+      trusted.addSubnet(address, Number(prefix), type);
+    }
+  }
+
+  config = { header, hops, trusted };
+  return config;
+}
+
+/**
+ * Reduce a header value to a bare address: drops quotes, brackets and ports,
+ * and unwraps IPv4-mapped IPv6. Returns null for anything else ("unknown",
+ * RFC 7239 obfuscated identifiers, garbage).
+ */
+export function normalizeIp(value: string): string | null {
+  let address = value.trim().replace(/^"|"$/g, "");
+
+  const bracketed = address.match(/^\[([^\]]+)\](?::\d+)?$/);
+  if (bracketed) {
+    address = bracketed[1];
+  } else if (/^[\d.]+:\d+$/.test(address)) {
+    address = address.slice(0, address.lastIndexOf(":"));
+  }
+
+  const mapped = address.match(/^::ffff:([\d.]+)$/i);
+  if (mapped) address = mapped[1];
+
+  return isIP(address) ? address.toLowerCase() : null;
+}
+
+/**
+ * The `for=` addresses of an RFC 7239 Forwarded header, in order
+ */
+export function parseForwardedHeader(value: string): (string | null)[] {
+  const addresses: (string | null)[] = [];
+  // Quoted values can't contain commas or semicolons for `for`, so a plain split is enough
+  for (const element of value.split(",")) {
+    const pair = element
+      .split(";")
+      .map((part) => part.trim())
+      .find((part) => part.toLowerCase().startsWith("for="));
+    addresses.push(pair ? normalizeIp(pair.slice(4)) : null);
+  }
+  return addresses;
+}
+
+function isTrusted(trusted: BlockList, address: string): boolean {
+  return trusted.check(address, isIP(address) === 6 ? "ipv6" : "ipv4");
+}
+
+/**
+ * Get the client's IP address, trusting only the configured proxies
+ */
+export function getClientIp(request: Request): string {
+  const { header, hops, trusted } = getConfig();
+  const value = request.headers.get(header);
+  if (!value) return FALLBACK_IP;
+
+  if (header === "cf-connecting-ip" || header === "x-real-ip") {
+    return normalizeIp(value) ?? FALLBACK_IP;
+  }
+
+  const chain = header === "forwarded" ? parseForwardedHeader(value) : value.split(",").map(normalizeIp);
+
+  // Skip the hops we know are ours, then any further entries from trusted proxies
+  let index = Math.max(0, chain.length - hops);
+  while (index > 0) {
+    const address = chain[index];
+    if (!address || !isTrusted(trusted, address)) break;
+    index--;
+  }
+
+  return chain[index] ?? FALLBACK_IP;
+}
@@ -0,0 +1,218 @@
+import { prisma } from "@/lib/prisma";
+import { rolesWithPermission } from "@/lib/permissions";
+import { signToken, verifyToken } from "@/lib/tokens";
+import { CommentEmailItem, sendNewCommentsEmail, sendReplyNotificationEmail } from "@/lib/email";
+
+/**
+ * Comment notification emails
+ *
+ * Moderators hear about new comments immediately or in a daily digest (site
+ * setting). Anonymous commenters who opted in get an email when a reply to
+ * their comment is approved. Failures are logged and never block commenting.
+ */
+
+export type CommentNotificationMode = "immediate" | "digest" | "off";
+
+const UNSUBSCRIBE_PURPOSE = "comment-replies";
+
+const commentEmailInclude = {
+  user: { select: { name: true } },
+  post: { select: { title: true, slug: true } },
+} as const;
+
+function getBaseUrl() {
+  return process.env.NEXTAUTH_URL || "http://localhost:3000";
+}
+
+async function getNotificationSettings() {
+  const settings = await prisma.siteSettings.findUnique({
+    where: { id: "default" },
+    select: { siteName: true, commentNotifications: true },
+  });
+
+  return {
+    siteName: settings?.siteName || "IT Blog",
+    mode: (settings?.commentNotifications || "immediate") as CommentNotificationMode,
+  };
+}
+
+function toEmailItem(comment: {
+  content: string;
+  status: string;
+  nickname: string | null;
+  user: { name: string | null } | null;
+  post: { title: string; slug: string };
+}): CommentEmailItem {
+  return {
+    author: comment.user?.name || comment.nickname || "Anonymous",
+    content: comment.content,
+    status: comment.status,
+    postTitle: comment.post.title,
+    postUrl: `${getBaseUrl()}/blog/${comment.post.slug}`,
+  };
+}
+
+/**
+ * Email every moderator (except the commenter) about new comments
+ */
+async function emailAdmins(
+  comments: Parameters<typeof toEmailItem>[0][],
+  options: { siteName: string; digest: boolean; excludeUserId?: string | null }
+) {
+  const admins = await prisma.user.findMany({
+    where: {
+      role: { in: rolesWithPermission("comments:moderate") },
+      ...(options.excludeUserId && { id: { not: options.excludeUserId } }),
+    },
+    select: { email: true },
+  });
+
+  const moderationUrl = `${getBaseUrl()}/admin/comments${comments.some((comment) => comment.status === "PENDING") ? "?status=pending" : ""}`;
+
+  for (const admin of admins) {
+    await sendNewCommentsEmail({
+      to: admin.email,
+      siteName: options.siteName,
+      comments: comments.map(toEmailItem),
+      moderationUrl,
+      digest: options.digest,
+    });
+  }
+}
+
+/**
+ * Immediate notification for a freshly posted comment. Spam and comments by
+ * moderators are skipped.
+ */
+export async function notifyAdminsOfComment(commentId: string) {
+  try {
+    const { siteName, mode } = await getNotificationSettings();
+    if (mode !== "immediate") return;
+
+    const comment = await prisma.comment.findUnique({
+      where: { id: commentId },
+      include: { ...commentEmailInclude, user: { select: { name: true, role: true } } },
+    });
+    if (
+      !comment ||
+      comment.status === "SPAM" ||
+      (comment.user && rolesWithPermission("comments:moderate").includes(comment.user.role))
+    ) {
+      return;
+    }
+
+    await emailAdmins([comment], { siteName, digest: false, excludeUserId: comment.userId });
+
+    await prisma.comment.update({
+      where: { id: commentId },
+      data: { adminNotifiedAt: new Date() },
+    });
+  } catch (error) {
+    console.error("Failed to send comment notification:", error);
+  }
+}
+
+/**
+ * Send the daily digest of comments moderators haven't been told about yet
+ * @returns Number of comments included
+ */
+export async function sendCommentDigest(): Promise<number> {
+  const { siteName, mode } = await getNotificationSettings();
+  if (mode !== "digest") return 0;
+
+  // Comments arriving while the digest is sent wait for the next one
+  const cutoff = new Date();
+
+  const comments = await prisma.comment.findMany({
+    where: {
+      adminNotifiedAt: null,
+      createdAt: { lte: cutoff },
+      status: { not: "SPAM" },
+      OR: [{ userId: null }, { user: { role: { notIn: rolesWithPermission("comments:moderate") } } }],
+    },
+    include: commentEmailInclude,
+    orderBy: { createdAt: "asc" },
+  });
+
+  if (comments.length > 0) {
+    await emailAdmins(comments, { siteName, digest: true });
+  }
+
+  // Everything up to the cutoff counts as handled, including skipped spam
+  await prisma.comment.updateMany({
+    where: { adminNotifiedAt: null, createdAt: { lte: cutoff } },
+    data: { adminNotifiedAt: cutoff },
+  });
+
+  return comments.length;
+}
+
+export function getReplyUnsubscribeUrl(email: string) {
+  const params = new URLSearchParams({
+    email,
+    token: signToken(UNSUBSCRIBE_PURPOSE, email.toLowerCase()),
+  });
+  return `${getBaseUrl()}/comments/unsubscribe?${params.toString()}`;
+}
+
+/**
+ * Stop reply notifications for every comment left with this email
+ * @returns false when the signature doesn't match
+ */
+export async function unsubscribeFromReplies(email: string, token: string): Promise<boolean> {
+  if (!verifyToken(UNSUBSCRIBE_PURPOSE, email.toLowerCase(), token)) return false;
+
+  await prisma.comment.updateMany({
+    where: { email: { equals: email, mode: "insensitive" }, notifyReplies: true },
+    data: { notifyReplies: false },
+  });
+  return true;
+}
+
+/**
+ * Email opted-in parent commenters about approved replies. Safe to call
+ * again for the same replies - each one is only announced once.
+ */
+export async function notifyReplySubscribers(replyIds: string[]) {
+  try {
+    const replies = await prisma.comment.findMany({
+      where: {
+        id: { in: replyIds },
+        status: "APPROVED",
+        replyNotifiedAt: null,
+        parent: { notifyReplies: true, email: { not: null } },
+      },
+      include: {
+        ...commentEmailInclude,
+        parent: { select: { email: true } },
+      },
+    });
+    if (replies.length === 0) return;
+
+    const { siteName } = await getNotificationSettings();
+
+    for (const reply of replies) {
+      const to = reply.parent!.email!;
+      // Nobody needs an email about their own reply
+      if (reply.email?.toLowerCase() !== to.toLowerCase()) {
+        const item = toEmailItem(reply);
+        await sendReplyNotificationEmail({
+          to,
+          siteName,
+          postTitle: item.postTitle,
+          postUrl: item.postUrl,
+          replyAuthor: item.author,
+          replyContent: item.content,
+          unsubscribeUrl: getReplyUnsubscribeUrl(to),
+        });
+      }
+
+      await prisma.comment.update({
+        where: { id: reply.id },
+        data: { replyNotifiedAt: new Date() },
+      });
+    }
+  } catch (error) {
+    console.error("Failed to send reply notifications:", error);
+  }
+}
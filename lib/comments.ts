@@ -0,0 +1,64 @@
+import { CommentStatus } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+
+/**
+ * Comment moderation
+ *
+ * Only APPROVED comments are visible publicly. Signed-in users are trusted;
+ * anonymous comments wait in the PENDING queue when the site requires approval.
+ */
+
+export const COMMENT_STATUSES: CommentStatus[] = ["PENDING", "APPROVED", "SPAM", "REJECTED"];
+
+export function isCommentStatus(value: unknown): value is CommentStatus {
+  return typeof value === "string" && (COMMENT_STATUSES as string[]).includes(value);
+}
+
+// Moderation-only fields left out of public comment responses
+export const privateCommentFields = {
+  email: true,
+  ipAddress: true,
+  spamScore: true,
+  spamReasons: true,
+  contentHash: true,
+  notifyReplies: true,
+  adminNotifiedAt: true,
+  replyNotifiedAt: true,
+} as const;
+
+// Relation count that only includes publicly visible comments
+export const approvedCommentsCount = {
+  comments: { where: { status: CommentStatus.APPROVED } },
+};
+
+/**
+ * Status a new comment starts in
+ */
+export async function getInitialCommentStatus(isAuthenticated: boolean): Promise<CommentStatus> {
+  if (isAuthenticated) return "APPROVED";
+
+  const settings = await prisma.siteSettings.findUnique({
+    where: { id: "default" },
+    select: { requireCommentApproval: true },
+  });
+
+  // Settings row is created lazily - fall back to the schema default (moderate)
+  return settings?.requireCommentApproval === false ? "APPROVED" : "PENDING";
+}
+
+/**
+ * Number of comments per status, for queue tabs and the dashboard
+ */
+export async function getCommentStatusCounts(where: { postId?: string } = {}) {
+  const groups = await prisma.comment.groupBy({
+    by: ["status"],
+    where,
+    _count: { _all: true },
+  });
+
+  const counts = Object.fromEntries(COMMENT_STATUSES.map((status) => [status, 0])) as Record<CommentStatus, number>;
+  for (const group of groups) {
+    counts[group.status] = group._count._all;
+  }
+  return counts;
+}
@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+import { diffLines, htmlToDiffLines, textToDiffLines, toSideBySide } from "@/lib/diff";
+
+describe("htmlToDiffLines", () => {
+  it("puts each block element on its own line", () => {
+    expect(htmlToDiffLines("<h2>Title</h2><p>One</p><p>Two<br>Three</p>")).toEqual([
+      "<h2>Title</h2>",
+      "<p>One</p>",
+      "<p>Two<br>",
+      "Three</p>",
+    ]);
+  });
+
+  it("drops empty lines", () => {
+    expect(htmlToDiffLines("<p>One</p>\n\n   \n<p>Two</p>")).toEqual(["<p>One</p>", "<p>Two</p>"]);
+  });
+});
+
+describe("textToDiffLines", () => {
+  it("strips markup and decodes common entities", () => {
+    expect(textToDiffLines("<p>Fish &amp; chips</p><p>&lt;b&gt; &quot;x&quot; &#39;y&#39;</p>")).toEqual([
+      "Fish & chips",
+      `<b> "x" 'y'`,
+    ]);
+  });
+
+  it("skips blocks without text", () => {
+    expect(textToDiffLines('<p><img src="/a.png"></p><p>Text</p>')).toEqual(["Text"]);
+  });
+});
+
+describe("diffLines", () => {
+  it("reports identical input as equal lines", () => {
+    expect(diffLines(["a", "b"], ["a", "b"])).toEqual([
+      { type: "equal", value: "a" },
+      { type: "equal", value: "b" },
+    ]);
+  });
+
+  it("finds insertions and removals around common lines", () => {
+    expect(diffLines(["a", "b", "c", "d"], ["a", "c", "x", "d"])).toEqual([
+      { type: "equal", value: "a" },
+      { type: "removed", value: "b" },
+      { type: "equal", value: "c" },
+      { type: "added", value: "x" },
+      { type: "equal", value: "d" },
+    ]);
+  });
+
+  it("handles one side being empty", () => {
+    expect(diffLines([], ["a"])).toEqual([{ type: "added", value: "a" }]);
+    expect(diffLines(["a"], [])).toEqual([{ type: "removed", value: "a" }]);
+  });
+
+  it("keeps every line of both versions in order", () => {
+    const oldLines = ["1", "2", "3", "4", "5"];
+    const newLines = ["0", "2", "4", "5", "6"];
+    const ops = diffLines(oldLines, newLines);
+    expect(ops.filter((op) => op.type !== "added").map((op) => op.value)).toEqual(oldLines);
+    expect(ops.filter((op) => op.type !== "removed").map((op) => op.value)).toEqual(newLines);
+  });
+});
+
+describe("toSideBySide", () => {
+  it("pairs removed lines with the added lines that replace them", () => {
+    expect(
+      toSideBySide([
+        { type: "equal", value: "a" },
+        { type: "removed", value: "b" },
+        { type: "removed", value: "c" },
+        { type: "added", value: "B" },
+        { type: "added", value: "x" },
+        { type: "added", value: "y" },
+      ])
+    ).toEqual([
+      { type: "equal", left: "a", right: "a" },
+      { type: "changed", left: "b", right: "B" },
+      { type: "changed", left: "c", right: "x" },
+      { type: "added", left: null, right: "y" },
+    ]);
+  });
+
+  it("leaves unpaired removals on the left", () => {
+    expect(toSideBySide([{ type: "removed", value: "a" }])).toEqual([{ type: "removed", left: "a", right: null }]);
+  });
+});
@@ -0,0 +1,145 @@
+/**
+ * Line-based diff for comparing post revisions
+ * Pure functions - safe to use on both client and server
+ */
+
+export type DiffOpType = "equal" | "removed" | "added";
+
+export interface DiffOp {
+  type: DiffOpType;
+  value: string;
+}
+
+export interface SideBySideRow {
+  type: "equal" | "removed" | "added" | "changed";
+  left: string | null;
+  right: string | null;
+}
+
+// Block-level tags that start a new line when diffing HTML
+const BLOCK_TAG_BREAK = /(<\/(?:p|h[1-6]|li|ul|ol|pre|blockquote|table|thead|tbody|tr|div)>|<br\s*\/?>)/gi;
+
+/**
+ * Split HTML into one line per block element (keeps the markup)
+ */
+export function htmlToDiffLines(html: string): string[] {
+  return html
+    .replace(BLOCK_TAG_BREAK, "$1\n")
+    .split("\n")
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0);
+}
+
+/**
+ * Split HTML into one line of plain text per block element
+ */
+export function textToDiffLines(html: string): string[] {
+  return htmlToDiffLines(html)
+    .map((line) =>
+      line
+        .replace(/<[^>]*>/g, "")
+        .replace(/&nbsp;/g, " ")
+        .replace(/&lt;/g, "<")
+        .replace(/&gt;/g, ">")
+        .replace(/&quot;/g, '"')
+        .replace(/&#39;/g, "'")
+        .replace(/&amp;/g, "&")
+        .trim()
+    )
+    .filter((line) => line.length > 0);
+}
+
+/**
+ * Compute a line diff using the longest common subsequence
+ * Common leading/trailing lines are trimmed first to keep the table small.
+ */
+export function diffLines(oldLines: string[], newLines: string[]): DiffOp[] {
+  let start = 0;
+  while (
+    start < oldLines.length &&
+    start < newLines.length &&
+    oldLines[start] === newLines[start]
+  ) {
+    start++;
+  }
+
+  let oldEnd = oldLines.length;
+  let newEnd = newLines.length;
+  while (oldEnd > start && newEnd > start && oldLines[oldEnd - 1] === newLines[newEnd - 1]) {
+    oldEnd--;
+    newEnd--;
+  }
+
+  const a = oldLines.slice(start, oldEnd);
+  const b = newLines.slice(start, newEnd);
+
+  // lcs[i][j] = length of LCS of a[i..] and b[j..]
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () =>
+    new Array<number>(b.length + 1).fill(0)
+  );
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const middle: DiffOp[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      middle.push({ type: "equal", value: a[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      middle.push({ type: "removed", value: a[i++] });
+    } else {
+      middle.push({ type: "added", value: b[j++] });
+    }
+  }
+  while (i < a.length) middle.push({ type: "removed", value: a[i++] });
+  while (j < b.length) middle.push({ type: "added", value: b[j++] });
+
+  return [
+    ...oldLines.slice(0, start).map((value) => ({ type: "equal" as const, value })),
+    ...middle,
+    ...oldLines.slice(oldEnd).map((value) => ({ type: "equal" as const, value })),
+  ];
+}
+
+/**
+ * Arrange diff operations into rows for a two-column view
+ * Runs of removed lines followed by added lines are paired as "changed".
+ */
+export function toSideBySide(ops: DiffOp[]): SideBySideRow[] {
+  const rows: SideBySideRow[] = [];
+  let index = 0;
+
+  while (index < ops.length) {
+    const op = ops[index];
+
+    if (op.type === "equal") {
+      rows.push({ type: "equal", left: op.value, right: op.value });
+      index++;
+      continue;
+    }
+
+    const removed: string[] = [];
+    const added: string[] = [];
+    while (index < ops.length && ops[index].type === "removed") removed.push(ops[index++].value);
+    while (index < ops.length && ops[index].type === "added") added.push(ops[index++].value);
+
+    const pairs = Math.max(removed.length, added.length);
+    for (let k = 0; k < pairs; k++) {
+      const left = removed[k] ?? null;
+      const right = added[k] ?? null;
+      rows.push({
+        type: left !== null && right !== null ? "changed" : left !== null ? "removed" : "added",
+        left,
+        right,
+      });
+    }
+  }
+
+  return rows;
+}
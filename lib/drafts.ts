@@ -0,0 +1,55 @@
+import { prisma } from "@/lib/prisma";
+
+/**
+ * Autosaved editor drafts
+ *
+ * Each user has at most one draft per post, plus one for the "new post"
+ * editor (postId = null). Drafts are cleared once the post is saved.
+ */
+
+interface DraftInput {
+  title: string;
+  excerpt: string | null;
+  content: string;
+}
+
+/**
+ * Get the user's draft for a post (or for a new post when postId is null)
+ */
+export function findDraft(userId: string, postId: string | null) {
+  return prisma.postDraft.findFirst({
+    where: { userId, postId },
+    orderBy: { updatedAt: "desc" },
+  });
+}
+
+/**
+ * Create or update the user's draft for a post
+ */
+export async function saveDraft(userId: string, postId: string | null, data: DraftInput) {
+  const existing = await findDraft(userId, postId);
+
+  if (existing) {
+    return prisma.postDraft.update({
+      where: { id: existing.id },
+      data,
+    });
+  }
+
+  return prisma.postDraft.create({
+    data: {
+      ...data,
+      userId,
+      postId,
+    },
+  });
+}
+
+/**
+ * Remove the user's draft for a post once it has been saved or discarded
+ */
+export function clearDraft(userId: string, postId: string | null) {
+  return prisma.postDraft.deleteMany({
+    where: { userId, postId },
+  });
+}
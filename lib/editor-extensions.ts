@@ -0,0 +1,40 @@
+import type { Extensions } from "@tiptap/core";
+import StarterKit from "@tiptap/starter-kit";
+import Youtube from "@tiptap/extension-youtube";
+import Image from "@tiptap/extension-image";
+import CodeBlockLowlight from "@tiptap/extension-code-block-lowlight";
+import { TableKit } from "@tiptap/extension-table";
+import { TaskItem, TaskList } from "@tiptap/extension-list";
+import { common, createLowlight } from "lowlight";
+
+const lowlight = createLowlight(common);
+
+/**
+ * The post content schema. Shared by the editor and the Markdown converter
+ * (lib/markdown.ts), so imported Markdown produces exactly the nodes the
+ * editor can show.
+ */
+export function getEditorExtensions(): Extensions {
+  return [
+    StarterKit.configure({
+      codeBlock: false, // Disable default code block
+    }),
+    CodeBlockLowlight.configure({
+      lowlight,
+    }),
+    Youtube.configure({
+      controls: true,
+      nocookie: true,
+      width: 640,
+      height: 360,
+    }),
+    Image,
+    TableKit.configure({
+      table: { resizable: false }, // Column widths are inline styles, which sanitizeHtml strips
+    }),
+    TaskList,
+    TaskItem.configure({
+      nested: true,
+    }),
+  ];
+}
@@ -0,0 +1,114 @@
+import { Resend } from "resend";
+
+/**
+ * Email transports
+ *
+ * Everything that sends mail goes through an EmailTransport, selected with
+ * EMAIL_TRANSPORT ("resend" by default, "smtp" or "memory"). The in-memory
+ * transport keeps messages in a list instead of delivering them, for tests
+ * and local development.
+ */
+
+export interface EmailMessage {
+  to: string | string[];
+  subject: string;
+  html: string;
+  text?: string;
+  headers?: Record<string, string>;
+}
+
+export interface EmailTransport {
+  name: string;
+  send(message: EmailMessage): Promise<void>;
+}
+
+function emailFrom() {
+  return process.env.EMAIL_FROM || "noreply@example.com";
+}
+
+export function createResendTransport(apiKey = process.env.RESEND_API_KEY): EmailTransport {
+  const resend = new Resend(apiKey);
+
+  return {
+    name: "resend",
+    async send(message) {
+      const { error } = await resend.emails.send({ from: emailFrom(), ...message });
+      if (error) {
+        throw new Error(`Resend rejected the email: ${error.message}`);
+      }
+    },
+  };
+}
+
+export function createSmtpTransport(): EmailTransport {
+  const host = process.env.SMTP_HOST;
+  if (!host) {
+    throw new Error("SMTP_HOST must be set when EMAIL_TRANSPORT=smtp");
+  }
+
+  // Loaded lazily so Resend-only deployments never import nodemailer
+  const transporter = import("nodemailer").then((nodemailer) =>
+    nodemailer.createTransport({
+      host,
+      port: parseInt(process.env.SMTP_PORT || "587"),
+      secure: process.env.SMTP_SECURE === "true",
+      auth: process.env.SMTP_USER
+        ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASSWORD }
+        : undefined,
+    })
+  );
+
+  return {
+    name: "smtp",
+    async send(message) {
+      await (await transporter).sendMail({ from: emailFrom(), ...message });
+    },
+  };
+}
+
+export interface MemoryTransport extends EmailTransport {
+  sent: EmailMessage[];
+}
+
+export function createMemoryTransport(): MemoryTransport {
+  const sent: EmailMessage[] = [];
+
+  return {
+    name: "memory",
+    sent,
+    async send(message) {
+      sent.push(message);
+    },
+  };
+}
+
+let transport: EmailTransport | null = null;
+
+/**
+ * Transport configured by EMAIL_TRANSPORT
+ */
+export function getEmailTransport(): EmailTransport {
+  if (!transport) {
+    switch (process.env.EMAIL_TRANSPORT || "resend") {
+      case "resend":
+        transport = createResendTransport();
+        break;
+      case "smtp":
+        transport = createSmtpTransport();
+        break;
+      case "memory":
+        transport = createMemoryTransport();
+        break;
+      default:
+        throw new Error(`Unknown email transport: ${process.env.EMAIL_TRANSPORT}`);
+    }
+  }
+  return transport;
+}
+
+/**
+ * Replace the active transport (e.g. with createMemoryTransport() in tests)
+ */
+export function setEmailTransport(next: EmailTransport | null) {
+  transport = next;
+}
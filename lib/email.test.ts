@@ -0,0 +1,54 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const { send } = vi.hoisted(() => ({ send: vi.fn() }));
+vi.mock("@/lib/prisma", () => ({ prisma: {} }));
+vi.mock("@/lib/email-transport", () => ({ getEmailTransport: () => ({ send }) }));
+
+import { sendPostAnnouncementEmail } from "@/lib/email";
+
+const branding = { siteName: "Blog", siteTagline: "Notes", siteLogo: null };
+const post = { title: "Hello", excerpt: null, coverImage: null, url: "https://blog.example/blog/hello" };
+
+beforeEach(() => {
+  send.mockReset().mockResolvedValue(undefined);
+});
+
+async function announcementHtml(overrides: Partial<Parameters<typeof sendPostAnnouncementEmail>[0]>) {
+  await sendPostAnnouncementEmail({ to: "reader@example.com", branding, post, unsubscribeUrl: "https://blog.example/u", ...overrides });
+  return send.mock.calls[0][0].html as string;
+}
+
+describe("sendPostAnnouncementEmail", () => {
+  it("escapes URLs so they can't break out of their attributes", async () => {
+    const html = await announcementHtml({
+      post: { ...post, coverImage: 'https://cdn.example/a.jpg" onerror="alert(1)', url: 'https://blog.example/blog/x"><script>' },
+      unsubscribeUrl: 'https://blog.example/u?email=a"b',
+    });
+
+    expect(html).not.toContain('" onerror=');
+    expect(html).not.toContain("<script>");
+    expect(html).toContain('src="https://cdn.example/a.jpg&quot; onerror=&quot;alert(1)"');
+    expect(html).toContain('href="https://blog.example/u?email=a&quot;b"');
+  });
+
+  it("leaves out images that aren't http(s)", async () => {
+    const html = await announcementHtml({
+      branding: { ...branding, siteLogo: "javascript:alert(1)" },
+      post: { ...post, coverImage: "data:text/html,<b>" },
+    });
+
+    expect(html).not.toContain("javascript:");
+    expect(html).not.toContain("data:text/html");
+    expect(html).toContain(">Blog</span>");
+  });
+
+  it("shows the logo and cover image", async () => {
+    const html = await announcementHtml({
+      branding: { ...branding, siteLogo: "https://blog.example/logo.png" },
+      post: { ...post, coverImage: "https://blog.example/cover.jpg" },
+    });
+
+    expect(html).toContain('<img src="https://blog.example/logo.png" alt="Blog"');
+    expect(html).toContain('<a href="https://blog.example/blog/hello"><img src="https://blog.example/cover.jpg"');
+  });
+});
@@ -1,7 +1,5 @@
-import { Resend } from 'resend';
 import { prisma } from '@/lib/prisma';
-
-const resend = new Resend(process.env.RESEND_API_KEY);
+import { getEmailTransport } from '@/lib/email-transport';
 
 interface SendMagicLinkEmailProps {
   to: string;
@@ -9,8 +7,6 @@ interface SendMagicLinkEmailProps {
 }
 
 export async function sendMagicLinkEmail({ to, magicLink }: SendMagicLinkEmailProps) {
-  const emailFrom = process.env.EMAIL_FROM || 'noreply@example.com';
-
   // Fetch site name for email branding
   const settings = await prisma.siteSettings.findUnique({
     where: { id: "default" },
@@ -19,8 +15,7 @@ export async function sendMagicLinkEmail({ to, magicLink }: SendMagicLinkEmailPr
   const siteName = settings?.siteName || "IT Blog";
 
   try {
-    await resend.emails.send({
-      from: emailFrom,
+    await getEmailTransport().send({
       to,
       subject: `Sign in to ${siteName}`,
       html: `
@@ -65,3 +60,305 @@ export async function sendMagicLinkEmail({ to, magicLink }: SendMagicLinkEmailPr
     throw new Error('Failed to send verification email');
   }
 }
+
+function escapeHtml(value: string) {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+// Image URLs come from settings and post data: only http(s), escaped for the attribute
+function emailImageUrl(value: string | null) {
+  const url = value?.trim();
+  return url && /^https?:\/\//i.test(url) ? escapeHtml(url) : null;
+}
+
+function emailLayout(title: string, content: string, footer = '', header = '') {
+  return `
+    <!DOCTYPE html>
+    <html>
+      <head>
+        <meta charset="utf-8">
+        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        <title>${escapeHtml(title)}</title>
+      </head>
+      <body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+        ${header ? `<div style="text-align: center; margin: 20px 0 0;">${header}</div>` : ''}
+        <div style="background-color: #f7f7f7; border-radius: 8px; padding: 30px; margin: 20px 0;">
+          <h1 style="color: #2563eb; margin-top: 0; font-size: 22px;">${escapeHtml(title)}</h1>
+          ${content}
+          ${footer ? `<hr style="border: none; border-top: 1px solid #ddd; margin: 30px 0;"><p style="font-size: 12px; color: #999; margin: 0;">${footer}</p>` : ''}
+        </div>
+      </body>
+    </html>
+  `;
+}
+
+function commentBlock(author: string, content: string) {
+  return `
+    <div style="background-color: #fff; border-left: 4px solid #2563eb; border-radius: 4px; padding: 12px 16px; margin: 12px 0;">
+      <p style="font-size: 14px; font-weight: 600; margin: 0 0 6px;">${escapeHtml(author)}</p>
+      <p style="font-size: 14px; margin: 0; white-space: pre-wrap;">${escapeHtml(content)}</p>
+    </div>
+  `;
+}
+
+export interface CommentEmailItem {
+  author: string;
+  content: string;
+  status: string;
+  postTitle: string;
+  postUrl: string;
+}
+
+interface SendNewCommentsEmailProps {
+  to: string;
+  siteName: string;
+  comments: CommentEmailItem[];
+  moderationUrl: string;
+  digest?: boolean;
+}
+
+/**
+ * Tell an admin about new comments - one comment, or the daily digest
+ */
+export async function sendNewCommentsEmail({ to, siteName, comments, moderationUrl, digest = false }: SendNewCommentsEmailProps) {
+  const pending = comments.filter((comment) => comment.status === 'PENDING').length;
+  const title = digest
+    ? `${comments.length} new comment${comments.length === 1 ? '' : 's'} on ${siteName}`
+    : `New comment on "${comments[0].postTitle}"`;
+
+  const items = comments
+    .map((comment) => `
+      <p style="font-size: 14px; margin: 20px 0 0;">
+        On <a href="${comment.postUrl}" style="color: #2563eb;">${escapeHtml(comment.postTitle)}</a>${comment.status === 'PENDING' ? ' <strong>(awaiting moderation)</strong>' : ''}
+      </p>
+      ${commentBlock(comment.author, comment.content)}
+    `)
+    .join('');
+
+  const action = pending > 0
+    ? `${pending} comment${pending === 1 ? ' is' : 's are'} waiting in the moderation queue.`
+    : 'Manage comments from the admin dashboard.';
+
+  await getEmailTransport().send({
+    to,
+    subject: title,
+    html: emailLayout(
+      title,
+      `${items}
+      <p style="font-size: 14px; margin: 24px 0 0;">${action}</p>
+      <div style="text-align: center; margin: 24px 0 0;">
+        <a href="${moderationUrl}"
+           style="background-color: #2563eb; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; display: inline-block; font-weight: 600; font-size: 14px;">
+          Review Comments
+        </a>
+      </div>`,
+      `You receive these emails as an admin of ${escapeHtml(siteName)}. Change how often in Site Settings.`
+    ),
+  });
+}
+
+interface SendReplyNotificationEmailProps {
+  to: string;
+  siteName: string;
+  postTitle: string;
+  postUrl: string;
+  replyAuthor: string;
+  replyContent: string;
+  unsubscribeUrl: string;
+}
+
+/**
+ * Tell a commenter who opted in that someone replied to them
+ */
+export async function sendReplyNotificationEmail({
+  to,
+  siteName,
+  postTitle,
+  postUrl,
+  replyAuthor,
+  replyContent,
+  unsubscribeUrl,
+}: SendReplyNotificationEmailProps) {
+  const title = `New reply to your comment on "${postTitle}"`;
+
+  await getEmailTransport().send({
+    to,
+    subject: title,
+    headers: {
+      'List-Unsubscribe': `<${unsubscribeUrl}>`,
+    },
+    html: emailLayout(
+      title,
+      `<p style="font-size: 16px; margin: 20px 0;">${escapeHtml(replyAuthor)} replied to your comment:</p>
+      ${commentBlock(replyAuthor, replyContent)}
+      <div style="text-align: center; margin: 24px 0 0;">
+        <a href="${postUrl}#comments"
+           style="background-color: #2563eb; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; display: inline-block; font-weight: 600; font-size: 14px;">
+          View the Conversation
+        </a>
+      </div>`,
+      `You asked ${escapeHtml(siteName)} to email you about replies. <a href="${unsubscribeUrl}" style="color: #2563eb;">Unsubscribe from reply notifications</a>.`
+    ),
+  });
+}
+
+interface SendNewsletterConfirmationEmailProps {
+  to: string;
+  siteName: string;
+  confirmUrl: string;
+  expiresInDays: number;
+}
+
+/**
+ * Double opt-in: the subscription only becomes active once this link is clicked
+ */
+export async function sendNewsletterConfirmationEmail({ to, siteName, confirmUrl, expiresInDays }: SendNewsletterConfirmationEmailProps) {
+  const title = `Confirm your subscription to ${siteName}`;
+
+  await getEmailTransport().send({
+    to,
+    subject: title,
+    html: emailLayout(
+      title,
+      `<p style="font-size: 16px; margin: 20px 0;">Click the button below to start receiving new posts by email.</p>
+      <div style="text-align: center; margin: 30px 0;">
+        <a href="${confirmUrl}"
+           style="background-color: #2563eb; color: white; padding: 14px 28px; text-decoration: none; border-radius: 6px; display: inline-block; font-weight: 600; font-size: 16px;">
+          Confirm Subscription
+        </a>
+      </div>
+      <p style="font-size: 14px; color: #666; margin: 20px 0;">
+        This link expires in ${expiresInDays} days. If you didn't sign up, you can safely ignore this email - you won't be subscribed.
+      </p>`
+    ),
+  });
+}
+
+export interface NewsletterBranding {
+  siteName: string;
+  siteTagline: string;
+  siteLogo: string | null;
+}
+
+interface SendPostAnnouncementEmailProps {
+  to: string;
+  branding: NewsletterBranding;
+  post: {
+    title: string;
+    excerpt: string | null;
+    coverImage: string | null;
+    url: string;
+  };
+  unsubscribeUrl: string;
+}
+
+/**
+ * New post announcement for newsletter subscribers
+ */
+export async function sendPostAnnouncementEmail({ to, branding, post, unsubscribeUrl }: SendPostAnnouncementEmailProps) {
+  const logoUrl = emailImageUrl(branding.siteLogo);
+  const coverUrl = emailImageUrl(post.coverImage);
+  const postUrl = escapeHtml(post.url);
+
+  const brand = logoUrl
+    ? `<img src="${logoUrl}" alt="${escapeHtml(branding.siteName)}" style="max-height: 48px; max-width: 200px;">`
+    : `<span style="font-size: 20px; font-weight: 700; color: #111;">${escapeHtml(branding.siteName)}</span>`;
+
+  await getEmailTransport().send({
+    to,
+    subject: post.title,
+    headers: {
+      'List-Unsubscribe': `<${unsubscribeUrl}>`,
+    },
+    html: emailLayout(
+      post.title,
+      `${coverUrl ? `<a href="${postUrl}"><img src="${coverUrl}" alt="" style="width: 100%; border-radius: 6px; margin: 8px 0 16px;"></a>` : ''}
+      ${post.excerpt ? `<p style="font-size: 16px; margin: 0 0 20px;">${escapeHtml(post.excerpt)}</p>` : ''}
+      <div style="text-align: center; margin: 24px 0 0;">
+        <a href="${postUrl}"
+           style="background-color: #2563eb; color: white; padding: 14px 28px; text-decoration: none; border-radius: 6px; display: inline-block; font-weight: 600; font-size: 16px;">
+          Read the Post
+        </a>
+      </div>`,
+      `${escapeHtml(branding.siteName)} - ${escapeHtml(branding.siteTagline)}<br>
+      You're receiving this because you subscribed to new posts. <a href="${escapeHtml(unsubscribeUrl)}" style="color: #2563eb;">Unsubscribe</a>.`,
+      brand
+    ),
+  });
+}
+
+interface SendPostWorkflowEmailProps {
+  to: string;
+  siteName: string;
+  /** What happened, e.g. "Jane submitted a post for review" */
+  summary: string;
+  postTitle: string;
+  editUrl: string;
+  /** Review note or requested changes, shown as a quote */
+  note?: { author: string; content: string } | null;
+}
+
+/**
+ * Editorial workflow update (submitted, approved, changes requested, ...)
+ * for the post's author and reviewers
+ */
+export async function sendPostWorkflowEmail({ to, siteName, summary, postTitle, editUrl, note }: SendPostWorkflowEmailProps) {
+  const title = `${summary}: "${postTitle}"`;
+
+  await getEmailTransport().send({
+    to,
+    subject: title,
+    html: emailLayout(
+      title,
+      `<p style="font-size: 16px; margin: 20px 0;">${escapeHtml(summary)}.</p>
+      ${note ? commentBlock(note.author, note.content) : ''}
+      <div style="text-align: center; margin: 24px 0 0;">
+        <a href="${editUrl}"
+           style="background-color: #2563eb; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; display: inline-block; font-weight: 600; font-size: 14px;">
+          Open the Post
+        </a>
+      </div>`,
+      `You receive these emails because you write or review posts on ${escapeHtml(siteName)}.`
+    ),
+  });
+}
+
+interface SendInvitationEmailProps {
+  to: string;
+  siteName: string;
+  inviterName: string;
+  roleLabel: string;
+  acceptUrl: string;
+  expiresAt: Date;
+}
+
+/**
+ * Invitation to join the site staff - the link is single use and expires
+ */
+export async function sendInvitationEmail({ to, siteName, inviterName, roleLabel, acceptUrl, expiresAt }: SendInvitationEmailProps) {
+  const title = `You're invited to ${siteName}`;
+
+  await getEmailTransport().send({
+    to,
+    subject: title,
+    html: emailLayout(
+      title,
+      `<p style="font-size: 16px; margin: 20px 0;">${escapeHtml(inviterName)} invited you to join ${escapeHtml(siteName)} as <strong>${escapeHtml(roleLabel)}</strong>.</p>
+      <div style="text-align: center; margin: 30px 0;">
+        <a href="${acceptUrl}"
+           style="background-color: #2563eb; color: white; padding: 14px 28px; text-decoration: none; border-radius: 6px; display: inline-block; font-weight: 600; font-size: 16px;">
+          Accept Invitation
+        </a>
+      </div>
+      <p style="font-size: 14px; color: #666; margin: 20px 0;">
+        This invitation can be used once and expires on ${expiresAt.toUTCString()}.
+        If you weren't expecting it, you can safely ignore this email.
+      </p>`
+    ),
+  });
+}
@@ -0,0 +1,82 @@
+/**
+ * Heading anchors and table of contents
+ *
+ * Every h2-h4 in post content gets an id derived from its text, so links
+ * to a section keep working as long as the heading reads the same. Ids are
+ * assigned by the API when content is saved (and again when it's served, for
+ * posts saved before this existed); the table of contents is read back from
+ * those ids. Pure string processing so it runs on the server and client alike.
+ */
+
+export interface Heading {
+  id: string;
+  text: string;
+  level: 2 | 3 | 4;
+}
+
+// TipTap output never nests headings, so a non-greedy match is enough
+const HEADING_REGEX = /<h([2-4])(\s[^>]*)?>([\s\S]*?)<\/h\1>/gi;
+const ID_ATTR_REGEX = /\sid\s*=\s*("[^"]*"|'[^']*'|[^\s>]+)/i;
+
+const ENTITIES: Record<string, string> = {
+  "&amp;": "&",
+  "&lt;": "<",
+  "&gt;": ">",
+  "&quot;": '"',
+  "&#39;": "'",
+  "&nbsp;": " ",
+};
+
+function headingText(innerHtml: string) {
+  return innerHtml
+    .replace(/<[^>]*>/g, "")
+    .replace(/&(?:amp|lt|gt|quot|#39|nbsp);/g, (entity) => ENTITIES[entity])
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+// Accents are dropped, other scripts are kept as-is
+function slugifyHeading(text: string) {
+  return (
+    text
+      .normalize("NFKD")
+      .replace(/[\u0300-\u036f]/g, "")
+      .toLowerCase()
+      .replace(/[^\p{L}\p{N}]+/gu, "-")
+      .replace(/^-|-$/g, "") || "section"
+  );
+}
+
+/**
+ * Give every h2-h4 an id from its text. Repeated headings get -2, -3, ...
+ * Existing ids are replaced, so the result only depends on the headings.
+ */
+export function addHeadingIds(html: string): string {
+  const used = new Set<string>();
+
+  return html.replace(HEADING_REGEX, (_match, level: string, attrs = "", inner: string) => {
+    const base = slugifyHeading(headingText(inner));
+    let id = base;
+    for (let n = 2; used.has(id); n++) id = `${base}-${n}`;
+    used.add(id);
+
+    return `<h${level}${attrs.replace(ID_ATTR_REGEX, "")} id="${id}">${inner}</h${level}>`;
+  });
+}
+
+/**
+ * Headings with ids, in document order, for the table of contents
+ */
+export function extractHeadings(html: string): Heading[] {
+  const headings: Heading[] = [];
+
+  for (const match of html.matchAll(HEADING_REGEX)) {
+    const id = match[2]?.match(ID_ATTR_REGEX)?.[1].replace(/^["']|["']$/g, "");
+    const text = headingText(match[3]);
+    if (id && text) {
+      headings.push({ id, text, level: Number(match[1]) as Heading["level"] });
+    }
+  }
+
+  return headings;
+}
@@ -0,0 +1,120 @@
+import sharp, { Sharp } from "sharp";
+import {
+  IMAGE_VARIANT_ASPECT,
+  IMAGE_VARIANT_FORMATS,
+  IMAGE_VARIANT_WIDTHS,
+  VariantFormat,
+  VariantName,
+} from "@/lib/images";
+
+/**
+ * Server-side image resizing (sharp)
+ */
+
+export interface ProcessedVariant {
+  name: VariantName;
+  format: VariantFormat;
+  width: number;
+  height: number;
+  buffer: Buffer;
+}
+
+export interface ProcessedImage {
+  width: number;
+  height: number;
+  placeholder: string;
+  variants: ProcessedVariant[];
+}
+
+interface CropRegion {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+// Width of the blurred low-quality placeholder inlined as a data URI
+const PLACEHOLDER_WIDTH = 16;
+
+/**
+ * Largest region with the variant aspect ratio, centred on the focus point
+ * as far as the image edges allow
+ */
+export function focusCrop(
+  width: number,
+  height: number,
+  focusX: number,
+  focusY: number
+): CropRegion {
+  const cropWidth = Math.min(width, Math.round(height * IMAGE_VARIANT_ASPECT));
+  const cropHeight = Math.min(height, Math.round(cropWidth / IMAGE_VARIANT_ASPECT));
+
+  const left = Math.round(focusX * width - cropWidth / 2);
+  const top = Math.round(focusY * height - cropHeight / 2);
+
+  return {
+    left: Math.min(Math.max(left, 0), width - cropWidth),
+    top: Math.min(Math.max(top, 0), height - cropHeight),
+    width: cropWidth,
+    height: cropHeight,
+  };
+}
+
+function encode(image: Sharp, format: VariantFormat) {
+  return format === "avif"
+    ? image.avif({ quality: 50 }).toBuffer()
+    : image.webp({ quality: 80 }).toBuffer();
+}
+
+/**
+ * Generate the thumbnail/medium/large variants (AVIF + WebP), the original
+ * dimensions and an LQIP placeholder
+ * @param buffer - Original upload
+ * @param focus - Focus point (0-1) that cropping centres on
+ */
+export async function processImage(
+  buffer: Buffer,
+  focus: { focusX: number; focusY: number }
+): Promise<ProcessedImage> {
+  // Bake in EXIF orientation so the dimensions match what browsers display
+  const oriented = await sharp(buffer).rotate().toBuffer({ resolveWithObject: true });
+  const { width, height } = oriented.info;
+  const crop = focusCrop(width, height, focus.focusX, focus.focusY);
+
+  const placeholderBuffer = await sharp(oriented.data)
+    .extract(crop)
+    .resize(PLACEHOLDER_WIDTH)
+    .blur()
+    .webp({ quality: 40 })
+    .toBuffer();
+
+  const variants: ProcessedVariant[] = [];
+  const seenWidths = new Set<number>();
+
+  for (const [name, targetWidth] of Object.entries(IMAGE_VARIANT_WIDTHS) as [VariantName, number][]) {
+    const variantWidth = Math.min(targetWidth, crop.width);
+    // Small originals would produce identical variants - keep only the first
+    if (seenWidths.has(variantWidth)) continue;
+    seenWidths.add(variantWidth);
+
+    const variantHeight = Math.round(variantWidth / IMAGE_VARIANT_ASPECT);
+
+    for (const format of IMAGE_VARIANT_FORMATS) {
+      const resized = sharp(oriented.data).extract(crop).resize(variantWidth, variantHeight);
+      variants.push({
+        name,
+        format,
+        width: variantWidth,
+        height: variantHeight,
+        buffer: await encode(resized, format),
+      });
+    }
+  }
+
+  return {
+    width,
+    height,
+    placeholder: `data:image/webp;base64,${placeholderBuffer.toString("base64")}`,
+    variants,
+  };
+}
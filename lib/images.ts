@@ -0,0 +1,108 @@
+/**
+ * Responsive image variants for media library uploads
+ * Pure types and helpers - safe to use on both client and server
+ */
+
+export type VariantName = "thumb" | "medium" | "large";
+export type VariantFormat = "avif" | "webp";
+
+// Target widths; variants are never upscaled beyond the original
+export const IMAGE_VARIANT_WIDTHS: Record<VariantName, number> = {
+  thumb: 400,
+  medium: 800,
+  large: 1600,
+};
+
+export const IMAGE_VARIANT_FORMATS: VariantFormat[] = ["avif", "webp"];
+
+// All variants share one landscape aspect ratio so they can be mixed in a srcset
+export const IMAGE_VARIANT_ASPECT = 16 / 9;
+
+export interface ImageVariant {
+  name: VariantName;
+  format: VariantFormat;
+  width: number;
+  height: number;
+  url: string;
+  storageKey: string;
+}
+
+/**
+ * What public pages need to render a <picture> with srcset and a blur-up placeholder
+ */
+export interface ResponsiveImageSet {
+  width: number;
+  height: number;
+  placeholder: string | null;
+  srcSet: Record<VariantFormat, string>;
+}
+
+/**
+ * Parse the stored variants JSON, tolerating missing or malformed values
+ */
+export function parseVariants(value: string | null): ImageVariant[] {
+  if (!value) return [];
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Build the srcset data for a media item, or null if it has no variants
+ */
+export function toImageSet(media: {
+  variants: string | null;
+  placeholder: string | null;
+}): ResponsiveImageSet | null {
+  const variants = parseVariants(media.variants);
+  if (variants.length === 0) return null;
+
+  const srcSet = {} as Record<VariantFormat, string>;
+  for (const format of IMAGE_VARIANT_FORMATS) {
+    srcSet[format] = variants
+      .filter((variant) => variant.format === format)
+      .sort((a, b) => a.width - b.width)
+      .map((variant) => `${variant.url} ${variant.width}w`)
+      .join(", ");
+  }
+
+  const largest = variants.reduce((max, variant) => (variant.width > max.width ? variant : max));
+
+  return {
+    width: largest.width,
+    height: largest.height,
+    placeholder: media.placeholder,
+    srcSet,
+  };
+}
+
+/*
+ * Focus point <-> ImagePositionEditor offsets
+ *
+ * The editor drags the image inside a square preview; the offsets are pixels
+ * at the given zoom. The focus point is the fraction (0-1) of the image that
+ * ends up in the middle of that preview, which is what cropping centres on.
+ */
+export const FOCUS_PREVIEW_SIZE = 128;
+
+function clamp01(value: number) {
+  return Math.min(1, Math.max(0, value));
+}
+
+export function offsetsToFocus(x: number, y: number, zoom: number) {
+  const scale = FOCUS_PREVIEW_SIZE * (zoom / 100);
+  return {
+    focusX: clamp01(0.5 - x / scale),
+    focusY: clamp01(0.5 - y / scale),
+  };
+}
+
+export function focusToOffsets(focusX: number, focusY: number) {
+  return {
+    x: Math.round((0.5 - focusX) * FOCUS_PREVIEW_SIZE),
+    y: Math.round((0.5 - focusY) * FOCUS_PREVIEW_SIZE),
+  };
+}
@@ -0,0 +1,253 @@
+import { describe, expect, it } from "vitest";
+import { ImportData, parseImportFile, toSlug } from "@/lib/import-formats";
+
+function parsed(content: string): ImportData {
+  const result = parseImportFile(content);
+  if ("error" in result) throw new Error(result.error);
+  return result;
+}
+
+const wxr = (items: string) => `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0"
+  xmlns:content="http://purl.org/rss/1.0/modules/content/"
+  xmlns:excerpt="http://wordpress.org/export/1.2/excerpt/"
+  xmlns:dc="http://purl.org/dc/elements/1.1/"
+  xmlns:wp="http://wordpress.org/export/1.2/">
+<channel>
+  <wp:wxr_version>1.2</wp:wxr_version>
+  <wp:author>
+    <wp:author_login><![CDATA[jane]]></wp:author_login>
+    <wp:author_email><![CDATA[Jane@Example.com]]></wp:author_email>
+  </wp:author>
+  <wp:category>
+    <wp:category_nicename><![CDATA[news]]></wp:category_nicename>
+    <wp:cat_name><![CDATA[News]]></wp:cat_name>
+  </wp:category>
+  ${items}
+</channel>
+</rss>`;
+
+const wxrPost = `<item>
+  <title><![CDATA[Hello &amp; welcome]]></title>
+  <dc:creator><![CDATA[jane]]></dc:creator>
+  <content:encoded><![CDATA[First line
+second line
+
+<h2>Heading</h2>
+
+Last paragraph]]></content:encoded>
+  <excerpt:encoded><![CDATA[<p>Short &#8220;summary&#8221;</p>]]></excerpt:encoded>
+  <wp:post_id>12</wp:post_id>
+  <wp:post_date_gmt><![CDATA[2021-03-04 05:06:07]]></wp:post_date_gmt>
+  <wp:post_name><![CDATA[hello-welcome]]></wp:post_name>
+  <wp:status><![CDATA[publish]]></wp:status>
+  <wp:post_type><![CDATA[post]]></wp:post_type>
+  <category domain="category" nicename="news"><![CDATA[News]]></category>
+  <category domain="category" nicename="other"><![CDATA[Other]]></category>
+  <category domain="post_tag" nicename="intro"><![CDATA[Intro]]></category>
+  <wp:postmeta>
+    <wp:meta_key><![CDATA[_thumbnail_id]]></wp:meta_key>
+    <wp:meta_value><![CDATA[30]]></wp:meta_value>
+  </wp:postmeta>
+  <wp:comment>
+    <wp:comment_id>5</wp:comment_id>
+    <wp:comment_author><![CDATA[Bob]]></wp:comment_author>
+    <wp:comment_author_email><![CDATA[bob@example.com]]></wp:comment_author_email>
+    <wp:comment_content><![CDATA[<p>Nice &amp; clear &#99999999;</p>]]></wp:comment_content>
+    <wp:comment_approved><![CDATA[1]]></wp:comment_approved>
+    <wp:comment_type><![CDATA[comment]]></wp:comment_type>
+    <wp:comment_parent>0</wp:comment_parent>
+  </wp:comment>
+  <wp:comment>
+    <wp:comment_id>6</wp:comment_id>
+    <wp:comment_content><![CDATA[Pinged]]></wp:comment_content>
+    <wp:comment_approved><![CDATA[1]]></wp:comment_approved>
+    <wp:comment_type><![CDATA[pingback]]></wp:comment_type>
+  </wp:comment>
+  <wp:comment>
+    <wp:comment_id>7</wp:comment_id>
+    <wp:comment_content><![CDATA[Buy now]]></wp:comment_content>
+    <wp:comment_approved><![CDATA[spam]]></wp:comment_approved>
+  </wp:comment>
+</item>
+<item>
+  <title>cover.jpg</title>
+  <wp:post_id>30</wp:post_id>
+  <wp:post_type><![CDATA[attachment]]></wp:post_type>
+  <wp:status><![CDATA[inherit]]></wp:status>
+  <wp:attachment_url><![CDATA[https://old.example.com/cover.jpg]]></wp:attachment_url>
+</item>
+<item>
+  <title>About</title>
+  <wp:post_id>40</wp:post_id>
+  <wp:post_type><![CDATA[page]]></wp:post_type>
+  <wp:status><![CDATA[publish]]></wp:status>
+</item>`;
+
+describe("toSlug", () => {
+  it("lowercases and joins words with dashes", () => {
+    expect(toSlug("  Hello, World! 2024 ")).toBe("hello-world-2024");
+    expect(toSlug("---")).toBe("");
+  });
+});
+
+describe("parseImportFile", () => {
+  it("rejects files that are neither XML nor JSON", () => {
+    expect(parseImportFile("title,content")).toEqual({ error: expect.stringContaining("Unsupported file") });
+  });
+
+  it("rejects broken JSON and JSON that isn't a Ghost export", () => {
+    expect(parseImportFile("{ nope")).toEqual({ error: "The file is not valid JSON" });
+    expect(parseImportFile('{"posts": 1}')).toEqual({ error: "Not a Ghost export file" });
+  });
+
+  it("rejects XML that isn't a WordPress export", () => {
+    expect(parseImportFile("<rss><channel><title>Feed</title></channel></rss>")).toEqual({
+      error: "Not a WordPress export (WXR) file",
+    });
+  });
+});
+
+describe("WordPress (WXR)", () => {
+  it("reads published posts with their terms, author and cover image", () => {
+    const data = parsed(`\uFEFF${wxr(wxrPost)}`);
+
+    expect(data.source).toBe("wordpress");
+    expect(data.categories.map((term) => term.slug)).toEqual(["news", "other"]);
+    expect(data.tags).toEqual([{ name: "Intro", slug: "intro" }]);
+    expect(data.posts).toHaveLength(1);
+
+    const [post] = data.posts;
+    expect(post).toMatchObject({
+      sourceId: "12",
+      title: "Hello & welcome",
+      slug: "hello-welcome",
+      excerpt: "Short “summary”",
+      coverImage: "https://old.example.com/cover.jpg",
+      status: "published",
+      authorEmail: "jane@example.com",
+      category: "news",
+      tags: ["intro"],
+    });
+    expect(post.date.toISOString()).toBe("2021-03-04T05:06:07.000Z");
+  });
+
+  it("adds paragraphs the way WordPress renders them", () => {
+    const [post] = parsed(wxr(wxrPost)).posts;
+    expect(post.content).toBe("<p>First line<br>second line</p>\n<h2>Heading</h2>\n<p>Last paragraph</p>");
+  });
+
+  it("keeps approved comments only and leaves out-of-range entities as written", () => {
+    const [post] = parsed(wxr(wxrPost)).posts;
+    expect(post.comments).toEqual([
+      expect.objectContaining({
+        sourceId: "5",
+        parentSourceId: null,
+        author: "Bob",
+        email: "bob@example.com",
+        content: "Nice & clear &#99999999;",
+      }),
+    ]);
+  });
+
+  it("warns about what it skipped", () => {
+    const { warnings } = parsed(wxr(wxrPost));
+    expect(warnings).toEqual(
+      expect.arrayContaining([
+        'Skipped 1 item of type "attachment"',
+        'Skipped 1 item of type "page"',
+        "Skipped 2 unapproved comments, pingbacks and trackbacks",
+        expect.stringContaining("1 extra categories were dropped"),
+      ])
+    );
+  });
+
+  it("falls back to a slug from the title", () => {
+    const item = `<item>
+      <title>Café Notes</title>
+      <wp:post_id>3</wp:post_id>
+      <wp:post_name></wp:post_name>
+      <wp:status>draft</wp:status>
+      <wp:post_type>post</wp:post_type>
+    </item>`;
+    const [post] = parsed(wxr(item)).posts;
+    expect(post).toMatchObject({ slug: "caf-notes", status: "draft", category: null, coverImage: null });
+  });
+});
+
+describe("Ghost", () => {
+  const ghost = {
+    db: [
+      {
+        data: {
+          posts: [
+            {
+              id: "p1",
+              title: "Ghost post",
+              slug: "ghost-post",
+              html: "<p>Hi</p>",
+              status: "published",
+              published_at: "2022-01-02T03:04:05.000Z",
+              custom_excerpt: "Intro",
+            },
+            { id: "p2", title: "About", slug: "about", html: "<p>Page</p>", status: "published", type: "page" },
+            { id: "p3", title: "Old", slug: "old", mobiledoc: "{}", status: "draft" },
+          ],
+          tags: [
+            { id: "t1", name: "Travel", slug: "travel" },
+            { id: "t2", name: "#hidden", slug: "hash-hidden" },
+            { id: "t3", name: "Food", slug: "food" },
+          ],
+          posts_tags: [
+            { post_id: "p1", tag_id: "t3", sort_order: 1 },
+            { post_id: "p1", tag_id: "t2", sort_order: 2 },
+            { post_id: "p1", tag_id: "t1", sort_order: 0 },
+          ],
+          users: [{ id: "u1", email: "Editor@Example.com" }],
+          posts_authors: [{ post_id: "p1", author_id: "u1", sort_order: 0 }],
+          members: [{ id: "m1", name: "Ann", email: "ann@example.com" }],
+          comments: [
+            { id: "c1", post_id: "p1", member_id: "m1", html: "<p>Lovely &lt;3</p>", status: "published" },
+            { id: "c2", post_id: "p1", html: "<p>Removed</p>", status: "deleted" },
+          ],
+        },
+      },
+    ],
+  };
+
+  it("reads posts with ordered public tags, author and comments", () => {
+    const data = parsed(JSON.stringify(ghost));
+
+    expect(data.source).toBe("ghost");
+    expect(data.categories).toEqual([]);
+    expect(data.tags.map((tag) => tag.slug)).toEqual(["travel", "food"]);
+    expect(data.posts).toHaveLength(1);
+    expect(data.posts[0]).toMatchObject({
+      sourceId: "p1",
+      slug: "ghost-post",
+      content: "<p>Hi</p>",
+      excerpt: "Intro",
+      status: "published",
+      authorEmail: "editor@example.com",
+      tags: ["travel", "food"],
+      comments: [expect.objectContaining({ sourceId: "c1", author: "Ann", email: "ann@example.com", content: "Lovely <3" })],
+    });
+    expect(data.posts[0].date.toISOString()).toBe("2022-01-02T03:04:05.000Z");
+  });
+
+  it("warns about pages, posts without HTML and hidden comments", () => {
+    const { warnings } = parsed(JSON.stringify(ghost));
+    expect(warnings).toEqual(
+      expect.arrayContaining([
+        "Skipped 1 page",
+        expect.stringContaining("Skipped 1 posts without HTML content"),
+        "Skipped 1 hidden or deleted comments",
+      ])
+    );
+  });
+
+  it("accepts exports without the db wrapper", () => {
+    const data = parsed(JSON.stringify({ data: { posts: [] } }));
+    expect(data.posts).toEqual([]);
+  });
+});
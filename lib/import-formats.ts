@@ -0,0 +1,468 @@
+import { XMLParser } from "fast-xml-parser";
+
+/**
+ * Blog export parsers for the admin import tool (lib/blog-import.ts)
+ *
+ * WordPress WXR and Ghost JSON exports are read into one shape so the rest of
+ * the import doesn't care where a post came from. Only posts are taken -
+ * pages, attachments and trashed items are skipped - and only approved,
+ * regular comments (no pingbacks). Nothing here touches the database.
+ */
+
+export type ImportSource = "wordpress" | "ghost";
+
+export type ImportPostStatus = "published" | "scheduled" | "draft";
+
+export interface ImportTerm {
+  name: string;
+  slug: string;
+}
+
+export interface ImportComment {
+  sourceId: string;
+  parentSourceId: string | null;
+  author: string;
+  email: string | null;
+  ipAddress: string | null;
+  /** Plain text, like comments written on the site */
+  content: string;
+  createdAt: Date;
+}
+
+export interface ImportPost {
+  sourceId: string;
+  title: string;
+  slug: string;
+  /** Unsanitized HTML, straight from the export */
+  content: string;
+  excerpt: string | null;
+  coverImage: string | null;
+  status: ImportPostStatus;
+  /** Original publish date (or creation date for drafts) */
+  date: Date;
+  updatedAt: Date;
+  authorEmail: string | null;
+  /** Category slug */
+  category: string | null;
+  /** Tag slugs */
+  tags: string[];
+  comments: ImportComment[];
+}
+
+export interface ImportData {
+  source: ImportSource;
+  categories: ImportTerm[];
+  tags: ImportTerm[];
+  posts: ImportPost[];
+  /** Things that were skipped or changed while reading the file */
+  warnings: string[];
+}
+
+const SLUG_REGEX = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+
+const ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: "\u00a0",
+};
+
+function decodeEntities(value: string): string {
+  return value.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === "#") {
+      const code = entity[1].toLowerCase() === "x" ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      // Past the last Unicode code point fromCodePoint throws - leave those as written
+      return Number.isNaN(code) || code > 0x10ffff ? match : String.fromCodePoint(code);
+    }
+    return ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+function stripTags(html: string): string {
+  return decodeEntities(html.replace(/<br\s*\/?>/gi, "\n").replace(/<\/p>\s*<p[^>]*>/gi, "\n\n").replace(/<[^>]*>/g, "")).trim();
+}
+
+export function toSlug(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "");
+}
+
+/**
+ * Keep the original slug when it already fits our URLs
+ */
+function importSlug(original: string, title: string, fallback: string): string {
+  let decoded = original;
+  try {
+    decoded = decodeURIComponent(original);
+  } catch {
+    // Not percent-encoded after all
+  }
+  decoded = decoded.trim().toLowerCase();
+  if (SLUG_REGEX.test(decoded)) return decoded;
+  return toSlug(decoded) || toSlug(title) || fallback;
+}
+
+function parseDate(value: unknown): Date | null {
+  if (typeof value !== "string" || !value.trim() || value.startsWith("0000-00-00")) return null;
+  // WordPress dates look like "2021-03-04 05:06:07" (GMT in the *_gmt fields)
+  const date = new Date(/^\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}$/.test(value) ? `${value.replace(" ", "T")}Z` : value);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+function text(value: unknown): string {
+  if (typeof value === "string") return value;
+  if (typeof value === "number") return String(value);
+  if (value && typeof value === "object" && "#text" in value) return text((value as { "#text": unknown })["#text"]);
+  return "";
+}
+
+function list<T = Record<string, unknown>>(value: unknown): T[] {
+  if (value == null) return [];
+  return (Array.isArray(value) ? value : [value]) as T[];
+}
+
+function addTerm(terms: Map<string, ImportTerm>, name: string, slug: string) {
+  const termSlug = importSlug(slug, name, "");
+  if (termSlug && !terms.has(termSlug)) {
+    terms.set(termSlug, { name: decodeEntities(name).trim() || termSlug, slug: termSlug });
+  }
+  return termSlug;
+}
+
+/**
+ * WordPress writes paragraphs as blank-line separated text rather than <p>
+ * tags (wpautop adds them at render time), so do the same here
+ */
+function autop(content: string): string {
+  if (!content.trim()) return "";
+  return content
+    .replace(/\r\n/g, "\n")
+    .split(/\n\s*\n/)
+    .map((block) => block.trim())
+    .filter(Boolean)
+    .map((block) =>
+      /^<(?:p|h[1-6]|ul|ol|li|pre|blockquote|table|div|figure|hr|img|iframe|!--)[\s>/]/i.test(block)
+        ? block
+        : `<p>${block.replace(/\n/g, "<br>")}</p>`
+    )
+    .join("\n");
+}
+
+const WXR_STATUSES: Record<string, ImportPostStatus> = {
+  publish: "published",
+  future: "scheduled",
+  draft: "draft",
+  pending: "draft",
+  private: "draft",
+};
+
+function parseWxr(xml: string): ImportData | { error: string } {
+  const parser = new XMLParser({
+    ignoreAttributes: false,
+    attributeNamePrefix: "@_",
+    parseTagValue: false,
+    isArray: (name) => ["item", "category", "wp:category", "wp:tag", "wp:author", "wp:comment", "wp:postmeta"].includes(name),
+  });
+
+  let channel: Record<string, unknown> | undefined;
+  try {
+    channel = parser.parse(xml)?.rss?.channel;
+  } catch {
+    return { error: "The file is not valid XML" };
+  }
+  if (!channel || !channel["wp:wxr_version"]) {
+    return { error: "Not a WordPress export (WXR) file" };
+  }
+
+  const warnings: string[] = [];
+  const categories = new Map<string, ImportTerm>();
+  const tags = new Map<string, ImportTerm>();
+
+  for (const category of list(channel["wp:category"])) {
+    addTerm(categories, text(category["wp:cat_name"]), text(category["wp:category_nicename"]));
+  }
+  for (const tag of list(channel["wp:tag"])) {
+    addTerm(tags, text(tag["wp:tag_name"]), text(tag["wp:tag_slug"]));
+  }
+
+  const authorEmails = new Map<string, string>(); // login -> email
+  for (const author of list(channel["wp:author"])) {
+    const email = text(author["wp:author_email"]).trim().toLowerCase();
+    if (email) authorEmails.set(text(author["wp:author_login"]), email);
+  }
+
+  const items = list(channel.item);
+
+  // Featured images point at attachment items
+  const attachments = new Map<string, string>();
+  for (const item of items) {
+    if (text(item["wp:post_type"]) === "attachment") {
+      attachments.set(text(item["wp:post_id"]), text(item["wp:attachment_url"]) || text(item.guid));
+    }
+  }
+
+  const posts: ImportPost[] = [];
+  const skippedTypes = new Map<string, number>();
+  let skippedComments = 0;
+  let extraCategories = 0;
+
+  for (const item of items) {
+    const type = text(item["wp:post_type"]) || "post";
+    const status = WXR_STATUSES[text(item["wp:status"])];
+    if (type !== "post" || !status) {
+      const key = type === "post" ? `${text(item["wp:status"]) || "unknown"} post` : type;
+      skippedTypes.set(key, (skippedTypes.get(key) || 0) + 1);
+      continue;
+    }
+
+    const sourceId = text(item["wp:post_id"]);
+    const title = decodeEntities(text(item.title)).trim() || "Untitled";
+
+    let category: string | null = null;
+    const postTags: string[] = [];
+    for (const term of list<Record<string, unknown>>(item.category)) {
+      const domain = term["@_domain"];
+      if (domain === "category") {
+        const slug = addTerm(categories, text(term), text(term["@_nicename"]));
+        if (!category) {
+          category = slug || null;
+        } else if (slug !== category) {
+          extraCategories++;
+        }
+      } else if (domain === "post_tag") {
+        const slug = addTerm(tags, text(term), text(term["@_nicename"]));
+        if (slug && !postTags.includes(slug)) postTags.push(slug);
+      }
+    }
+
+    const thumbnailId = list(item["wp:postmeta"]).find((meta) => text(meta["wp:meta_key"]) === "_thumbnail_id");
+
+    const comments: ImportComment[] = [];
+    for (const comment of list(item["wp:comment"])) {
+      const commentType = text(comment["wp:comment_type"]);
+      if (text(comment["wp:comment_approved"]) !== "1" || (commentType && commentType !== "comment")) {
+        skippedComments++;
+        continue;
+      }
+      const parentId = text(comment["wp:comment_parent"]);
+      comments.push({
+        sourceId: text(comment["wp:comment_id"]),
+        parentSourceId: parentId && parentId !== "0" ? parentId : null,
+        author: decodeEntities(text(comment["wp:comment_author"])).trim() || "Anonymous",
+        email: text(comment["wp:comment_author_email"]).trim() || null,
+        ipAddress: text(comment["wp:comment_author_IP"]).trim() || null,
+        content: stripTags(text(comment["wp:comment_content"])),
+        createdAt: parseDate(text(comment["wp:comment_date_gmt"])) || parseDate(text(comment["wp:comment_date"])) || new Date(),
+      });
+    }
+
+    const date =
+      parseDate(text(item["wp:post_date_gmt"])) ||
+      parseDate(text(item["wp:post_date"])) ||
+      parseDate(text(item.pubDate)) ||
+      new Date();
+
+    posts.push({
+      sourceId,
+      title,
+      slug: importSlug(text(item["wp:post_name"]), title, `post-${sourceId}`),
+      content: autop(text(item["content:encoded"])),
+      excerpt: stripTags(text(item["excerpt:encoded"])) || null,
+      coverImage: (thumbnailId && attachments.get(text(thumbnailId["wp:meta_value"]))) || null,
+      status,
+      date,
+      updatedAt: parseDate(text(item["wp:post_modified_gmt"])) || date,
+      authorEmail: authorEmails.get(text(item["dc:creator"])) || null,
+      category,
+      tags: postTags,
+      comments,
+    });
+  }
+
+  for (const [type, count] of skippedTypes) {
+    warnings.push(`Skipped ${count} item${count === 1 ? "" : "s"} of type "${type}"`);
+  }
+  if (skippedComments > 0) {
+    warnings.push(`Skipped ${skippedComments} unapproved comments, pingbacks and trackbacks`);
+  }
+  if (extraCategories > 0) {
+    warnings.push(`${extraCategories} extra categories were dropped - posts here have a single category, the first one is kept`);
+  }
+
+  return {
+    source: "wordpress",
+    categories: [...categories.values()],
+    tags: [...tags.values()],
+    posts,
+    warnings,
+  };
+}
+
+const GHOST_STATUSES: Record<string, ImportPostStatus> = {
+  published: "published",
+  scheduled: "scheduled",
+  draft: "draft",
+};
+
+function parseGhost(json: unknown): ImportData | { error: string } {
+  const root = json as { db?: { data?: unknown }[]; data?: unknown };
+  const data = (root.db?.[0]?.data ?? root.data) as Record<string, Record<string, unknown>[] | undefined> | undefined;
+  if (!data || !Array.isArray(data.posts)) {
+    return { error: "Not a Ghost export file" };
+  }
+
+  const warnings: string[] = [];
+
+  // Internal tags (#hash) are Ghost's own bookkeeping, not topics
+  const tagsById = new Map<string, ImportTerm>();
+  for (const tag of list(data.tags)) {
+    const name = text(tag.name).trim();
+    if (!name || name.startsWith("#") || tag.visibility === "internal") continue;
+    const slug = importSlug(text(tag.slug), name, "");
+    if (slug) tagsById.set(text(tag.id), { name, slug });
+  }
+
+  const postTags = new Map<string, { tagId: string; order: number }[]>();
+  for (const link of list(data.posts_tags)) {
+    const links = postTags.get(text(link.post_id)) || [];
+    links.push({ tagId: text(link.tag_id), order: Number(link.sort_order) || 0 });
+    postTags.set(text(link.post_id), links);
+  }
+
+  const userEmails = new Map<string, string>();
+  for (const user of list(data.users)) {
+    const email = text(user.email).trim().toLowerCase();
+    if (email) userEmails.set(text(user.id), email);
+  }
+
+  // Newer exports list authors separately; the first is the primary author
+  const primaryAuthors = new Map<string, string>();
+  for (const link of [...list(data.posts_authors)].sort((a, b) => (Number(a.sort_order) || 0) - (Number(b.sort_order) || 0))) {
+    if (!primaryAuthors.has(text(link.post_id))) primaryAuthors.set(text(link.post_id), text(link.author_id));
+  }
+
+  const members = new Map<string, { name: string; email: string | null }>();
+  for (const member of list(data.members)) {
+    members.set(text(member.id), { name: text(member.name).trim(), email: text(member.email).trim() || null });
+  }
+
+  const commentsByPost = new Map<string, ImportComment[]>();
+  let skippedComments = 0;
+  for (const comment of list(data.comments)) {
+    if (comment.status !== "published") {
+      skippedComments++;
+      continue;
+    }
+    const member = members.get(text(comment.member_id));
+    const comments = commentsByPost.get(text(comment.post_id)) || [];
+    comments.push({
+      sourceId: text(comment.id),
+      parentSourceId: text(comment.parent_id) || null,
+      author: member?.name || "Anonymous",
+      email: member?.email || null,
+      ipAddress: null,
+      content: stripTags(text(comment.html)),
+      createdAt: parseDate(comment.created_at) || new Date(),
+    });
+    commentsByPost.set(text(comment.post_id), comments);
+  }
+
+  const posts: ImportPost[] = [];
+  let skippedPages = 0;
+  let skippedOther = 0;
+  let missingHtml = 0;
+
+  for (const post of data.posts) {
+    if (post.type === "page") {
+      skippedPages++;
+      continue;
+    }
+    const status = GHOST_STATUSES[text(post.status)];
+    if (!status) {
+      skippedOther++;
+      continue;
+    }
+    // Older exports only carry mobiledoc, which we can't render
+    if (typeof post.html !== "string") {
+      missingHtml++;
+      continue;
+    }
+
+    const sourceId = text(post.id);
+    const title = text(post.title).trim() || "Untitled";
+    const date =
+      (status === "draft" ? null : parseDate(post.published_at)) ||
+      parseDate(post.created_at) ||
+      new Date();
+
+    const tagSlugs = (postTags.get(sourceId) || [])
+      .sort((a, b) => a.order - b.order)
+      .map((link) => tagsById.get(link.tagId)?.slug)
+      .filter((slug): slug is string => !!slug);
+
+    posts.push({
+      sourceId,
+      title,
+      slug: importSlug(text(post.slug), title, `post-${sourceId}`),
+      content: post.html,
+      excerpt: text(post.custom_excerpt).trim() || null,
+      coverImage: text(post.feature_image) || null,
+      status,
+      date,
+      updatedAt: parseDate(post.updated_at) || date,
+      authorEmail: userEmails.get(primaryAuthors.get(sourceId) || text(post.author_id)) || null,
+      category: null,
+      tags: [...new Set(tagSlugs)],
+      comments: commentsByPost.get(sourceId) || [],
+    });
+  }
+
+  if (skippedPages > 0) {
+    warnings.push(`Skipped ${skippedPages} page${skippedPages === 1 ? "" : "s"}`);
+  }
+  if (skippedOther > 0) {
+    warnings.push(`Skipped ${skippedOther} posts with an unknown status`);
+  }
+  if (missingHtml > 0) {
+    warnings.push(`Skipped ${missingHtml} posts without HTML content - re-export from a newer Ghost version`);
+  }
+  if (skippedComments > 0) {
+    warnings.push(`Skipped ${skippedComments} hidden or deleted comments`);
+  }
+  warnings.push("Ghost has no categories - tags are imported as tags");
+
+  return {
+    source: "ghost",
+    categories: [],
+    tags: [...new Map([...tagsById.values()].map((tag) => [tag.slug, tag])).values()],
+    posts,
+    warnings,
+  };
+}
+
+/**
+ * Read a WordPress WXR (XML) or Ghost (JSON) export, detected from the content
+ */
+export function parseImportFile(content: string): ImportData | { error: string } {
+  const trimmed = content.replace(/^\uFEFF/, "").trimStart();
+
+  if (trimmed.startsWith("{")) {
+    let json: unknown;
+    try {
+      json = JSON.parse(trimmed);
+    } catch {
+      return { error: "The file is not valid JSON" };
+    }
+    return parseGhost(json);
+  }
+
+  if (trimmed.startsWith("<")) {
+    return parseWxr(trimmed);
+  }
+
+  return { error: "Unsupported file - upload a WordPress WXR (.xml) or Ghost (.json) export" };
+}
@@ -0,0 +1,181 @@
+import crypto from "crypto";
+import { Invitation, Prisma, UserRole } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { ROLE_LABELS, USER_ROLES } from "@/lib/permissions";
+import { sendInvitationEmail } from "@/lib/email";
+
+/**
+ * Staff invitations
+ *
+ * Admins invite people by email with a role. The emailed link carries a
+ * random token; only its SHA-256 hash is stored, it expires after
+ * INVITATION_TTL_DAYS and can be used once. Accepting creates the account
+ * with the invited role, after which the person signs in with a magic link
+ * like everyone else. Invited addresses may also sign in directly - the
+ * invitation is claimed when their account is created. An existing account
+ * is only ever promoted by an invitation, never demoted, so accepting one
+ * can't take away anyone's admin rights.
+ */
+
+export const INVITATION_TTL_DAYS = 7;
+
+export type InvitationStatus = "pending" | "accepted" | "revoked" | "expired";
+
+function getBaseUrl() {
+  return process.env.NEXTAUTH_URL || "http://localhost:3000";
+}
+
+function hashToken(token: string) {
+  return crypto.createHash("sha256").update(token).digest("hex");
+}
+
+/**
+ * Prisma filter for invitations that can still be accepted
+ */
+export function pendingInvitationWhere(now: Date = new Date()): Prisma.InvitationWhereInput {
+  return { acceptedAt: null, revokedAt: null, expiresAt: { gt: now } };
+}
+
+export function getInvitationStatus(
+  invitation: Pick<Invitation, "acceptedAt" | "revokedAt" | "expiresAt">,
+  now: Date = new Date()
+): InvitationStatus {
+  if (invitation.acceptedAt) return "accepted";
+  if (invitation.revokedAt) return "revoked";
+  if (invitation.expiresAt <= now) return "expired";
+  return "pending";
+}
+
+/**
+ * Create an invitation and email the link. Earlier pending invitations for
+ * the same address stop working, so only the newest link is valid.
+ */
+export async function createInvitation(email: string, role: UserRole, invitedBy: { id: string; name: string | null; email: string }) {
+  await prisma.invitation.updateMany({
+    where: { email, ...pendingInvitationWhere() },
+    data: { revokedAt: new Date() },
+  });
+
+  const token = crypto.randomBytes(32).toString("base64url");
+  const expiresAt = new Date(Date.now() + INVITATION_TTL_DAYS * 24 * 60 * 60 * 1000);
+
+  const invitation = await prisma.invitation.create({
+    data: {
+      email,
+      role,
+      tokenHash: hashToken(token),
+      invitedById: invitedBy.id,
+      expiresAt,
+    },
+  });
+
+  const settings = await prisma.siteSettings.findUnique({
+    where: { id: "default" },
+    select: { siteName: true },
+  });
+
+  try {
+    await sendInvitationEmail({
+      to: email,
+      siteName: settings?.siteName || "IT Blog",
+      inviterName: invitedBy.name || invitedBy.email,
+      roleLabel: ROLE_LABELS[role],
+      acceptUrl: `${getBaseUrl()}/invite?token=${token}`,
+      expiresAt,
+    });
+  } catch (error) {
+    // An invitation nobody received would only show up as a confusing pending entry
+    await prisma.invitation.delete({ where: { id: invitation.id } });
+    throw error;
+  }
+
+  return invitation;
+}
+
+export function findInvitationByToken(token: string) {
+  return prisma.invitation.findUnique({
+    where: { tokenHash: hashToken(token) },
+    include: { invitedBy: { select: { name: true, email: true } } },
+  });
+}
+
+/**
+ * Mark the invitation used and give the account its role, unless it already
+ * has a higher one. Only the first caller wins, so a link can't be accepted twice.
+ * @returns The invited email, or null if the invitation is no longer pending
+ */
+async function claimInvitation(invitation: Invitation): Promise<string | null> {
+  const claimed = await prisma.invitation.updateMany({
+    where: { id: invitation.id, ...pendingInvitationWhere() },
+    data: { acceptedAt: new Date() },
+  });
+  if (claimed.count === 0) return null;
+
+  const existing = await prisma.user.findUnique({
+    where: { email: invitation.email },
+    select: { role: true },
+  });
+
+  // USER_ROLES runs from the highest role to the lowest
+  if (!existing) {
+    await prisma.user.upsert({
+      where: { email: invitation.email },
+      update: {},
+      create: {
+        email: invitation.email,
+        name: invitation.email.split("@")[0],
+        role: invitation.role,
+      },
+    });
+  } else if (USER_ROLES.indexOf(invitation.role) < USER_ROLES.indexOf(existing.role)) {
+    await prisma.user.update({
+      where: { email: invitation.email },
+      data: { role: invitation.role },
+    });
+  }
+
+  return invitation.email;
+}
+
+/**
+ * Accept an invitation from the emailed link
+ * @returns The invited email, or null if the link is invalid, expired, revoked or already used
+ */
+export async function acceptInvitation(token: string): Promise<string | null> {
+  const invitation = await findInvitationByToken(token);
+  if (!invitation) return null;
+
+  return claimInvitation(invitation);
+}
+
+/**
+ * Claim the pending invitation for an address signing in without the link
+ * @returns false if the address has no pending invitation
+ */
+export async function acceptInvitationForEmail(email: string): Promise<boolean> {
+  const invitation = await prisma.invitation.findFirst({
+    where: { email, ...pendingInvitationWhere() },
+    orderBy: { createdAt: "desc" },
+  });
+  if (!invitation) return false;
+
+  return (await claimInvitation(invitation)) !== null;
+}
+
+export async function hasPendingInvitation(email: string): Promise<boolean> {
+  const count = await prisma.invitation.count({
+    where: { email, ...pendingInvitationWhere() },
+  });
+  return count > 0;
+}
+
+/**
+ * @returns false if the invitation was already accepted, revoked or expired
+ */
+export async function revokeInvitation(id: string): Promise<boolean> {
+  const revoked = await prisma.invitation.updateMany({
+    where: { id, ...pendingInvitationWhere() },
+    data: { revokedAt: new Date() },
+  });
+  return revoked.count > 0;
+}
@@ -0,0 +1,87 @@
+import { strToU8, zipSync, Zippable } from "fflate";
+import { resolveExtensions } from "@tiptap/core";
+import { generateJSON } from "@tiptap/html/server";
+import { MarkdownManager } from "@tiptap/markdown";
+import Youtube from "@tiptap/extension-youtube";
+import { prisma } from "@/lib/prisma";
+import { livePostWhere } from "@/lib/posts";
+import { processContentForDisplay } from "@/lib/sanitize";
+import { getEditorExtensions } from "@/lib/editor-extensions";
+import { formatFrontMatter } from "@/lib/markdown";
+
+/**
+ * Markdown export
+ *
+ * Every live post becomes posts/<slug>.md with YAML front matter, bundled in
+ * a ZIP - a portable copy that static site generators (Hugo, Jekyll,
+ * Eleventy, ...) can build from, and that the editor's Markdown import reads
+ * back. The HTML is the one ContentRenderer shows, converted through the
+ * editor schema: code blocks become fenced blocks with their language, and
+ * YouTube embeds stay raw HTML iframes, which Markdown passes through.
+ * Image URLs are kept as they are, so /media/... paths need the media
+ * copied alongside.
+ */
+
+// Embeds saved from a pasted link (convertYouTubeLinks) lack the editor's wrapper
+const YOUTUBE_IFRAME_REGEX =
+  /<iframe\b[^>]*?\ssrc="(https:\/\/www\.youtube(?:-nocookie)?\.com\/embed\/[^"]+)"[^>]*>\s*<\/iframe>/gi;
+
+const YOUTUBE_EMBED_REGEX = /^https:\/\/www\.youtube(?:-nocookie)?\.com\/embed\/[a-zA-Z0-9_-]{11}/;
+
+const ExportYoutube = Youtube.extend({
+  renderMarkdown(node) {
+    const src = String(node.attrs?.src ?? "");
+    if (!YOUTUBE_EMBED_REGEX.test(src)) return "";
+    return `<div data-youtube-video><iframe src="${src.replace(/"/g, "&quot;")}" width="640" height="360" allowfullscreen></iframe></div>`;
+  },
+});
+
+function getExportExtensions() {
+  return getEditorExtensions().map((extension) => (extension.name === "youtube" ? ExportYoutube : extension));
+}
+
+/**
+ * Convert post HTML to Markdown
+ */
+export function htmlToMarkdown(html: string): string {
+  const extensions = getExportExtensions();
+  const manager = new MarkdownManager({ extensions: resolveExtensions(extensions) });
+  const normalized = processContentForDisplay(html).replace(
+    YOUTUBE_IFRAME_REGEX,
+    (_match, src: string) => `<div data-youtube-video=""><iframe src="${src}"></iframe></div>`
+  );
+  return manager.serialize(generateJSON(normalized, extensions));
+}
+
+/**
+ * Build the ZIP of every live post as Markdown
+ */
+export async function createMarkdownExport(): Promise<Uint8Array> {
+  const posts = await prisma.post.findMany({
+    where: livePostWhere(),
+    orderBy: { publishedAt: "asc" },
+    include: {
+      author: { select: { name: true } },
+      category: { select: { name: true } },
+      tags: { include: { tag: { select: { name: true } } } },
+    },
+  });
+
+  const entries: Zippable = {};
+  for (const post of posts) {
+    const frontMatter = {
+      title: post.title,
+      slug: post.slug,
+      date: (post.publishedAt ?? post.createdAt).toISOString(),
+      updated: post.updatedAt.toISOString(),
+      author: post.author.name,
+      excerpt: post.excerpt,
+      category: post.category?.name,
+      tags: post.tags.map(({ tag }) => tag.name),
+      cover_image: post.coverImage,
+    };
+    entries[`posts/${post.slug}.md`] = strToU8(formatFrontMatter(frontMatter, htmlToMarkdown(post.content)));
+  }
+
+  return zipSync(entries, { level: 6 });
+}
@@ -0,0 +1,133 @@
+import yaml from "js-yaml";
+import { generateHTML, resolveExtensions } from "@tiptap/core";
+import { MarkdownManager } from "@tiptap/markdown";
+import { getEditorExtensions } from "@/lib/editor-extensions";
+
+/**
+ * Markdown import
+ *
+ * A `.md` file may start with YAML front matter between `---` lines. Its
+ * title, excerpt (or description/summary), tags and category (or the first
+ * of categories) prefill the post form; without a title, a leading `# Heading`
+ * is used instead. The body goes through the editor's own schema, covering
+ * GFM tables, fenced code with a language and task lists.
+ *
+ * The Markdown export (lib/markdown-export.ts) writes the same front matter
+ * keys, so exported posts import back as they were.
+ */
+
+export interface MarkdownImport {
+  title: string;
+  excerpt: string;
+  tags: string[];
+  category: string | null;
+  /** The body, still as Markdown */
+  body: string;
+}
+
+const FRONT_MATTER_REGEX = /^\uFEFF?---[ \t]*\r?\n(?:([\s\S]*?)\r?\n)?(?:---|\.\.\.)[ \t]*(?:\r?\n|$)/;
+const LEADING_TITLE_REGEX = /^\s*#[ \t]+(.+?)[ \t#]*(?:\r?\n|$)/;
+
+function toText(value: unknown): string {
+  if (typeof value === "string") return value.trim();
+  if (typeof value === "number") return String(value);
+  return "";
+}
+
+function toList(value: unknown): string[] {
+  const items = Array.isArray(value)
+    ? value.map(toText)
+    : toText(value).split(",").map((item) => item.trim());
+  return items.filter(Boolean);
+}
+
+/**
+ * Split a Markdown file into its front matter and body
+ * @throws If the front matter is not a YAML mapping
+ */
+export function parseFrontMatter(source: string): { data: Record<string, unknown>; body: string } {
+  const match = source.match(FRONT_MATTER_REGEX);
+  if (!match) {
+    return { data: {}, body: source.replace(/^\uFEFF/, "") };
+  }
+
+  // JSON schema keeps dates and other YAML-only types as plain strings
+  let data: unknown;
+  try {
+    data = yaml.load(match[1] || "", { schema: yaml.JSON_SCHEMA });
+  } catch (error) {
+    const reason = error instanceof yaml.YAMLException ? error.reason : "could not be parsed";
+    throw new Error(`Invalid front matter: ${reason}`);
+  }
+  if (data != null && (typeof data !== "object" || Array.isArray(data))) {
+    throw new Error("Invalid front matter: expected key: value pairs");
+  }
+
+  return { data: (data as Record<string, unknown> | null) ?? {}, body: source.slice(match[0].length) };
+}
+
+/**
+ * Put YAML front matter in front of a Markdown body. Empty values are left out.
+ */
+export function formatFrontMatter(data: Record<string, unknown>, body: string): string {
+  const fields = Object.fromEntries(
+    Object.entries(data).filter(([, value]) => value != null && value !== "" && !(Array.isArray(value) && value.length === 0))
+  );
+  return `---\n${yaml.dump(fields, { lineWidth: -1 })}---\n\n${body.trim()}\n`;
+}
+
+export function parseMarkdownImport(source: string): MarkdownImport {
+  const { data, body } = parseFrontMatter(source);
+
+  let title = toText(data.title);
+  let content = body;
+  if (!title) {
+    const heading = body.match(LEADING_TITLE_REGEX);
+    if (heading) {
+      title = heading[1].trim();
+      content = body.slice(heading[0].length);
+    }
+  }
+
+  return {
+    title,
+    excerpt: toText(data.excerpt) || toText(data.description) || toText(data.summary),
+    tags: toList(data.tags),
+    category: toText(data.category) || toList(data.categories)[0] || null,
+    body: content.trim(),
+  };
+}
+
+/**
+ * Convert Markdown to editor HTML. Browser only - the HTML serializer needs
+ * a DOM. Callers still run the result through processContentForSave.
+ */
+export function markdownToHtml(markdown: string): string {
+  const extensions = getEditorExtensions();
+  const manager = new MarkdownManager({ extensions: resolveExtensions(extensions) });
+  return generateHTML(manager.parse(markdown), extensions);
+}
+
+/**
+ * Match imported tag or category names to existing ones by name or slug
+ */
+export function matchTaxonomy<T extends { id: string; name: string; slug: string }>(
+  items: T[],
+  names: string[]
+): { ids: string[]; unmatched: string[] } {
+  const ids: string[] = [];
+  const unmatched: string[] = [];
+
+  for (const name of names) {
+    const key = name.toLowerCase();
+    const slug = key.replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "");
+    const item = items.find((i) => i.name.toLowerCase() === key || i.slug === slug);
+    if (!item) {
+      unmatched.push(name);
+    } else if (!ids.includes(item.id)) {
+      ids.push(item.id);
+    }
+  }
+
+  return { ids, unmatched };
+}
@@ -0,0 +1,296 @@
+import { randomBytes } from "crypto";
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { getStorage, StorageAdapter } from "@/lib/storage";
+import { processImage } from "@/lib/image-processing";
+import { ImageVariant, parseVariants, ResponsiveImageSet, toImageSet } from "@/lib/images";
+
+/**
+ * Media library uploads
+ *
+ * Only raster images are accepted. SVG is deliberately excluded because it
+ * can carry scripts, and the uploaded bytes are sniffed rather than trusting
+ * the browser-supplied Content-Type.
+ */
+
+// MIME type -> file extension
+export const ALLOWED_IMAGE_TYPES: Record<string, string> = {
+  "image/jpeg": "jpg",
+  "image/png": "png",
+  "image/gif": "gif",
+  "image/webp": "webp",
+  "image/avif": "avif",
+};
+
+export const MAX_UPLOAD_BYTES = (Number(process.env.MEDIA_MAX_UPLOAD_MB) || 10) * 1024 * 1024;
+
+/**
+ * Detect the image type from the file's magic bytes
+ */
+export function detectImageType(buffer: Buffer): string | null {
+  if (buffer.length < 12) return null;
+
+  if (buffer[0] === 0xff && buffer[1] === 0xd8 && buffer[2] === 0xff) {
+    return "image/jpeg";
+  }
+  if (buffer.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) {
+    return "image/png";
+  }
+  if (buffer.subarray(0, 6).toString("ascii") === "GIF87a" || buffer.subarray(0, 6).toString("ascii") === "GIF89a") {
+    return "image/gif";
+  }
+  if (buffer.subarray(0, 4).toString("ascii") === "RIFF" && buffer.subarray(8, 12).toString("ascii") === "WEBP") {
+    return "image/webp";
+  }
+  if (buffer.subarray(4, 8).toString("ascii") === "ftyp" && ["avif", "avis"].includes(buffer.subarray(8, 12).toString("ascii"))) {
+    return "image/avif";
+  }
+
+  return null;
+}
+
+/**
+ * Build a unique, URL-safe storage key like "2025/01/3f9a1c2b7d4e8f60-my-photo.jpg"
+ */
+export function buildStorageKey(filename: string, extension: string, date = new Date()): string {
+  const base = filename
+    .replace(/\.[^.]*$/, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 60) || "image";
+
+  const year = date.getUTCFullYear();
+  const month = String(date.getUTCMonth() + 1).padStart(2, "0");
+
+  return `${year}/${month}/${randomBytes(8).toString("hex")}-${base}.${extension}`;
+}
+
+/**
+ * Validate an uploaded file and return its sniffed MIME type, or an error message
+ */
+export function validateImageUpload(buffer: Buffer): { mimeType: string } | { error: string } {
+  if (buffer.length === 0) {
+    return { error: "File is empty" };
+  }
+
+  if (buffer.length > MAX_UPLOAD_BYTES) {
+    return { error: `File is too large (max ${Math.round(MAX_UPLOAD_BYTES / 1024 / 1024)}MB)` };
+  }
+
+  const mimeType = detectImageType(buffer);
+  if (!mimeType) {
+    return { error: "Unsupported file type. Upload a JPEG, PNG, GIF, WebP or AVIF image." };
+  }
+
+  return { mimeType };
+}
+
+/**
+ * Resize an image and store its variants next to the original
+ *
+ * Variant keys include the focus point, so re-cropping produces new URLs
+ * instead of overwriting files that browsers and CDNs cache as immutable.
+ * GIFs are left alone to keep their animation.
+ */
+async function storeVariants(
+  storage: StorageAdapter,
+  storageKey: string,
+  mimeType: string,
+  buffer: Buffer,
+  focus: { focusX: number; focusY: number }
+) {
+  if (mimeType === "image/gif") {
+    return { width: null, height: null, placeholder: null, variants: [] as ImageVariant[] };
+  }
+
+  const processed = await processImage(buffer, focus);
+  const base = storageKey.replace(/\.[^.]+$/, "");
+  const focusTag = `f${Math.round(focus.focusX * 100)}-${Math.round(focus.focusY * 100)}`;
+
+  const variants: ImageVariant[] = [];
+  for (const variant of processed.variants) {
+    const key = `${base}-${variant.name}-${focusTag}.${variant.format}`;
+    const url = await storage.put(key, variant.buffer, `image/${variant.format}`);
+    variants.push({
+      name: variant.name,
+      format: variant.format,
+      width: variant.width,
+      height: variant.height,
+      url,
+      storageKey: key,
+    });
+  }
+
+  return {
+    width: processed.width,
+    height: processed.height,
+    placeholder: processed.placeholder,
+    variants,
+  };
+}
+
+async function deleteVariants(storage: StorageAdapter, variants: ImageVariant[]) {
+  await Promise.all(variants.map((variant) => storage.delete(variant.storageKey)));
+}
+
+/**
+ * Store an upload through the configured adapter and record it in the library
+ */
+export async function createMedia(input: {
+  buffer: Buffer;
+  filename: string;
+  mimeType: string;
+  alt?: string | null;
+  uploadedById: string | null;
+}) {
+  const storage = getStorage();
+  const storageKey = buildStorageKey(input.filename, ALLOWED_IMAGE_TYPES[input.mimeType]);
+  const focus = { focusX: 0.5, focusY: 0.5 };
+  const url = await storage.put(storageKey, input.buffer, input.mimeType);
+  let variants: ImageVariant[] = [];
+
+  try {
+    const processed = await storeVariants(storage, storageKey, input.mimeType, input.buffer, focus);
+    variants = processed.variants;
+
+    return await prisma.media.create({
+      data: {
+        storageKey,
+        storage: storage.name,
+        url,
+        filename: input.filename.slice(0, 255),
+        mimeType: input.mimeType,
+        size: input.buffer.length,
+        alt: input.alt || null,
+        width: processed.width,
+        height: processed.height,
+        ...focus,
+        placeholder: processed.placeholder,
+        variants: JSON.stringify(variants),
+        uploadedById: input.uploadedById,
+      },
+    });
+  } catch (error) {
+    // Don't leave orphaned files behind if processing or the database write fails
+    await storage.delete(storageKey).catch(() => {});
+    await deleteVariants(storage, variants).catch(() => {});
+    throw error;
+  }
+}
+
+/**
+ * Put a media item from a site backup into storage, with freshly generated
+ * variants, and return its library record without saving it - the restore
+ * writes every record in one transaction (see lib/site-archive.ts)
+ * @param storageKey - The original key; pass a new one when it's still taken
+ */
+export async function storeRestoredMedia(input: {
+  id: string;
+  buffer: Buffer;
+  storageKey: string;
+  filename: string;
+  mimeType: string;
+  alt: string | null;
+  focusX: number;
+  focusY: number;
+  uploadedById: string | null;
+  createdAt: Date;
+}): Promise<Prisma.MediaUncheckedCreateInput> {
+  const storage = getStorage();
+  const focus = { focusX: input.focusX, focusY: input.focusY };
+  const url = await storage.put(input.storageKey, input.buffer, input.mimeType);
+
+  try {
+    const processed = await storeVariants(storage, input.storageKey, input.mimeType, input.buffer, focus);
+
+    return {
+      id: input.id,
+      storageKey: input.storageKey,
+      storage: storage.name,
+      url,
+      filename: input.filename.slice(0, 255),
+      mimeType: input.mimeType,
+      size: input.buffer.length,
+      alt: input.alt,
+      width: processed.width,
+      height: processed.height,
+      ...focus,
+      placeholder: processed.placeholder,
+      variants: JSON.stringify(processed.variants),
+      uploadedById: input.uploadedById,
+      createdAt: input.createdAt,
+    };
+  } catch (error) {
+    await storage.delete(input.storageKey).catch(() => {});
+    throw error;
+  }
+}
+
+/**
+ * Move the crop focus point and regenerate the variants around it
+ */
+export async function updateMediaFocus(
+  media: { id: string; storage: string; storageKey: string; mimeType: string; variants: string | null },
+  focus: { focusX: number; focusY: number }
+) {
+  const storage = getStorage(media.storage);
+  const original = await storage.get(media.storageKey);
+  const processed = await storeVariants(storage, media.storageKey, media.mimeType, original, focus);
+
+  const updated = await prisma.media.update({
+    where: { id: media.id },
+    data: {
+      ...focus,
+      placeholder: processed.placeholder,
+      variants: JSON.stringify(processed.variants),
+    },
+  });
+
+  // Remove the old crops, keeping any that were just rewritten under the same key
+  const currentKeys = new Set(processed.variants.map((variant) => variant.storageKey));
+  await deleteVariants(
+    storage,
+    parseVariants(media.variants).filter((variant) => !currentKeys.has(variant.storageKey))
+  );
+
+  return updated;
+}
+
+/**
+ * Remove a media item (original and variants) from storage and the library
+ */
+export async function deleteMedia(media: { id: string; storage: string; storageKey: string; variants: string | null }) {
+  await deleteMediaFiles(media);
+  await prisma.media.delete({ where: { id: media.id } });
+}
+
+/**
+ * Remove an item's original and variants from storage, leaving its record
+ */
+export async function deleteMediaFiles(media: { storage: string; storageKey: string; variants: string | null }) {
+  const storage = getStorage(media.storage);
+  await storage.delete(media.storageKey);
+  await deleteVariants(storage, parseVariants(media.variants));
+}
+
+/**
+ * Look up responsive variants for image URLs that point at the media library
+ * External URLs (or uploads without variants) are simply absent from the result.
+ */
+export async function getImageSets(urls: Array<string | null | undefined>) {
+  const unique = [...new Set(urls.filter((url): url is string => !!url))];
+  if (unique.length === 0) return {} as Record<string, ResponsiveImageSet>;
+
+  const media = await prisma.media.findMany({
+    where: { url: { in: unique } },
+    select: { url: true, variants: true, placeholder: true },
+  });
+
+  const sets: Record<string, ResponsiveImageSet> = {};
+  for (const item of media) {
+    const set = toImageSet(item);
+    if (set) sets[item.url] = set;
+  }
+  return sets;
+}
@@ -0,0 +1,168 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+const { prisma, sendPostAnnouncementEmail } = vi.hoisted(() => ({
+  prisma: {
+    newsletterSend: { findUnique: vi.fn(), findUniqueOrThrow: vi.fn(), update: vi.fn(), updateMany: vi.fn() },
+    subscriber: { findUnique: vi.fn(), findMany: vi.fn(), count: vi.fn(), update: vi.fn() },
+    siteSettings: { findUnique: vi.fn() },
+    post: { count: vi.fn() },
+  },
+  sendPostAnnouncementEmail: vi.fn(),
+}));
+vi.mock("@/lib/prisma", () => ({ prisma }));
+vi.mock("@/lib/posts", () => ({ livePostWhere: () => ({ published: true }) }));
+vi.mock("@/lib/email", () => ({ sendPostAnnouncementEmail, sendNewsletterConfirmationEmail: vi.fn() }));
+
+import { signToken } from "@/lib/tokens";
+import { CONFIRM_TTL_DAYS, confirmSubscription, deliverAnnouncement, verifyConfirmLink } from "@/lib/newsletter";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function confirmParams(email: string, issuedAt = Date.now()) {
+  const issued = String(Math.floor(issuedAt / 1000));
+  return { issued, token: signToken("newsletter-confirm", `${email}:${issued}`) };
+}
+
+beforeEach(() => {
+  vi.stubEnv("AUTH_SECRET", "test-secret");
+  for (const model of Object.values(prisma)) {
+    for (const method of Object.values(model)) method.mockReset();
+  }
+  sendPostAnnouncementEmail.mockReset().mockResolvedValue(undefined);
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe("confirmation links", () => {
+  it("accepts a fresh link and normalizes the address", () => {
+    const { issued, token } = confirmParams("reader@example.com");
+    expect(verifyConfirmLink(" Reader@Example.com ", issued, token)).toBe("reader@example.com");
+  });
+
+  it("rejects expired, future-dated and tampered links", () => {
+    const expired = confirmParams("reader@example.com", Date.now() - (CONFIRM_TTL_DAYS + 1) * DAY_MS);
+    expect(verifyConfirmLink("reader@example.com", expired.issued, expired.token)).toBeNull();
+
+    const future = confirmParams("reader@example.com", Date.now() + DAY_MS);
+    expect(verifyConfirmLink("reader@example.com", future.issued, future.token)).toBeNull();
+
+    const { issued, token } = confirmParams("reader@example.com");
+    expect(verifyConfirmLink("other@example.com", issued, token)).toBeNull();
+    expect(verifyConfirmLink("reader@example.com", String(Number(issued) + 1), token)).toBeNull();
+    expect(verifyConfirmLink("reader@example.com", "soon", token)).toBeNull();
+  });
+
+  it("only activates subscribers through a valid link", async () => {
+    prisma.subscriber.findUnique.mockResolvedValue({ email: "reader@example.com", status: "PENDING" });
+
+    const expired = confirmParams("reader@example.com", Date.now() - (CONFIRM_TTL_DAYS + 1) * DAY_MS);
+    expect(await confirmSubscription("reader@example.com", expired.issued, expired.token)).toBe(false);
+    expect(prisma.subscriber.update).not.toHaveBeenCalled();
+
+    const { issued, token } = confirmParams("reader@example.com");
+    expect(await confirmSubscription("reader@example.com", issued, token)).toBe(true);
+    expect(prisma.subscriber.update).toHaveBeenCalledWith({
+      where: { email: "reader@example.com" },
+      data: expect.objectContaining({ status: "ACTIVE" }),
+    });
+  });
+});
+
+describe("deliverAnnouncement", () => {
+  const post = { id: "post-1", title: "Hello", excerpt: null, coverImage: null, slug: "hello" };
+  const subscribers = [
+    { id: "s1", email: "one@example.com" },
+    { id: "s2", email: "two@example.com" },
+    { id: "s3", email: "three@example.com" },
+  ];
+
+  beforeEach(() => {
+    prisma.newsletterSend.updateMany.mockResolvedValue({ count: 1 });
+    prisma.siteSettings.findUnique.mockResolvedValue(null);
+    prisma.subscriber.findMany.mockImplementation(async ({ where }: { where: { id?: { gt: string } } }) =>
+      subscribers.filter((subscriber) => !where.id || subscriber.id > where.id.gt)
+    );
+  });
+
+  it("resumes an interrupted send after the last recipient", async () => {
+    prisma.newsletterSend.findUnique.mockResolvedValue({ id: "send-1", status: "SENDING", cursor: "s1", post });
+    prisma.newsletterSend.findUniqueOrThrow.mockResolvedValue({ sentCount: 3, failedCount: 0 });
+
+    expect(await deliverAnnouncement("send-1")).toBe("SENT");
+
+    expect(sendPostAnnouncementEmail.mock.calls.map(([email]) => email.to)).toEqual(["two@example.com", "three@example.com"]);
+    expect(prisma.newsletterSend.updateMany).toHaveBeenLastCalledWith({
+      where: { id: "send-1", lockedUntil: expect.any(Date) },
+      data: expect.objectContaining({ status: "SENT", recipientCount: 3, lockedUntil: null }),
+    });
+  });
+
+  it("records its position and releases the send when time runs out", async () => {
+    prisma.newsletterSend.findUnique.mockResolvedValue({ id: "send-1", status: "QUEUED", cursor: null, post });
+    prisma.post.count.mockResolvedValue(1);
+    let now = 1_000_000;
+    const clock = vi.spyOn(Date, "now").mockImplementation(() => now);
+    sendPostAnnouncementEmail.mockImplementation(async () => {
+      now += 1000;
+    });
+
+    expect(await deliverAnnouncement("send-1", 1_001_500)).toBe("SENDING");
+    clock.mockRestore();
+
+    expect(sendPostAnnouncementEmail).toHaveBeenCalledTimes(2);
+    expect(prisma.newsletterSend.updateMany).toHaveBeenCalledWith({
+      where: { id: "send-1", lockedUntil: expect.any(Date) },
+      data: expect.objectContaining({ cursor: "s2", sentCount: { increment: 1 } }),
+    });
+    expect(prisma.newsletterSend.updateMany).toHaveBeenLastCalledWith({
+      where: { id: "send-1", lockedUntil: expect.any(Date) },
+      data: { lockedUntil: null },
+    });
+  });
+
+  it("renews the lease it holds with every saved position", async () => {
+    prisma.newsletterSend.findUnique.mockResolvedValue({ id: "send-1", status: "SENDING", cursor: null, post });
+    prisma.newsletterSend.findUniqueOrThrow.mockResolvedValue({ sentCount: 3, failedCount: 0 });
+
+    await deliverAnnouncement("send-1");
+
+    // Each save is conditional on the lease the previous one set
+    const calls = prisma.newsletterSend.updateMany.mock.calls.map(([args]) => args);
+    // Claim, three saves, done
+    expect(calls).toHaveLength(5);
+    for (let i = 1; i < calls.length; i++) {
+      expect(calls[i].where.lockedUntil).toBe(calls[i - 1].data.lockedUntil);
+    }
+  });
+
+  it("stops as soon as another run has taken the send over", async () => {
+    prisma.newsletterSend.findUnique.mockResolvedValue({ id: "send-1", status: "SENDING", cursor: null, post });
+    // The claim succeeds, then the lease is gone by the first save
+    prisma.newsletterSend.updateMany.mockResolvedValueOnce({ count: 1 }).mockResolvedValue({ count: 0 });
+    const consoleError = vi.spyOn(console, "error").mockImplementation(() => {});
+
+    expect(await deliverAnnouncement("send-1")).toBeNull();
+    consoleError.mockRestore();
+
+    expect(sendPostAnnouncementEmail).toHaveBeenCalledTimes(1);
+    expect(prisma.newsletterSend.findUniqueOrThrow).not.toHaveBeenCalled();
+  });
+
+  it("leaves a send alone while another run holds it", async () => {
+    prisma.newsletterSend.findUnique.mockResolvedValue({ id: "send-1", status: "SENDING", cursor: "s1", post });
+    prisma.newsletterSend.updateMany.mockResolvedValue({ count: 0 });
+
+    expect(await deliverAnnouncement("send-1")).toBeNull();
+    expect(sendPostAnnouncementEmail).not.toHaveBeenCalled();
+  });
+
+  it("waits for a queued post to go live", async () => {
+    prisma.newsletterSend.findUnique.mockResolvedValue({ id: "send-1", status: "QUEUED", cursor: null, post });
+    prisma.post.count.mockResolvedValue(0);
+
+    expect(await deliverAnnouncement("send-1")).toBeNull();
+    expect(prisma.newsletterSend.updateMany).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,372 @@
+import { NewsletterSendStatus, Prisma, SubscriberStatus } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { livePostWhere } from "@/lib/posts";
+import { signToken, verifyToken } from "@/lib/tokens";
+import {
+  NewsletterBranding,
+  sendNewsletterConfirmationEmail,
+  sendPostAnnouncementEmail,
+} from "@/lib/email";
+
+/**
+ * Newsletter
+ *
+ * Readers subscribe with double opt-in (PENDING until they confirm through
+ * the emailed link, which expires after CONFIRM_TTL_DAYS). The link only
+ * opens a page; confirming takes a POST, so mail scanners that fetch links
+ * can't subscribe anyone. Post announcements are queued as NewsletterSend rows and delivered
+ * by processNewsletterQueue once the post is live, so scheduled posts are
+ * announced when they actually go out.
+ *
+ * Delivery walks the subscribers in ID order and records its position after
+ * every email, so a run that stops (time limit, crash) is resumed by the
+ * next one without emailing anyone twice. A run holds a lease on the send
+ * while it works and renews it with every saved position; once the lease
+ * runs out, the send is up for grabs again and the old run stops at its next
+ * save.
+ */
+
+const CONFIRM_PURPOSE = "newsletter-confirm";
+const UNSUBSCRIBE_PURPOSE = "newsletter-unsubscribe";
+
+export const CONFIRM_TTL_DAYS = 7;
+
+const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// Subscribers loaded at a time
+const BATCH_SIZE = 100;
+
+// How long a delivery run may go on before leaving the rest for the next one -
+// serverless functions are stopped after a minute on most plans
+const DELIVERY_TIME_MS = 45 * 1000;
+
+// A run renews its lease with every email; a stopped run's lease expires after this
+const LEASE_MS = 5 * 60 * 1000;
+
+export const SUBSCRIBER_STATUSES: SubscriberStatus[] = ["PENDING", "ACTIVE", "UNSUBSCRIBED"];
+
+function getBaseUrl() {
+  return process.env.NEXTAUTH_URL || "http://localhost:3000";
+}
+
+// Emails need absolute URLs; media library images are stored site-relative
+function absoluteUrl(url: string) {
+  return url.startsWith("/") ? `${getBaseUrl()}${url}` : url;
+}
+
+export function normalizeEmail(email: string) {
+  return email.trim().toLowerCase();
+}
+
+export function isValidEmail(email: string) {
+  return EMAIL_REGEX.test(email);
+}
+
+function newsletterLink(path: string, purpose: string, email: string) {
+  const params = new URLSearchParams({ email, token: signToken(purpose, email) });
+  return `${getBaseUrl()}${path}?${params.toString()}`;
+}
+
+// The issue time is signed along with the address, so the link can expire
+function confirmLink(email: string) {
+  const issued = String(Math.floor(Date.now() / 1000));
+  const params = new URLSearchParams({ email, issued, token: signToken(CONFIRM_PURPOSE, `${email}:${issued}`) });
+  return `${getBaseUrl()}/newsletter/confirm?${params.toString()}`;
+}
+
+/**
+ * Check a confirmation link's signature and age
+ * @returns The normalized email, or null if the link is invalid or expired
+ */
+export function verifyConfirmLink(email: string, issued: string, token: string): string | null {
+  const normalized = normalizeEmail(email);
+  if (!/^\d+$/.test(issued) || !verifyToken(CONFIRM_PURPOSE, `${normalized}:${issued}`, token)) return null;
+
+  const age = Date.now() - Number(issued) * 1000;
+  if (age < 0 || age > CONFIRM_TTL_DAYS * 24 * 60 * 60 * 1000) return null;
+  return normalized;
+}
+
+export function getNewsletterUnsubscribeUrl(email: string) {
+  return newsletterLink("/newsletter/unsubscribe", UNSUBSCRIBE_PURPOSE, email);
+}
+
+async function getBranding(): Promise<NewsletterBranding> {
+  const settings = await prisma.siteSettings.findUnique({
+    where: { id: "default" },
+    select: { siteName: true, siteTagline: true, siteLogo: true },
+  });
+
+  return {
+    siteName: settings?.siteName || "IT Blog",
+    siteTagline: settings?.siteTagline || "A personal space to showcase IT projects and share technical knowledge",
+    siteLogo: settings?.siteLogo ? absoluteUrl(settings.siteLogo) : null,
+  };
+}
+
+/**
+ * Start a subscription and email the confirmation link. Already active
+ * subscribers are left alone so the response never reveals who is subscribed.
+ */
+export async function subscribe(rawEmail: string) {
+  const email = normalizeEmail(rawEmail);
+
+  const existing = await prisma.subscriber.findUnique({ where: { email } });
+  if (existing?.status === "ACTIVE") return;
+
+  await prisma.subscriber.upsert({
+    where: { email },
+    update: { status: "PENDING", unsubscribedAt: null },
+    create: { email },
+  });
+
+  const { siteName } = await getBranding();
+  await sendNewsletterConfirmationEmail({
+    to: email,
+    siteName,
+    confirmUrl: confirmLink(email),
+    expiresInDays: CONFIRM_TTL_DAYS,
+  });
+}
+
+/**
+ * What the confirmation page should offer, without changing anything
+ */
+export async function getConfirmationState(
+  email: string,
+  issued: string,
+  token: string
+): Promise<"pending" | "active" | "invalid"> {
+  const normalized = verifyConfirmLink(email, issued, token);
+  if (!normalized) return "invalid";
+
+  const subscriber = await prisma.subscriber.findUnique({ where: { email: normalized }, select: { status: true } });
+  if (!subscriber) return "invalid";
+  return subscriber.status === "ACTIVE" ? "active" : "pending";
+}
+
+/**
+ * Activate a subscription from the confirmation link
+ * @returns false when the link is invalid or expired, or the subscriber no longer exists
+ */
+export async function confirmSubscription(email: string, issued: string, token: string): Promise<boolean> {
+  const normalized = verifyConfirmLink(email, issued, token);
+  if (!normalized) return false;
+
+  const subscriber = await prisma.subscriber.findUnique({ where: { email: normalized } });
+  if (!subscriber) return false;
+
+  if (subscriber.status !== "ACTIVE") {
+    await prisma.subscriber.update({
+      where: { email: normalized },
+      data: { status: "ACTIVE", confirmedAt: new Date(), unsubscribedAt: null },
+    });
+  }
+  return true;
+}
+
+export async function unsubscribe(email: string) {
+  await prisma.subscriber.updateMany({
+    where: { email: normalizeEmail(email), status: { not: "UNSUBSCRIBED" } },
+    data: { status: "UNSUBSCRIBED", unsubscribedAt: new Date() },
+  });
+}
+
+/**
+ * Unsubscribe from the signed link in newsletter emails
+ * @returns false when the signature doesn't match
+ */
+export async function unsubscribeWithToken(email: string, token: string): Promise<boolean> {
+  const normalized = normalizeEmail(email);
+  if (!verifyToken(UNSUBSCRIBE_PURPOSE, normalized, token)) return false;
+
+  await unsubscribe(normalized);
+  return true;
+}
+
+/**
+ * Queue an announcement for a post. Each post is only announced once.
+ * @returns The queued send, or null if the post already has one
+ */
+export async function queueAnnouncement(postId: string, userId: string) {
+  const existing = await prisma.newsletterSend.findFirst({
+    where: { postId, status: { not: "FAILED" } },
+  });
+  if (existing) return null;
+
+  const post = await prisma.post.findUnique({
+    where: { id: postId },
+    select: { title: true },
+  });
+  if (!post) return null;
+
+  return prisma.newsletterSend.create({
+    data: {
+      postId,
+      subject: post.title,
+      createdById: userId,
+    },
+  });
+}
+
+/**
+ * Deliver a queued announcement, or continue one that was cut off, until
+ * every active subscriber has it or the deadline passes
+ * @returns The send's status after this run ("SENDING" if it will continue
+ * in the next one), or null if it isn't ready (post not live yet) or another
+ * run holds it or took it over
+ */
+export async function deliverAnnouncement(
+  sendId: string,
+  deadline: number = Date.now() + DELIVERY_TIME_MS
+): Promise<NewsletterSendStatus | null> {
+  const send = await prisma.newsletterSend.findUnique({
+    where: { id: sendId },
+    include: { post: true },
+  });
+  if (!send || (send.status !== "QUEUED" && send.status !== "SENDING")) return null;
+
+  if (!send.post) {
+    await prisma.newsletterSend.update({
+      where: { id: sendId },
+      data: { status: "FAILED", error: "Post was deleted before it was sent", lockedUntil: null },
+    });
+    return null;
+  }
+
+  if (send.status === "QUEUED") {
+    const isLive = await prisma.post.count({ where: { id: send.post.id, ...livePostWhere() } });
+    if (!isLive) return null;
+  }
+
+  // Claim the send so an overlapping run can't deliver it twice
+  let lease = new Date(Date.now() + LEASE_MS);
+  const claimed = await prisma.newsletterSend.updateMany({
+    where: {
+      id: sendId,
+      OR: [
+        { status: "QUEUED" },
+        { status: "SENDING", OR: [{ lockedUntil: null }, { lockedUntil: { lt: new Date() } }] },
+      ],
+    },
+    data: {
+      status: "SENDING",
+      lockedUntil: lease,
+      ...(send.status === "QUEUED" && {
+        recipientCount: await prisma.subscriber.count({ where: { status: "ACTIVE" } }),
+      }),
+    },
+  });
+  if (claimed.count === 0) return null;
+
+  const branding = await getBranding();
+  const post = {
+    title: send.post.title,
+    excerpt: send.post.excerpt,
+    coverImage: send.post.coverImage ? absoluteUrl(send.post.coverImage) : null,
+    url: `${getBaseUrl()}/blog/${send.post.slug}`,
+  };
+
+  let cursor = send.cursor;
+
+  while (Date.now() < deadline) {
+    const subscribers = await prisma.subscriber.findMany({
+      where: { status: "ACTIVE", ...(cursor && { id: { gt: cursor } }) },
+      orderBy: { id: "asc" },
+      take: BATCH_SIZE,
+      select: { id: true, email: true },
+    });
+
+    if (subscribers.length === 0) {
+      const done = await prisma.newsletterSend.findUniqueOrThrow({ where: { id: sendId } });
+      const status = done.sentCount === 0 && done.failedCount > 0 ? "FAILED" : "SENT";
+      const finished = await prisma.newsletterSend.updateMany({
+        where: { id: sendId, lockedUntil: lease },
+        data: {
+          status,
+          recipientCount: done.sentCount + done.failedCount,
+          lockedUntil: null,
+          sentAt: new Date(),
+        },
+      });
+      return finished.count > 0 ? status : null;
+    }
+
+    for (const subscriber of subscribers) {
+      if (Date.now() >= deadline) break;
+      // Past the lease another run may already be delivering this send
+      if (Date.now() >= lease.getTime()) return null;
+
+      let error: string | null = null;
+      try {
+        await sendPostAnnouncementEmail({
+          to: subscriber.email,
+          branding,
+          post,
+          unsubscribeUrl: getNewsletterUnsubscribeUrl(subscriber.email),
+        });
+      } catch (sendError) {
+        error = sendError instanceof Error ? sendError.message : String(sendError);
+        console.error(`Failed to send newsletter to ${subscriber.email}:`, sendError);
+      }
+
+      // Saving the position renews the lease, but only while this run still holds it
+      cursor = subscriber.id;
+      const renewed = new Date(Date.now() + LEASE_MS);
+      const saved = await prisma.newsletterSend.updateMany({
+        where: { id: sendId, lockedUntil: lease },
+        data: {
+          cursor,
+          lockedUntil: renewed,
+          ...(error ? { failedCount: { increment: 1 }, error } : { sentCount: { increment: 1 } }),
+        },
+      });
+      if (saved.count === 0) {
+        console.error(`Newsletter send ${sendId} was taken over by another run after ${subscriber.email}`);
+        return null;
+      }
+      lease = renewed;
+    }
+  }
+
+  // Out of time - release the lease so the next run carries on right away
+  await prisma.newsletterSend.updateMany({ where: { id: sendId, lockedUntil: lease }, data: { lockedUntil: null } });
+  return "SENDING";
+}
+
+/**
+ * Deliver queued announcements whose post is live, and resume those a
+ * previous run didn't finish, within one run's time
+ * @returns Number of announcements completed
+ */
+export async function processNewsletterQueue(): Promise<number> {
+  const deadline = Date.now() + DELIVERY_TIME_MS;
+  const pending = await prisma.newsletterSend.findMany({
+    where: {
+      OR: [
+        { status: "QUEUED" },
+        { status: "SENDING", OR: [{ lockedUntil: null }, { lockedUntil: { lt: new Date() } }] },
+      ],
+    },
+    orderBy: { createdAt: "asc" },
+    select: { id: true },
+  });
+
+  let delivered = 0;
+  for (const send of pending) {
+    if (Date.now() >= deadline) break;
+    const status = await deliverAnnouncement(send.id, deadline);
+    if (status === "SENT" || status === "FAILED") delivered++;
+  }
+  return delivered;
+}
+
+/**
+ * Filter for the admin subscriber list and CSV export
+ */
+export function getSubscriberWhere(status: string | null, search: string | null): Prisma.SubscriberWhereInput {
+  return {
+    ...(status && (SUBSCRIBER_STATUSES as string[]).includes(status) && { status: status as SubscriberStatus }),
+    ...(search && { email: { contains: search, mode: "insensitive" } }),
+  };
+}
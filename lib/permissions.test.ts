@@ -0,0 +1,92 @@
+import { describe, expect, it } from "vitest";
+import type { UserRole } from "@prisma/client";
+import {
+  canDeletePost,
+  canEditPost,
+  hasPermission,
+  isUserRole,
+  rolesWithPermission,
+  ROLE_PERMISSIONS,
+} from "@/lib/permissions";
+
+const as = (role: UserRole) => ({ id: "me", role });
+
+const ownDraft = { authorId: "me", published: false };
+const ownPublished = { authorId: "me", published: true };
+const othersDraft = { authorId: "someone-else", published: false };
+const othersPublished = { authorId: "someone-else", published: true };
+
+describe("hasPermission", () => {
+  it("follows the role table", () => {
+    expect(hasPermission(as("ADMIN"), "users:manage")).toBe(true);
+    expect(hasPermission(as("EDITOR"), "users:manage")).toBe(false);
+    expect(hasPermission(as("EDITOR"), "posts:review")).toBe(true);
+    expect(hasPermission(as("AUTHOR"), "posts:publish")).toBe(true);
+    expect(hasPermission(as("CONTRIBUTOR"), "posts:publish")).toBe(false);
+    expect(hasPermission(as("USER"), "admin:access")).toBe(false);
+  });
+
+  it("denies users without a role and anonymous visitors", () => {
+    expect(hasPermission({ id: "me" }, "admin:access")).toBe(false);
+    expect(hasPermission(null, "admin:access")).toBe(false);
+    expect(hasPermission(undefined, "admin:access")).toBe(false);
+  });
+
+  it("gives each higher role everything the one below it has", () => {
+    const ladder: UserRole[] = ["CONTRIBUTOR", "AUTHOR", "EDITOR", "ADMIN"];
+    for (let i = 1; i < ladder.length; i++) {
+      expect(ROLE_PERMISSIONS[ladder[i]]).toEqual(expect.arrayContaining(ROLE_PERMISSIONS[ladder[i - 1]]));
+    }
+    expect(ROLE_PERMISSIONS.USER).toEqual([]);
+  });
+});
+
+describe("canEditPost / canDeletePost", () => {
+  const cases: [UserRole, { ownDraft: boolean; ownPublished: boolean; othersDraft: boolean; othersPublished: boolean }][] = [
+    ["ADMIN", { ownDraft: true, ownPublished: true, othersDraft: true, othersPublished: true }],
+    ["EDITOR", { ownDraft: true, ownPublished: true, othersDraft: true, othersPublished: true }],
+    ["AUTHOR", { ownDraft: true, ownPublished: true, othersDraft: false, othersPublished: false }],
+    ["CONTRIBUTOR", { ownDraft: true, ownPublished: false, othersDraft: false, othersPublished: false }],
+    ["USER", { ownDraft: false, ownPublished: false, othersDraft: false, othersPublished: false }],
+  ];
+
+  it.each(cases)("%s", (role, expected) => {
+    const user = as(role);
+    const posts = { ownDraft, ownPublished, othersDraft, othersPublished };
+    for (const [name, post] of Object.entries(posts)) {
+      const allowed = expected[name as keyof typeof expected];
+      expect({ role, post: name, edit: canEditPost(user, post) }).toEqual({ role, post: name, edit: allowed });
+      expect({ role, post: name, delete: canDeletePost(user, post) }).toEqual({ role, post: name, delete: allowed });
+    }
+  });
+
+  it("locks a contributor out of their post once it is published", () => {
+    const contributor = as("CONTRIBUTOR");
+    expect(canEditPost(contributor, ownDraft)).toBe(true);
+    expect(canEditPost(contributor, { ...ownDraft, published: true })).toBe(false);
+    expect(canDeletePost(contributor, { ...ownDraft, published: true })).toBe(false);
+  });
+
+  it("denies anonymous visitors and users without an id", () => {
+    expect(canEditPost(null, ownDraft)).toBe(false);
+    expect(canDeletePost(undefined, ownDraft)).toBe(false);
+    expect(canEditPost({ role: "AUTHOR" }, ownDraft)).toBe(false);
+  });
+});
+
+describe("rolesWithPermission", () => {
+  it("lists every role holding the permission", () => {
+    expect(rolesWithPermission("comments:moderate")).toEqual(["ADMIN", "EDITOR"]);
+    expect(rolesWithPermission("posts:publish")).toEqual(["ADMIN", "EDITOR", "AUTHOR"]);
+    expect(rolesWithPermission("admin:access")).toEqual(["ADMIN", "EDITOR", "AUTHOR", "CONTRIBUTOR"]);
+    expect(rolesWithPermission("users:manage")).toEqual(["ADMIN"]);
+  });
+});
+
+describe("isUserRole", () => {
+  it("accepts only known roles", () => {
+    expect(isUserRole("EDITOR")).toBe(true);
+    expect(isUserRole("editor")).toBe(false);
+    expect(isUserRole(null)).toBe(false);
+  });
+});
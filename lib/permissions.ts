@@ -0,0 +1,122 @@
+import type { UserRole } from "@prisma/client";
+
+/**
+ * Role-based permissions
+ *
+ * Every authorization decision goes through these helpers so the rules live
+ * in one place. Pure and dependency-free, so they run in API routes, the
+ * Edge middleware and client components alike (see lib/authorization.ts for
+ * the server-side session check).
+ *
+ * - ADMIN: everything, including site settings, users and subscribers
+ * - EDITOR: all posts and their review, comments, media, categories/tags
+ *   and announcements
+ * - AUTHOR: writes and publishes their own posts, without review
+ * - CONTRIBUTOR: writes their own drafts; they go through review and
+ *   someone else publishes them
+ * - USER: readers with an account - no admin access
+ */
+
+export type Permission =
+  | "admin:access"
+  | "posts:create"
+  | "posts:edit-own"
+  | "posts:edit-any"
+  | "posts:publish"
+  | "posts:delete-own"
+  | "posts:delete-any"
+  | "posts:announce"
+  | "posts:review"
+  | "comments:moderate"
+  | "media:upload"
+  | "media:manage"
+  | "taxonomy:manage"
+  | "projects:manage"
+  | "settings:manage"
+  | "newsletter:manage"
+  | "users:manage";
+
+const AUTHOR_PERMISSIONS: Permission[] = [
+  "admin:access",
+  "posts:create",
+  "posts:edit-own",
+  "posts:publish",
+  "posts:delete-own",
+  "media:upload",
+];
+
+const EDITOR_PERMISSIONS: Permission[] = [
+  ...AUTHOR_PERMISSIONS,
+  "posts:edit-any",
+  "posts:delete-any",
+  "posts:announce",
+  "posts:review",
+  "comments:moderate",
+  "media:manage",
+  "taxonomy:manage",
+];
+
+export const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  ADMIN: [
+    ...EDITOR_PERMISSIONS,
+    "projects:manage",
+    "settings:manage",
+    "newsletter:manage",
+    "users:manage",
+  ],
+  EDITOR: EDITOR_PERMISSIONS,
+  AUTHOR: AUTHOR_PERMISSIONS,
+  CONTRIBUTOR: ["admin:access", "posts:create", "posts:edit-own", "posts:delete-own", "media:upload"],
+  USER: [],
+};
+
+export const USER_ROLES = Object.keys(ROLE_PERMISSIONS) as UserRole[];
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  ADMIN: "Admin",
+  EDITOR: "Editor",
+  AUTHOR: "Author",
+  CONTRIBUTOR: "Contributor",
+  USER: "Reader",
+};
+
+export function isUserRole(value: unknown): value is UserRole {
+  return typeof value === "string" && (USER_ROLES as string[]).includes(value);
+}
+
+export interface RoleHolder {
+  id?: string;
+  role?: UserRole | null;
+}
+
+export function hasPermission(user: RoleHolder | null | undefined, permission: Permission): boolean {
+  return !!user?.role && ROLE_PERMISSIONS[user.role].includes(permission);
+}
+
+/**
+ * Roles that hold a permission (e.g. to find everyone who moderates comments)
+ */
+export function rolesWithPermission(permission: Permission): UserRole[] {
+  return USER_ROLES.filter((role) => ROLE_PERMISSIONS[role].includes(permission));
+}
+
+interface OwnedPost {
+  authorId: string;
+  published: boolean;
+}
+
+/**
+ * Editors edit anything; authors their own posts; contributors their own
+ * posts only until they are published
+ */
+export function canEditPost(user: RoleHolder | null | undefined, post: OwnedPost): boolean {
+  if (hasPermission(user, "posts:edit-any")) return true;
+  if (!hasPermission(user, "posts:edit-own") || post.authorId !== user?.id) return false;
+  return !post.published || hasPermission(user, "posts:publish");
+}
+
+export function canDeletePost(user: RoleHolder | null | undefined, post: OwnedPost): boolean {
+  if (hasPermission(user, "posts:delete-any")) return true;
+  if (!hasPermission(user, "posts:delete-own") || post.authorId !== user?.id) return false;
+  return !post.published || hasPermission(user, "posts:publish");
+}
@@ -0,0 +1,196 @@
+import { PostActivityType, ReviewStatus } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { getPostStatus } from "@/lib/posts";
+import { rolesWithPermission } from "@/lib/permissions";
+import { WorkflowAction } from "@/lib/workflow";
+import { sendPostWorkflowEmail } from "@/lib/email";
+
+/**
+ * Server side of the editorial workflow (rules live in lib/workflow.ts)
+ *
+ * Every state change is written to the post's activity timeline, and the
+ * people involved get an email: reviewers when a post is submitted, the
+ * author when it is approved, sent back or published. Email failures are
+ * logged and never block the change itself.
+ */
+
+const ACTION_RESULTS: Record<WorkflowAction, { reviewStatus: ReviewStatus; activity: PostActivityType }> = {
+  submit: { reviewStatus: "IN_REVIEW", activity: "SUBMITTED" },
+  withdraw: { reviewStatus: "DRAFT", activity: "WITHDRAWN" },
+  approve: { reviewStatus: "APPROVED", activity: "APPROVED" },
+  request_changes: { reviewStatus: "DRAFT", activity: "CHANGES_REQUESTED" },
+};
+
+// Who hears about each kind of activity (the person who did it never does)
+type Audience = "author" | "reviewer" | "reviewers";
+
+const NOTIFICATIONS: Partial<Record<PostActivityType, { audience: Audience[]; summary: string }>> = {
+  SUBMITTED: { audience: ["reviewers"], summary: "submitted a post for review" },
+  WITHDRAWN: { audience: ["reviewer"], summary: "withdrew a post from review" },
+  REVIEWER_ASSIGNED: { audience: ["reviewer"], summary: "asked you to review a post" },
+  APPROVED: { audience: ["author"], summary: "approved your post" },
+  CHANGES_REQUESTED: { audience: ["author"], summary: "requested changes to your post" },
+  PUBLISHED: { audience: ["author"], summary: "published your post" },
+  SCHEDULED: { audience: ["author"], summary: "scheduled your post" },
+  UNPUBLISHED: { audience: ["author"], summary: "unpublished your post" },
+  REVIEW_COMMENT: { audience: ["author", "reviewer"], summary: "left a review note on a post" },
+};
+
+export const workflowUserSelect = { id: true, name: true, email: true } as const;
+
+function getBaseUrl() {
+  return process.env.NEXTAUTH_URL || "http://localhost:3000";
+}
+
+/**
+ * Everyone who can be assigned as a reviewer
+ */
+export function getReviewers() {
+  return prisma.user.findMany({
+    where: { role: { in: rolesWithPermission("posts:review") } },
+    select: workflowUserSelect,
+    orderBy: { name: "asc" },
+  });
+}
+
+async function notifyActivity(activityId: string) {
+  try {
+    const activity = await prisma.postActivity.findUnique({
+      where: { id: activityId },
+      include: {
+        actor: { select: workflowUserSelect },
+        post: {
+          select: {
+            title: true,
+            slug: true,
+            author: { select: workflowUserSelect },
+            reviewer: { select: workflowUserSelect },
+          },
+        },
+      },
+    });
+    if (!activity) return;
+
+    const notification = NOTIFICATIONS[activity.type];
+    if (!notification) return;
+
+    const { post } = activity;
+    const recipients = new Map<string, string>(); // user ID -> email
+
+    for (const audience of notification.audience) {
+      if (audience === "author") {
+        recipients.set(post.author.id, post.author.email);
+      } else if (audience === "reviewer" && post.reviewer) {
+        recipients.set(post.reviewer.id, post.reviewer.email);
+      } else if (audience === "reviewers") {
+        // An assigned reviewer is the only one who needs to know
+        const reviewers = post.reviewer ? [post.reviewer] : await getReviewers();
+        for (const reviewer of reviewers) recipients.set(reviewer.id, reviewer.email);
+      }
+    }
+    if (activity.actorId) recipients.delete(activity.actorId);
+    if (recipients.size === 0) return;
+
+    const settings = await prisma.siteSettings.findUnique({
+      where: { id: "default" },
+      select: { siteName: true },
+    });
+    const actorName = activity.actor?.name || activity.actor?.email || "Someone";
+
+    for (const to of recipients.values()) {
+      await sendPostWorkflowEmail({
+        to,
+        siteName: settings?.siteName || "IT Blog",
+        summary: `${actorName} ${notification.summary}`,
+        postTitle: post.title,
+        editUrl: `${getBaseUrl()}/admin/posts/${post.slug}/edit`,
+        note: activity.note && activity.type !== "REVIEWER_ASSIGNED"
+          ? { author: actorName, content: activity.note }
+          : null,
+      });
+    }
+  } catch (error) {
+    console.error("Failed to send workflow notification:", error);
+  }
+}
+
+/**
+ * Add an entry to the post's activity timeline and email the people involved
+ */
+export async function logPostActivity(
+  postId: string,
+  actorId: string | null,
+  type: PostActivityType,
+  note: string | null = null
+) {
+  const activity = await prisma.postActivity.create({
+    data: { postId, actorId, type, note },
+  });
+
+  await notifyActivity(activity.id);
+  return activity;
+}
+
+/**
+ * Move a post through the workflow. Callers check canTransition first.
+ * @param note - Optional message, e.g. which changes are needed
+ */
+export async function applyWorkflowAction(
+  postId: string,
+  action: WorkflowAction,
+  actorId: string,
+  note: string | null = null
+) {
+  const { reviewStatus, activity } = ACTION_RESULTS[action];
+
+  const post = await prisma.post.update({
+    where: { id: postId },
+    data: { reviewStatus },
+  });
+
+  await logPostActivity(postId, actorId, activity, note);
+  return post;
+}
+
+/**
+ * Assign (or with null, unassign) the post's reviewer
+ */
+export async function assignReviewer(postId: string, reviewerId: string | null, actorId: string) {
+  const post = await prisma.post.update({
+    where: { id: postId },
+    data: { reviewerId },
+    include: { reviewer: { select: workflowUserSelect } },
+  });
+
+  await logPostActivity(
+    postId,
+    actorId,
+    "REVIEWER_ASSIGNED",
+    post.reviewer ? post.reviewer.name || post.reviewer.email : null
+  );
+  return post;
+}
+
+interface PublishState {
+  published: boolean;
+  scheduledAt: Date | null;
+}
+
+/**
+ * Log publishing, scheduling and unpublishing after a post save
+ */
+export async function logPublishChange(postId: string, before: PublishState | null, after: PublishState, actorId: string) {
+  const now = new Date();
+  const status = getPostStatus(after, now);
+  if (before && getPostStatus(before, now) === status && before.scheduledAt?.getTime() === after.scheduledAt?.getTime()) {
+    return;
+  }
+
+  if (status === "published") {
+    await logPostActivity(postId, actorId, "PUBLISHED");
+  } else if (status === "scheduled") {
+    await logPostActivity(postId, actorId, "SCHEDULED", after.scheduledAt!.toISOString());
+  } else if (before) {
+    await logPostActivity(postId, actorId, "UNPUBLISHED");
+  }
+}
@@ -0,0 +1,74 @@
+import type { Prisma } from "@prisma/client";
+
+/**
+ * Post visibility helpers
+ *
+ * A post is live when it is published and its scheduled time (if any) has
+ * passed. Scheduled posts are stored as published with a future scheduledAt,
+ * so they go live on the first request after that time - no cron needed.
+ */
+
+export type PostStatus = "published" | "scheduled" | "draft";
+
+interface PublishState {
+  published: boolean;
+  scheduledAt: Date | string | null;
+}
+
+/**
+ * Prisma filter for posts that are visible to the public right now
+ */
+export function livePostWhere(now: Date = new Date()): Prisma.PostWhereInput {
+  return {
+    published: true,
+    OR: [{ scheduledAt: null }, { scheduledAt: { lte: now } }],
+  };
+}
+
+/**
+ * Prisma filter for posts waiting for their scheduled time
+ */
+export function scheduledPostWhere(now: Date = new Date()): Prisma.PostWhereInput {
+  return {
+    published: true,
+    scheduledAt: { gt: now },
+  };
+}
+
+/**
+ * Get the display status of a post
+ */
+export function getPostStatus(post: PublishState, now: Date = new Date()): PostStatus {
+  if (!post.published) return "draft";
+  if (post.scheduledAt && new Date(post.scheduledAt) > now) return "scheduled";
+  return "published";
+}
+
+/**
+ * Check if a post is visible to the public right now
+ */
+export function isPostLive(post: PublishState, now: Date = new Date()): boolean {
+  return getPostStatus(post, now) === "published";
+}
+
+/**
+ * Parse a scheduledAt value from a request body
+ * @returns Date, null when cleared, undefined when absent, or "invalid"
+ */
+export function parseScheduledAt(value: unknown): Date | null | undefined | "invalid" {
+  if (value === undefined) return undefined;
+  if (value === null || value === "") return null;
+  if (typeof value !== "string") return "invalid";
+
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? "invalid" : date;
+}
+
+/**
+ * Format a date for a <input type="datetime-local"> in the browser's timezone
+ */
+export function toDateTimeLocal(value: Date | string): string {
+  const date = new Date(value);
+  const offsetMs = date.getTimezoneOffset() * 60 * 1000;
+  return new Date(date.getTime() - offsetMs).toISOString().slice(0, 16);
+}
@@ -0,0 +1,217 @@
+import type { Redis } from "ioredis";
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+
+/**
+ * Pluggable state store for rate limits and view deduplication
+ *
+ * RATE_LIMIT_STORE selects the backend:
+ * - "memory" (default): a Map in this process - resets on restart and isn't
+ *   shared between instances
+ * - "postgres": the rate_limits table, through the existing Prisma connection
+ * - "redis": any Redis-compatible server (Redis, Valkey, KeyDB, ...) at REDIS_URL
+ *
+ * View deduplication must outlive restarts and be shared, or every deploy
+ * and cold start would count returning visitors again. It uses
+ * VIEW_DEDUP_STORE, which defaults to "redis" when that's the rate limit
+ * store and "postgres" otherwise - never to memory.
+ *
+ * Values are small JSON states with an expiry. Each store makes `update`
+ * atomic per key, so concurrent requests on several instances can't both
+ * take the last slot.
+ */
+
+export type RateLimitStoreName = "memory" | "postgres" | "redis";
+
+export interface RateLimitStore {
+  name: RateLimitStoreName;
+  /**
+   * Read a key's state (null if missing or expired), compute the next one and
+   * store it for `ttlMs`, atomically
+   * @returns The `result` part of what `change` returned
+   */
+  update<T, R>(key: string, ttlMs: number, change: (state: T | null) => { state: T; result: R }): Promise<R>;
+  /**
+   * Store a marker for `ttlMs` unless one exists
+   * @returns Whether it was stored (false: already there)
+   */
+  setIfAbsent(key: string, ttlMs: number): Promise<boolean>;
+}
+
+// How often an optimistic update is retried when another request got there first
+const MAX_ATTEMPTS = 10;
+
+// ----- Memory -----
+
+function createMemoryStore(): RateLimitStore {
+  const entries = new Map<string, { state: unknown; expiresAt: number }>();
+
+  // Clean up expired entries periodically (every 5 minutes)
+  if (typeof setInterval !== "undefined") {
+    setInterval(() => {
+      const now = Date.now();
+      for (const [key, entry] of entries.entries()) {
+        if (now > entry.expiresAt) {
+          entries.delete(key);
+        }
+      }
+    }, 5 * 60 * 1000).unref?.();
+  }
+
+  const read = (key: string) => {
+    const entry = entries.get(key);
+    return entry && entry.expiresAt > Date.now() ? entry : null;
+  };
+
+  return {
+    name: "memory",
+
+    // Synchronous between read and write, so atomic within the process
+    async update(key, ttlMs, change) {
+      const { state, result } = change((read(key)?.state ?? null) as Parameters<typeof change>[0]);
+      entries.set(key, { state, expiresAt: Date.now() + ttlMs });
+      return result;
+    },
+
+    async setIfAbsent(key, ttlMs) {
+      if (read(key)) return false;
+      entries.set(key, { state: true, expiresAt: Date.now() + ttlMs });
+      return true;
+    },
+  };
+}
+
+// ----- Postgres -----
+
+function createPostgresStore(): RateLimitStore {
+  // Expired rows are only ignored on read; sweep them out now and then
+  const sweep = () => {
+    if (Math.random() < 0.01) {
+      prisma.rateLimitEntry.deleteMany({ where: { expiresAt: { lt: new Date() } } }).catch((error) => {
+        console.error("Failed to clean up rate limit entries:", error);
+      });
+    }
+  };
+
+  return {
+    name: "postgres",
+
+    // The row lock serializes concurrent updates of the same key
+    async update(key, ttlMs, change) {
+      sweep();
+      return prisma.$transaction(async (tx) => {
+        await tx.$executeRaw`
+          INSERT INTO "rate_limits" ("key", "value", "expiresAt")
+          VALUES (${key}, 'null'::jsonb, to_timestamp(0))
+          ON CONFLICT ("key") DO NOTHING
+        `;
+        const [row] = await tx.$queryRaw<{ value: unknown; expiresAt: Date }[]>`
+          SELECT "value", "expiresAt" FROM "rate_limits" WHERE "key" = ${key} FOR UPDATE
+        `;
+
+        const current = row && row.expiresAt.getTime() > Date.now() ? row.value : null;
+        const { state, result } = change(current as Parameters<typeof change>[0]);
+
+        await tx.rateLimitEntry.update({
+          where: { key },
+          data: { value: state as Prisma.InputJsonValue, expiresAt: new Date(Date.now() + ttlMs) },
+        });
+        return result;
+      });
+    },
+
+    async setIfAbsent(key, ttlMs) {
+      sweep();
+      // Inserts, or takes over an expired row; a live row is left alone
+      const stored = await prisma.$executeRaw`
+        INSERT INTO "rate_limits" ("key", "value", "expiresAt")
+        VALUES (${key}, 'true'::jsonb, ${new Date(Date.now() + ttlMs)})
+        ON CONFLICT ("key") DO UPDATE SET "value" = EXCLUDED."value", "expiresAt" = EXCLUDED."expiresAt"
+        WHERE "rate_limits"."expiresAt" <= now()
+      `;
+      return stored > 0;
+    },
+  };
+}
+
+// ----- Redis -----
+
+// Replace a key only if it still holds what was read ("" = didn't exist)
+const COMPARE_AND_SET = `
+local current = redis.call("GET", KEYS[1])
+if (current == false and ARGV[1] == "") or current == ARGV[1] then
+  redis.call("SET", KEYS[1], ARGV[2], "PX", ARGV[3])
+  return 1
+end
+return 0
+`;
+
+function createRedisStore(): RateLimitStore {
+  const url = process.env.REDIS_URL;
+  if (!url) {
+    throw new Error("REDIS_URL must be set to use the \"redis\" store");
+  }
+
+  // Loaded lazily so installs without Redis never pull in the client
+  const client: Promise<Redis> = import("ioredis").then(
+    ({ Redis }) => new Redis(url, { keyPrefix: "rate-limit:", maxRetriesPerRequest: 2 })
+  );
+
+  return {
+    name: "redis",
+
+    // Optimistic: read, compute, then compare-and-set in one script; retry if the key changed meanwhile
+    async update(key, ttlMs, change) {
+      const redis = await client;
+      for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+        const raw = await redis.get(key);
+        const { state, result } = change(raw === null ? null : JSON.parse(raw));
+        const stored = await redis.eval(COMPARE_AND_SET, 1, key, raw ?? "", JSON.stringify(state), ttlMs);
+        if (stored === 1) return result;
+      }
+      throw new Error(`Rate limit state for ${key} kept changing`);
+    },
+
+    async setIfAbsent(key, ttlMs) {
+      const redis = await client;
+      return (await redis.set(key, "true", "PX", ttlMs, "NX")) === "OK";
+    },
+  };
+}
+
+const stores = new Map<RateLimitStoreName, RateLimitStore>();
+
+function isStoreName(value: string | undefined): value is RateLimitStoreName {
+  return value === "memory" || value === "postgres" || value === "redis";
+}
+
+/**
+ * Get a store (one of each per process)
+ * @param name - Defaults to RATE_LIMIT_STORE, else "memory"
+ */
+export function getRateLimitStore(name?: RateLimitStoreName): RateLimitStore {
+  const envName = process.env.RATE_LIMIT_STORE;
+  const selected = name ?? (isStoreName(envName) ? envName : "memory");
+
+  let store = stores.get(selected);
+  if (!store) {
+    if (selected === "postgres") {
+      store = createPostgresStore();
+    } else if (selected === "redis") {
+      store = createRedisStore();
+    } else {
+      store = createMemoryStore();
+    }
+    stores.set(selected, store);
+  }
+  return store;
+}
+
+/**
+ * The store for counted-visitor markers - shared by default (see above)
+ */
+export function getViewDedupStore(): RateLimitStore {
+  const name = process.env.VIEW_DEDUP_STORE;
+  if (isStoreName(name)) return getRateLimitStore(name);
+  return getRateLimitStore(process.env.RATE_LIMIT_STORE === "redis" ? "redis" : "postgres");
+}
@@ -0,0 +1,134 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("@/lib/prisma", () => ({ prisma: {} }));
+
+import { checkRateLimit, RateLimitConfig } from "@/lib/rate-limit";
+import { getRateLimitStore, getViewDedupStore } from "@/lib/rate-limit-store";
+
+// The start of a one-minute window
+const WINDOW_START = Date.UTC(2025, 0, 1, 12, 0, 0);
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.setSystemTime(WINDOW_START);
+  vi.stubEnv("RATE_LIMIT_STORE", "memory");
+  vi.stubEnv("RATE_LIMIT_ALGORITHM", "");
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllEnvs();
+});
+
+async function attempts(key: string, config: RateLimitConfig, count: number) {
+  const results = [];
+  for (let i = 0; i < count; i++) results.push(await checkRateLimit(key, config));
+  return results;
+}
+
+describe("sliding window", () => {
+  const config: RateLimitConfig = { limit: 3, windowSeconds: 60, algorithm: "sliding-window" };
+
+  it("allows the limit per window, then refuses until it resets", async () => {
+    const results = await attempts("sliding-basic", config, 4);
+    expect(results.map((result) => result.success)).toEqual([true, true, true, false]);
+    expect(results.map((result) => result.remaining)).toEqual([2, 1, 0, 0]);
+    expect(results[3].resetIn).toBe(60);
+  });
+
+  it("still counts the previous window while it overlaps", async () => {
+    await attempts("sliding-overlap", config, 3);
+
+    // A new window, but the previous one's three requests still fully count
+    vi.setSystemTime(WINDOW_START + 60_000);
+    expect((await checkRateLimit("sliding-overlap", config)).success).toBe(false);
+
+    // Halfway through only half of them do
+    vi.setSystemTime(WINDOW_START + 90_000);
+    expect((await checkRateLimit("sliding-overlap", config)).success).toBe(true);
+    expect((await checkRateLimit("sliding-overlap", config)).success).toBe(false);
+
+    // Two windows later nothing is left
+    vi.setSystemTime(WINDOW_START + 180_000);
+    expect((await attempts("sliding-overlap", config, 3)).every((result) => result.success)).toBe(true);
+  });
+
+  it("keeps identifiers apart", async () => {
+    await attempts("sliding-a", config, 3);
+    expect((await checkRateLimit("sliding-b", config)).success).toBe(true);
+  });
+});
+
+describe("token bucket", () => {
+  const config: RateLimitConfig = { limit: 2, windowSeconds: 60, algorithm: "token-bucket" };
+
+  it("allows a burst up to the limit and refills evenly", async () => {
+    const results = await attempts("bucket-basic", config, 3);
+    expect(results.map((result) => result.success)).toEqual([true, true, false]);
+    expect(results.map((result) => result.remaining)).toEqual([1, 0, 0]);
+    expect(results[0].resetIn).toBe(30);
+    // One token comes back every 30 seconds
+    expect(results[2].resetIn).toBe(30);
+
+    vi.setSystemTime(WINDOW_START + 30_000);
+    expect((await checkRateLimit("bucket-basic", config)).success).toBe(true);
+    expect((await checkRateLimit("bucket-basic", config)).success).toBe(false);
+  });
+
+  it("is picked for every limit by RATE_LIMIT_ALGORITHM", async () => {
+    vi.stubEnv("RATE_LIMIT_ALGORITHM", "token-bucket");
+    const config = { limit: 2, windowSeconds: 60 };
+    await attempts("bucket-env", config, 2);
+
+    // A full bucket again, where the sliding window would still count the last one
+    vi.setSystemTime(WINDOW_START + 60_000);
+    const results = await attempts("bucket-env", config, 3);
+    expect(results.map((result) => result.success)).toEqual([true, true, false]);
+  });
+});
+
+describe("memory store", () => {
+  it("stores a marker once until it expires", async () => {
+    const store = getRateLimitStore("memory");
+    expect(await store.setIfAbsent("marker", 1000)).toBe(true);
+    expect(await store.setIfAbsent("marker", 1000)).toBe(false);
+
+    vi.setSystemTime(WINDOW_START + 1001);
+    expect(await store.setIfAbsent("marker", 1000)).toBe(true);
+  });
+
+  it("hands expired state to update as missing", async () => {
+    const store = getRateLimitStore("memory");
+    const change = vi.fn((state: number | null) => ({ state: (state ?? 0) + 1, result: state }));
+
+    expect(await store.update("counter", 1000, change)).toBeNull();
+    expect(await store.update("counter", 1000, change)).toBe(1);
+    vi.setSystemTime(WINDOW_START + 1001);
+    expect(await store.update("counter", 1000, change)).toBeNull();
+  });
+});
+
+describe("store selection", () => {
+  it("uses RATE_LIMIT_STORE for rate limits, defaulting to memory", () => {
+    vi.stubEnv("RATE_LIMIT_STORE", "");
+    expect(getRateLimitStore().name).toBe("memory");
+    vi.stubEnv("RATE_LIMIT_STORE", "postgres");
+    expect(getRateLimitStore().name).toBe("postgres");
+  });
+
+  it("never keeps view dedup markers in memory unless asked to", () => {
+    vi.stubEnv("RATE_LIMIT_STORE", "memory");
+    expect(getViewDedupStore().name).toBe("postgres");
+    vi.stubEnv("RATE_LIMIT_STORE", "");
+    expect(getViewDedupStore().name).toBe("postgres");
+
+    vi.stubEnv("VIEW_DEDUP_STORE", "memory");
+    expect(getViewDedupStore().name).toBe("memory");
+  });
+
+  it("follows the rate limits to Redis", () => {
+    vi.stubEnv("RATE_LIMIT_STORE", "redis");
+    vi.stubEnv("REDIS_URL", "");
+    expect(() => getViewDedupStore()).toThrow('REDIS_URL must be set to use the "redis" store');
+  });
+});
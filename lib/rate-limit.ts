@@ -1,33 +1,28 @@
+import { getRateLimitStore } from "@/lib/rate-limit-store";
+
 /**
- * Simple in-memory rate limiter for API routes
- * For production with multiple instances, use Redis-based solution like @upstash/ratelimit
+ * Rate limiter for API routes
+ *
+ * State lives in the store selected by RATE_LIMIT_STORE (see
+ * lib/rate-limit-store.ts), so limits survive restarts and apply across
+ * instances when it's "postgres" or "redis".
+ *
+ * Two algorithms, chosen per limit or for all through RATE_LIMIT_ALGORITHM:
+ * - "sliding-window" (default): counts this window plus the previous one,
+ *   weighted by how much of it still overlaps - no burst at window edges
+ * - "token-bucket": `limit` tokens that refill evenly over the window -
+ *   allows short bursts up to `limit`
  */
 
-interface RateLimitEntry {
-  count: number;
-  resetTime: number;
-}
-
-// In-memory store (cleared on server restart)
-const rateLimitStore = new Map<string, RateLimitEntry>();
-
-// Clean up expired entries periodically (every 5 minutes)
-if (typeof setInterval !== "undefined") {
-  setInterval(() => {
-    const now = Date.now();
-    for (const [key, entry] of rateLimitStore.entries()) {
-      if (now > entry.resetTime) {
-        rateLimitStore.delete(key);
-      }
-    }
-  }, 5 * 60 * 1000);
-}
+export type RateLimitAlgorithm = "sliding-window" | "token-bucket";
 
 export interface RateLimitConfig {
   /** Maximum number of requests allowed in the window */
   limit: number;
   /** Time window in seconds */
   windowSeconds: number;
+  /** Defaults to RATE_LIMIT_ALGORITHM, else "sliding-window" */
+  algorithm?: RateLimitAlgorithm;
 }
 
 export interface RateLimitResult {
@@ -36,72 +31,94 @@ export interface RateLimitResult {
   resetIn: number; // seconds until reset
 }
 
-/**
- * Check if a request should be rate limited
- * @param identifier - Unique identifier (IP, user ID, etc.)
- * @param config - Rate limit configuration
- */
-export function checkRateLimit(
-  identifier: string,
-  config: RateLimitConfig
-): RateLimitResult {
-  const now = Date.now();
+interface SlidingWindowState {
+  windowStart: number;
+  previous: number;
+  current: number;
+}
+
+interface TokenBucketState {
+  tokens: number;
+  updatedAt: number;
+}
+
+function getAlgorithm(config: RateLimitConfig): RateLimitAlgorithm {
+  return config.algorithm ?? (process.env.RATE_LIMIT_ALGORITHM === "token-bucket" ? "token-bucket" : "sliding-window");
+}
+
+function slidingWindow(state: SlidingWindowState | null, config: RateLimitConfig, now: number) {
   const windowMs = config.windowSeconds * 1000;
-  const key = identifier;
+  const windowStart = Math.floor(now / windowMs) * windowMs;
+
+  let previous = 0;
+  let current = 0;
+  if (state?.windowStart === windowStart) {
+    ({ previous, current } = state);
+  } else if (state?.windowStart === windowStart - windowMs) {
+    previous = state.current;
+  }
 
-  const entry = rateLimitStore.get(key);
+  const elapsed = now - windowStart;
+  const used = previous * (1 - elapsed / windowMs) + current;
+  const resetIn = Math.ceil((windowMs - elapsed) / 1000);
 
-  // If no entry or expired, create new one
-  if (!entry || now > entry.resetTime) {
-    rateLimitStore.set(key, {
-      count: 1,
-      resetTime: now + windowMs,
-    });
+  if (used + 1 > config.limit) {
     return {
-      success: true,
-      remaining: config.limit - 1,
-      resetIn: config.windowSeconds,
+      state: { windowStart, previous, current },
+      result: { success: false, remaining: 0, resetIn },
     };
   }
 
-  // Check if limit exceeded
-  if (entry.count >= config.limit) {
+  return {
+    state: { windowStart, previous, current: current + 1 },
+    result: { success: true, remaining: Math.max(0, Math.floor(config.limit - used - 1)), resetIn },
+  };
+}
+
+function tokenBucket(state: TokenBucketState | null, config: RateLimitConfig, now: number) {
+  const perMs = config.limit / (config.windowSeconds * 1000);
+  const available = state
+    ? Math.min(config.limit, state.tokens + Math.max(0, now - state.updatedAt) * perMs)
+    : config.limit;
+
+  if (available < 1) {
     return {
-      success: false,
-      remaining: 0,
-      resetIn: Math.ceil((entry.resetTime - now) / 1000),
+      state: { tokens: available, updatedAt: now },
+      result: { success: false, remaining: 0, resetIn: Math.ceil((1 - available) / perMs / 1000) },
     };
   }
 
-  // Increment count
-  entry.count++;
-  rateLimitStore.set(key, entry);
-
+  const tokens = available - 1;
   return {
-    success: true,
-    remaining: config.limit - entry.count,
-    resetIn: Math.ceil((entry.resetTime - now) / 1000),
+    state: { tokens, updatedAt: now },
+    // Seconds until the bucket is full again
+    result: { success: true, remaining: Math.floor(tokens), resetIn: Math.ceil((config.limit - tokens) / perMs / 1000) },
   };
 }
 
 /**
- * Get client IP from request headers
+ * Check if a request should be rate limited
+ * @param identifier - Unique identifier (IP, user ID, etc.)
+ * @param config - Rate limit configuration
  */
-export function getClientIp(request: Request): string {
-  // Check various headers for IP (in order of preference)
-  const forwardedFor = request.headers.get("x-forwarded-for");
-  if (forwardedFor) {
-    // x-forwarded-for can contain multiple IPs, take the first one
-    return forwardedFor.split(",")[0].trim();
-  }
+export async function checkRateLimit(
+  identifier: string,
+  config: RateLimitConfig
+): Promise<RateLimitResult> {
+  const store = getRateLimitStore();
+  const windowMs = config.windowSeconds * 1000;
 
-  const realIp = request.headers.get("x-real-ip");
-  if (realIp) {
-    return realIp;
+  if (getAlgorithm(config) === "token-bucket") {
+    // An untouched bucket is full after one window, so the state can expire then
+    return store.update<TokenBucketState, RateLimitResult>(`token-bucket:${identifier}`, windowMs, (state) =>
+      tokenBucket(state, config, Date.now())
+    );
   }
 
-  // Fallback for local development
-  return "127.0.0.1";
+  // The previous window still counts during the current one
+  return store.update<SlidingWindowState, RateLimitResult>(`sliding-window:${identifier}`, 2 * windowMs, (state) =>
+    slidingWindow(state, config, Date.now())
+  );
 }
 
 /**
@@ -112,8 +129,12 @@ export const RATE_LIMITS = {
   comments: { limit: 10, windowSeconds: 60 },
   // Likes: 30 per minute per user (fast toggling)
   likes: { limit: 30, windowSeconds: 60 },
+  // Newsletter signups: 5 per minute per IP
+  newsletter: { limit: 5, windowSeconds: 60 },
   // Auth attempts: 5 per minute per IP
   auth: { limit: 5, windowSeconds: 60 },
+  // Reading beacons: 30 per minute per IP (a few per page view)
+  beacons: { limit: 30, windowSeconds: 60 },
   // General API: 100 per minute per IP
   general: { limit: 100, windowSeconds: 60 },
 } as const;
@@ -0,0 +1,63 @@
+import { prisma } from "@/lib/prisma";
+
+interface RevisionSnapshot {
+  id: string; // post ID
+  title: string;
+  excerpt: string | null;
+  content: string;
+}
+
+/**
+ * Snapshot a post's title, excerpt and content as a new revision
+ *
+ * Skips the snapshot when nothing changed since the latest revision
+ * (e.g. a save that only touched tags or the publish state).
+ * @param post - Post state to record (after the save)
+ * @param authorId - User who made the save
+ */
+export async function recordRevision(post: RevisionSnapshot, authorId: string | null) {
+  const latest = await prisma.postRevision.findFirst({
+    where: { postId: post.id },
+    orderBy: { createdAt: "desc" },
+    select: { title: true, excerpt: true, content: true },
+  });
+
+  if (
+    latest &&
+    latest.title === post.title &&
+    (latest.excerpt || null) === (post.excerpt || null) &&
+    latest.content === post.content
+  ) {
+    return null;
+  }
+
+  return prisma.postRevision.create({
+    data: {
+      postId: post.id,
+      title: post.title,
+      excerpt: post.excerpt,
+      content: post.content,
+      authorId,
+    },
+  });
+}
+
+/**
+ * Record the pre-save state of posts created before revision history existed,
+ * so their original content is not lost on the first edit
+ */
+export async function ensureBaselineRevision(post: RevisionSnapshot & { authorId: string; updatedAt: Date }) {
+  const count = await prisma.postRevision.count({ where: { postId: post.id } });
+  if (count > 0) return;
+
+  await prisma.postRevision.create({
+    data: {
+      postId: post.id,
+      title: post.title,
+      excerpt: post.excerpt,
+      content: post.content,
+      authorId: post.authorId,
+      createdAt: post.updatedAt,
+    },
+  });
+}
@@ -8,6 +8,10 @@ const TRUSTED_IFRAME_HOSTS = [
   "player.vimeo.com",
 ];
 
+// Heading anchors (see lib/headings.ts) are the only ids content may carry
+const ANCHOR_TAGS = ["h2", "h3", "h4"];
+const ANCHOR_ID_REGEX = /^[\p{L}\p{N}]+(?:-[\p{L}\p{N}]+)*$/u;
+
 /**
  * Sanitizes HTML content to prevent XSS attacks
  * Allows safe HTML tags while stripping dangerous scripts
@@ -41,6 +45,7 @@ export function sanitizeHtml(html: string): string {
       "src", "alt", "width", "height",
       "class",
       "title",
+      "id", // heading anchors only - enforced by hook below
       // "style" removed to prevent CSS injection attacks
       "allow", "allowfullscreen", "frameborder",
     ],
@@ -70,7 +75,19 @@ export function sanitizeHtml(html: string): string {
     }
   });
 
-  // Re-sanitize with hook
+  // Additional hook: ids only on headings, in the slug format lib/headings.ts
+  // produces. Headings can't clobber document properties, so ids like "title"
+  // skip DOMPurify's clobbering check (which would otherwise drop them).
+  DOMPurify.addHook("uponSanitizeAttribute", (node, data) => {
+    if (data.attrName !== "id") return;
+    if (ANCHOR_TAGS.includes(node.nodeName.toLowerCase()) && ANCHOR_ID_REGEX.test(data.attrValue)) {
+      data.forceKeepAttr = true;
+    } else {
+      data.keepAttr = false;
+    }
+  });
+
+  // Re-sanitize with hooks
   clean = DOMPurify.sanitize(html, config);
 
   // Remove the hook to avoid affecting other sanitize calls
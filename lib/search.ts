@@ -0,0 +1,168 @@
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+
+/**
+ * PostgreSQL full-text search over posts and projects
+ *
+ * Documents are built on the fly from the existing columns (no extra
+ * tsvector column to keep in sync). Run `npm run db:setup-search` to create
+ * a GIN index on the same expression so large blogs stay fast.
+ */
+
+// Text search configuration used for both documents and queries
+const SEARCH_CONFIG = Prisma.raw("'english'::regconfig");
+
+// Markers wrapped around matches by ts_headline, replaced after escaping
+const MATCH_START = "\u0002";
+const MATCH_END = "\u0003";
+
+const HEADLINE_OPTIONS = `StartSel=${MATCH_START}, StopSel=${MATCH_END}, MaxWords=35, MinWords=15, MaxFragments=2, FragmentDelimiter=" … "`;
+
+// Post content is stored as HTML - strip tags before indexing
+const POST_PLAIN_CONTENT = Prisma.sql`regexp_replace(p."content", '<[^>]+>', ' ', 'g')`;
+
+// Weighted post document: title (A) > excerpt (B) > content (C)
+// Must stay in sync with the index created by prisma/setup-search.ts
+export const POST_SEARCH_DOCUMENT = Prisma.sql`(
+  setweight(to_tsvector(${SEARCH_CONFIG}, coalesce(p."title", '')), 'A') ||
+  setweight(to_tsvector(${SEARCH_CONFIG}, coalesce(p."excerpt", '')), 'B') ||
+  setweight(to_tsvector(${SEARCH_CONFIG}, ${POST_PLAIN_CONTENT}), 'C')
+)`;
+
+// Weighted project document: title (A) > technologies (B) > description (C)
+const PROJECT_SEARCH_DOCUMENT = Prisma.sql`(
+  setweight(to_tsvector(${SEARCH_CONFIG}, coalesce(pr."title", '')), 'A') ||
+  setweight(to_tsvector(${SEARCH_CONFIG}, array_to_string(pr."technologies", ' ')), 'B') ||
+  setweight(to_tsvector(${SEARCH_CONFIG}, coalesce(pr."description", '')), 'C')
+)`;
+
+export type SearchType = "all" | "posts" | "projects";
+
+export interface PostSearchResult {
+  type: "post";
+  id: string;
+  title: string;
+  slug: string;
+  excerpt: string | null;
+  coverImage: string | null;
+  publishedAt: Date | null;
+  createdAt: Date;
+  rank: number;
+  /** HTML-escaped snippet with matches wrapped in <mark> */
+  highlight: string;
+}
+
+export interface ProjectSearchResult {
+  type: "project";
+  id: string;
+  title: string;
+  slug: string;
+  imageUrl: string | null;
+  technologies: string[];
+  rank: number;
+  /** HTML-escaped snippet with matches wrapped in <mark> */
+  highlight: string;
+}
+
+export interface SearchResults {
+  posts: PostSearchResult[];
+  projects: ProjectSearchResult[];
+}
+
+interface SearchOptions {
+  type?: SearchType;
+  limit?: number;
+}
+
+/**
+ * Decodes the handful of entities TipTap emits so snippets read naturally
+ */
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&nbsp;/g, " ")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, "&");
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+/**
+ * Turns a raw ts_headline fragment into safe HTML with <mark> highlights
+ */
+export function formatHighlight(headline: string): string {
+  const escaped = escapeHtml(decodeEntities(headline).replace(/\s+/g, " ").trim());
+  return escaped
+    .split(MATCH_START).join("<mark>")
+    .split(MATCH_END).join("</mark>");
+}
+
+async function searchPosts(query: string, limit: number): Promise<PostSearchResult[]> {
+  const rows = await prisma.$queryRaw<Omit<PostSearchResult, "type">[]>`
+    SELECT
+      p."id", p."title", p."slug", p."excerpt", p."coverImage", p."publishedAt", p."createdAt",
+      ts_rank(${POST_SEARCH_DOCUMENT}, q.query)::float AS "rank",
+      ts_headline(
+        ${SEARCH_CONFIG},
+        coalesce(p."excerpt", '') || ' ' || ${POST_PLAIN_CONTENT},
+        q.query,
+        ${HEADLINE_OPTIONS}
+      ) AS "highlight"
+    FROM "posts" p, websearch_to_tsquery(${SEARCH_CONFIG}, ${query}) AS q(query)
+    WHERE p."published" = true
+      AND (p."scheduledAt" IS NULL OR p."scheduledAt" <= now())
+      AND ${POST_SEARCH_DOCUMENT} @@ q.query
+    ORDER BY "rank" DESC, p."publishedAt" DESC NULLS LAST
+    LIMIT ${limit}
+  `;
+
+  return rows.map((row) => ({
+    ...row,
+    type: "post" as const,
+    highlight: formatHighlight(row.highlight),
+  }));
+}
+
+async function searchProjects(query: string, limit: number): Promise<ProjectSearchResult[]> {
+  const rows = await prisma.$queryRaw<Omit<ProjectSearchResult, "type">[]>`
+    SELECT
+      pr."id", pr."title", pr."slug", pr."imageUrl", pr."technologies",
+      ts_rank(${PROJECT_SEARCH_DOCUMENT}, q.query)::float AS "rank",
+      ts_headline(${SEARCH_CONFIG}, pr."description", q.query, ${HEADLINE_OPTIONS}) AS "highlight"
+    FROM "projects" pr, websearch_to_tsquery(${SEARCH_CONFIG}, ${query}) AS q(query)
+    WHERE ${PROJECT_SEARCH_DOCUMENT} @@ q.query
+    ORDER BY "rank" DESC, pr."featured" DESC, pr."order" ASC
+    LIMIT ${limit}
+  `;
+
+  return rows.map((row) => ({
+    ...row,
+    type: "project" as const,
+    highlight: formatHighlight(row.highlight),
+  }));
+}
+
+/**
+ * Search published posts and projects, ranked by relevance
+ * @param query - Free-text query (supports quotes, OR and -exclusions)
+ */
+export async function search(
+  query: string,
+  { type = "all", limit = 10 }: SearchOptions = {}
+): Promise<SearchResults> {
+  const [posts, projects] = await Promise.all([
+    type === "projects" ? Promise.resolve([]) : searchPosts(query, limit),
+    type === "posts" ? Promise.resolve([]) : searchProjects(query, limit),
+  ]);
+
+  return { posts, projects };
+}
@@ -0,0 +1,120 @@
+import type { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { livePostWhere } from "@/lib/posts";
+
+/**
+ * Post series
+ *
+ * A post belongs to at most one series (Post.seriesId) and is ordered by
+ * Post.seriesPosition. Positions only need to sort correctly - gaps and
+ * drafts don't show up for readers, because the "Part N of M" numbers are
+ * counted over the series' live posts.
+ */
+
+export const seriesPostOrder: Prisma.PostOrderByWithRelationInput[] = [
+  { seriesPosition: "asc" },
+  { createdAt: "asc" },
+];
+
+export interface SeriesNavigation {
+  series: { id: string; title: string; slug: string };
+  part: number;
+  total: number;
+  previous: { title: string; slug: string } | null;
+  next: { title: string; slug: string } | null;
+}
+
+/**
+ * Parse a seriesPosition value from a request body
+ * @returns Position, null when cleared, undefined when absent, or "invalid"
+ */
+export function parseSeriesPosition(value: unknown): number | null | undefined | "invalid" {
+  if (value === undefined) return undefined;
+  if (value === null || value === "") return null;
+
+  const position = Number(value);
+  return Number.isInteger(position) && position > 0 ? position : "invalid";
+}
+
+/**
+ * Check a seriesId from a request body before it's saved, so an unknown or
+ * deleted series is a 400 rather than a foreign key error
+ */
+export async function seriesExists(seriesId: unknown): Promise<boolean> {
+  if (typeof seriesId !== "string") return false;
+  const series = await prisma.series.findUnique({ where: { id: seriesId }, select: { id: true } });
+  return !!series;
+}
+
+/**
+ * Position that puts a post at the end of the series
+ */
+export async function nextSeriesPosition(seriesId: string) {
+  const last = await prisma.post.aggregate({
+    where: { seriesId },
+    _max: { seriesPosition: true },
+  });
+  return (last._max.seriesPosition ?? 0) + 1;
+}
+
+/**
+ * "Part N of M" with previous/next links for a live post in a series
+ * @returns null when the post isn't in a series or isn't live
+ */
+export async function getSeriesNavigation(post: { id: string; seriesId: string | null }): Promise<SeriesNavigation | null> {
+  if (!post.seriesId) return null;
+
+  const series = await prisma.series.findUnique({
+    where: { id: post.seriesId },
+    select: {
+      id: true,
+      title: true,
+      slug: true,
+      posts: {
+        where: livePostWhere(),
+        select: { id: true, title: true, slug: true },
+        orderBy: seriesPostOrder,
+      },
+    },
+  });
+  if (!series) return null;
+
+  const index = series.posts.findIndex((part) => part.id === post.id);
+  if (index === -1) return null;
+
+  const toLink = (part?: { title: string; slug: string }) =>
+    part ? { title: part.title, slug: part.slug } : null;
+
+  return {
+    series: { id: series.id, title: series.title, slug: series.slug },
+    part: index + 1,
+    total: series.posts.length,
+    previous: toLink(series.posts[index - 1]),
+    next: toLink(series.posts[index + 1]),
+  };
+}
+
+/**
+ * Renumber a series in the given order. Posts not listed keep their
+ * relative order after the listed ones.
+ */
+export async function reorderSeries(seriesId: string, postIds: string[]) {
+  const posts = await prisma.post.findMany({
+    where: { seriesId },
+    select: { id: true },
+    orderBy: seriesPostOrder,
+  });
+
+  const known = new Set(posts.map((post) => post.id));
+  const listed = postIds.filter((id) => known.has(id));
+  const ordered = [...new Set(listed), ...posts.map((post) => post.id).filter((id) => !listed.includes(id))];
+
+  await prisma.$transaction(
+    ordered.map((id, index) =>
+      prisma.post.update({
+        where: { id },
+        data: { seriesPosition: index + 1 },
+      })
+    )
+  );
+}
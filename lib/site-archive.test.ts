@@ -0,0 +1,244 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { strToU8, zipSync } from "fflate";
+
+const { prisma, storeRestoredMedia, deleteMediaFiles } = vi.hoisted(() => {
+  const model = () => ({
+    findMany: vi.fn(),
+    findUnique: vi.fn(),
+    create: vi.fn(),
+    createMany: vi.fn(),
+    deleteMany: vi.fn(),
+    upsert: vi.fn(),
+  });
+  return {
+    prisma: {
+      user: model(),
+      media: model(),
+      category: model(),
+      tag: model(),
+      series: model(),
+      post: model(),
+      tagsOnPosts: model(),
+      postRevision: model(),
+      comment: model(),
+      projectCategory: model(),
+      project: model(),
+      siteSettings: model(),
+      $transaction: vi.fn(),
+    },
+    storeRestoredMedia: vi.fn(),
+    deleteMediaFiles: vi.fn(),
+  };
+});
+vi.mock("@/lib/prisma", () => ({ prisma }));
+vi.mock("@/lib/media", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/media")>()),
+  storeRestoredMedia,
+  deleteMediaFiles,
+}));
+
+import { ARCHIVE_FORMAT, ARCHIVE_VERSION, readSiteArchive, restoreSiteArchive, SiteArchive } from "@/lib/site-archive";
+
+const PNG = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0, 0, 0x0d, 0x49, 0x48, 0x44, 0x52]);
+
+const oldMedia = {
+  id: "media-old",
+  storage: "local",
+  storageKey: "2024/01/photo.png",
+  url: "/uploads/2024/01/photo.png",
+  variants: null,
+};
+
+function archive(overrides: Partial<SiteArchive> = {}): SiteArchive {
+  return {
+    format: ARCHIVE_FORMAT,
+    version: ARCHIVE_VERSION,
+    exportedAt: "2025-01-01T00:00:00.000Z",
+    users: [{ id: "user-1", email: "Writer@Example.com", name: "Writer" }],
+    settings: null,
+    categories: [],
+    tags: [{ id: "tag-1", name: "Tips", slug: "tips" }],
+    series: [],
+    posts: [
+      {
+        id: "post-1",
+        title: "Hello",
+        slug: "hello",
+        content: '<p><img src="/uploads/2024/01/photo.png"></p>',
+        authorId: "user-1",
+        published: true,
+        createdAt: "2025-01-01T00:00:00.000Z",
+        updatedAt: "2025-01-01T00:00:00.000Z",
+        tagIds: ["tag-1"],
+      },
+    ],
+    revisions: [],
+    comments: [],
+    projectCategories: [],
+    projects: [],
+    media: [
+      {
+        id: "media-1",
+        storageKey: oldMedia.storageKey,
+        storage: "local",
+        url: oldMedia.url,
+        filename: "photo.png",
+        mimeType: "image/png",
+        size: PNG.length,
+        createdAt: "2025-01-01T00:00:00.000Z",
+        file: "media/photo.png",
+      },
+    ],
+    ...overrides,
+  };
+}
+
+const toBuffer = (value: unknown) => strToU8(JSON.stringify(value));
+
+beforeEach(() => {
+  for (const model of Object.values(prisma)) {
+    if (typeof model === "function") continue;
+    model.findMany.mockReset().mockResolvedValue([]);
+    model.findUnique.mockReset().mockResolvedValue(null);
+    for (const method of [model.create, model.createMany, model.deleteMany, model.upsert]) method.mockReset();
+  }
+  prisma.user.findMany.mockResolvedValue([{ id: "site-user", email: "writer@example.com" }]);
+  prisma.media.findMany.mockResolvedValue([oldMedia]);
+  prisma.$transaction.mockReset().mockImplementation((run: (tx: typeof prisma) => Promise<unknown>) => run(prisma));
+
+  storeRestoredMedia.mockReset().mockImplementation(async (input: { id: string; storageKey: string }) => ({
+    id: input.id,
+    storage: "local",
+    storageKey: input.storageKey,
+    url: `/uploads/${input.storageKey}`,
+    variants: null,
+  }));
+  deleteMediaFiles.mockReset().mockResolvedValue(undefined);
+});
+
+describe("readSiteArchive", () => {
+  it("reads a bare site.json", () => {
+    const result = readSiteArchive(toBuffer(archive()));
+    expect(result).toEqual({ archive: archive(), files: {} });
+  });
+
+  it("reads a ZIP with the media files", () => {
+    const zip = zipSync({ "site.json": toBuffer(archive()), "media/photo.png": PNG, "other.txt": strToU8("ignored") });
+    const result = readSiteArchive(zip);
+    if ("error" in result) throw new Error(result.error);
+    expect(Object.keys(result.files).sort()).toEqual(["media/photo.png", "site.json"]);
+    expect(result.archive.posts[0].slug).toBe("hello");
+  });
+
+  it("rejects a ZIP without site.json and files that aren't JSON", () => {
+    expect(readSiteArchive(zipSync({ "media/photo.png": PNG }))).toEqual({ error: "The ZIP file has no site.json" });
+    expect(readSiteArchive(strToU8("not json"))).toEqual({ error: "The archive is not valid JSON" });
+  });
+
+  it("rejects other documents and newer format versions", () => {
+    expect(readSiteArchive(toBuffer({ ...archive(), format: "other" }))).toEqual({ error: "Not a site export archive" });
+    expect(readSiteArchive(toBuffer({ ...archive(), version: ARCHIVE_VERSION + 1 }))).toEqual({
+      error: expect.stringContaining(`format version ${ARCHIVE_VERSION + 1}`),
+    });
+  });
+
+  it("names the first record with a missing or mistyped column", () => {
+    const [post] = archive().posts;
+    expect(readSiteArchive(toBuffer(archive({ posts: [{ ...post, title: 42 }] })))).toEqual({
+      error: 'The archive\'s "posts" section is invalid: entry 1 has a bad "title"',
+    });
+    expect(readSiteArchive(toBuffer(archive({ posts: [{ ...post, tagIds: "tag-1" as unknown as string[] }] })))).toEqual({
+      error: 'The archive\'s "posts" section is invalid: entry 1 has a bad "tagIds"',
+    });
+    expect(readSiteArchive(toBuffer(archive({ posts: [{ ...post, reviewStatus: "LOST" }] })))).toEqual({
+      error: 'The archive\'s "posts" section is invalid: entry 1 has a bad "reviewStatus"',
+    });
+    const { slug: _slug, ...withoutSlug } = post;
+    expect(readSiteArchive(toBuffer(archive({ posts: [withoutSlug as typeof post] })))).toEqual({
+      error: 'The archive\'s "posts" section is invalid: entry 1 has a bad "slug"',
+    });
+  });
+
+  it("rejects a section that isn't a list", () => {
+    expect(readSiteArchive(toBuffer({ ...archive(), tags: {} }))).toEqual({ error: 'The archive\'s "tags" section is invalid' });
+  });
+});
+
+describe("restoreSiteArchive", () => {
+  const files = { "media/photo.png": PNG };
+
+  it("replaces content and media, deleting old files only after the commit", async () => {
+    const report = await restoreSiteArchive(archive(), files, "replace", "admin");
+
+    // The old file is still in use until the transaction commits, so the new one gets its own key
+    const [stored] = storeRestoredMedia.mock.calls[0];
+    expect(stored.storageKey).not.toBe(oldMedia.storageKey);
+    expect(stored.storageKey).toMatch(/^\d{4}\/\d{2}\/[0-9a-f]{16}-photo\.png$/);
+
+    expect(prisma.media.deleteMany).toHaveBeenCalled();
+    expect(deleteMediaFiles).toHaveBeenCalledTimes(1);
+    expect(deleteMediaFiles).toHaveBeenCalledWith(oldMedia);
+    expect(deleteMediaFiles.mock.invocationCallOrder[0]).toBeGreaterThan(prisma.$transaction.mock.invocationCallOrder[0]);
+
+    // Authors are matched by email and media URLs follow the new key
+    const [{ data: posts }] = prisma.post.createMany.mock.calls[0];
+    expect(posts[0]).toMatchObject({ authorId: "site-user", content: `<p><img src="/uploads/${stored.storageKey}"></p>` });
+    expect(prisma.tagsOnPosts.createMany).toHaveBeenCalledWith({
+      data: [{ postId: "post-1", tagId: "tag-1" }],
+      skipDuplicates: true,
+    });
+
+    expect(report.created).toMatchObject({ posts: 1, tags: 1, media: 1 });
+  });
+
+  it("sanitizes post and revision content from the archive", async () => {
+    const malicious = '<h2>Intro</h2><script>alert(1)</script><img src="x" onerror="alert(2)">';
+    const [post] = archive().posts;
+    const tampered = archive({
+      posts: [{ ...post, content: malicious }],
+      revisions: [{ id: "revision-1", postId: "post-1", title: "Hello", content: malicious, createdAt: "2025-01-01T00:00:00.000Z" }],
+    });
+
+    await restoreSiteArchive(tampered, {}, "merge", "admin");
+
+    const [{ data: posts }] = prisma.post.createMany.mock.calls[0];
+    const [{ data: revisions }] = prisma.postRevision.createMany.mock.calls[0];
+    for (const { content } of [posts[0], revisions[0]]) {
+      expect(content).not.toMatch(/<script|onerror/i);
+      expect(content).toContain('<h2 id="intro">Intro</h2>');
+      expect(content).toContain('<img src="x">');
+    }
+  });
+
+  it("removes the files it wrote and keeps the old ones when the transaction fails", async () => {
+    prisma.post.createMany.mockRejectedValue(new Error("constraint failed"));
+
+    await expect(restoreSiteArchive(archive(), files, "replace", "admin")).rejects.toThrow("constraint failed");
+
+    const [stored] = storeRestoredMedia.mock.calls[0];
+    expect(deleteMediaFiles).toHaveBeenCalledTimes(1);
+    expect(deleteMediaFiles).toHaveBeenCalledWith(expect.objectContaining({ storageKey: stored.storageKey }));
+  });
+
+  it("leaves the media library alone when replacing from an archive without files", async () => {
+    const report = await restoreSiteArchive(archive(), {}, "replace", "admin");
+
+    expect(prisma.media.deleteMany).not.toHaveBeenCalled();
+    expect(storeRestoredMedia).not.toHaveBeenCalled();
+    expect(deleteMediaFiles).not.toHaveBeenCalled();
+    expect(report.skipped.media).toBe(1);
+    expect(report.warnings).toContain("The archive has no media files, so the media library was left as it is");
+  });
+
+  it("merges around what the site already has", async () => {
+    prisma.post.findMany.mockResolvedValue([{ id: "existing-post", slug: "hello" }]);
+    prisma.tag.findMany.mockResolvedValue([{ id: "existing-tag", name: "Tips", slug: "tips" }]);
+
+    const report = await restoreSiteArchive(archive(), files, "merge", "admin");
+
+    expect(prisma.post.deleteMany).not.toHaveBeenCalled();
+    expect(storeRestoredMedia).not.toHaveBeenCalled();
+    expect(report.created).toMatchObject({ posts: 0, tags: 0, media: 0 });
+    expect(report.skipped).toMatchObject({ posts: 1, tags: 1, media: 1 });
+  });
+});
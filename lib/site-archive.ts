@@ -0,0 +1,676 @@
+import { strFromU8, strToU8, unzipSync, zipSync, Zippable } from "fflate";
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { getStorage } from "@/lib/storage";
+import { commentContentHash } from "@/lib/spam";
+import { sanitizeHtml } from "@/lib/sanitize";
+import { addHeadingIds } from "@/lib/headings";
+import { buildStorageKey, ALLOWED_IMAGE_TYPES, deleteMediaFiles, storeRestoredMedia, validateImageUpload } from "@/lib/media";
+
+/**
+ * Full site export and restore
+ *
+ * The archive is one JSON document (see docs/export-format.md), either on its
+ * own or as site.json inside a ZIP next to the original media files. Records
+ * keep their IDs and every scalar column, so a restore into an empty site
+ * reproduces it exactly. Users are not exported - authors are matched by
+ * email on restore and fall back to the admin restoring.
+ *
+ * - replace: wipes content (and the media library, when the archive has the
+ *   files) and restores everything from the archive
+ * - merge: adds what's missing. Categories, tags, series and project
+ *   categories with the same slug are reused; posts and projects whose slug
+ *   is taken are skipped, along with their revisions and comments.
+ *
+ * Every record is type-checked against the schema before anything changes,
+ * post and revision content is sanitized like any other save, and all
+ * database writes happen in one transaction. Media files are written
+ * to storage first under fresh keys where the old ones are still in use, and
+ * removed again if the transaction fails; the files of replaced media are
+ * only deleted once it has committed.
+ */
+
+export const ARCHIVE_FORMAT = "blog-portal-export";
+
+// Bump when a change would make older readers misread an archive
+export const ARCHIVE_VERSION = 1;
+
+const ARCHIVE_ENTRY = "site.json";
+const MEDIA_DIR = "media/";
+
+// Storage keys as lib/media.ts builds them - nothing that could escape the upload root
+const STORAGE_KEY_REGEX = /^[a-z0-9][a-z0-9._-]*(?:\/[a-z0-9][a-z0-9._-]*)*$/i;
+
+export type RestoreMode = "merge" | "replace";
+
+export const RESTORE_MODES: RestoreMode[] = ["merge", "replace"];
+
+type ArchiveRecord = { id: string } & Record<string, unknown>;
+
+export interface SiteArchive {
+  format: typeof ARCHIVE_FORMAT;
+  version: number;
+  exportedAt: string;
+  /** People referenced by the content (authors, commenters, uploaders) */
+  users: { id: string; email: string; name: string | null }[];
+  settings: Record<string, unknown> | null;
+  categories: ArchiveRecord[];
+  tags: ArchiveRecord[];
+  series: ArchiveRecord[];
+  posts: (ArchiveRecord & { tagIds: string[] })[];
+  revisions: ArchiveRecord[];
+  comments: ArchiveRecord[];
+  projectCategories: ArchiveRecord[];
+  projects: ArchiveRecord[];
+  /** `file` is the ZIP entry holding the original, or null when not included */
+  media: (ArchiveRecord & { file: string | null })[];
+}
+
+export const ARCHIVE_COLLECTIONS = [
+  "categories",
+  "tags",
+  "series",
+  "posts",
+  "revisions",
+  "comments",
+  "projectCategories",
+  "projects",
+  "media",
+] as const;
+
+export type ArchiveCollection = (typeof ARCHIVE_COLLECTIONS)[number];
+
+export interface RestoreReport {
+  mode: RestoreMode;
+  created: Record<ArchiveCollection, number>;
+  skipped: Record<ArchiveCollection, number>;
+  settingsRestored: boolean;
+  warnings: string[];
+}
+
+// Prisma model behind each record type, for validation
+const MODELS: Record<ArchiveCollection | "settings", Prisma.ModelName> = {
+  settings: "SiteSettings",
+  categories: "Category",
+  tags: "Tag",
+  series: "Series",
+  posts: "Post",
+  revisions: "PostRevision",
+  comments: "Comment",
+  projectCategories: "ProjectCategory",
+  projects: "Project",
+  media: "Media",
+};
+
+// Columns carried for each record type - every scalar, so new columns travel too
+const FIELDS = {
+  settings: Object.values(Prisma.SiteSettingsScalarFieldEnum).filter((field) => field !== "id" && field !== "updatedAt"),
+  categories: Object.values(Prisma.CategoryScalarFieldEnum),
+  tags: Object.values(Prisma.TagScalarFieldEnum),
+  series: Object.values(Prisma.SeriesScalarFieldEnum),
+  posts: Object.values(Prisma.PostScalarFieldEnum),
+  revisions: Object.values(Prisma.PostRevisionScalarFieldEnum),
+  comments: Object.values(Prisma.CommentScalarFieldEnum),
+  projectCategories: Object.values(Prisma.ProjectCategoryScalarFieldEnum),
+  projects: Object.values(Prisma.ProjectScalarFieldEnum),
+  media: Object.values(Prisma.MediaScalarFieldEnum),
+};
+
+function pick(record: object, fields: readonly string[]): Record<string, unknown> {
+  const values = record as Record<string, unknown>;
+  return Object.fromEntries(fields.filter((field) => field in values).map((field) => [field, values[field]]));
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+export function isRestoreMode(value: unknown): value is RestoreMode {
+  return typeof value === "string" && (RESTORE_MODES as string[]).includes(value);
+}
+
+/**
+ * Collect everything worth backing up
+ * @param mediaFiles - ZIP entry name per media ID, for archives that carry the files
+ */
+export async function buildSiteArchive(mediaFiles: Map<string, string> = new Map()): Promise<SiteArchive> {
+  const [settings, categories, tags, series, posts, revisions, comments, projectCategories, projects, media] =
+    await Promise.all([
+      prisma.siteSettings.findUnique({ where: { id: "default" } }),
+      prisma.category.findMany({ orderBy: { createdAt: "asc" } }),
+      prisma.tag.findMany({ orderBy: { name: "asc" } }),
+      prisma.series.findMany({ orderBy: { createdAt: "asc" } }),
+      prisma.post.findMany({ include: { tags: { select: { tagId: true } } }, orderBy: { createdAt: "asc" } }),
+      prisma.postRevision.findMany({ orderBy: { createdAt: "asc" } }),
+      prisma.comment.findMany({ orderBy: { createdAt: "asc" } }),
+      prisma.projectCategory.findMany({ orderBy: { order: "asc" } }),
+      prisma.project.findMany({ orderBy: { order: "asc" } }),
+      prisma.media.findMany({ orderBy: { createdAt: "asc" } }),
+    ]);
+
+  const userIds = new Set<string>();
+  for (const post of posts) {
+    userIds.add(post.authorId);
+    if (post.reviewerId) userIds.add(post.reviewerId);
+  }
+  for (const item of [...revisions, ...media]) {
+    const id = "uploadedById" in item ? item.uploadedById : item.authorId;
+    if (id) userIds.add(id);
+  }
+  for (const comment of comments) {
+    if (comment.userId) userIds.add(comment.userId);
+  }
+
+  const users = await prisma.user.findMany({
+    where: { id: { in: [...userIds] } },
+    select: { id: true, email: true, name: true },
+  });
+
+  return {
+    format: ARCHIVE_FORMAT,
+    version: ARCHIVE_VERSION,
+    exportedAt: new Date().toISOString(),
+    users,
+    settings: settings && pick(settings, FIELDS.settings),
+    categories: categories.map((item) => pick(item, FIELDS.categories) as ArchiveRecord),
+    tags: tags.map((item) => pick(item, FIELDS.tags) as ArchiveRecord),
+    series: series.map((item) => pick(item, FIELDS.series) as ArchiveRecord),
+    posts: posts.map((item) => ({
+      ...(pick(item, FIELDS.posts) as ArchiveRecord),
+      tagIds: item.tags.map((tag) => tag.tagId),
+    })),
+    revisions: revisions.map((item) => pick(item, FIELDS.revisions) as ArchiveRecord),
+    comments: comments.map((item) => pick(item, FIELDS.comments) as ArchiveRecord),
+    projectCategories: projectCategories.map((item) => pick(item, FIELDS.projectCategories) as ArchiveRecord),
+    projects: projects.map((item) => pick(item, FIELDS.projects) as ArchiveRecord),
+    media: media.map((item) => ({
+      ...(pick(item, FIELDS.media) as ArchiveRecord),
+      file: mediaFiles.get(item.id) ?? null,
+    })),
+  };
+}
+
+/**
+ * Build the ZIP download: site.json plus the original of every media item
+ * that could be read from storage
+ */
+export async function createSiteArchiveZip(): Promise<Uint8Array> {
+  const media = await prisma.media.findMany({ select: { id: true, storage: true, storageKey: true } });
+  const entries: Zippable = {};
+  const mediaFiles = new Map<string, string>();
+
+  for (const item of media) {
+    try {
+      const file = `${MEDIA_DIR}${item.storageKey}`;
+      // Images are already compressed
+      entries[file] = [new Uint8Array(await getStorage(item.storage).get(item.storageKey)), { level: 0 }];
+      mediaFiles.set(item.id, file);
+    } catch (error) {
+      console.error(`Media file missing from export: ${item.storageKey}`, error);
+    }
+  }
+
+  const archive = await buildSiteArchive(mediaFiles);
+  entries[ARCHIVE_ENTRY] = strToU8(JSON.stringify(archive, null, 2));
+
+  return zipSync(entries, { level: 6 });
+}
+
+function isValidValue(field: Prisma.DMMF.Field, value: unknown): boolean {
+  if (field.isList) {
+    return Array.isArray(value) && value.every((item) => isValidValue({ ...field, isList: false }, item));
+  }
+  if (field.kind === "enum") {
+    const values = Prisma.dmmf.datamodel.enums.find((item) => item.name === field.type)?.values ?? [];
+    return values.some((item) => item.name === value);
+  }
+  switch (field.type) {
+    case "String":
+      return typeof value === "string";
+    case "Int":
+      return Number.isSafeInteger(value);
+    case "Float":
+      return typeof value === "number" && Number.isFinite(value);
+    case "Boolean":
+      return typeof value === "boolean";
+    case "DateTime":
+      return typeof value === "string" && !Number.isNaN(Date.parse(value));
+    default:
+      return true;
+  }
+}
+
+/**
+ * Check a record's columns against the schema
+ * @returns The first column that is missing or has the wrong type, or null
+ */
+function findInvalidField(model: Prisma.ModelName, record: Record<string, unknown>): string | null {
+  const fields = Prisma.dmmf.datamodel.models.find((item) => item.name === model)?.fields ?? [];
+  for (const field of fields) {
+    if (field.kind === "object" || (model === "SiteSettings" && (field.name === "id" || field.isUpdatedAt))) continue;
+    const value = record[field.name];
+    if (value === undefined) {
+      if (field.isRequired && !field.hasDefaultValue && !field.isUpdatedAt) return field.name;
+    } else if (value === null) {
+      if (field.isRequired) return field.name;
+    } else if (!isValidValue(field, value)) {
+      return field.name;
+    }
+  }
+  return null;
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === "string");
+}
+
+function validateArchive(value: unknown): SiteArchive | { error: string } {
+  if (!isRecord(value) || value.format !== ARCHIVE_FORMAT) {
+    return { error: "Not a site export archive" };
+  }
+  if (typeof value.version !== "number" || !Number.isInteger(value.version) || value.version < 1) {
+    return { error: "The archive has no valid format version" };
+  }
+  if (value.version > ARCHIVE_VERSION) {
+    return {
+      error: `The archive uses format version ${value.version}, but this site only reads up to version ${ARCHIVE_VERSION}. Update the site first.`,
+    };
+  }
+
+  for (const collection of ARCHIVE_COLLECTIONS) {
+    const records = value[collection];
+    if (!Array.isArray(records)) {
+      return { error: `The archive's "${collection}" section is invalid` };
+    }
+    for (const [index, record] of records.entries()) {
+      const invalid = !isRecord(record)
+        ? "record"
+        : typeof record.id !== "string"
+        ? "id"
+        : findInvalidField(MODELS[collection], record) ??
+          (collection === "posts" && !isStringArray(record.tagIds) ? "tagIds" : null) ??
+          (collection === "media" && record.file !== null && typeof record.file !== "string" ? "file" : null);
+      if (invalid) {
+        return { error: `The archive's "${collection}" section is invalid: entry ${index + 1} has a bad "${invalid}"` };
+      }
+    }
+  }
+  if (
+    !Array.isArray(value.users) ||
+    !value.users.every((user) => isRecord(user) && typeof user.id === "string" && typeof user.email === "string")
+  ) {
+    return { error: `The archive's "users" section is invalid` };
+  }
+  if (value.settings !== null && (!isRecord(value.settings) || findInvalidField(MODELS.settings, value.settings))) {
+    return { error: `The archive's "settings" section is invalid` };
+  }
+
+  return value as unknown as SiteArchive;
+}
+
+/**
+ * Read an uploaded archive - a ZIP from the export, or its site.json alone
+ */
+export function readSiteArchive(
+  buffer: Uint8Array
+): { archive: SiteArchive; files: Record<string, Uint8Array> } | { error: string } {
+  let files: Record<string, Uint8Array> = {};
+  let json: string;
+
+  // ZIP files start with "PK"
+  if (buffer[0] === 0x50 && buffer[1] === 0x4b) {
+    try {
+      files = unzipSync(buffer, {
+        filter: (file) => file.name === ARCHIVE_ENTRY || file.name.startsWith(MEDIA_DIR),
+      });
+    } catch {
+      return { error: "The ZIP file could not be read" };
+    }
+    if (!files[ARCHIVE_ENTRY]) {
+      return { error: `The ZIP file has no ${ARCHIVE_ENTRY}` };
+    }
+    json = strFromU8(files[ARCHIVE_ENTRY]);
+  } else {
+    json = strFromU8(buffer);
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    return { error: "The archive is not valid JSON" };
+  }
+
+  const archive = validateArchive(parsed);
+  if ("error" in archive) return archive;
+  return { archive, files };
+}
+
+function emptyCounts(): Record<ArchiveCollection, number> {
+  return Object.fromEntries(ARCHIVE_COLLECTIONS.map((collection) => [collection, 0])) as Record<ArchiveCollection, number>;
+}
+
+/**
+ * Split records into ones to create and ones already on the site
+ * @param uniqueKeys - Columns that identify the same record under another ID
+ * @returns Archive ID -> site ID for existing records, plus the records to create
+ */
+function matchExisting<T extends ArchiveRecord>(
+  records: T[],
+  existing: { id: string }[],
+  uniqueKeys: string[]
+) {
+  const matches = new Map<string, string>();
+  const create: T[] = [];
+
+  for (const record of records) {
+    const match = existing.find(
+      (item) =>
+        item.id === record.id ||
+        uniqueKeys.some((key) => record[key] != null && (item as Record<string, unknown>)[key] === record[key])
+    );
+    if (match) {
+      matches.set(record.id, match.id);
+    } else {
+      create.push(record);
+    }
+  }
+
+  return { matches, create };
+}
+
+/**
+ * Restore an archive
+ * @param actorId - The admin restoring; posts by authors unknown here become theirs
+ */
+export async function restoreSiteArchive(
+  archive: SiteArchive,
+  files: Record<string, Uint8Array>,
+  mode: RestoreMode,
+  actorId: string
+): Promise<RestoreReport> {
+  const report: RestoreReport = {
+    mode,
+    created: emptyCounts(),
+    skipped: emptyCounts(),
+    settingsRestored: false,
+    warnings: [],
+  };
+
+  // Authors, reviewers and commenters are matched by email
+  const emails = archive.users.map((user) => user.email);
+  const siteUsers = await prisma.user.findMany({
+    where: { email: { in: emails, mode: "insensitive" } },
+    select: { id: true, email: true },
+  });
+  const userIds = new Map<string, string>();
+  for (const user of archive.users) {
+    const match = siteUsers.find((siteUser) => siteUser.email.toLowerCase() === user.email.toLowerCase());
+    if (match) userIds.set(user.id, match.id);
+  }
+  const mapUser = (id: unknown) => (typeof id === "string" && userIds.get(id)) || null;
+
+  // Media files go first: they live outside the database, and their URLs
+  // change when this site stores uploads elsewhere
+  const urlMap = new Map<string, string>();
+  const hasMediaFiles = archive.media.some((item) => item.file && files[item.file]);
+  const replaceMedia = mode === "replace" && hasMediaFiles;
+  const existingMedia = await prisma.media.findMany({
+    select: { id: true, storage: true, storageKey: true, url: true, variants: true },
+  });
+  const mediaRecords: Prisma.MediaUncheckedCreateInput[] = [];
+  // Files this restore wrote, removed again if it fails
+  const storedMedia: Prisma.MediaUncheckedCreateInput[] = [];
+
+  if (mode === "replace" && !hasMediaFiles) {
+    report.warnings.push("The archive has no media files, so the media library was left as it is");
+    report.skipped.media = archive.media.length;
+  } else {
+    const { create } = replaceMedia
+      ? { create: archive.media }
+      : matchExisting(archive.media, existingMedia, ["storageKey", "url"]);
+    report.skipped.media = archive.media.length - create.length;
+    const takenKeys = new Set(existingMedia.map((item) => item.storageKey));
+
+    try {
+      for (const item of create) {
+        const data = item.file ? files[item.file] : undefined;
+        const storageKey = String(item.storageKey);
+
+        if (!data) {
+          // Without the file the record still works if its URL does (e.g. an S3 bucket)
+          mediaRecords.push({
+            ...pick(item, FIELDS.media),
+            uploadedById: mapUser(item.uploadedById),
+          } as Prisma.MediaUncheckedCreateInput);
+          continue;
+        }
+
+        const buffer = Buffer.from(data);
+        const validation = validateImageUpload(buffer);
+        if ("error" in validation || !STORAGE_KEY_REGEX.test(storageKey) || storageKey.includes("..")) {
+          report.warnings.push(`Skipped media file ${item.file}: not a valid image`);
+          report.skipped.media++;
+          continue;
+        }
+
+        const record = await storeRestoredMedia({
+          id: item.id,
+          buffer,
+          // The item being replaced keeps its files until the restore has committed
+          storageKey: takenKeys.has(storageKey)
+            ? buildStorageKey(String(item.filename ?? storageKey), ALLOWED_IMAGE_TYPES[validation.mimeType])
+            : storageKey,
+          filename: String(item.filename ?? storageKey),
+          mimeType: validation.mimeType,
+          alt: typeof item.alt === "string" ? item.alt : null,
+          focusX: typeof item.focusX === "number" ? item.focusX : 0.5,
+          focusY: typeof item.focusY === "number" ? item.focusY : 0.5,
+          uploadedById: mapUser(item.uploadedById),
+          createdAt: new Date(String(item.createdAt ?? Date.now())),
+        });
+        mediaRecords.push(record);
+        storedMedia.push(record);
+        takenKeys.add(record.storageKey);
+        if (typeof item.url === "string" && item.url !== record.url) {
+          urlMap.set(item.url, record.url);
+        }
+      }
+    } catch (error) {
+      await removeStoredMedia(storedMedia);
+      throw error;
+    }
+  }
+
+  const rewriteUrls = <T>(value: T): T => {
+    if (typeof value !== "string" || urlMap.size === 0) return value;
+    let result: string = value;
+    for (const [from, to] of urlMap) result = result.split(from).join(to);
+    return result as T;
+  };
+
+  // Archives can be edited by hand, so content is cleaned like any other save
+  const cleanContent = (value: unknown) => addHeadingIds(sanitizeHtml(rewriteUrls(String(value))));
+
+  // Everything else is restored all-or-nothing
+  try {
+    await prisma.$transaction(
+      async (tx) => {
+        if (mode === "replace") {
+          await tx.comment.deleteMany();
+          await tx.postRevision.deleteMany();
+          await tx.post.deleteMany();
+          await tx.category.deleteMany();
+          await tx.tag.deleteMany();
+          await tx.series.deleteMany();
+          await tx.project.deleteMany();
+          await tx.projectCategory.deleteMany();
+        }
+        if (replaceMedia) {
+          await tx.media.deleteMany();
+        }
+        await tx.media.createMany({ data: mediaRecords });
+        report.created.media = mediaRecords.length;
+
+        // Taxonomies: reuse what already exists
+        const categories = matchExisting(archive.categories, await tx.category.findMany(), ["slug", "name"]);
+        await tx.category.createMany({
+          data: categories.create.map((item) => pick(item, FIELDS.categories) as Prisma.CategoryCreateManyInput),
+        });
+        const tags = matchExisting(archive.tags, await tx.tag.findMany(), ["slug", "name"]);
+        await tx.tag.createMany({
+          data: tags.create.map((item) => pick(item, FIELDS.tags) as Prisma.TagCreateManyInput),
+        });
+        const series = matchExisting(archive.series, await tx.series.findMany(), ["slug", "title"]);
+        await tx.series.createMany({
+          data: series.create.map((item) => pick(item, FIELDS.series) as Prisma.SeriesCreateManyInput),
+        });
+        const projectCategories = matchExisting(archive.projectCategories, await tx.projectCategory.findMany(), ["slug", "name"]);
+        await tx.projectCategory.createMany({
+          data: projectCategories.create.map((item) => pick(item, FIELDS.projectCategories) as Prisma.ProjectCategoryCreateManyInput),
+        });
+
+        report.created.categories = categories.create.length;
+        report.created.tags = tags.create.length;
+        report.created.series = series.create.length;
+        report.created.projectCategories = projectCategories.create.length;
+        report.skipped.categories = categories.matches.size;
+        report.skipped.tags = tags.matches.size;
+        report.skipped.series = series.matches.size;
+        report.skipped.projectCategories = projectCategories.matches.size;
+
+        // References point at the existing record, the restored one, or nothing
+        const mapId = (terms: ReturnType<typeof matchExisting>, id: unknown) => {
+          if (typeof id !== "string") return null;
+          return terms.matches.get(id) ?? (terms.create.some((item) => item.id === id) ? id : null);
+        };
+
+        // Posts and projects: an existing one wins, the archived copy is skipped
+        const posts = matchExisting(archive.posts, await tx.post.findMany({ select: { id: true, slug: true } }), ["slug"]);
+        await tx.post.createMany({
+          data: posts.create.map((item) => ({
+            ...pick(item, FIELDS.posts),
+            content: cleanContent(item.content),
+            coverImage: rewriteUrls(item.coverImage),
+            authorId: mapUser(item.authorId) || actorId,
+            reviewerId: mapUser(item.reviewerId),
+            categoryId: mapId(categories, item.categoryId),
+            seriesId: mapId(series, item.seriesId),
+          })) as Prisma.PostCreateManyInput[],
+        });
+        await tx.tagsOnPosts.createMany({
+          data: posts.create.flatMap((item) =>
+            (Array.isArray(item.tagIds) ? item.tagIds : [])
+              .map((tagId) => mapId(tags, tagId))
+              .filter((tagId): tagId is string => !!tagId)
+              .map((tagId) => ({ postId: item.id, tagId }))
+          ),
+          skipDuplicates: true,
+        });
+        report.created.posts = posts.create.length;
+        report.skipped.posts = posts.matches.size;
+
+        // Revisions and comments only come along with their post
+        const restoredPosts = new Set(posts.create.map((item) => item.id));
+        const revisions = archive.revisions.filter((item) => restoredPosts.has(String(item.postId)));
+        await tx.postRevision.createMany({
+          data: revisions.map((item) => ({
+            ...pick(item, FIELDS.revisions),
+            content: cleanContent(item.content),
+            authorId: mapUser(item.authorId),
+          })) as Prisma.PostRevisionCreateManyInput[],
+        });
+        report.created.revisions = revisions.length;
+        report.skipped.revisions = archive.revisions.length - revisions.length;
+
+        const comments = archive.comments.filter((item) => restoredPosts.has(String(item.postId)));
+        const commentIds = new Set(comments.map((item) => item.id));
+        // Parents before replies
+        const depth = (item: ArchiveRecord): number => {
+          let level = 0;
+          let parentId = item.parentId;
+          while (typeof parentId === "string" && commentIds.has(parentId) && level < comments.length) {
+            level++;
+            parentId = comments.find((comment) => comment.id === parentId)?.parentId;
+          }
+          return level;
+        };
+        const ordered = [...comments].sort((a, b) => depth(a) - depth(b));
+        for (const item of ordered) {
+          await tx.comment.create({
+            data: {
+              ...pick(item, FIELDS.comments),
+              // Recomputed rather than taken from the archive, which may predate the column
+              contentHash: typeof item.content === "string" ? commentContentHash(item.content) : null,
+              userId: mapUser(item.userId),
+              // An account that doesn't exist here still shows under its name
+              nickname: item.nickname ?? (item.userId && !mapUser(item.userId)
+                ? (archive.users.find((user) => user.id === item.userId)?.name || "Anonymous").slice(0, 50)
+                : null),
+              parentId: typeof item.parentId === "string" && commentIds.has(item.parentId) ? item.parentId : null,
+            } as Prisma.CommentUncheckedCreateInput,
+          });
+        }
+        report.created.comments = comments.length;
+        report.skipped.comments = archive.comments.length - comments.length;
+
+        const projects = matchExisting(archive.projects, await tx.project.findMany({ select: { id: true, slug: true } }), ["slug"]);
+        await tx.project.createMany({
+          data: projects.create.map((item) => ({
+            ...pick(item, FIELDS.projects),
+            imageUrl: rewriteUrls(item.imageUrl),
+            categoryId: mapId(projectCategories, item.categoryId),
+          })) as Prisma.ProjectCreateManyInput[],
+        });
+        report.created.projects = projects.create.length;
+        report.skipped.projects = projects.matches.size;
+
+        // Settings: replaced, or filled in only when the site has none yet
+        if (archive.settings) {
+          const settings = Object.fromEntries(
+            Object.entries(pick(archive.settings, FIELDS.settings)).map(([key, value]) => [key, rewriteUrls(value)])
+          ) as Prisma.SiteSettingsCreateInput;
+          const current = await tx.siteSettings.findUnique({ where: { id: "default" }, select: { id: true } });
+          if (mode === "replace" || !current) {
+            await tx.siteSettings.upsert({
+              where: { id: "default" },
+              create: { ...settings, id: "default" },
+              update: settings,
+            });
+            report.settingsRestored = true;
+          }
+        }
+      },
+      { maxWait: 10_000, timeout: 10 * 60_000 }
+    );
+  } catch (error) {
+    await removeStoredMedia(storedMedia);
+    throw error;
+  }
+
+  // Committed - the replaced media's files can go now, unless a restored
+  // record without a file of its own still points at them
+  if (replaceMedia) {
+    const kept = new Set(mediaRecords.map((item) => `${item.storage}:${item.storageKey}`));
+    for (const item of existingMedia.filter((item) => !kept.has(`${item.storage}:${item.storageKey}`))) {
+      await deleteMediaFiles(item).catch((error) => {
+        console.error(`Failed to delete replaced media file ${item.storageKey}:`, error);
+      });
+    }
+  }
+
+  return report;
+}
+
+/**
+ * Delete the files written for a restore that didn't go through
+ */
+async function removeStoredMedia(records: Prisma.MediaUncheckedCreateInput[]) {
+  for (const record of records) {
+    await deleteMediaFiles({
+      storage: record.storage ?? getStorage().name,
+      storageKey: record.storageKey,
+      variants: record.variants ?? null,
+    }).catch(() => {});
+  }
+}
@@ -0,0 +1,161 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+const { prisma } = vi.hoisted(() => ({
+  prisma: {
+    siteSettings: { findUnique: vi.fn() },
+    comment: { findFirst: vi.fn() },
+  },
+}));
+vi.mock("@/lib/prisma", () => ({ prisma }));
+
+import {
+  applySpamScore,
+  blockedCommenterCheck,
+  blocklistCheck,
+  commentContentHash,
+  duplicateCheck,
+  formTokenAge,
+  honeypotCheck,
+  issueFormToken,
+  linkCountCheck,
+  parseList,
+  parseSpamReasons,
+  scoreComment,
+  SPAM_THRESHOLD,
+  SpamCheckInput,
+  submitTimeCheck,
+} from "@/lib/spam";
+
+const input: SpamCheckInput = {
+  content: "Great post, thanks!",
+  nickname: "Reader",
+  email: "reader@example.com",
+  ipAddress: "203.0.113.7",
+  honeypot: null,
+  formToken: null,
+};
+
+const noLists = { blocklist: [], blockedCommenters: [] };
+
+beforeEach(() => {
+  vi.stubEnv("AUTH_SECRET", "test-secret");
+  // The form was shown 20 seconds ago
+  input.formToken = issueFormToken(Date.now() - 20_000);
+  prisma.siteSettings.findUnique.mockReset().mockResolvedValue(null);
+  prisma.comment.findFirst.mockReset().mockResolvedValue(null);
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe("parseList", () => {
+  it("splits lines and drops blanks", () => {
+    expect(parseList(" casino \n\n  /viagra/ \n")).toEqual(["casino", "/viagra/"]);
+    expect(parseList(null)).toEqual([]);
+  });
+});
+
+describe("checks", () => {
+  it("flags a filled honeypot as spam outright", () => {
+    expect(honeypotCheck({ ...input, honeypot: "http://spam" }, noLists)).toMatchObject({ score: SPAM_THRESHOLD });
+    expect(honeypotCheck(input, noLists)).toBeNull();
+  });
+
+  it("flags fast and form-less submissions", () => {
+    expect(submitTimeCheck({ ...input, formToken: issueFormToken(Date.now() - 1200) }, noLists)).toMatchObject({ score: 5 });
+    expect(submitTimeCheck({ ...input, formToken: null }, noLists)).toMatchObject({ score: 3 });
+    expect(submitTimeCheck(input, noLists)).toBeNull();
+  });
+
+  it("doesn't trust a form token the client made up", () => {
+    const [, signature] = issueFormToken(Date.now()).split(".");
+    // Backdating the render time breaks the signature
+    const backdated = `${Date.now() - 20_000}.${signature}`;
+    expect(submitTimeCheck({ ...input, formToken: backdated }, noLists)).toMatchObject({
+      score: 3,
+      reason: "Submitted without a valid comment form",
+    });
+    expect(submitTimeCheck({ ...input, formToken: "20000" }, noLists)).toMatchObject({ score: 3 });
+  });
+
+  it("scores each link past the first", () => {
+    expect(linkCountCheck({ ...input, content: "see https://a.example" }, noLists)).toBeNull();
+    expect(
+      linkCountCheck({ ...input, content: "https://a.example http://b.example www.c.example" }, noLists)
+    ).toMatchObject({ score: 4, reason: "Contains 3 links" });
+  });
+
+  it("matches blocklist substrings case-insensitively and /regex/ entries", () => {
+    const context = { ...noLists, blocklist: ["CASINO", "/che+p pills/", "/[invalid/"] };
+    expect(blocklistCheck({ ...input, content: "Best casino online" }, context)).toMatchObject({ score: 5 });
+    expect(blocklistCheck({ ...input, content: "Cheeep pills and casino" }, context)).toMatchObject({ score: 10 });
+    expect(blocklistCheck(input, context)).toBeNull();
+  });
+
+  it("blocks commenters by email, domain or IP", () => {
+    const check = (blockedCommenters: string[]) => blockedCommenterCheck(input, { ...noLists, blockedCommenters });
+    expect(check(["Reader@Example.com"])).toMatchObject({ score: SPAM_THRESHOLD });
+    expect(check(["@example.com"])).toMatchObject({ score: SPAM_THRESHOLD });
+    expect(check(["203.0.113.7"])).toMatchObject({ score: SPAM_THRESHOLD });
+    expect(check(["@example.org", "198.51.100.1"])).toBeNull();
+  });
+
+  it("looks up duplicates by content hash", async () => {
+    prisma.comment.findFirst.mockResolvedValue({ id: "c1" });
+    expect(await duplicateCheck(input, noLists)).toMatchObject({ score: 5 });
+    expect(prisma.comment.findFirst.mock.calls[0][0].where.contentHash).toBe(commentContentHash(input.content));
+  });
+});
+
+describe("commentContentHash", () => {
+  it("ignores case and whitespace differences", () => {
+    expect(commentContentHash("  Great   post,\nTHANKS! ")).toBe(commentContentHash("great post, thanks!"));
+    expect(commentContentHash("great post")).not.toBe(commentContentHash("great posts"));
+  });
+});
+
+describe("formTokenAge", () => {
+  it("measures from the signed render time", () => {
+    const token = issueFormToken(1_000_000);
+    expect(formTokenAge(token, 1_004_000)).toBe(4000);
+  });
+
+  it("rejects tokens from the future or more than a day old", () => {
+    const token = issueFormToken(1_000_000);
+    expect(formTokenAge(token, 999_000)).toBeNull();
+    expect(formTokenAge(token, 1_000_000 + 25 * 60 * 60 * 1000)).toBeNull();
+  });
+});
+
+describe("scoreComment", () => {
+  it("sums the signals and uses the blocklists from settings", async () => {
+    prisma.siteSettings.findUnique.mockResolvedValue({ spamBlocklist: "thanks", blockedCommenters: "" });
+
+    const result = await scoreComment({ ...input, formToken: issueFormToken(Date.now() - 500) });
+    expect(result.score).toBe(10);
+    expect(result.reasons).toEqual(["Submitted 0.5s after the form loaded", "Matches blocklist: thanks"]);
+  });
+
+  it("runs only the checks it is given", async () => {
+    const result = await scoreComment(input, [() => ({ score: 2, reason: "custom" }), () => null]);
+    expect(result).toEqual({ score: 2, reasons: ["custom"] });
+  });
+});
+
+describe("applySpamScore", () => {
+  it("holds suspicious comments and files high scores as spam", () => {
+    expect(applySpamScore("APPROVED", 0)).toBe("APPROVED");
+    expect(applySpamScore("APPROVED", 3)).toBe("PENDING");
+    expect(applySpamScore("APPROVED", SPAM_THRESHOLD)).toBe("SPAM");
+  });
+});
+
+describe("parseSpamReasons", () => {
+  it("reads the stored JSON and tolerates bad values", () => {
+    expect(parseSpamReasons('["a","b"]')).toEqual(["a", "b"]);
+    expect(parseSpamReasons("not json")).toEqual([]);
+    expect(parseSpamReasons('{"a":1}')).toEqual([]);
+    expect(parseSpamReasons(null)).toEqual([]);
+  });
+});
@@ -0,0 +1,229 @@
+import crypto from "crypto";
+import { CommentStatus } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { signToken, verifyToken } from "@/lib/tokens";
+
+/**
+ * Spam scoring for anonymous comments
+ *
+ * Each check returns a weighted signal; the summed score decides whether a
+ * comment is held for review or filed straight into SPAM. Checks are plain
+ * functions so new ones can be appended to `spamChecks`.
+ */
+
+export interface SpamCheckInput {
+  content: string;
+  nickname: string | null;
+  email: string | null;
+  ipAddress: string | null;
+  // Hidden form field that only bots fill in
+  honeypot: string | null;
+  // Signed render time from issueFormToken, echoed back by the comment form
+  formToken: string | null;
+}
+
+export interface SpamContext {
+  blocklist: string[];
+  blockedCommenters: string[];
+}
+
+export interface SpamSignal {
+  score: number;
+  reason: string;
+}
+
+export type SpamCheck = (
+  input: SpamCheckInput,
+  context: SpamContext
+) => SpamSignal | null | Promise<SpamSignal | null>;
+
+export interface SpamResult {
+  score: number;
+  reasons: string[];
+}
+
+// Score at which a comment skips the queue and goes to SPAM
+export const SPAM_THRESHOLD = 10;
+
+// Humans rarely write a comment in under this many milliseconds
+export const MIN_SUBMIT_MS = 3000;
+
+// A form open longer than this has to be reloaded, so old tokens can't be reused
+const FORM_TOKEN_TTL_MS = 24 * 60 * 60 * 1000;
+
+const FORM_TOKEN_PURPOSE = "comment-form";
+
+// Links allowed before each additional one adds to the score
+const ALLOWED_LINKS = 1;
+
+// How far back duplicate detection looks
+const DUPLICATE_WINDOW_DAYS = 30;
+
+/**
+ * Token carrying the time the comment form was shown, signed so the client
+ * can't backdate it to pass the submit-time check
+ */
+export function issueFormToken(now: number = Date.now()): string {
+  const issued = String(now);
+  return `${issued}.${signToken(FORM_TOKEN_PURPOSE, issued)}`;
+}
+
+/**
+ * Milliseconds since a form token was issued
+ * @returns null if the token is missing, forged or expired
+ */
+export function formTokenAge(token: string | null, now: number = Date.now()): number | null {
+  const match = token?.match(/^(\d+)\.([\w-]+)$/);
+  if (!match || !verifyToken(FORM_TOKEN_PURPOSE, match[1], match[2])) return null;
+
+  const age = now - Number(match[1]);
+  return age >= 0 && age <= FORM_TOKEN_TTL_MS ? age : null;
+}
+
+/**
+ * Hash of a comment's content, ignoring case and whitespace, stored on every
+ * comment so duplicates are found through an index instead of comparing text
+ */
+export function commentContentHash(content: string): string {
+  const normalized = content.trim().toLowerCase().replace(/\s+/g, " ");
+  return crypto.createHash("sha256").update(normalized).digest("hex");
+}
+
+/**
+ * Split a newline-separated settings field into trimmed, non-empty entries
+ */
+export function parseList(value: string | null | undefined): string[] {
+  if (!value) return [];
+  return value
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Turn a blocklist entry into a matcher: "/pattern/flags" is a regex,
+ * anything else a case-insensitive substring
+ */
+function toMatcher(entry: string): ((text: string) => boolean) | null {
+  const regex = entry.match(/^\/(.+)\/([a-z]*)$/);
+  if (regex) {
+    try {
+      const pattern = new RegExp(regex[1], regex[2].includes("i") ? regex[2] : `${regex[2]}i`);
+      return (text) => pattern.test(text);
+    } catch {
+      // Invalid patterns are ignored rather than breaking comment posting
+      return null;
+    }
+  }
+
+  const needle = entry.toLowerCase();
+  return (text) => text.toLowerCase().includes(needle);
+}
+
+export const honeypotCheck: SpamCheck = (input) =>
+  input.honeypot ? { score: SPAM_THRESHOLD, reason: "Honeypot field was filled in" } : null;
+
+export const submitTimeCheck: SpamCheck = (input) => {
+  const elapsedMs = formTokenAge(input.formToken);
+  if (elapsedMs === null) {
+    return { score: 3, reason: "Submitted without a valid comment form" };
+  }
+  if (elapsedMs < MIN_SUBMIT_MS) {
+    return { score: 5, reason: `Submitted ${(elapsedMs / 1000).toFixed(1)}s after the form loaded` };
+  }
+  return null;
+};
+
+export const linkCountCheck: SpamCheck = (input) => {
+  const links = input.content.match(/https?:\/\/|www\./gi)?.length ?? 0;
+  if (links <= ALLOWED_LINKS) return null;
+  return { score: (links - ALLOWED_LINKS) * 2, reason: `Contains ${links} links` };
+};
+
+export const blocklistCheck: SpamCheck = (input, context) => {
+  const text = [input.content, input.nickname].filter(Boolean).join("\n");
+  const matches = context.blocklist.filter((entry) => toMatcher(entry)?.(text));
+  if (matches.length === 0) return null;
+  return { score: matches.length * 5, reason: `Matches blocklist: ${matches.join(", ")}` };
+};
+
+export const blockedCommenterCheck: SpamCheck = (input, context) => {
+  const email = input.email?.toLowerCase() ?? null;
+  const match = context.blockedCommenters.find((entry) => {
+    const value = entry.toLowerCase();
+    if (value === input.ipAddress) return true;
+    if (!email) return false;
+    // "@example.com" blocks a whole domain
+    return value.startsWith("@") ? email.endsWith(value) : email === value;
+  });
+  return match ? { score: SPAM_THRESHOLD, reason: `Blocked sender: ${match}` } : null;
+};
+
+export const duplicateCheck: SpamCheck = async (input) => {
+  const since = new Date(Date.now() - DUPLICATE_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+  const duplicate = await prisma.comment.findFirst({
+    where: {
+      contentHash: commentContentHash(input.content),
+      createdAt: { gte: since },
+    },
+    select: { id: true },
+  });
+  return duplicate ? { score: 5, reason: "Duplicate of an existing comment" } : null;
+};
+
+export const spamChecks: SpamCheck[] = [
+  honeypotCheck,
+  submitTimeCheck,
+  linkCountCheck,
+  blocklistCheck,
+  blockedCommenterCheck,
+  duplicateCheck,
+];
+
+/**
+ * Run every check against a comment, using the blocklists from site settings
+ */
+export async function scoreComment(
+  input: SpamCheckInput,
+  checks: SpamCheck[] = spamChecks
+): Promise<SpamResult> {
+  const settings = await prisma.siteSettings.findUnique({
+    where: { id: "default" },
+    select: { spamBlocklist: true, blockedCommenters: true },
+  });
+
+  const context: SpamContext = {
+    blocklist: parseList(settings?.spamBlocklist),
+    blockedCommenters: parseList(settings?.blockedCommenters),
+  };
+
+  const signals = await Promise.all(checks.map((check) => check(input, context)));
+  const flagged = signals.filter((signal): signal is SpamSignal => !!signal && signal.score > 0);
+
+  return {
+    score: flagged.reduce((sum, signal) => sum + signal.score, 0),
+    reasons: flagged.map((signal) => signal.reason),
+  };
+}
+
+/**
+ * Status after scoring: anything suspicious is held, high scores are spam
+ */
+export function applySpamScore(status: CommentStatus, score: number): CommentStatus {
+  if (score >= SPAM_THRESHOLD) return "SPAM";
+  if (score > 0) return "PENDING";
+  return status;
+}
+
+/**
+ * Reasons stored as JSON on the comment
+ */
+export function parseSpamReasons(value: string | null): string[] {
+  if (!value) return [];
+  try {
+    const reasons = JSON.parse(value);
+    return Array.isArray(reasons) ? reasons : [];
+  } catch {
+    return [];
+  }
+}
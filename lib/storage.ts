@@ -0,0 +1,151 @@
+import { promises as fs } from "fs";
+import path from "path";
+
+/**
+ * Pluggable file storage for uploaded media
+ *
+ * MEDIA_STORAGE selects the adapter for new uploads:
+ * - "local" (default): files on disk under MEDIA_LOCAL_DIR, served by /media/[...key]
+ * - "s3": any S3-compatible bucket (AWS, Cloudflare R2, MinIO, ...)
+ *
+ * Each Media row remembers which adapter holds it, so switching backends
+ * doesn't break deletes of older uploads.
+ */
+
+export type StorageName = "local" | "s3";
+
+export interface StorageAdapter {
+  name: StorageName;
+  /** Store a file and return its public URL */
+  put(key: string, body: Buffer, contentType: string): Promise<string>;
+  get(key: string): Promise<Buffer>;
+  delete(key: string): Promise<void>;
+}
+
+// Public path prefix for locally stored files
+export const LOCAL_MEDIA_PREFIX = "/media";
+
+function localRoot() {
+  return path.resolve(process.env.MEDIA_LOCAL_DIR || path.join(process.cwd(), "uploads"));
+}
+
+/**
+ * Resolve a storage key to a path on disk, refusing anything outside the upload root
+ */
+export function resolveLocalPath(key: string): string | null {
+  const root = localRoot();
+  const filePath = path.resolve(root, key);
+  if (!filePath.startsWith(root + path.sep)) {
+    return null;
+  }
+  return filePath;
+}
+
+const localDiskStorage: StorageAdapter = {
+  name: "local",
+
+  async put(key, body) {
+    const filePath = resolveLocalPath(key);
+    if (!filePath) throw new Error(`Invalid storage key: ${key}`);
+
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, body);
+    return `${LOCAL_MEDIA_PREFIX}/${key}`;
+  },
+
+  async get(key) {
+    const filePath = resolveLocalPath(key);
+    if (!filePath) throw new Error(`Invalid storage key: ${key}`);
+
+    return fs.readFile(filePath);
+  },
+
+  async delete(key) {
+    const filePath = resolveLocalPath(key);
+    if (!filePath) return;
+
+    await fs.rm(filePath, { force: true });
+  },
+};
+
+function createS3Storage(): StorageAdapter {
+  const bucket = process.env.S3_BUCKET;
+  if (!bucket) {
+    throw new Error("S3_BUCKET must be set when MEDIA_STORAGE is \"s3\"");
+  }
+
+  const region = process.env.S3_REGION || "us-east-1";
+  const publicUrl = (
+    process.env.S3_PUBLIC_URL || `https://${bucket}.s3.${region}.amazonaws.com`
+  ).replace(/\/+$/, "");
+
+  // Loaded lazily so local-only installs never pull in the AWS SDK
+  const client = import("@aws-sdk/client-s3").then(
+    ({ S3Client }) =>
+      new S3Client({
+        region,
+        endpoint: process.env.S3_ENDPOINT || undefined,
+        forcePathStyle: process.env.S3_FORCE_PATH_STYLE === "true",
+        credentials:
+          process.env.S3_ACCESS_KEY_ID && process.env.S3_SECRET_ACCESS_KEY
+            ? {
+                accessKeyId: process.env.S3_ACCESS_KEY_ID,
+                secretAccessKey: process.env.S3_SECRET_ACCESS_KEY,
+              }
+            : undefined,
+      })
+  );
+
+  return {
+    name: "s3",
+
+    async put(key, body, contentType) {
+      const { PutObjectCommand } = await import("@aws-sdk/client-s3");
+      const instance = await client;
+
+      await instance.send(
+        new PutObjectCommand({
+          Bucket: bucket,
+          Key: key,
+          Body: body,
+          ContentType: contentType,
+          // Keys are unique per upload, so files never change
+          CacheControl: "public, max-age=31536000, immutable",
+        })
+      );
+      return `${publicUrl}/${key}`;
+    },
+
+    async get(key) {
+      const { GetObjectCommand } = await import("@aws-sdk/client-s3");
+      const instance = await client;
+
+      const response = await instance.send(new GetObjectCommand({ Bucket: bucket, Key: key }));
+      if (!response.Body) throw new Error(`Empty S3 object: ${key}`);
+      return Buffer.from(await response.Body.transformToByteArray());
+    },
+
+    async delete(key) {
+      const { DeleteObjectCommand } = await import("@aws-sdk/client-s3");
+      const instance = await client;
+
+      await instance.send(new DeleteObjectCommand({ Bucket: bucket, Key: key }));
+    },
+  };
+}
+
+let s3Storage: StorageAdapter | null = null;
+
+/**
+ * Get a storage adapter by name (defaults to the one configured for new uploads)
+ */
+export function getStorage(name?: string): StorageAdapter {
+  const selected = name || process.env.MEDIA_STORAGE || "local";
+
+  if (selected === "s3") {
+    if (!s3Storage) s3Storage = createS3Storage();
+    return s3Storage;
+  }
+
+  return localDiskStorage;
+}
@@ -0,0 +1,26 @@
+import { createHmac, timingSafeEqual } from "crypto";
+
+/**
+ * HMAC-signed tokens for links in emails (e.g. unsubscribe) and values the
+ * browser hands back (the comment form's render time), so they can be
+ * verified without storing anything. The purpose is part of the signature,
+ * so a token for one kind of link can't be replayed against another.
+ */
+
+function getSecret() {
+  const secret = process.env.AUTH_SECRET || process.env.NEXTAUTH_SECRET;
+  if (!secret) {
+    throw new Error("AUTH_SECRET must be set to sign email links");
+  }
+  return secret;
+}
+
+export function signToken(purpose: string, value: string): string {
+  return createHmac("sha256", getSecret()).update(`${purpose}:${value}`).digest("base64url");
+}
+
+export function verifyToken(purpose: string, value: string, token: string): boolean {
+  const expected = Buffer.from(signToken(purpose, value));
+  const actual = Buffer.from(token);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
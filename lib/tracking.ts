@@ -0,0 +1,83 @@
+/**
+ * Tracking parameters shared by the public pages and the analytics APIs
+ *
+ * The post and project pages load their content through the API, so the
+ * API can't see how the visitor arrived. The pages pass it along as query
+ * parameters instead: `ref` (document.referrer) and the page's own utm_source,
+ * utm_medium and utm_campaign (see lib/analytics.ts).
+ *
+ * Post pages also send reading beacons: a start, each scroll depth milestone
+ * once, and the active reading time when the page is hidden.
+ */
+
+export const UTM_PARAMS = ["utm_source", "utm_medium", "utm_campaign"] as const;
+
+const MAX_UTM_LENGTH = 100;
+
+// Scroll depth milestones, in percent of the post content
+export const READ_DEPTHS = [25, 50, 75, 100] as const;
+
+// Longest active reading time one beacon may report
+export const MAX_READ_SECONDS = 2 * 60 * 60;
+
+export type ReadDepth = (typeof READ_DEPTHS)[number];
+
+export type ReadingEvent =
+  | { type: "start" }
+  | { type: "depth"; depth: ReadDepth }
+  | { type: "time"; seconds: number };
+
+export interface Campaign {
+  source: string;
+  medium: string;
+  campaign: string;
+}
+
+/**
+ * Query parameters describing how the visitor arrived at the current page.
+ * Browser only.
+ */
+export function getTrackingParams(): URLSearchParams {
+  const params = new URLSearchParams({ ref: document.referrer });
+  const page = new URLSearchParams(window.location.search);
+  for (const name of UTM_PARAMS) {
+    const value = page.get(name);
+    if (value) params.set(name, value);
+  }
+  return params;
+}
+
+/**
+ * Read UTM parameters from a request, normalized so "LinkedIn" and "linkedin " count together
+ */
+export function parseCampaign(params: URLSearchParams): Campaign {
+  const read = (name: string) => (params.get(name) || "").trim().toLowerCase().slice(0, MAX_UTM_LENGTH);
+  return {
+    source: read("utm_source"),
+    medium: read("utm_medium"),
+    campaign: read("utm_campaign"),
+  };
+}
+
+/**
+ * Validate a reading beacon body
+ */
+export function parseReadingEvent(body: unknown): ReadingEvent | null {
+  if (typeof body !== "object" || body === null) return null;
+  const event = body as Record<string, unknown>;
+
+  if (event.type === "start") return { type: "start" };
+  if (event.type === "depth" && READ_DEPTHS.includes(event.depth as ReadDepth)) {
+    return { type: "depth", depth: event.depth as ReadDepth };
+  }
+  if (
+    event.type === "time" &&
+    typeof event.seconds === "number" &&
+    Number.isInteger(event.seconds) &&
+    event.seconds > 0 &&
+    event.seconds <= MAX_READ_SECONDS
+  ) {
+    return { type: "time", seconds: event.seconds };
+  }
+  return null;
+}
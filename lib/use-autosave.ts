@@ -0,0 +1,79 @@
+import { useState, useEffect, useRef, useCallback } from "react";
+
+export type AutosaveStatus = "idle" | "saving" | "saved" | "error";
+
+interface AutosaveValues {
+  title: string;
+  excerpt: string | null;
+  content: string;
+}
+
+interface UseAutosaveOptions {
+  /** Post being edited, or null for the "new post" editor */
+  postId: string | null;
+  values: AutosaveValues;
+  /** Autosave only runs while enabled (e.g. after loading, not while saving) */
+  enabled: boolean;
+  /** Debounce delay in milliseconds */
+  delay?: number;
+}
+
+/**
+ * Debounced server-side autosave of editor state into /api/drafts
+ *
+ * The values present when autosave becomes enabled are treated as already
+ * saved, so simply opening the editor does not create a draft.
+ */
+export function useAutosave({ postId, values, enabled, delay = 2000 }: UseAutosaveOptions) {
+  const [status, setStatus] = useState<AutosaveStatus>("idle");
+  const [lastSavedAt, setLastSavedAt] = useState<Date | null>(null);
+  const lastPayload = useRef<string | null>(null);
+
+  const payload = JSON.stringify({ postId, ...values });
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    // First enabled render - remember the starting point
+    if (lastPayload.current === null) {
+      lastPayload.current = payload;
+      return;
+    }
+
+    if (payload === lastPayload.current) return;
+
+    const timer = setTimeout(async () => {
+      try {
+        setStatus("saving");
+        const response = await fetch("/api/drafts", {
+          method: "PUT",
+          headers: { "Content-Type": "application/json" },
+          body: payload,
+        });
+
+        if (!response.ok) throw new Error("Failed to save draft");
+
+        const data = await response.json();
+        lastPayload.current = payload;
+        setLastSavedAt(new Date(data.draft.updatedAt));
+        setStatus("saved");
+      } catch (err) {
+        console.error("Autosave failed:", err);
+        setStatus("error");
+      }
+    }, delay);
+
+    return () => clearTimeout(timer);
+  }, [payload, enabled, delay]);
+
+  // Discard the server draft and treat the current values as the baseline
+  const discard = useCallback(async () => {
+    const query = postId ? `?postId=${encodeURIComponent(postId)}` : "";
+    await fetch(`/api/drafts${query}`, { method: "DELETE" });
+    lastPayload.current = payload;
+    setLastSavedAt(null);
+    setStatus("idle");
+  }, [postId, payload]);
+
+  return { status, lastSavedAt, discard };
+}
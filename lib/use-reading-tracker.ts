@@ -0,0 +1,98 @@
+import { useEffect, RefObject } from "react";
+import { MAX_READ_SECONDS, READ_DEPTHS, ReadingEvent } from "@/lib/tracking";
+
+// Reading counts as active while the page is visible and the reader
+// scrolled, moved the pointer or pressed a key in the last 30 seconds
+const IDLE_AFTER = 30 * 1000;
+
+const ACTIVITY_EVENTS = ["pointermove", "pointerdown", "keydown", "wheel", "touchstart"] as const;
+
+/**
+ * Reading beacons for a post page (see lib/tracking.ts)
+ *
+ * Sends a start when tracking begins, each scroll depth milestone of the
+ * content element once, and the active reading time collected so far
+ * whenever the page is hidden or left.
+ * @param slug - The post to report on, or null to send nothing
+ */
+export function useReadingTracker(slug: string | null, contentRef: RefObject<HTMLElement | null>) {
+  useEffect(() => {
+    if (!slug) return;
+
+    const url = `/api/posts/${encodeURIComponent(slug)}/engagement`;
+    const send = (event: ReadingEvent) => {
+      const body = JSON.stringify(event);
+      // sendBeacon survives the page being closed; fall back where it's missing or refused
+      if (!navigator.sendBeacon?.(url, body)) {
+        fetch(url, { method: "POST", body, keepalive: true }).catch(() => {});
+      }
+    };
+
+    const reached = new Set<number>();
+    let lastActivity = Date.now();
+    let unreportedSeconds = 0;
+
+    const checkDepth = () => {
+      const element = contentRef.current;
+      if (!element) return;
+      const rect = element.getBoundingClientRect();
+      // How much of the content is above the bottom of the viewport
+      const seen = rect.height > 0 ? Math.ceil(((window.innerHeight - rect.top) / rect.height) * 100) : 100;
+      for (const depth of READ_DEPTHS) {
+        if (seen >= depth && !reached.has(depth)) {
+          reached.add(depth);
+          send({ type: "depth", depth });
+        }
+      }
+    };
+
+    const flushTime = () => {
+      if (unreportedSeconds === 0) return;
+      send({ type: "time", seconds: Math.min(unreportedSeconds, MAX_READ_SECONDS) });
+      unreportedSeconds = 0;
+    };
+
+    const handleActivity = () => {
+      lastActivity = Date.now();
+    };
+    const handleScroll = () => {
+      handleActivity();
+      checkDepth();
+    };
+    const handleVisibility = () => {
+      if (document.visibilityState === "hidden") {
+        flushTime();
+      } else {
+        handleActivity();
+      }
+    };
+
+    const timer = setInterval(() => {
+      if (document.visibilityState === "visible" && Date.now() - lastActivity < IDLE_AFTER) {
+        unreportedSeconds++;
+      }
+    }, 1000);
+
+    send({ type: "start" });
+    checkDepth();
+
+    window.addEventListener("scroll", handleScroll, { passive: true });
+    for (const event of ACTIVITY_EVENTS) {
+      window.addEventListener(event, handleActivity, { passive: true });
+    }
+    document.addEventListener("visibilitychange", handleVisibility);
+    window.addEventListener("pagehide", flushTime);
+
+    return () => {
+      clearInterval(timer);
+      window.removeEventListener("scroll", handleScroll);
+      for (const event of ACTIVITY_EVENTS) {
+        window.removeEventListener(event, handleActivity);
+      }
+      document.removeEventListener("visibilitychange", handleVisibility);
+      window.removeEventListener("pagehide", flushTime);
+      // Navigating to another post within the app
+      flushTime();
+    };
+  }, [slug, contentRef]);
+}
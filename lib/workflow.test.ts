@@ -0,0 +1,114 @@
+import { describe, expect, it } from "vitest";
+import type { ReviewStatus, UserRole } from "@prisma/client";
+import { canAccessReview, canTransition, getAvailableActions, getWorkflowState } from "@/lib/workflow";
+
+const as = (role: UserRole) => ({ id: "me", role });
+
+function post(reviewStatus: ReviewStatus, overrides: { authorId?: string; published?: boolean; scheduledAt?: Date | null } = {}) {
+  return { authorId: "me", published: false, scheduledAt: null, reviewStatus, ...overrides };
+}
+
+const contributor = as("CONTRIBUTOR");
+const author = as("AUTHOR");
+const editor = as("EDITOR");
+const admin = as("ADMIN");
+
+describe("getWorkflowState", () => {
+  it("reads drafts from the review status and the rest from publishing", () => {
+    const now = new Date("2025-06-01T00:00:00Z");
+    expect(getWorkflowState(post("DRAFT"), now)).toBe("draft");
+    expect(getWorkflowState(post("IN_REVIEW"), now)).toBe("in_review");
+    expect(getWorkflowState(post("APPROVED"), now)).toBe("approved");
+    expect(getWorkflowState(post("IN_REVIEW", { published: true }), now)).toBe("published");
+    expect(getWorkflowState(post("APPROVED", { published: true, scheduledAt: new Date("2025-07-01T00:00:00Z") }), now)).toBe(
+      "scheduled"
+    );
+  });
+});
+
+describe("canTransition", () => {
+  describe("submit", () => {
+    it("lets writers submit their own drafts", () => {
+      expect(canTransition(contributor, post("DRAFT"), "submit")).toBe(true);
+      expect(canTransition(author, post("DRAFT"), "submit")).toBe(true);
+    });
+
+    it("lets editors submit any draft", () => {
+      expect(canTransition(editor, post("DRAFT", { authorId: "someone-else" }), "submit")).toBe(true);
+    });
+
+    it("refuses someone else's draft and posts already in review", () => {
+      expect(canTransition(contributor, post("DRAFT", { authorId: "someone-else" }), "submit")).toBe(false);
+      expect(canTransition(contributor, post("IN_REVIEW"), "submit")).toBe(false);
+      expect(canTransition(contributor, post("APPROVED"), "submit")).toBe(false);
+    });
+  });
+
+  describe("withdraw", () => {
+    it("lets the author pull their own post back", () => {
+      expect(canTransition(contributor, post("IN_REVIEW"), "withdraw")).toBe(true);
+    });
+
+    it("is not how reviewers send posts back", () => {
+      expect(canTransition(editor, post("IN_REVIEW", { authorId: "someone-else" }), "withdraw")).toBe(false);
+      expect(canTransition(contributor, post("DRAFT"), "withdraw")).toBe(false);
+    });
+  });
+
+  describe("approve", () => {
+    it("is for editors and admins only", () => {
+      const inReview = post("IN_REVIEW", { authorId: "someone-else" });
+      expect(canTransition(editor, inReview, "approve")).toBe(true);
+      expect(canTransition(admin, inReview, "approve")).toBe(true);
+      expect(canTransition(author, inReview, "approve")).toBe(false);
+      expect(canTransition(contributor, post("IN_REVIEW"), "approve")).toBe(false);
+    });
+
+    it("only applies to posts in review", () => {
+      expect(canTransition(editor, post("DRAFT"), "approve")).toBe(false);
+      expect(canTransition(editor, post("APPROVED"), "approve")).toBe(false);
+    });
+  });
+
+  describe("request_changes", () => {
+    it("lets reviewers reject posts in review or already approved", () => {
+      expect(canTransition(editor, post("IN_REVIEW"), "request_changes")).toBe(true);
+      expect(canTransition(admin, post("APPROVED"), "request_changes")).toBe(true);
+      expect(canTransition(editor, post("DRAFT"), "request_changes")).toBe(false);
+    });
+
+    it("is not open to writers", () => {
+      expect(canTransition(contributor, post("IN_REVIEW"), "request_changes")).toBe(false);
+      expect(canTransition(author, post("APPROVED"), "request_changes")).toBe(false);
+    });
+  });
+
+  it("allows nothing once a post is published", () => {
+    for (const reviewStatus of ["DRAFT", "IN_REVIEW", "APPROVED"] as ReviewStatus[]) {
+      expect(getAvailableActions(admin, post(reviewStatus, { published: true }))).toEqual([]);
+    }
+  });
+
+  it("allows nothing to anonymous visitors and readers", () => {
+    expect(getAvailableActions(null, post("IN_REVIEW"))).toEqual([]);
+    expect(getAvailableActions(as("USER"), post("DRAFT"))).toEqual([]);
+  });
+});
+
+describe("getAvailableActions", () => {
+  it("offers each role the actions it may take", () => {
+    const othersInReview = post("IN_REVIEW", { authorId: "someone-else" });
+    expect(getAvailableActions(contributor, post("DRAFT"))).toEqual(["submit"]);
+    expect(getAvailableActions(contributor, post("IN_REVIEW"))).toEqual(["withdraw"]);
+    expect(getAvailableActions(editor, othersInReview)).toEqual(["approve", "request_changes"]);
+    expect(getAvailableActions(editor, post("IN_REVIEW"))).toEqual(["withdraw", "approve", "request_changes"]);
+  });
+});
+
+describe("canAccessReview", () => {
+  it("opens the review to the post's writers and every reviewer", () => {
+    expect(canAccessReview(contributor, post("IN_REVIEW"))).toBe(true);
+    expect(canAccessReview(editor, post("IN_REVIEW", { authorId: "someone-else" }))).toBe(true);
+    expect(canAccessReview(author, post("IN_REVIEW", { authorId: "someone-else" }))).toBe(false);
+  });
+});
@@ -0,0 +1,116 @@
+import type { Prisma, ReviewStatus } from "@prisma/client";
+import { getPostStatus, livePostWhere, scheduledPostWhere } from "@/lib/posts";
+import { canEditPost, hasPermission, RoleHolder } from "@/lib/permissions";
+
+/**
+ * Editorial workflow
+ *
+ * Posts move draft → in review → approved → published. The review state is
+ * stored in Post.reviewStatus; publishing (and scheduling) stays on
+ * Post.published/scheduledAt, so a published post always reports
+ * "published" whatever its review state.
+ *
+ * Review is required of contributors only. Authors hold "posts:publish" for
+ * their own posts, so they may submit for review but can also publish
+ * straight from a draft - giving a writer the Author role means trusting
+ * them to publish unreviewed. Pure, so the editor can show the
+ * same allowed actions the API enforces (see lib/post-workflow.ts for the
+ * server side).
+ */
+
+export type WorkflowState = "draft" | "in_review" | "approved" | "scheduled" | "published";
+
+export const WORKFLOW_STATES: WorkflowState[] = ["draft", "in_review", "approved", "scheduled", "published"];
+
+export const WORKFLOW_LABELS: Record<WorkflowState, string> = {
+  draft: "Draft",
+  in_review: "In Review",
+  approved: "Approved",
+  scheduled: "Scheduled",
+  published: "Published",
+};
+
+export type WorkflowAction = "submit" | "withdraw" | "approve" | "request_changes";
+
+export const WORKFLOW_ACTIONS: WorkflowAction[] = ["submit", "withdraw", "approve", "request_changes"];
+
+export const WORKFLOW_ACTION_LABELS: Record<WorkflowAction, string> = {
+  submit: "Submit for Review",
+  withdraw: "Withdraw from Review",
+  approve: "Approve",
+  request_changes: "Request Changes",
+};
+
+interface WorkflowPost {
+  authorId: string;
+  published: boolean;
+  scheduledAt: Date | string | null;
+  reviewStatus: ReviewStatus;
+}
+
+export function isWorkflowAction(value: unknown): value is WorkflowAction {
+  return typeof value === "string" && (WORKFLOW_ACTIONS as string[]).includes(value);
+}
+
+export function isWorkflowState(value: unknown): value is WorkflowState {
+  return typeof value === "string" && (WORKFLOW_STATES as string[]).includes(value);
+}
+
+export function getWorkflowState(post: WorkflowPost, now: Date = new Date()): WorkflowState {
+  const status = getPostStatus(post, now);
+  if (status !== "draft") return status;
+  if (post.reviewStatus === "IN_REVIEW") return "in_review";
+  if (post.reviewStatus === "APPROVED") return "approved";
+  return "draft";
+}
+
+/**
+ * Prisma filter for posts in a workflow state
+ */
+export function workflowStateWhere(state: WorkflowState, now: Date = new Date()): Prisma.PostWhereInput {
+  switch (state) {
+    case "published":
+      return livePostWhere(now);
+    case "scheduled":
+      return scheduledPostWhere(now);
+    case "in_review":
+      return { published: false, reviewStatus: "IN_REVIEW" };
+    case "approved":
+      return { published: false, reviewStatus: "APPROVED" };
+    default:
+      return { published: false, reviewStatus: "DRAFT" };
+  }
+}
+
+/**
+ * Whether the user may take a workflow action on the post right now.
+ * Writers submit and withdraw their own posts; reviewers (editors and admins)
+ * approve or send them back.
+ */
+export function canTransition(user: RoleHolder | null | undefined, post: WorkflowPost, action: WorkflowAction): boolean {
+  if (post.published) return false;
+
+  switch (action) {
+    case "submit":
+      return post.reviewStatus === "DRAFT" && canEditPost(user, post);
+    case "withdraw":
+      // Reviewers send a post back with request_changes instead
+      return post.reviewStatus === "IN_REVIEW" && post.authorId === user?.id && canEditPost(user, post);
+    case "approve":
+      return post.reviewStatus === "IN_REVIEW" && hasPermission(user, "posts:review");
+    case "request_changes":
+      return post.reviewStatus !== "DRAFT" && hasPermission(user, "posts:review");
+  }
+}
+
+export function getAvailableActions(user: RoleHolder | null | undefined, post: WorkflowPost): WorkflowAction[] {
+  return WORKFLOW_ACTIONS.filter((action) => canTransition(user, post, action));
+}
+
+/**
+ * Review notes, the activity timeline and reviewer assignment are open to
+ * anyone who can edit the post plus every reviewer
+ */
+export function canAccessReview(user: RoleHolder | null | undefined, post: Pick<WorkflowPost, "authorId" | "published">): boolean {
+  return canEditPost(user, post) || hasPermission(user, "posts:review");
+}
@@ -22,16 +22,32 @@ async function main() {
     { name: "verification_tokens", description: "Magic link tokens" },
     // User table
     { name: "users", description: "User accounts" },
+    { name: "invitations", description: "Pending staff invitations (token hashes)" },
     // Content tables
     { name: "posts", description: "Blog posts" },
+    { name: "post_revisions", description: "Post revision history" },
+    { name: "post_drafts", description: "Autosaved editor drafts" },
+    { name: "review_comments", description: "Editorial review notes" },
+    { name: "post_activities", description: "Post workflow activity" },
     { name: "categories", description: "Post categories" },
+    { name: "series", description: "Multi-part post series" },
     { name: "tags", description: "Post tags" },
     { name: "tags_on_posts", description: "Post-tag relationships" },
     { name: "comments", description: "Post comments" },
     { name: "likes", description: "Post likes" },
+    { name: "media", description: "Uploaded media library" },
+    // Newsletter tables
+    { name: "subscribers", description: "Newsletter subscribers" },
+    { name: "newsletter_sends", description: "Newsletter send log" },
     // Portfolio tables
     { name: "projects", description: "Portfolio projects" },
     { name: "project_categories", description: "Project categories" },
+    // Analytics tables
+    { name: "page_views", description: "Daily view totals" },
+    { name: "reading_stats", description: "Daily scroll depth and reading time" },
+    { name: "analytics_salts", description: "Daily salt for visitor hashes" },
+    // Counted-visitor markers, and rate limit counters with RATE_LIMIT_STORE=postgres
+    { name: "rate_limits", description: "Rate limit and view dedup state" },
     // Settings table
     { name: "site_settings", description: "Site configuration" },
   ];
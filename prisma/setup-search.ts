@@ -0,0 +1,51 @@
+import { PrismaClient } from "@prisma/client";
+
+const prisma = new PrismaClient();
+
+/**
+ * Create the full-text search index for posts
+ *
+ * /api/search builds a weighted tsvector from title, excerpt and HTML-stripped
+ * content at query time (see lib/search.ts). This GIN index is built on the
+ * exact same expression so PostgreSQL can use it instead of scanning every post.
+ *
+ * Projects are not indexed: array_to_string() is not IMMUTABLE, and the
+ * projects table is small enough that a sequential scan is fine.
+ *
+ * Safe to run multiple times - uses CREATE INDEX IF NOT EXISTS.
+ */
+async function main() {
+  console.log("Creating full-text search index...\n");
+
+  const tableExists = await prisma.$queryRawUnsafe<{ exists: boolean }[]>(`
+    SELECT EXISTS (
+      SELECT FROM information_schema.tables
+      WHERE table_schema = 'public'
+      AND table_name = 'posts'
+    );
+  `);
+
+  if (!tableExists[0]?.exists) {
+    console.log("⏭️  posts - table doesn't exist yet (run db:push first)");
+    return;
+  }
+
+  await prisma.$executeRawUnsafe(`
+    CREATE INDEX IF NOT EXISTS posts_search_idx ON public.posts USING GIN ((
+      setweight(to_tsvector('english'::regconfig, coalesce("title", '')), 'A') ||
+      setweight(to_tsvector('english'::regconfig, coalesce("excerpt", '')), 'B') ||
+      setweight(to_tsvector('english'::regconfig, regexp_replace("content", '<[^>]+>', ' ', 'g')), 'C')
+    ));
+  `);
+
+  console.log("✅ posts_search_idx - weighted title/excerpt/content index");
+}
+
+main()
+  .catch((e) => {
+    console.error("Search index setup failed:", e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });